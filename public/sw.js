@@ -0,0 +1,183 @@
+/**
+ * Service worker — app-skal offline, prognoscache och Web Push.
+ *
+ * - App-skalet (index.html + hashade assets) precachas vid install. Listan
+ *   skrivs in vid build (vite.config.ts, swPrecache); i dev är den null.
+ * - Prognos-API:erna går nätet först med timeout och faller tillbaka på
+ *   senaste svar. Sidan får ett meddelande om varifrån svaret kom
+ *   (useNetworkStatus → "Offline — data från HH:mm").
+ * - Background sync `media-upload` ber en öppen flik tömma uppladdningskön
+ *   (uppladdningen kräver Firebase-SDK:t och sker därför i sidan).
+ * - Push: payload { title, body, url, tag } från scripts/evaluatePushAlerts.ts.
+ */
+
+const PRECACHE_MANIFEST = null;
+
+const SHELL_CACHE = `kallifornia-shell-${PRECACHE_MANIFEST ? PRECACHE_MANIFEST.version : 'dev'}`;
+const DATA_CACHE = 'kallifornia-data-v1';
+/** Svagare nät än så räknas som borta — sidans egen timeout är 6 s */
+const NETWORK_TIMEOUT_MS = 4000;
+const CACHED_AT_HEADER = 'x-sw-cached-at';
+
+const FORECAST_ORIGINS = [
+  'https://api.met.no',
+  'https://api.open-meteo.com',
+  'https://ensemble-api.open-meteo.com',
+];
+
+function isForecastRequest(url) {
+  return FORECAST_ORIGINS.includes(url.origin) ||
+    (url.origin === self.location.origin && url.pathname.startsWith('/_proxy/smhi'));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (PRECACHE_MANIFEST
+      ? caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE_MANIFEST.urls))
+      : Promise.resolve()
+    ).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('kallifornia-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request));
+  } else if (isForecastRequest(url)) {
+    event.respondWith(handleForecast(request, event.clientId));
+  }
+});
+
+/** Nätet först så att en ny version syns direkt; annars det cachade skalet */
+async function handleNavigation(request) {
+  try {
+    return await fetchWithTimeout(request);
+  } catch (error) {
+    const cached = await caches.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/** Hashade filnamn ändras aldrig — cachen först */
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+function fetchWithTimeout(request) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('timeout')), NETWORK_TIMEOUT_MS);
+    fetch(request).then(
+      (response) => { clearTimeout(timer); resolve(response); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+async function notifyClient(clientId, message) {
+  const client = clientId ? await self.clients.get(clientId) : null;
+  client?.postMessage(message);
+}
+
+/** Sparar en kopia med tidsstämpel så att sidan kan visa hur gammal den är */
+async function storeForecast(request, response) {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+  const body = await response.blob();
+  const cache = await caches.open(DATA_CACHE);
+  await cache.put(request, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+}
+
+async function handleForecast(request, clientId) {
+  const source = new URL(request.url);
+  const key = source.origin + source.pathname;
+
+  try {
+    const response = await fetchWithTimeout(request);
+    if (response.status === 200) {
+      storeForecast(request, response.clone()).catch(() => {});
+    }
+    notifyClient(clientId, { type: 'forecast-source', key, cachedAt: null });
+    return response;
+  } catch (error) {
+    // ETag-headern (If-None-Match) ska inte hindra träff — URL:en räcker
+    const cached = await caches.match(request.url, { cacheName: DATA_CACHE, ignoreVary: true });
+    if (!cached) throw error;
+    notifyClient(clientId, {
+      type: 'forecast-source',
+      key,
+      cachedAt: Number(cached.headers.get(CACHED_AT_HEADER)) || null,
+    });
+    return cached;
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'media-upload') return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((windows) => {
+      windows.forEach((w) => w.postMessage({ type: 'flush-media-queue' }));
+    })
+  );
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'Surf i Kallsjön';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: '/icon-192.png',
+      badge: '/favicon-32.png',
+      // Samma fönster ersätter en äldre notis i stället för att lägga sig bredvid
+      tag: payload.tag,
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => w.url.startsWith(self.location.origin));
+      if (open) {
+        open.navigate(url);
+        return open.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -12,8 +12,10 @@ import { format, startOfMonth, endOfMonth } from "date-fns";
 import * as dotenv from "dotenv";
 import {
   aggregateWindIntervals,
+  type DailyStatsAggregation,
   type WindInterval,
 } from "../src/utils/dailyStatsAggregation.ts";
+import { getSpot } from "../src/config/spots.ts";
 
 dotenv.config();
 
@@ -58,8 +60,18 @@ interface WindDocument {
   time: Timestamp;
 }
 
+// QC: flaggade intervall (spik, fastfrusen mätare, by < medel) uteslutna i qc.clean.
+// AGGREGATE_EXCLUDE_FLAGGED=false sparar bara flaggorna.
+const excludeFlagged = process.env.AGGREGATE_EXCLUDE_FLAGGED !== "false";
+
+// Spot (src/config/spots.ts): samlingar, dagsljus och vindskala. Standard Kallsjön.
+const spot = getSpot(process.env.AGGREGATE_SPOT);
+const { windCollection, dailyStatsCollection } = spot.station;
+
 const migrationStats = {
   gustOnlySurfableDays: 0,
+  qcFlaggedDays: 0,
+  qcFalseSurfableDays: [] as string[],
   oldestCompleteDate: null as string | null,
   gapExampleDays: [] as Array<{ date: string; surfableMinutes: number; spanMinutes: number }>,
 };
@@ -73,8 +85,52 @@ function toWindIntervals(dayData: WindDocument[]): WindInterval[] {
   }));
 }
 
+function toFirestoreTimes(stats: DailyStatsAggregation) {
+  return {
+    maxForceTime: Timestamp.fromDate(stats.maxForceTime),
+    maxGustTime: Timestamp.fromDate(stats.maxGustTime),
+    windowFrom: stats.windowFrom ? Timestamp.fromDate(stats.windowFrom) : null,
+    windowTo: stats.windowTo ? Timestamp.fromDate(stats.windowTo) : null,
+  };
+}
+
+/**
+ * Dokumentets huvudfält är alltid rådata (så att isSurfableDay-frågan täcker
+ * båda lägena); qc.clean har samma fält med flaggade intervall uteslutna.
+ */
+function toFirestoreQc(stats: DailyStatsAggregation, clean: DailyStatsAggregation | null) {
+  let cleanFields: Record<string, unknown> | null = null;
+  if (clean) {
+    cleanFields = { ...clean, ...toFirestoreTimes(clean) };
+    // Dag och QC finns redan på dokumentet
+    ["date", "year", "month", "qc"].forEach((key) => delete cleanFields?.[key]);
+  }
+  return {
+    periods: stats.qc.periods.map((period) => ({
+      flag: period.flag,
+      from: Timestamp.fromDate(period.from),
+      to: Timestamp.fromDate(period.to),
+      count: period.count,
+    })),
+    flaggedCount: stats.qc.flaggedCount,
+    clean: cleanFields,
+  };
+}
+
 function aggregateDayData(dayData: WindDocument[], dateStr: string) {
-  const stats = aggregateWindIntervals(toWindIntervals(dayData), dateStr);
+  const intervals = toWindIntervals(dayData);
+  const stats = aggregateWindIntervals(intervals, dateStr, { spot });
+  const clean =
+    excludeFlagged && stats.qc.flaggedCount > 0
+      ? aggregateWindIntervals(intervals, dateStr, { excludeFlagged: true, spot })
+      : null;
+
+  if (stats.qc.flaggedCount > 0) {
+    migrationStats.qcFlaggedDays++;
+  }
+  if (clean && stats.isSurfableDay && !clean.isSurfableDay && migrationStats.qcFalseSurfableDays.length < 10) {
+    migrationStats.qcFalseSurfableDays.push(dateStr);
+  }
 
   if (stats.isSurfableDay && !stats.hasStrongWind) {
     migrationStats.gustOnlySurfableDays++;
@@ -102,10 +158,9 @@ function aggregateDayData(dayData: WindDocument[], dateStr: string) {
 
   return {
     ...stats,
-    maxForceTime: Timestamp.fromDate(stats.maxForceTime),
-    maxGustTime: Timestamp.fromDate(stats.maxGustTime),
-    windowFrom: stats.windowFrom ? Timestamp.fromDate(stats.windowFrom) : null,
-    windowTo: stats.windowTo ? Timestamp.fromDate(stats.windowTo) : null,
+    ...toFirestoreTimes(stats),
+    qc: toFirestoreQc(stats, clean),
+    hasQcFlags: stats.qc.flaggedCount > 0,
     createdAt: Timestamp.now(),
     updatedAt: Timestamp.now(),
   };
@@ -118,7 +173,7 @@ async function processMonth(year: number, month: number): Promise<number> {
   console.log(`Processing ${format(monthStart, "yyyy-MM")}...`);
 
   const snapshot = await db
-    .collection("wind")
+    .collection(windCollection)
     .where("time", ">=", Timestamp.fromDate(monthStart))
     .where("time", "<=", Timestamp.fromDate(monthEnd))
     .orderBy("time", "asc")
@@ -150,7 +205,7 @@ async function processMonth(year: number, month: number): Promise<number> {
 
   dayGroups.forEach((dayData, dateStr) => {
     const stats = aggregateDayData(dayData, dateStr);
-    batch.set(db.collection("dailyStats").doc(dateStr), stats);
+    batch.set(db.collection(dailyStatsCollection).doc(dateStr), stats);
     writeCount++;
   });
 
@@ -162,7 +217,7 @@ async function processMonth(year: number, month: number): Promise<number> {
 
 async function verifyOldestWindDocument() {
   try {
-    const snapshot = await db.collection("wind").orderBy("time", "asc").limit(1).get();
+    const snapshot = await db.collection(windCollection).orderBy("time", "asc").limit(1).get();
     if (snapshot.empty) {
       console.log("  Äldsta wind-dokument: inget hittat");
       return;
@@ -186,6 +241,7 @@ async function migrateHistoricalData() {
   console.log("=".repeat(60));
   console.log("Daily Stats Migration Script (Admin SDK)");
   console.log("=".repeat(60));
+  console.log(`Spot: ${spot.name} (${windCollection} → ${dailyStatsCollection})`);
   console.log("");
 
   console.log("Verifierar äldsta wind-dokument...");
@@ -237,6 +293,14 @@ async function migrateHistoricalData() {
     } else {
       console.log("  (Inga hål-exempel hittades i urvalet — OK om datan är sammanhängande)");
     }
+    console.log("");
+    console.log(`── QC (${excludeFlagged ? "flaggade intervall uteslutna i qc.clean" : "bara flaggor"}) ──`);
+    console.log(`  Dagar med flaggade intervall: ${migrationStats.qcFlaggedDays}`);
+    if (migrationStats.qcFalseSurfableDays.length > 0) {
+      console.log(
+        `  Surfbara bara p.g.a. flaggade värden (urval): ${migrationStats.qcFalseSurfableDays.join(", ")}`
+      );
+    }
     console.log("=".repeat(60));
   } catch (error) {
     console.error("");
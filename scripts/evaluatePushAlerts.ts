@@ -0,0 +1,258 @@
+/**
+ * Push-larm: utvärderar alla prenumerationers regler och skickar Web Push.
+ * Körs schemalagt (t.ex. var 30:e minut) — kräver .env + service account
+ * (samma som aggregate:historical) samt VAPID-nycklar:
+ *
+ *   VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT (mailto:…)
+ *
+ * Egna regler följer med prenumerationen (`customRules`) och utvärderas mot
+ * samma consensus, stationens senaste 12 h och — om någon regel kräver det —
+ * ensemblens sannolikhet.
+ *
+ * Varje skickat larm sparas i `alertDeliveries` (id = prenumeration + dedupe-nyckel)
+ * så att samma fönster inte annonseras igen vid nästa prognosuppdatering.
+ * PUSH_DRY_RUN=true skriver ut larmen utan att skicka eller spara.
+ */
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+  initializeApp,
+  cert,
+  applicationDefault,
+  getApps,
+  type ServiceAccount,
+} from "firebase-admin/app";
+import { getFirestore, Timestamp, type Firestore } from "firebase-admin/firestore";
+import webpush, { WebPushError, type PushSubscription } from "web-push";
+import * as dotenv from "dotenv";
+import { fetchConsensus } from "./fetchConsensus.ts";
+import { ENSEMBLE_MODELS, fetchOpenMeteoEnsemble } from "../src/api/openMeteoEnsemble.ts";
+import { parseAlertRules, samplesFromWindPoints, type AlertSample } from "../src/utils/alertRules.ts";
+import { hourlySurfableProbability, type HourlyProbability } from "../src/utils/ensembleProbability.ts";
+import { isDaylightAt } from "../src/utils/daylightCalculations.ts";
+import {
+  alertDeliveryId,
+  evaluatePushRules,
+  type PushAlert,
+  type PushEvaluationInput,
+  type StationReading,
+} from "../src/utils/pushAlertEvaluator.ts";
+import { getSpot, type SpotConfig } from "../src/config/spots.ts";
+import {
+  ALERT_DELIVERIES_COLLECTION,
+  ALERT_DELIVERY_TTL_MS,
+  PUSH_SUBSCRIPTIONS_COLLECTION,
+  STATION_HISTORY_HOURS,
+} from "../src/config/pushAlerts.ts";
+
+dotenv.config();
+
+// Fönster och dagnamn i notiserna ska vara svensk tid även på en server i UTC
+process.env.TZ ||= "Europe/Stockholm";
+
+const dryRun = process.env.PUSH_DRY_RUN === "true";
+
+function initFirestore(): Firestore {
+  if (getApps().length > 0) {
+    return getFirestore();
+  }
+
+  const projectId = process.env.VITE_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error("VITE_FIREBASE_PROJECT_ID saknas i .env");
+  }
+
+  const credentialsPath =
+    process.env.GOOGLE_APPLICATION_CREDENTIALS ||
+    process.env.FIREBASE_SERVICE_ACCOUNT;
+
+  if (credentialsPath) {
+    const serviceAccount = JSON.parse(
+      readFileSync(resolve(credentialsPath), "utf8")
+    ) as ServiceAccount;
+    initializeApp({
+      credential: cert(serviceAccount),
+      projectId,
+    });
+  } else {
+    initializeApp({
+      credential: applicationDefault(),
+      projectId,
+    });
+  }
+
+  return getFirestore();
+}
+
+function initWebPush(): void {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY || !VAPID_SUBJECT) {
+    throw new Error("VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY och VAPID_SUBJECT krävs i .env");
+  }
+  webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+}
+
+interface SubscriptionDocument {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  /** Regel-id per spot-id */
+  rules: Record<string, string[]>;
+  /** Egna regler (utils/alertRules.ts) som id:na kan peka på */
+  customRules?: unknown;
+}
+
+/** Ensemblens sannolikhet per timme — bara när någon egen regel frågar efter den */
+async function fetchProbabilities(spot: SpotConfig): Promise<HourlyProbability[]> {
+  const results = await Promise.allSettled(
+    ENSEMBLE_MODELS.map((model) => fetchOpenMeteoEnsemble(spot.lat, spot.lon, model))
+  );
+  const members = results.flatMap((result) => (result.status === "fulfilled" ? result.value : []));
+  console.log(`  ${members.length} ensemblemedlemmar`);
+  return hourlySurfableProbability(members, spot.windScale);
+}
+
+/** Stationens senaste timmar, äldst först */
+async function fetchStationHistory(db: Firestore, spot: SpotConfig, now: Date): Promise<AlertSample[]> {
+  const since = new Date(now.getTime() - STATION_HISTORY_HOURS * 60 * 60 * 1000);
+  const snapshot = await db
+    .collection(spot.station.windCollection)
+    .where("time", ">=", Timestamp.fromDate(since))
+    .orderBy("time", "asc")
+    .get();
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    const force = data.force || 0;
+    const time = (data.time as Timestamp).toDate();
+    return {
+      time,
+      avg: force,
+      gust: data.forceMax ?? force,
+      dir: typeof data.direction === "number" ? data.direction : null,
+      isDaylight: isDaylightAt(time, spot),
+    };
+  });
+}
+
+function latestReading(observed: AlertSample[]): StationReading | null {
+  const latest = observed[observed.length - 1];
+  return latest ? { avg: latest.avg, gust: latest.gust, dir: latest.dir, time: latest.time } : null;
+}
+
+async function deliver(
+  db: Firestore,
+  subscriptionId: string,
+  subscription: SubscriptionDocument,
+  alert: PushAlert,
+  now: Date
+): Promise<"sent" | "skipped" | "expired"> {
+  const deliveryRef = db.collection(ALERT_DELIVERIES_COLLECTION).doc(alertDeliveryId(subscriptionId, alert));
+  if ((await deliveryRef.get()).exists) return "skipped";
+
+  if (dryRun) {
+    console.log(`  [dry run] ${subscriptionId}: ${alert.title} — ${alert.body}`);
+    return "sent";
+  }
+
+  const payload = JSON.stringify({ title: alert.title, body: alert.body, url: alert.url, tag: alert.dedupeKey });
+  try {
+    await webpush.sendNotification(subscription as PushSubscription, payload);
+  } catch (error) {
+    // 404/410: webbläsaren har avregistrerat prenumerationen
+    if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+      return "expired";
+    }
+    throw error;
+  }
+
+  await deliveryRef.set({
+    subscriptionId,
+    ruleId: alert.ruleId,
+    spotId: alert.spotId,
+    dedupeKey: alert.dedupeKey,
+    sentAt: Timestamp.fromDate(now),
+    expiresAt: Timestamp.fromMillis(now.getTime() + ALERT_DELIVERY_TTL_MS),
+  });
+  return "sent";
+}
+
+async function evaluatePushAlerts() {
+  console.log("=".repeat(60));
+  console.log(`Push-larm${dryRun ? " (dry run)" : ""}`);
+  console.log("=".repeat(60));
+
+  try {
+    const db = initFirestore();
+    if (!dryRun) initWebPush();
+    const now = new Date();
+
+    const subscriptions = await db.collection(PUSH_SUBSCRIPTIONS_COLLECTION).get();
+    const docs = subscriptions.docs.map((d) => {
+      const data = d.data() as SubscriptionDocument;
+      return { id: d.id, data, customRules: parseAlertRules(data.customRules) };
+    });
+    const spotIds = [...new Set(docs.flatMap((d) => Object.keys(d.data.rules ?? {})))];
+    console.log(`${docs.length} prenumerationer, ${spotIds.length} spots`);
+
+    const needsProbability = docs.some((d) =>
+      d.customRules.some((rule) => rule.conditions.some((c) => c.metric === "probability"))
+    );
+
+    // Prognos och station hämtas en gång per spot, inte per prenumeration
+    const inputs = new Map<string, PushEvaluationInput>();
+    for (const spotId of spotIds) {
+      const spot = getSpot(spotId);
+      console.log(`${spot.name}:`);
+      const [consensus, observed, probabilities] = await Promise.all([
+        fetchConsensus(spot),
+        fetchStationHistory(db, spot, now),
+        needsProbability ? fetchProbabilities(spot) : Promise.resolve([]),
+      ]);
+      inputs.set(spotId, {
+        spot,
+        consensus: samplesFromWindPoints(consensus, spot, probabilities),
+        station: latestReading(observed),
+        observed,
+        now,
+      });
+    }
+
+    const counts = { sent: 0, skipped: 0, expired: 0, failed: 0 };
+    for (const { id, data, customRules } of docs) {
+      let expired = false;
+      for (const [spotId, ruleIds] of Object.entries(data.rules ?? {})) {
+        const input = inputs.get(spotId);
+        if (!input || expired) continue;
+        for (const alert of evaluatePushRules(ruleIds, input, customRules)) {
+          try {
+            const result = await deliver(db, id, data, alert, now);
+            counts[result]++;
+            if (result === "expired") {
+              expired = true;
+              break;
+            }
+          } catch (error) {
+            counts.failed++;
+            console.error(`  ✗ ${id}: ${error}`);
+          }
+        }
+      }
+      if (expired && !dryRun) {
+        await db.collection(PUSH_SUBSCRIPTIONS_COLLECTION).doc(id).delete();
+      }
+    }
+
+    console.log("");
+    console.log(
+      `✓ Skickade ${counts.sent}, redan skickade ${counts.skipped}, utgångna ${counts.expired}, fel ${counts.failed}`
+    );
+    console.log("=".repeat(60));
+  } catch (error) {
+    console.error("");
+    console.error("✗ Push-larm misslyckades:", error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+evaluatePushAlerts();
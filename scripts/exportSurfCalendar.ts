@@ -0,0 +1,116 @@
+/**
+ * Kalenderflöde: surffönster per spot som .ics i Firebase Storage
+ * (`calendar/<spot>.ics`), samma fönster som "Ladda ner .ics" i appen men
+ * alltid med sjöns skala. Körs schemalagt, t.ex. varje timme — kräver .env
+ * + service account (samma som aggregate:historical) och
+ * VITE_FIREBASE_STORAGE_BUCKET.
+ *
+ * Storage-reglerna måste tillåta läsning av `calendar/` för alla, annars kan
+ * kalenderappar inte hämta flödet. CALENDAR_OUT_DIR=./tmp skriver filerna
+ * lokalt i stället för att ladda upp.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+  initializeApp,
+  cert,
+  applicationDefault,
+  getApps,
+  type ServiceAccount,
+} from "firebase-admin/app";
+import { getStorage } from "firebase-admin/storage";
+import * as dotenv from "dotenv";
+import { fetchConsensus } from "./fetchConsensus.ts";
+import { samplesFromWindPoints } from "../src/utils/alertRules.ts";
+import { buildIcsCalendar, calendarStoragePath, findSurfWindowEvents } from "../src/utils/icsCalendar.ts";
+import { SPOTS } from "../src/config/spots.ts";
+
+dotenv.config();
+
+// Fönstren ska följa svensk tid även på en server i UTC
+process.env.TZ ||= "Europe/Stockholm";
+
+const outDir = process.env.CALENDAR_OUT_DIR;
+
+function initFirebase(): void {
+  if (getApps().length > 0) {
+    return;
+  }
+
+  const projectId = process.env.VITE_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error("VITE_FIREBASE_PROJECT_ID saknas i .env");
+  }
+
+  const credentialsPath =
+    process.env.GOOGLE_APPLICATION_CREDENTIALS ||
+    process.env.FIREBASE_SERVICE_ACCOUNT;
+
+  if (credentialsPath) {
+    const serviceAccount = JSON.parse(
+      readFileSync(resolve(credentialsPath), "utf8")
+    ) as ServiceAccount;
+    initializeApp({
+      credential: cert(serviceAccount),
+      projectId,
+    });
+  } else {
+    initializeApp({
+      credential: applicationDefault(),
+      projectId,
+    });
+  }
+}
+
+async function exportSurfCalendar() {
+  console.log("=".repeat(60));
+  console.log(`Kalenderflöde${outDir ? ` → ${outDir}` : ""}`);
+  console.log("=".repeat(60));
+
+  try {
+    const bucketName = process.env.VITE_FIREBASE_STORAGE_BUCKET;
+    if (!outDir) {
+      if (!bucketName) {
+        throw new Error("VITE_FIREBASE_STORAGE_BUCKET saknas i .env");
+      }
+      initFirebase();
+    } else {
+      mkdirSync(resolve(outDir), { recursive: true });
+    }
+
+    for (const spot of SPOTS) {
+      console.log(`${spot.name}:`);
+      const now = new Date();
+      const consensus = await fetchConsensus(spot);
+      if (consensus.length === 0) {
+        // Hellre ett gammalt flöde än ett tomt när prognoskällorna är nere
+        console.log("  ✗ Ingen prognos — flödet lämnas orört");
+        continue;
+      }
+
+      const events = findSurfWindowEvents(samplesFromWindPoints(consensus, spot), spot, spot.windScale, now);
+      const ics = buildIcsCalendar(events, `Surf ${spot.name}`, now);
+      const path = calendarStoragePath(spot.id);
+
+      if (outDir) {
+        writeFileSync(resolve(outDir, `${spot.id}.ics`), ics);
+      } else {
+        await getStorage().bucket(bucketName).file(path).save(ics, {
+          contentType: "text/calendar; charset=utf-8",
+          metadata: { cacheControl: "public, max-age=900" },
+        });
+      }
+      console.log(`  ✓ ${events.length} fönster → ${path}`);
+    }
+
+    console.log("=".repeat(60));
+  } catch (error) {
+    console.error("");
+    console.error("✗ Kalenderflödet misslyckades:", error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+exportSurfCalendar();
@@ -0,0 +1,25 @@
+/**
+ * Delad av Node-skripten (push-larm, kalenderflöde): hämtar Läget-modellerna
+ * för ett spot och räknar consensus som appen gör.
+ */
+import "./registerAdapters.ts";
+import { fetchFromProvider, getForecastProviders, getSupersededModels } from "../src/api/forecastProviders.ts";
+import { calculateConsensus, withoutSupersededHours } from "../src/utils/consensusEngine.ts";
+import type { WindPoint } from "../src/types/WindData.ts";
+import type { SpotConfig } from "../src/config/spots.ts";
+
+/** Consensus av Läget-modellerna — samma som appen visar, utan enhetens skill-vikter */
+export async function fetchConsensus(spot: SpotConfig) {
+  const providers = getForecastProviders({ timeline: true }).filter((p) => p.availableInProd);
+  const results = await Promise.allSettled(
+    providers.map((provider) =>
+      fetchFromProvider(provider, { lat: spot.lat, lon: spot.lon, altitude: spot.altitude, etag: null })
+    )
+  );
+  const data: Record<string, WindPoint[]> = {};
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled" && result.value.data.length > 0) data[providers[i].id] = result.value.data;
+  });
+  console.log(`  ${Object.keys(data).length}/${providers.length} modeller`);
+  return calculateConsensus(withoutSupersededHours(data, getSupersededModels()));
+}
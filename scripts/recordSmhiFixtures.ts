@@ -0,0 +1,20 @@
+/**
+ * Spelar in SMHI-svar för alla spots till scripts/fixtures/smhi — samma
+ * filer som SMHI_PROXY_MODE=record skriver. Kräver nät mot SMHI.
+ * Koordinaterna formateras som i smhiAdapter så att replay hittar filerna.
+ */
+import { SPOTS } from "../src/config/spots.ts";
+import { recordSmhiFixture } from "./smhiProxy.ts";
+
+let failed = 0;
+for (const spot of SPOTS) {
+  try {
+    const file = await recordSmhiFixture(String(spot.lon), String(spot.lat));
+    console.log(`${spot.name}: ${file}`);
+  } catch (error) {
+    failed++;
+    console.error(`${spot.name}: inspelningen misslyckades`, error);
+  }
+}
+
+if (failed > 0) process.exit(1);
@@ -0,0 +1,15 @@
+/**
+ * Node-motsvarigheten till src/api/registerAdapters.ts (import.meta.glob finns
+ * bara i Vite): importerar alla `src/api/*Adapter.ts` så att de registrerar
+ * sig i providerregistret. Ny källa = ny adapterfil — inget att ändra här.
+ */
+import { readdirSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const API_DIR = new URL("../src/api/", import.meta.url);
+
+const adapterFiles = readdirSync(fileURLToPath(API_DIR))
+  .filter((file) => file.endsWith("Adapter.ts"))
+  .sort();
+
+await Promise.all(adapterFiles.map((file) => import(new URL(file, API_DIR).href)));
@@ -0,0 +1,222 @@
+/**
+ * Same-origin-proxy för SMHI:s punktprognos (SMHI saknar CORS-huvuden).
+ *
+ * En Node-handler (req, res) som fungerar överallt där Node-http gäller:
+ * - prod: Firebase HTTP-funktion bakom Hosting-rewriten `/_proxy/smhi/**`
+ * - dev: Vite-middleware (se vite.config.ts)
+ *
+ * Lägen (SMHI_PROXY_MODE):
+ * - live   — hämtar från SMHI, cachar i minnet och revaliderar med ETag
+ * - record — som live, men sparar varje svar som fixture
+ * - replay — svarar från fixtures utan nätverk; tiderna flyttas fram så att
+ *            prognosen alltid börjar "nu"
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+export type SmhiProxyMode = "live" | "record" | "replay";
+
+export interface SmhiProxyOptions {
+  mode?: SmhiProxyMode;
+  /** Katalog för inspelade svar (record/replay) */
+  fixturesDir?: string;
+  /** Hur länge ett svar serveras utan att fråga SMHI (ms) */
+  cacheTtlMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+interface CachedResponse {
+  body: string;
+  etag: string | null;
+  fetchedAt: number;
+}
+
+interface Fixture {
+  recordedAt: string;
+  etag: string | null;
+  /** true = genererad, inte inspelad från SMHI */
+  synthetic?: boolean;
+  /** Fritext — varför fixturen ser ut som den gör */
+  note?: string;
+  body: unknown;
+}
+
+const SMHI_ORIGIN = "https://opendata-download-metfcst.smhi.se";
+const PROXY_PREFIX = "/_proxy/smhi";
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Bara punktprognosen — proxyn ska inte vara en öppen relä mot SMHI */
+const ALLOWED_PATH =
+  /^\/api\/category\/pmp3g\/version\/2\/geotype\/point\/lon\/(-?\d+(?:\.\d+)?)\/lat\/(-?\d+(?:\.\d+)?)\/data\.json$/;
+
+export const DEFAULT_FIXTURES_DIR = resolve(process.cwd(), "scripts/fixtures/smhi");
+
+function fixturePath(dir: string, lon: string, lat: string): string {
+  return resolve(dir, `${lon}_${lat}.json`);
+}
+
+/** Flyttar alla ISO-tider i svaret med hela timmar (replay ska se färskt ut) */
+export function shiftSmhiTimes(body: unknown, shiftMs: number): unknown {
+  const json = JSON.stringify(body);
+  const shifted = json.replace(/"(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z)"/g, (_, iso: string) => {
+    const t = Date.parse(iso) + shiftMs;
+    return `"${new Date(t).toISOString().replace(".000Z", "Z")}"`;
+  });
+  return JSON.parse(shifted);
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  body: string | null,
+  headers: Record<string, string | null>
+): void {
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value != null) res.setHeader(name, value);
+  });
+  res.statusCode = status;
+  res.end(body ?? undefined);
+}
+
+function writeFixture(dir: string, lon: string, lat: string, entry: CachedResponse): string {
+  mkdirSync(dir, { recursive: true });
+  const fixture: Fixture = {
+    recordedAt: new Date(entry.fetchedAt).toISOString(),
+    etag: entry.etag,
+    body: JSON.parse(entry.body),
+  };
+  const file = fixturePath(dir, lon, lat);
+  writeFileSync(file, JSON.stringify(fixture, null, 2));
+  console.log(`SMHI proxy: recorded ${lon}_${lat}`);
+  return file;
+}
+
+/** Spelar in en punkt direkt från SMHI, utan dev-server (npm run smhi:record) */
+export async function recordSmhiFixture(
+  lon: string,
+  lat: string,
+  options: Pick<SmhiProxyOptions, "fixturesDir" | "fetchImpl"> = {}
+): Promise<string> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const upstream = await fetchImpl(
+    `${SMHI_ORIGIN}/api/category/pmp3g/version/2/geotype/point/lon/${lon}/lat/${lat}/data.json`
+  );
+  if (!upstream.ok) {
+    throw new Error(`SMHI responded ${upstream.status}`);
+  }
+  const entry: CachedResponse = {
+    body: await upstream.text(),
+    etag: upstream.headers.get("etag"),
+    fetchedAt: Date.now(),
+  };
+  return writeFixture(options.fixturesDir ?? DEFAULT_FIXTURES_DIR, lon, lat, entry);
+}
+
+export function createSmhiProxyHandler(options: SmhiProxyOptions = {}) {
+  const mode = options.mode ?? "live";
+  const fixturesDir = options.fixturesDir ?? DEFAULT_FIXTURES_DIR;
+  const cacheTtlMs = options.cacheTtlMs ?? 10 * 60 * 1000;
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const cache = new Map<string, CachedResponse>();
+
+  const respond = (req: IncomingMessage, res: ServerResponse, entry: CachedResponse, source: string) => {
+    const headers = {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "public, max-age=300",
+      ETag: entry.etag,
+      "X-Smhi-Proxy": source,
+    };
+    if (entry.etag && req.headers["if-none-match"] === entry.etag) {
+      send(res, 304, null, headers);
+      return;
+    }
+    send(res, 200, entry.body, headers);
+  };
+
+  const replay = (lon: string, lat: string): (CachedResponse & { synthetic: boolean }) | null => {
+    const file = fixturePath(fixturesDir, lon, lat);
+    if (!existsSync(file)) return null;
+    const fixture = JSON.parse(readFileSync(file, "utf8")) as Fixture;
+    if (fixture.synthetic) {
+      console.warn(`SMHI proxy: ${lon}_${lat} is a synthetic placeholder, not recorded from SMHI`);
+    }
+    const age = Date.now() - Date.parse(fixture.recordedAt);
+    const shiftMs = Math.max(0, Math.floor(age / HOUR_MS)) * HOUR_MS;
+    const body = JSON.stringify(shiftSmhiTimes(fixture.body, shiftMs));
+    // ETag följer förskjutningen — ny timme = nytt svar
+    return { body, etag: `"replay-${shiftMs / HOUR_MS}"`, fetchedAt: Date.now(), synthetic: fixture.synthetic === true };
+  };
+
+  return async function smhiProxy(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      send(res, 405, JSON.stringify({ error: "Method not allowed" }), { Allow: "GET, HEAD" });
+      return;
+    }
+
+    // Vite-middleware monterad på prefixet får url utan det; funktionen får hela
+    const path = (req.url ?? "").split("?")[0].replace(PROXY_PREFIX, "");
+    const match = ALLOWED_PATH.exec(path);
+    if (!match) {
+      send(res, 404, JSON.stringify({ error: "Unknown SMHI path" }), { "Content-Type": "application/json" });
+      return;
+    }
+    const [, lon, lat] = match;
+
+    if (mode === "replay") {
+      const entry = replay(lon, lat);
+      if (!entry) {
+        send(res, 404, JSON.stringify({ error: `No fixture for ${lon}_${lat} — record one with SMHI_PROXY_MODE=record` }), {
+          "Content-Type": "application/json",
+        });
+        return;
+      }
+      respond(req, res, entry, entry.synthetic ? "replay-synthetic" : "replay");
+      return;
+    }
+
+    const cached = cache.get(path);
+    if (cached && Date.now() - cached.fetchedAt < cacheTtlMs) {
+      respond(req, res, cached, "hit");
+      return;
+    }
+
+    try {
+      const upstream = await fetchImpl(`${SMHI_ORIGIN}${path}`, {
+        headers: cached?.etag ? { "If-None-Match": cached.etag } : {},
+      });
+
+      if (upstream.status === 304 && cached) {
+        cached.fetchedAt = Date.now();
+        respond(req, res, cached, "revalidated");
+        return;
+      }
+
+      if (!upstream.ok) {
+        throw new Error(`SMHI responded ${upstream.status}`);
+      }
+
+      const entry: CachedResponse = {
+        body: await upstream.text(),
+        etag: upstream.headers.get("etag"),
+        fetchedAt: Date.now(),
+      };
+      cache.set(path, entry);
+      if (mode === "record") writeFixture(fixturesDir, lon, lat, entry);
+      respond(req, res, entry, "miss");
+    } catch (error) {
+      // Hellre en gammal prognos än ingen — klienten faller annars tillbaka på sin cache
+      if (cached) {
+        console.warn("SMHI proxy: upstream failed, serving stale", error);
+        respond(req, res, cached, "stale");
+        return;
+      }
+      console.error("SMHI proxy: upstream failed", error);
+      send(res, 502, JSON.stringify({ error: "SMHI unavailable" }), { "Content-Type": "application/json" });
+    }
+  };
+}
+
+export function resolveSmhiProxyMode(value: string | undefined): SmhiProxyMode {
+  return value === "record" || value === "replay" ? value : "live";
+}
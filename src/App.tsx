@@ -1,5 +1,9 @@
 import { BrowserRouter as Router, Routes, Route, useLocation } from "react-router-dom";
 import { Suspense, lazy, useEffect } from "react";
+import { SpotProvider, useSpot } from "./hooks/useSpot";
+import { WindProfilesProvider } from "./hooks/useWindProfiles";
+import { AlertRulesProvider } from "./hooks/useAlertRules";
+import { PreferencesProvider } from "./hooks/usePreferences";
 
 const KallsurfHome = lazy(() => import("./pages/KallsurfHome"));
 
@@ -14,6 +18,12 @@ function RouteFallback() {
   );
 }
 
+/** Nytt spot = ny montering: alla hooks börjar om med spotets samlingar och koordinater */
+function SpotHome() {
+  const { spot } = useSpot();
+  return <KallsurfHome key={spot.id} />;
+}
+
 function AppContent() {
   const location = useLocation();
 
@@ -27,8 +37,8 @@ function AppContent() {
     <div className="h-full bg-app-bg">
       <Suspense fallback={<RouteFallback />}>
         <Routes>
-          <Route path="/" element={<KallsurfHome />} />
-          <Route path="*" element={<KallsurfHome />} />
+          <Route path="/" element={<SpotHome />} />
+          <Route path="*" element={<SpotHome />} />
         </Routes>
       </Suspense>
     </div>
@@ -38,7 +48,15 @@ function AppContent() {
 function App() {
   return (
     <Router>
-      <AppContent />
+      <PreferencesProvider>
+        <SpotProvider>
+          <WindProfilesProvider>
+            <AlertRulesProvider>
+              <AppContent />
+            </AlertRulesProvider>
+          </WindProfilesProvider>
+        </SpotProvider>
+      </PreferencesProvider>
     </Router>
   );
 }
@@ -0,0 +1,29 @@
+import { QueryDefinition } from '../utils/queryCache';
+import type { EnsembleMember } from '../utils/ensembleProbability';
+import { ENSEMBLE_MODELS, fetchOpenMeteoEnsemble } from './openMeteoEnsemble';
+
+/** Ensemblerna körs var 6:e–12:e timme — en timme räcker gott */
+const ENSEMBLE_STALE_MS = 60 * 60 * 1000;
+
+/**
+ * Alla ensemblemedlemmar för en plats i den delade query-cachen — Läget och
+ * Prognos-fliken delar hämtningen, och "Hämta om" (taggen `forecast`) når
+ * även ensemblen. Bara i minnet: för stort att spara per hämtning.
+ */
+export function ensembleQuery(lat: number, lon: number): QueryDefinition<EnsembleMember[]> {
+  return {
+    key: `ensemble:${lat}:${lon}`,
+    staleTime: ENSEMBLE_STALE_MS,
+    tags: ['forecast', 'forecast:ensemble'],
+    // En modell som fallerar ska inte fälla den andra
+    fetcher: async () => {
+      const results = await Promise.allSettled(ENSEMBLE_MODELS.map(model => fetchOpenMeteoEnsemble(lat, lon, model)));
+      const members = results.flatMap(r => (r.status === 'fulfilled' ? r.value : []));
+      if (members.length === 0) {
+        const reason = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')?.reason;
+        throw reason instanceof Error ? reason : new Error('Ingen ensembledata');
+      }
+      return members;
+    },
+  };
+}
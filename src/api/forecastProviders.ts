@@ -0,0 +1,133 @@
+import { WindPoint, ForecastModel, ForecastModelId } from '../types/WindData';
+import { resampleToHourly } from '../utils/timeUtils';
+import { FORECAST_MODELS } from '../config/constants';
+
+/**
+ * Register över prognoskällor. Varje adapter (`src/api/*Adapter.ts`)
+ * registrerar sig själv; hooks itererar registret i stället för att känna
+ * till enskilda källor. Ny modell = ny adapterfil (laddas via registerAdapters.ts).
+ */
+
+export interface ForecastFetchContext {
+  lat: number;
+  lon: number;
+  /** Meter över havet — används av källor som höjdjusterar (MET) */
+  altitude: number;
+  /** Senast kända ETag, bara för källor med `supportsETag` */
+  etag: string | null;
+}
+
+export interface ForecastFetchResult {
+  data: WindPoint[];
+  etag: string | null;
+  /** 304 Not Modified — använd cachad data */
+  notModified?: boolean;
+}
+
+export interface ForecastProvider {
+  id: ForecastModelId;
+  name: string;
+  /** Linjefärg/markering i grafer */
+  color: string;
+  attribution: string;
+  license: string;
+  /** Skickar If-None-Match och kan svara 304 */
+  supportsETag: boolean;
+  /** Källan levererar inte heltimmar — resamplas centralt efter hämtning */
+  resample: boolean;
+  /** Visningsordning (matris) och fallback-ordning (Läget), lägst först */
+  order: number;
+  /** Längsta prognoshorisont i timmar — data bortom klipps, raden slutar där */
+  maxHorizonHours: number;
+  /** Ingår i Läget-prognosen och dess consensus */
+  inTimeline: boolean;
+  /** false = bara i dev (t.ex. CORS-blockerad i webbläsaren) */
+  availableInProd: boolean;
+  /** Korttidsprognos i minutupplösning — hålls utanför matris och consensus */
+  nowcast?: boolean;
+  /**
+   * Källa vars första timmar är samma modelldata (MEPS i MET Norway) — där
+   * båda har en punkt räknas bara denna i consensus
+   */
+  supersedes?: ForecastModelId;
+  fetch: (ctx: ForecastFetchContext) => Promise<ForecastFetchResult>;
+}
+
+const registry = new Map<ForecastModelId, ForecastProvider>();
+
+// import.meta.env finns inte när adaptrar körs från Node-skript (tsx)
+const IS_PROD = import.meta.env?.PROD ?? false;
+
+export function registerForecastProvider(provider: ForecastProvider): void {
+  if (registry.has(provider.id)) {
+    console.warn(`Forecast provider ${provider.id} registered twice — replacing`);
+  }
+  registry.set(provider.id, provider);
+}
+
+interface ProviderFilter {
+  /** Bara källor som ingår i Läget */
+  timeline?: boolean;
+  /** Ta med källor som inte är tillgängliga i prod (default: bara i dev) */
+  includeUnavailable?: boolean;
+  /** true = bara nowcast-källor (default: bara vanliga modeller) */
+  nowcast?: boolean;
+}
+
+/** Registrerade källor i visningsordning, filtrerade på miljö */
+export function getForecastProviders(filter: ProviderFilter = {}): ForecastProvider[] {
+  return Array.from(registry.values())
+    .filter(p => filter.includeUnavailable || p.availableInProd || !IS_PROD)
+    .filter(p => !filter.timeline || p.inTimeline)
+    .filter(p => Boolean(p.nowcast) === Boolean(filter.nowcast))
+    .sort((a, b) => a.order - b.order);
+}
+
+/** Källa → källan vars överlappande timmar den ersätter i consensus */
+export function getSupersededModels(): Partial<Record<ForecastModelId, ForecastModelId>> {
+  return Object.fromEntries(
+    Array.from(registry.values()).filter(p => p.supersedes).map(p => [p.id, p.supersedes])
+  );
+}
+
+export function getForecastProvider(id: ForecastModelId): ForecastProvider | undefined {
+  return registry.get(id);
+}
+
+/** Unika källhänvisningar för de källor som visas (licenskrav) */
+export function getProviderAttributions(filter: ProviderFilter = {}): string[] {
+  return Array.from(new Set(getForecastProviders(filter).map(p => p.attribution)));
+}
+
+/** Visningsnamn för modell-id — även consensus/observerat som inte är källor */
+export function getModelName(id: ForecastModelId): string {
+  if (id === ForecastModel.CONSENSUS) return FORECAST_MODELS.CONSENSUS.name;
+  if (id === ForecastModel.OBSERVED) return FORECAST_MODELS.OBSERVED.name;
+  return registry.get(id)?.name ?? id.toUpperCase();
+}
+
+/** Senaste tidpunkt källan kan ha data för, räknat från `now` */
+export function getProviderHorizonEnd(provider: ForecastProvider, now: Date = new Date()): Date {
+  return new Date(now.getTime() + provider.maxHorizonHours * 60 * 60 * 1000);
+}
+
+/**
+ * Hämtar från en källa, resamplar till heltimmar om källan kräver det och
+ * klipper bort punkter bortom källans horisont.
+ */
+export async function fetchFromProvider(
+  provider: ForecastProvider,
+  ctx: ForecastFetchContext
+): Promise<ForecastFetchResult> {
+  const result = await provider.fetch({ ...ctx, etag: provider.supportsETag ? ctx.etag : null });
+  if (result.data.length === 0) return result;
+
+  const horizonEnd = getProviderHorizonEnd(provider).getTime();
+  let data = result.data.filter(p => Date.parse(p.time) <= horizonEnd);
+
+  if (provider.resample) {
+    data = resampleToHourly(data);
+    console.log(`${provider.name}: Resampled to ${data.length} hourly points`);
+  }
+  return { ...result, data };
+}
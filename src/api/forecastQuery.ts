@@ -0,0 +1,35 @@
+import { WindPoint } from '../types/WindData';
+import { FETCH_CONFIG } from '../config/constants';
+import { entryPersister, QueryDefinition } from '../utils/queryCache';
+import { fetchFromProvider, ForecastFetchContext, ForecastProvider } from './forecastProviders';
+
+export interface CachedForecast {
+  points: WindPoint[];
+  etag: string | null;
+}
+
+/**
+ * En källas prognos för en plats i den delade query-cachen (utils/queryCache).
+ * Matris, Läget och nowcast delar nyckel och hämtning; ETag skickas från
+ * förra svaret och vid 304 gäller cachad data oavsett ålder.
+ */
+export function forecastQuery(
+  provider: ForecastProvider,
+  location: Omit<ForecastFetchContext, 'etag'>,
+  staleTime: number = FETCH_CONFIG.CACHE_DURATION_MS
+): QueryDefinition<CachedForecast> {
+  return {
+    key: `forecast:${provider.id}:${location.lat}:${location.lon}`,
+    staleTime,
+    tags: ['forecast', `forecast:${provider.id}`],
+    persister: entryPersister<CachedForecast>('forecast'),
+    fetcher: async ({ previous }) => {
+      const { data, etag, notModified } = await fetchFromProvider(provider, {
+        ...location,
+        etag: previous?.etag ?? null,
+      });
+      if (notModified && previous) return previous;
+      return { points: data, etag };
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { collection, doc, getDocs, query, setDoc, where } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { RunHistoryEntry } from '../utils/forecastRunHistory';
+import { belongsToSpot, DEFAULT_SPOT_ID } from '../config/spots';
+
+/**
+ * Delad körningshistorik i Firestore (`forecastRuns`), så att historiken
+ * inte bara finns på enheten som råkade vara öppen när körningen kom.
+ * Ett dokument per spot, modell och körning; id gör skrivningen idempotent.
+ */
+
+const COLLECTION = 'forecastRuns';
+
+function docId(entry: RunHistoryEntry): string {
+  const base = `${entry.model}_${entry.runTime}`;
+  return entry.spotId && entry.spotId !== DEFAULT_SPOT_ID ? `${base}_${entry.spotId}` : base;
+}
+
+export async function saveRunHistoryToFirestore(entries: RunHistoryEntry[]): Promise<void> {
+  await Promise.all(entries.map(entry =>
+    setDoc(doc(db, COLLECTION, docId(entry)), {
+      model: entry.model,
+      runTime: entry.runTime,
+      runTimeEstimated: entry.runTimeEstimated ?? false,
+      fetchedAt: entry.fetchedAt,
+      spotId: entry.spotId ?? DEFAULT_SPOT_ID,
+      // array-contains-fråga per måldag kräver inget sammansatt index
+      dateKeys: Object.keys(entry.days),
+      days: entry.days,
+    })
+  ));
+}
+
+/**
+ * Alla körningar för ett spot som täcker en dag (yyyy-MM-dd). Spot filtreras
+ * här — dokument från före spots saknar fältet.
+ */
+export async function fetchRunHistoryForDay(
+  dateKey: string,
+  spotId: string = DEFAULT_SPOT_ID
+): Promise<RunHistoryEntry[]> {
+  const snapshot = await getDocs(query(collection(db, COLLECTION), where('dateKeys', 'array-contains', dateKey)));
+  return snapshot.docs
+    .map(d => {
+      const data = d.data();
+      return {
+        model: data.model,
+        runTime: data.runTime,
+        runTimeEstimated: data.runTimeEstimated ?? false,
+        fetchedAt: data.fetchedAt,
+        days: data.days ?? {},
+        spotId: data.spotId,
+      } as RunHistoryEntry;
+    })
+    .filter(entry => belongsToSpot(entry, spotId));
+}
@@ -0,0 +1,84 @@
+import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
+import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { signInAnonymously, signOut } from 'firebase/auth';
+import { db, storage, auth } from '../config/firebase';
+import { invalidateQueries } from '../utils/queryCache';
+import {
+  isRetryableUploadError,
+  listQueuedUploads,
+  MediaUploadInput,
+  removeQueuedUpload,
+} from '../utils/mediaUploadQueue';
+
+/**
+ * Uppladdning av bild/film: fil till Storage (`daily_uploads/{datum}/...`)
+ * och metadata i `media_items`. Används direkt av MediaUpload och av kön
+ * när nätet kommer tillbaka. Dagens media hämtas om (useDailyMedia).
+ */
+export async function uploadMedia(input: MediaUploadInput, onProgress?: (percent: number) => void): Promise<void> {
+  // Force a fresh session
+  if (auth.currentUser) {
+    await signOut(auth);
+  }
+  await signInAnonymously(auth);
+
+  const storagePath = `daily_uploads/${input.date}/${Date.now()}_${input.fileName}`;
+  const storageRef = ref(storage, storagePath);
+  const uploadTask = uploadBytesResumable(storageRef, input.file, { contentType: input.file.type });
+
+  await new Promise<void>((resolve, reject) => {
+    uploadTask.on('state_changed',
+      snapshot => onProgress?.((snapshot.bytesTransferred / snapshot.totalBytes) * 100),
+      reject,
+      () => resolve()
+    );
+  });
+
+  const downloadURL = await getDownloadURL(storageRef);
+
+  await addDoc(collection(db, 'media_items'), {
+    date: input.date,
+    spotId: input.spotId,
+    url: downloadURL,
+    type: input.file.type.startsWith('video/') ? 'video' : 'image',
+    storagePath,
+    createdAt: serverTimestamp(),
+    capturedAt: input.capturedAt,
+    windData: input.windData,
+    description: input.description,
+    uploaderName: input.uploaderName,
+    originalName: input.fileName,
+    uploadedBy: 'guest_with_code'
+  });
+
+  await invalidateQueries({ tags: [`media:${input.date}`] });
+}
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Laddar upp köade filer, äldst först. Stannar vid första nätfel (resten
+ * väntar på nästa försök); andra fel lämnar posten kvar och går vidare.
+ * Returnerar antal uppladdade. Samtidiga anrop delar samma körning.
+ */
+export function flushMediaUploadQueue(): Promise<number> {
+  flushing ??= (async () => {
+    let uploaded = 0;
+    try {
+      for (const item of await listQueuedUploads()) {
+        try {
+          await uploadMedia(item);
+          await removeQueuedUpload(item.id);
+          uploaded++;
+        } catch (error) {
+          console.warn('Queued upload failed:', error);
+          if (isRetryableUploadError(error)) break;
+        }
+      }
+    } finally {
+      flushing = null;
+    }
+    return uploaded;
+  })();
+  return flushing;
+}
@@ -0,0 +1,82 @@
+import { WindPoint, ForecastModel } from '../types/WindData';
+import { fetchMetProduct } from './metNorwayAdapter';
+import { registerForecastProvider } from './forecastProviders';
+
+/**
+ * MET Norways högupplösta nordiska produkter:
+ * - MEPS (2,5 km) via locationforecast `complete`. Svaret fortsätter med
+ *   ECMWF efter MEPS-horisonten (~2,5 dygn, byter då till 6h-steg) — vi
+ *   behåller bara den timvisa MEPS-delen så raden inte blir en kopia av MET Norway.
+ *   Samma MEPS-värden ligger i MET Norways första timmar — consensus räknar
+ *   dem bara här (`supersedes`).
+ * - MET Nordic nowcast (5-minuterssteg, ~2 h framåt), används för de
+ *   närmaste 30 minuterna i Läget-grafen.
+ */
+
+const MET_COMPLETE_URL = 'https://api.met.no/weatherapi/locationforecast/2.0/complete';
+const MET_NOWCAST_URL = 'https://api.met.no/weatherapi/nowcast/2.0/complete';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Första delen av serien med timsteg (MEPS); resten är ECMWF i glesare steg */
+export function takeHourlyPrefix(points: WindPoint[]): WindPoint[] {
+  for (let i = 1; i < points.length; i++) {
+    const step = Date.parse(points[i].time) - Date.parse(points[i - 1].time);
+    if (step > HOUR_MS) return points.slice(0, i);
+  }
+  return points;
+}
+
+export async function fetchMetMeps(
+  lat: number,
+  lon: number,
+  altitude: number,
+  cachedETag?: string | null
+): Promise<{ data: WindPoint[]; etag: string | null; notModified?: boolean }> {
+  const url = `${MET_COMPLETE_URL}?lat=${lat}&lon=${lon}&altitude=${altitude}`;
+  const result = await fetchMetProduct(url, ForecastModel.MET_MEPS, 'MET MEPS', cachedETag);
+  return { ...result, data: takeHourlyPrefix(result.data) };
+}
+
+export async function fetchMetNowcast(
+  lat: number,
+  lon: number,
+  altitude: number,
+  cachedETag?: string | null
+): Promise<{ data: WindPoint[]; etag: string | null; notModified?: boolean }> {
+  const url = `${MET_NOWCAST_URL}?lat=${lat}&lon=${lon}&altitude=${altitude}`;
+  return fetchMetProduct(url, ForecastModel.MET_NOWCAST, 'MET Nowcast', cachedETag);
+}
+
+registerForecastProvider({
+  id: ForecastModel.MET_MEPS,
+  name: 'MEPS',
+  color: '#c2410c',
+  attribution: '© MET Norway',
+  license: 'CC BY 4.0',
+  supportsETag: true,
+  resample: true,
+  order: 15,
+  maxHorizonHours: 66,
+  inTimeline: true,
+  availableInProd: true,
+  // MET Norway compact är MEPS de första ~60 h — en röst i consensus, inte två
+  supersedes: ForecastModel.MET_NORWAY,
+  fetch: ({ lat, lon, altitude, etag }) => fetchMetMeps(lat, lon, altitude, etag),
+});
+
+registerForecastProvider({
+  id: ForecastModel.MET_NOWCAST,
+  name: 'Nowcast',
+  color: '#f59e0b',
+  attribution: '© MET Norway',
+  license: 'CC BY 4.0',
+  supportsETag: true,
+  resample: false,
+  order: 5,
+  maxHorizonHours: 2,
+  inTimeline: false,
+  availableInProd: true,
+  nowcast: true,
+  fetch: ({ lat, lon, altitude, etag }) => fetchMetNowcast(lat, lon, altitude, etag),
+});
@@ -1,7 +1,11 @@
-import { WindPoint, ForecastModel } from '../types/WindData';
+import { WindPoint, ForecastModel, ForecastModelId } from '../types/WindData';
 import { fetchWithTimeout } from './fetchWithTimeout';
-import { resampleToHourly, validateWindPoint } from '../utils/timeUtils';
-import { FORECAST_MODELS } from '../config/constants';
+import { validateWindPoint } from '../utils/timeUtils';
+import { registerForecastProvider } from './forecastProviders';
+
+const MET_NORWAY_URL = 'https://api.met.no/weatherapi/locationforecast/2.0/compact';
+/** MET kräver identifierande User-Agent (terms of service) */
+export const MET_USER_AGENT = 'KallsjonApp/1.0 (olanygards@gmail.com)';
 
 interface METTimeSeries {
   time: string;
@@ -16,7 +20,7 @@ interface METTimeSeries {
   };
 }
 
-interface METResponse {
+export interface METResponse {
   properties: {
     meta: {
       updated_at: string;
@@ -25,20 +29,49 @@ interface METResponse {
   };
 }
 
-export async function fetchMetNorway(
-  lat: number,
-  lon: number,
-  altitude: number,
-  cachedETag?: string | null
-): Promise<{ data: WindPoint[]; etag: string | null }> {
-  const url = `${FORECAST_MODELS.MET_NORWAY.url}?lat=${lat}&lon=${lon}&altitude=${altitude}`;
+/** MET-tidsserie → WindPoint (samma format i locationforecast och nowcast) */
+export function parseMetTimeseries(json: METResponse, source: ForecastModelId, label: string): WindPoint[] {
+  // Extrahera runTimestamp
+  const runTimestamp = json.properties.meta.updated_at;
 
+  return json.properties.timeseries
+    .map((series) => {
+      const details = series.data?.instant?.details ?? {};
+
+      return {
+        time: series.time,
+        wind: Number(details.wind_speed ?? NaN),
+        gust: details.wind_speed_of_gust != null ? Number(details.wind_speed_of_gust) : null,
+        dir: details.wind_from_direction != null ? Number(details.wind_from_direction) : null,
+        source,
+        runTimestamp
+      };
+    })
+    .filter((p) => {
+      if (!validateWindPoint(p)) {
+        console.warn(`Invalid ${label} point filtered out:`, p);
+        return false;
+      }
+      return true;
+    });
+}
+
+/**
+ * Hämtar en MET-produkt (User-Agent + ETag). 304 → tom data med
+ * `notModified` så att anroparen använder cache.
+ */
+export async function fetchMetProduct(
+  url: string,
+  source: ForecastModelId,
+  label: string,
+  cachedETag?: string | null
+): Promise<{ data: WindPoint[]; etag: string | null; notModified?: boolean }> {
   try {
     const response = await fetchWithTimeout(
       url,
       {
         headers: {
-          'User-Agent': FORECAST_MODELS.MET_NORWAY.userAgent
+          'User-Agent': MET_USER_AGENT
         },
         etag: cachedETag
       },
@@ -48,51 +81,48 @@ export async function fetchMetNorway(
 
     // Om 304 Not Modified, returnera tom array (användaren ska använda cache)
     if (response.status === 304) {
-      return { data: [], etag: cachedETag || null };
+      return { data: [], etag: cachedETag || null, notModified: true };
     }
 
     if (!response.ok) {
-      throw new Error(`MET Norway API error: ${response.status}`);
+      throw new Error(`${label} API error: ${response.status}`);
     }
 
     const json: METResponse = await response.json();
     const etag = response.headers.get('ETag');
+    const points = parseMetTimeseries(json, source, label);
 
-    // Extrahera runTimestamp
-    const runTimestamp = json.properties.meta.updated_at;
+    console.log(`${label}: Fetched ${points.length} valid points`);
 
-    // Mappa till WindPoint
-    const points: WindPoint[] = json.properties.timeseries
-      .map((series) => {
-        const details = series.data?.instant?.details ?? {};
-
-        return {
-          time: series.time,
-          wind: Number(details.wind_speed ?? NaN),
-          gust: details.wind_speed_of_gust != null ? Number(details.wind_speed_of_gust) : null,
-          dir: details.wind_from_direction != null ? Number(details.wind_from_direction) : null,
-          source: ForecastModel.MET_NORWAY,
-          runTimestamp
-        };
-      })
-      .filter((p) => {
-        if (!validateWindPoint(p)) {
-          console.warn('Invalid MET Norway point filtered out:', p);
-          return false;
-        }
-        return true;
-      });
-
-    console.log(`MET Norway: Fetched ${points.length} valid points`);
-
-    // Resampla till heltimmar
-    const resampled = resampleToHourly(points);
-    console.log(`MET Norway: Resampled to ${resampled.length} hourly points`);
-
-    return { data: resampled, etag };
+    return { data: points, etag };
   } catch (error) {
-    console.error('MET Norway fetch error:', error);
+    console.error(`${label} fetch error:`, error);
     throw error;
   }
 }
 
+export async function fetchMetNorway(
+  lat: number,
+  lon: number,
+  altitude: number,
+  cachedETag?: string | null
+): Promise<{ data: WindPoint[]; etag: string | null; notModified?: boolean }> {
+  const url = `${MET_NORWAY_URL}?lat=${lat}&lon=${lon}&altitude=${altitude}`;
+  // Resampling till heltimmar sker i registret (resample: true)
+  return fetchMetProduct(url, ForecastModel.MET_NORWAY, 'MET Norway', cachedETag);
+}
+
+registerForecastProvider({
+  id: ForecastModel.MET_NORWAY,
+  name: 'MET Norway',
+  color: '#ff8c42',
+  attribution: '© MET Norway',
+  license: 'CC BY 4.0',
+  supportsETag: true,
+  resample: true,
+  order: 10,
+  maxHorizonHours: 240,
+  inTimeline: true,
+  availableInProd: true,
+  fetch: ({ lat, lon, altitude, etag }) => fetchMetNorway(lat, lon, altitude, etag),
+});
@@ -1,7 +1,8 @@
-import { WindPoint, ForecastModel } from '../types/WindData';
+import { WindPoint, ForecastModel, ForecastModelId } from '../types/WindData';
 import { fetchWithTimeout } from './fetchWithTimeout';
 import { validateWindPoint } from '../utils/timeUtils';
-import { OPEN_METEO_URL, FORECAST_MODELS } from '../config/constants';
+import { OPEN_METEO_URL } from '../config/constants';
+import { registerForecastProvider } from './forecastProviders';
 
 interface OpenMeteoResponse {
   hourly: {
@@ -12,30 +13,53 @@ interface OpenMeteoResponse {
   };
 }
 
-export type OpenMeteoModel = ForecastModel.ECMWF | ForecastModel.GFS | ForecastModel.ICON;
+export interface OpenMeteoModelConfig {
+  id: ForecastModelId;
+  name: string;
+  /** Open-Meteos modell-id, t.ex. `ecmwf_ifs025` (se open-meteo.com/en/docs) */
+  openMeteoId: string;
+  color: string;
+  order: number;
+  inTimeline: boolean;
+  maxHorizonHours: number;
+}
+
+/** Längre än så visar appen inte (Prognos-fliken och Läget = 7 dygn) */
+const MAX_FORECAST_DAYS = 7;
 
-const MODEL_CONFIG: Record<OpenMeteoModel, { openMeteoId: string }> = {
-  [ForecastModel.ECMWF]: { openMeteoId: FORECAST_MODELS.ECMWF.openMeteoId },
-  [ForecastModel.GFS]: { openMeteoId: FORECAST_MODELS.GFS.openMeteoId },
-  [ForecastModel.ICON]: { openMeteoId: FORECAST_MODELS.ICON.openMeteoId },
-};
+/**
+ * Open-Meteo-modeller i registret: vårt id → Open-Meteos modell-id.
+ * Météo-France är ARPEGE Europa (0,1°) — AROME täcker bara Frankrike.
+ */
+const OPEN_METEO_MODELS: OpenMeteoModelConfig[] = [
+  { id: ForecastModel.DMI_HARMONIE, name: 'DMI', openMeteoId: 'dmi_harmonie_arome_europe', color: '#dc2626', order: 25, inTimeline: true, maxHorizonHours: 60 },
+  { id: ForecastModel.ECMWF, name: 'ECMWF', openMeteoId: 'ecmwf_ifs025', color: '#2563eb', order: 30, inTimeline: true, maxHorizonHours: 360 },
+  { id: ForecastModel.GFS, name: 'GFS', openMeteoId: 'gfs_seamless', color: '#9333ea', order: 40, inTimeline: false, maxHorizonHours: 384 },
+  { id: ForecastModel.METEO_FRANCE_ARPEGE, name: 'ARPEGE', openMeteoId: 'meteofrance_arpege_europe', color: '#1e3a8a', order: 45, inTimeline: false, maxHorizonHours: 102 },
+  { id: ForecastModel.ICON, name: 'ICON', openMeteoId: 'icon_seamless', color: '#0891b2', order: 50, inTimeline: true, maxHorizonHours: 180 },
+];
 
 /**
- * Hämtar 7 dagars timprognos från Open-Meteo för en av modellerna ECMWF/GFS/ICON.
+ * Hämtar timprognos från Open-Meteo för valfritt modell-id, högst 7 dygn
+ * (kortare om modellens horisont är kortare).
  * Svarstider är redan heltimmar — ingen resampling behövs.
  */
 export async function fetchOpenMeteo(
   lat: number,
   lon: number,
-  model: OpenMeteoModel
+  model: ForecastModelId,
+  openMeteoId: string,
+  maxHorizonHours: number = MAX_FORECAST_DAYS * 24
 ): Promise<{ data: WindPoint[]; etag: string | null }> {
+  // +1 dygn: svaret börjar vid midnatt UTC, horisonten räknas från körningen
+  const forecastDays = Math.min(MAX_FORECAST_DAYS, Math.ceil(maxHorizonHours / 24) + 1);
   const params = new URLSearchParams({
     latitude: String(lat),
     longitude: String(lon),
     hourly: 'wind_speed_10m,wind_gusts_10m,wind_direction_10m',
     wind_speed_unit: 'ms',
-    forecast_days: '7',
-    models: MODEL_CONFIG[model].openMeteoId,
+    forecast_days: String(forecastDays),
+    models: openMeteoId,
     timezone: 'UTC',
   });
 
@@ -70,3 +94,23 @@ export async function fetchOpenMeteo(
   console.log(`Open-Meteo ${model}: Fetched ${points.length} valid points`);
   return { data: points, etag: null };
 }
+
+/** Registrerar en Open-Meteo-modell som prognoskälla — en rad räcker för en ny modell */
+export function registerOpenMeteoModel(model: OpenMeteoModelConfig): void {
+  registerForecastProvider({
+    id: model.id,
+    name: model.name,
+    color: model.color,
+    attribution: 'Weather data by Open-Meteo.com',
+    license: 'CC BY 4.0',
+    supportsETag: false,
+    resample: false,
+    order: model.order,
+    maxHorizonHours: model.maxHorizonHours,
+    inTimeline: model.inTimeline,
+    availableInProd: true,
+    fetch: ({ lat, lon }) => fetchOpenMeteo(lat, lon, model.id, model.openMeteoId, model.maxHorizonHours),
+  });
+}
+
+OPEN_METEO_MODELS.forEach(registerOpenMeteoModel);
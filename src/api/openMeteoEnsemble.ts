@@ -0,0 +1,78 @@
+import { fetchWithTimeout } from './fetchWithTimeout';
+import { OPEN_METEO_ENSEMBLE_URL } from '../config/constants';
+import type { EnsembleMember } from '../utils/ensembleProbability';
+
+/**
+ * Ensembleprognoser från Open-Meteos ensemble-API. Till skillnad från
+ * adaptrarna i registret ger varje modell många medlemmar (störda körningar)
+ * i stället för en deterministisk serie — används för sannolikhet, inte i
+ * matris eller consensus.
+ */
+
+export interface EnsembleModelConfig {
+  /** Open-Meteos ensemble-id */
+  openMeteoId: string;
+  name: string;
+}
+
+export const ENSEMBLE_MODELS: EnsembleModelConfig[] = [
+  { openMeteoId: 'ecmwf_ifs025', name: 'ECMWF ENS' },
+  { openMeteoId: 'gfs025', name: 'GFS ENS' },
+];
+
+interface OpenMeteoEnsembleResponse {
+  hourly: Record<string, Array<number | null> | string[]> & { time: string[] };
+}
+
+/** `wind_speed_10m` (kontrollkörning) + `wind_speed_10m_member01` … */
+const WIND_KEY = /^wind_speed_10m(_member\d+)?$/;
+
+/**
+ * Hämtar alla medlemmar för en ensemblemodell, 7 dygn framåt.
+ * Byvind saknas i vissa ensembler — då blir `gust` null per timme.
+ */
+export async function fetchOpenMeteoEnsemble(
+  lat: number,
+  lon: number,
+  model: EnsembleModelConfig
+): Promise<EnsembleMember[]> {
+  const params = new URLSearchParams({
+    latitude: String(lat),
+    longitude: String(lon),
+    hourly: 'wind_speed_10m,wind_gusts_10m',
+    wind_speed_unit: 'ms',
+    forecast_days: '7',
+    models: model.openMeteoId,
+    timezone: 'UTC',
+  });
+
+  const response = await fetchWithTimeout(`${OPEN_METEO_ENSEMBLE_URL}?${params}`, {}, 10000, 1);
+
+  if (!response.ok) {
+    throw new Error(`Open-Meteo ensemble API error (${model.openMeteoId}): ${response.status}`);
+  }
+
+  const json: OpenMeteoEnsembleResponse = await response.json();
+  const { hourly } = json;
+  // Open-Meteo ger "YYYY-MM-DDTHH:mm" utan offset; vi begär UTC
+  const times = hourly.time.map(t => Date.parse(`${t}:00Z`));
+
+  const members = Object.keys(hourly)
+    .filter(key => WIND_KEY.test(key))
+    .map(windKey => {
+      const suffix = windKey.replace('wind_speed_10m', '');
+      const wind = hourly[windKey] as Array<number | null>;
+      const gust = (hourly[`wind_gusts_10m${suffix}`] as Array<number | null> | undefined) ?? [];
+      return {
+        model: model.name,
+        times,
+        wind,
+        gust: times.map((_, i) => gust[i] ?? null),
+      };
+    })
+    // Medlemmar helt utan data (t.ex. modell som inte täcker punkten)
+    .filter(member => member.wind.some(w => w != null));
+
+  console.log(`Open-Meteo ensemble ${model.openMeteoId}: ${members.length} members`);
+  return members;
+}
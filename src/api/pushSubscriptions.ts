@@ -0,0 +1,99 @@
+import { deleteDoc, doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { PUSH_SUBSCRIPTIONS_COLLECTION } from '../config/pushAlerts';
+import { AlertRule, parseAlertRules } from '../utils/alertRules';
+import { SERVICE_WORKER_URL } from './serviceWorker';
+
+/**
+ * Web Push-prenumerationer i Firestore (`pushSubscriptions`). Ett dokument
+ * per webbläsare (id = hash av endpoint) med valda regler per spot och en
+ * kopia av användarens egna regler. Utskicket sköts av scripts/evaluatePushAlerts.ts.
+ */
+
+/** Regel-id per spot-id */
+export type PushRulesBySpot = Record<string, string[]>;
+
+export interface PushSubscriptionState {
+  rules: PushRulesBySpot;
+  /** Egna regler som de valda id:na kan peka på */
+  customRules: AlertRule[];
+}
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export function isPushSupported(): boolean {
+  return (
+    Boolean(VAPID_PUBLIC_KEY) &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+function base64UrlToBytes(base64Url: string): Uint8Array {
+  const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+/** Stabilt dokument-id: endpoint innehåller snedstreck och är för lång */
+async function subscriptionId(endpoint: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(endpoint));
+  return Array.from(new Uint8Array(hash).slice(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  return (await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL))
+    ?? navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+/** Befintlig prenumeration i den här webbläsaren och dess regler */
+export async function loadPushRules(): Promise<PushSubscriptionState | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return null;
+  const snapshot = await getDoc(doc(db, PUSH_SUBSCRIPTIONS_COLLECTION, await subscriptionId(subscription.endpoint)));
+  if (!snapshot.exists()) return null;
+  const data = snapshot.data();
+  return { rules: (data.rules ?? {}) as PushRulesBySpot, customRules: parseAlertRules(data.customRules) };
+}
+
+/**
+ * Prenumererar (frågar om tillstånd första gången) och sparar reglerna.
+ * Inga regler kvar = prenumerationen tas bort.
+ */
+export async function savePushRules(rules: PushRulesBySpot, customRules: AlertRule[]): Promise<void> {
+  const hasRules = Object.values(rules).some(ids => ids.length > 0);
+  if (!hasRules) {
+    await unsubscribeFromPush();
+    return;
+  }
+
+  if (Notification.permission !== 'granted' && (await Notification.requestPermission()) !== 'granted') {
+    throw new Error('Notiser är blockerade i webbläsaren');
+  }
+
+  const registration = await getRegistration();
+  const subscription = (await registration.pushManager.getSubscription())
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(VAPID_PUBLIC_KEY as string),
+    });
+
+  const json = subscription.toJSON();
+  await setDoc(doc(db, PUSH_SUBSCRIPTIONS_COLLECTION, await subscriptionId(subscription.endpoint)), {
+    endpoint: subscription.endpoint,
+    keys: json.keys ?? {},
+    rules,
+    customRules,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+  await deleteDoc(doc(db, PUSH_SUBSCRIPTIONS_COLLECTION, await subscriptionId(subscription.endpoint)));
+  await subscription.unsubscribe();
+}
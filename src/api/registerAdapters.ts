@@ -0,0 +1,6 @@
+/**
+ * Laddar alla prognosadaptrar så att de registrerar sig i providerregistret.
+ * Ny källa = ny `src/api/*Adapter.ts` som anropar registerForecastProvider —
+ * inget att ändra här.
+ */
+import.meta.glob('./*Adapter.ts', { eager: true });
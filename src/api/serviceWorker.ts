@@ -0,0 +1,54 @@
+/**
+ * Registrering av public/sw.js och meddelanden mellan sidan och den.
+ * Samma service worker sköter app-skalet offline, prognoscachen, background
+ * sync för uppladdningskön och Web Push (pushSubscriptions.ts).
+ */
+
+export const SERVICE_WORKER_URL = '/sw.js';
+export const MEDIA_UPLOAD_SYNC_TAG = 'media-upload';
+
+/** Meddelanden från service workern */
+export type ServiceWorkerMessage =
+  /** cachedAt = ms när svaret sparades, null = färskt från nätet */
+  | { type: 'forecast-source'; key: string; cachedAt: number | null }
+  | { type: 'flush-media-queue' };
+
+/** Background Sync finns bara i Chromium; typerna saknas i lib.dom */
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+/** Vid start i prod — i dev skulle cachen bara stå i vägen för HMR */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+      console.warn('Service worker registration failed', error);
+    });
+  });
+}
+
+/** Lyssnar på service workern; returnerar avregistrering */
+export function onServiceWorkerMessage(handler: (message: ServiceWorkerMessage) => void): () => void {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data && typeof event.data.type === 'string') {
+      handler(event.data as ServiceWorkerMessage);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+}
+
+/** Ber webbläsaren väcka service workern när nätet är tillbaka; false utan stöd */
+export async function requestBackgroundSync(tag: string): Promise<boolean> {
+  if (!('serviceWorker' in navigator)) return false;
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)) as SyncRegistration | undefined;
+    if (!registration?.sync) return false;
+    await registration.sync.register(tag);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,7 +1,21 @@
 import { WindPoint, ForecastModel } from '../types/WindData';
 import { fetchWithTimeout } from './fetchWithTimeout';
-import { resampleToHourly, validateWindPoint } from '../utils/timeUtils';
-import { FORECAST_MODELS } from '../config/constants';
+import { validateWindPoint } from '../utils/timeUtils';
+import { registerForecastProvider } from './forecastProviders';
+
+/**
+ * SMHI saknar CORS-huvuden — appen går alltid via same-origin-proxyn
+ * (Hosting-rewrite → HTTP-funktion i prod, Vite-middleware i dev; se scripts/smhiProxy.ts).
+ */
+const SMHI_PROXY_URL = '/_proxy/smhi/api/category/pmp3g/version/2/geotype/point';
+
+/**
+ * Prod-funktionen och Hosting-rewriten ligger i functions-repot (kod och deploy:
+ * docs/planer/PLAN-SMHI-PROXY.md) — SMHI visas i prod först när de är driftsatta
+ * och bygget har VITE_SMHI_PROXY_IN_PROD="true".
+ * import.meta.env finns inte när adaptrar körs från Node-skript (tsx).
+ */
+const SMHI_PROXY_IN_PROD = String(import.meta.env?.VITE_SMHI_PROXY_IN_PROD).toLowerCase() === 'true';
 
 interface SMHITimeSeries {
   validTime: string;
@@ -25,18 +39,15 @@ export async function fetchSMHI(
   lat: number,
   lon: number,
   cachedETag?: string | null
-): Promise<{ data: WindPoint[]; etag: string | null; gridPoint: [number, number] | null }> {
-  const baseUrl = import.meta.env.DEV
-    ? '/_proxy/smhi' + new URL(FORECAST_MODELS.SMHI.url).pathname
-    : FORECAST_MODELS.SMHI.url;
-  const url = `${baseUrl}/lon/${lon}/lat/${lat}/data.json`;
+): Promise<{ data: WindPoint[]; etag: string | null; gridPoint: [number, number] | null; notModified?: boolean }> {
+  const url = `${SMHI_PROXY_URL}/lon/${lon}/lat/${lat}/data.json`;
 
   try {
     const response = await fetchWithTimeout(url, { etag: cachedETag }, 6000, 1);
 
     // Om 304 Not Modified, returnera tom array (användaren ska använda cache)
     if (response.status === 304) {
-      return { data: [], etag: cachedETag || null, gridPoint: null };
+      return { data: [], etag: cachedETag || null, gridPoint: null, notModified: true };
     }
 
     if (!response.ok) {
@@ -81,14 +92,26 @@ export async function fetchSMHI(
 
     console.log(`SMHI: Fetched ${points.length} valid points`);
 
-    // Resampla till heltimmar
-    const resampled = resampleToHourly(points);
-    console.log(`SMHI: Resampled to ${resampled.length} hourly points`);
-
-    return { data: resampled, etag, gridPoint };
+    // Resampling till heltimmar sker i registret (resample: true)
+    return { data: points, etag, gridPoint };
   } catch (error) {
     console.error('SMHI fetch error:', error);
     throw error;
   }
 }
 
+
+registerForecastProvider({
+  id: ForecastModel.SMHI,
+  name: 'SMHI',
+  color: '#0b7c46',
+  attribution: '© SMHI',
+  license: 'CC BY 4.0',
+  supportsETag: true,
+  resample: true,
+  order: 20,
+  maxHorizonHours: 240,
+  inTimeline: true,
+  availableInProd: SMHI_PROXY_IN_PROD,
+  fetch: ({ lat, lon, etag }) => fetchSMHI(lat, lon, etag),
+});
@@ -0,0 +1,488 @@
+import { useMemo, useState } from 'react';
+import { Pencil, Trash2, X } from 'lucide-react';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { useAlertRules } from '../../hooks/useAlertRules';
+import { useDailyStats } from '../../hooks/useDailyStats';
+import {
+  AlertCondition,
+  AlertMetric,
+  AlertRule,
+  backtestAlertRule,
+  createAlertRule,
+  describeAlertRule,
+  MAX_LEAD_HOURS,
+  validateAlertRule,
+} from '../../utils/alertRules';
+import { WIND_SECTORS_8 } from '../../utils/windDirection8';
+import { convertWind, linearWindUnit, WindUnit, windToMs, windUnitSymbol } from '../../utils/windUnits';
+
+interface AlertRuleSheetProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  level: 'Nivå',
+  mean: 'Medelvind',
+  gust: 'Byvind',
+  direction: 'Riktning',
+  probability: 'Chans för surfbart',
+};
+
+const numberInputClass = 'w-[4.5rem] rounded-lg border border-app-border px-2 py-1.5 text-xs text-app-text text-right';
+
+function newCondition(metric: AlertMetric): AlertCondition {
+  switch (metric) {
+    case 'level':
+      return { metric, minLevelId: 'surfable' };
+    case 'mean':
+      return { metric, minMs: 10 };
+    case 'gust':
+      return { metric, minMs: 15 };
+    case 'direction':
+      return { metric, sectors: ['S', 'SV'] };
+    case 'probability':
+      return { metric, min: 0.5 };
+  }
+}
+
+/** Tomt fält = ingen övre gräns */
+function optionalNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+/** Gränserna sparas i m/s; knop och km/h matas in som heltal */
+function speedInputValue(ms: number, unit: WindUnit): number {
+  return unit === 'ms' ? ms : Math.round(convertWind(ms, unit));
+}
+
+function speedFromInput(value: number, unit: WindUnit): number {
+  return unit === 'ms' ? value : Math.round(windToMs(value, unit) * 100) / 100;
+}
+
+function ConditionEditor({
+  condition,
+  onChange,
+}: {
+  condition: AlertCondition;
+  onChange: (condition: AlertCondition) => void;
+}) {
+  const scale = useWindScale();
+  // Beaufort är stegvis — då matas gränserna in i m/s
+  const inputUnit = linearWindUnit(useWindUnit());
+
+  switch (condition.metric) {
+    case 'level':
+      return (
+        <select
+          value={condition.minLevelId}
+          onChange={e => onChange({ ...condition, minLevelId: e.target.value })}
+          className="rounded-lg border border-app-border px-2 py-1.5 text-xs text-app-text bg-app-surface"
+        >
+          {scale.levels.slice(1).map(level => (
+            <option key={level.id} value={level.id}>{level.label} eller mer</option>
+          ))}
+        </select>
+      );
+    case 'mean':
+    case 'gust':
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-app-muted">
+          <input
+            type="number"
+            min={0}
+            step={inputUnit === 'ms' ? 0.5 : 1}
+            value={speedInputValue(condition.minMs, inputUnit)}
+            onChange={e => onChange({ ...condition, minMs: speedFromInput(Number(e.target.value), inputUnit) })}
+            aria-label={`Lägsta ${METRIC_LABELS[condition.metric].toLowerCase()}`}
+            className={numberInputClass}
+          />
+          –
+          <input
+            type="number"
+            min={0}
+            step={inputUnit === 'ms' ? 0.5 : 1}
+            value={condition.maxMs != null ? speedInputValue(condition.maxMs, inputUnit) : ''}
+            placeholder="max"
+            onChange={e => {
+              const value = optionalNumber(e.target.value);
+              onChange({ ...condition, maxMs: value != null ? speedFromInput(value, inputUnit) : undefined });
+            }}
+            aria-label={`Högsta ${METRIC_LABELS[condition.metric].toLowerCase()}`}
+            className={numberInputClass}
+          />
+          {windUnitSymbol(inputUnit)}
+        </span>
+      );
+    case 'direction':
+      return (
+        <span className="flex flex-wrap gap-1">
+          {WIND_SECTORS_8.map(sector => {
+            const selected = condition.sectors.includes(sector);
+            return (
+              <button
+                key={sector}
+                type="button"
+                onClick={() => onChange({
+                  ...condition,
+                  sectors: selected ? condition.sectors.filter(s => s !== sector) : [...condition.sectors, sector],
+                })}
+                className={`w-8 py-1 rounded text-[10px] font-bold border ${selected ? 'bg-app-text text-app-bg border-app-text' : 'border-app-border text-app-muted'}`}
+              >
+                {sector}
+              </button>
+            );
+          })}
+        </span>
+      );
+    case 'probability':
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-app-muted">
+          ≥
+          <input
+            type="number"
+            min={1}
+            max={100}
+            step={5}
+            value={Math.round(condition.min * 100)}
+            onChange={e => onChange({ ...condition, min: Number(e.target.value) / 100 })}
+            aria-label="Lägsta chans för surfbart"
+            className={numberInputClass}
+          />
+          %
+        </span>
+      );
+  }
+}
+
+/** Hur ofta regeln hade slagit till — alla dagar i dailyStats för spotet */
+function RuleBacktest({ rule }: { rule: AlertRule }) {
+  const { spot } = useSpot();
+  const scale = useWindScale();
+  const [endYear] = useState(() => new Date().getFullYear());
+  const { data, loading, error } = useDailyStats({ endYear, surfableOnly: false });
+  const result = useMemo(() => backtestAlertRule(rule, data, scale, spot), [rule, data, scale, spot]);
+
+  if (loading) return <p className="text-xs text-app-muted">Hämtar historik…</p>;
+  if (error) return <p className="text-xs text-red-600">Kunde inte hämta historik: {error.message}</p>;
+  if (result.days === 0) return <p className="text-xs text-app-muted">Ingen historik för {spot.name}.</p>;
+
+  const fired = result.firedDates.length;
+  const perYear = Math.round((fired / result.days) * 365);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-app-text">
+        Hade slagit till <span className="font-bold">{fired}</span> av {result.days} dagar
+        {' '}<span className="text-app-muted">(≈ {perYear} dagar/år)</span>
+      </p>
+      <div className="grid grid-cols-[3rem_1fr_3rem] gap-x-2 gap-y-0.5 text-xs">
+        {result.byYear.map(year => (
+          <div key={year.year} className="contents">
+            <span className="text-app-muted">{year.year}</span>
+            <span className="self-center h-1.5 rounded-full bg-app-border-muted overflow-hidden">
+              <span className="block h-full bg-app-text" style={{ width: `${(year.fired / year.days) * 100}%` }} />
+            </span>
+            <span className="text-right text-app-text tabular-nums">{year.fired}</span>
+          </div>
+        ))}
+      </div>
+      {fired > 0 && (
+        <p className="text-[11px] text-app-muted">Senast: {result.firedDates.slice(0, 5).join(', ')}</p>
+      )}
+      <p className="text-[10px] text-app-subtle leading-snug">{result.approximations.join('. ')}.</p>
+    </div>
+  );
+}
+
+function RuleEditor({
+  initial,
+  onSave,
+  onCancel,
+}: {
+  initial: AlertRule;
+  onSave: (rule: AlertRule) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [backtestRule, setBacktestRule] = useState<AlertRule | null>(null);
+
+  const update = (patch: Partial<AlertRule>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setBacktestRule(null);
+  };
+
+  const usedMetrics = new Set(draft.conditions.map(c => c.metric));
+  const availableMetrics = (Object.keys(METRIC_LABELS) as AlertMetric[]).filter(metric =>
+    !usedMetrics.has(metric) && (metric !== 'probability' || draft.source === 'forecast')
+  );
+
+  const validate = (): AlertRule | null => {
+    try {
+      const rule = validateAlertRule(draft);
+      setError(null);
+      return rule;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  };
+
+  const save = () => {
+    const rule = validate();
+    if (rule) onSave(rule);
+  };
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 py-1.5 rounded-lg border text-xs ${selected ? 'bg-app-text text-app-bg border-app-text' : 'border-app-border text-app-text'}`;
+
+  return (
+    <div className="space-y-4">
+      <label className="block">
+        <span className="text-xs font-medium text-app-muted">Namn</span>
+        <input
+          value={draft.name}
+          onChange={e => update({ name: e.target.value })}
+          placeholder="T.ex. Sydväst efter jobbet"
+          className="mt-1 w-full rounded-lg border border-app-border px-3 py-2 text-sm text-app-text"
+        />
+      </label>
+
+      <div className="flex gap-2">
+        <button type="button" onClick={() => update({ source: 'forecast' })} className={optionClass(draft.source === 'forecast')}>
+          Prognos
+        </button>
+        <button
+          type="button"
+          onClick={() => update({ source: 'observed', conditions: draft.conditions.filter(c => c.metric !== 'probability') })}
+          className={optionClass(draft.source === 'observed')}
+        >
+          Stationen nu
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-xs font-medium text-app-muted">Villkor — alla ska gälla</span>
+        {draft.conditions.map((condition, i) => (
+          <div key={condition.metric} className="flex items-center justify-between gap-2">
+            <span className="text-xs text-app-text w-20 flex-shrink-0">{METRIC_LABELS[condition.metric]}</span>
+            <div className="flex-1 flex justify-end">
+              <ConditionEditor
+                condition={condition}
+                onChange={next => update({ conditions: draft.conditions.map((c, j) => (j === i ? next : c)) })}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => update({ conditions: draft.conditions.filter((_, j) => j !== i) })}
+              aria-label={`Ta bort ${METRIC_LABELS[condition.metric].toLowerCase()}`}
+              className="p-1 text-app-muted hover:text-red-600"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        {availableMetrics.length > 0 && (
+          <select
+            value=""
+            onChange={e => update({ conditions: [...draft.conditions, newCondition(e.target.value as AlertMetric)] })}
+            className="w-full rounded-lg border border-dashed border-app-border px-2 py-1.5 text-xs text-app-muted bg-app-surface"
+          >
+            <option value="">+ Lägg till villkor</option>
+            {availableMetrics.map(metric => (
+              <option key={metric} value={metric}>{METRIC_LABELS[metric]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center justify-between gap-3">
+          <span className="text-xs text-app-muted">Bara mellan klockslag</span>
+          <input
+            type="checkbox"
+            checked={draft.hours !== null}
+            onChange={e => update({ hours: e.target.checked ? { from: 16, to: 21 } : null })}
+            className="h-4 w-4 accent-app-text"
+          />
+        </label>
+        {draft.hours && (
+          <div className="flex items-center justify-end gap-1.5 text-xs text-app-muted">
+            kl
+            <input
+              type="number"
+              min={0}
+              max={23}
+              value={draft.hours.from}
+              onChange={e => update({ hours: { ...draft.hours!, from: Number(e.target.value) } })}
+              aria-label="Från klockan"
+              className={numberInputClass}
+            />
+            –
+            <input
+              type="number"
+              min={1}
+              max={24}
+              value={draft.hours.to}
+              onChange={e => update({ hours: { ...draft.hours!, to: Number(e.target.value) } })}
+              aria-label="Till klockan"
+              className={numberInputClass}
+            />
+          </div>
+        )}
+        <label className="flex items-center justify-between gap-3">
+          <span className="text-xs text-app-muted">Bara i dagsljus</span>
+          <input
+            type="checkbox"
+            checked={draft.daylightOnly}
+            onChange={e => update({ daylightOnly: e.target.checked })}
+            className="h-4 w-4 accent-app-text"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-3">
+          <span className="text-xs text-app-muted">Minst så här länge (h)</span>
+          <input
+            type="number"
+            min={0}
+            max={12}
+            step={0.5}
+            value={draft.minDurationHours}
+            onChange={e => update({ minDurationHours: Number(e.target.value) })}
+            className={numberInputClass}
+          />
+        </label>
+        {draft.source === 'forecast' && (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-xs text-app-muted">Börjar om (h)</span>
+            <span className="flex items-center gap-1.5 text-xs text-app-muted">
+              <input
+                type="number"
+                min={0}
+                max={MAX_LEAD_HOURS}
+                value={draft.minLeadHours}
+                onChange={e => update({ minLeadHours: Number(e.target.value) })}
+                aria-label="Tidigast om timmar"
+                className={numberInputClass}
+              />
+              –
+              <input
+                type="number"
+                min={1}
+                max={MAX_LEAD_HOURS}
+                value={draft.maxLeadHours}
+                onChange={e => update({ maxLeadHours: Number(e.target.value) })}
+                aria-label="Senast om timmar"
+                className={numberInputClass}
+              />
+            </span>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="rounded-xl border border-app-border-muted p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-app-muted">Historik</span>
+          {!backtestRule && (
+            <button type="button" onClick={() => setBacktestRule(validate())} className="text-xs font-semibold text-app-text">
+              Testa regeln ›
+            </button>
+          )}
+        </div>
+        {backtestRule && <RuleBacktest rule={backtestRule} />}
+      </div>
+
+      <div className="flex gap-2">
+        <button type="button" onClick={onCancel} className="flex-1 py-2.5 rounded-xl border border-app-border text-sm text-app-text">
+          Avbryt
+        </button>
+        <button type="button" onClick={save} className="flex-1 py-2.5 rounded-xl bg-app-text text-app-bg text-sm font-semibold">
+          Spara
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Egna larmregler: skapa, ändra, ta bort och testa mot historiken.
+ * Reglerna gäller alla spots; push väljs per spot under klockan i headern.
+ */
+export function AlertRuleSheet({ open, onClose }: AlertRuleSheetProps) {
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const { rules, saveRule, deleteRule } = useAlertRules();
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+
+  if (!open) return null;
+
+  const handleSave = (rule: AlertRule) => {
+    saveRule(rule);
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/50 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-app-surface rounded-t-2xl border border-app-border shadow-2xl max-h-[85vh] overflow-y-auto animate-in slide-in-from-bottom-4 duration-300">
+        <div className="p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold text-app-text">{editing ? 'Ändra larm' : 'Egna larm'}</h3>
+            <button type="button" onClick={onClose} className="text-xs text-app-muted">
+              Stäng
+            </button>
+          </div>
+
+          {editing ? (
+            <RuleEditor initial={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+          ) : (
+            <>
+              <div className="space-y-2">
+                {rules.map(rule => (
+                  <div key={rule.id} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-app-text truncate">{rule.name}</p>
+                      <p className="text-[11px] text-app-muted">{describeAlertRule(rule, scale, unit)}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setEditing(rule)}
+                      aria-label={`Ändra ${rule.name}`}
+                      className="p-2 text-app-muted hover:text-app-text"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteRule(rule.id)}
+                      aria-label={`Ta bort ${rule.name}`}
+                      className="p-2 text-app-muted hover:text-red-600"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setEditing(createAlertRule(`Mitt larm ${rules.length + 1}`))}
+                className="w-full py-2.5 rounded-xl bg-app-text text-app-bg text-sm font-semibold"
+              >
+                Nytt larm
+              </button>
+
+              <p className="text-[10px] text-app-subtle leading-snug">
+                Prognoslarm letar i consensus-prognosen; stationslarm slår till när villkoren gällt i
+                minst angiven tid. Vill du ha notiser väljer du larmen under klockan i headern.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
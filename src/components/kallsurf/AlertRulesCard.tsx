@@ -0,0 +1,88 @@
+import { useMemo, useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { format, isSameDay } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { TimelinePoint } from '../../hooks/useKallsurfTimeline';
+import { useAlertRules } from '../../hooks/useAlertRules';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import type { WindPoint } from '../../types/WindData';
+import {
+  AlertMatch,
+  evaluateAlertRule,
+  formatAlertMatch,
+  samplesFromTimeline,
+  samplesFromWindPoints,
+} from '../../utils/alertRules';
+import { EnsembleMember, hourlySurfableProbability } from '../../utils/ensembleProbability';
+import { formatWind, windUnitSymbol, WindUnit } from '../../utils/windUnits';
+import { AlertRuleSheet } from './AlertRuleSheet';
+
+interface AlertRulesCardProps {
+  timeline: TimelinePoint[];
+  forecastPoints: WindPoint[];
+  /** Ensemblemedlemmar — krävs för villkor på chans för surfbart */
+  ensemble?: EnsembleMember[] | null;
+}
+
+function matchText(match: AlertMatch, source: 'forecast' | 'observed', now: Date, unit: WindUnit): string {
+  const wind = `${formatWind(match.maxAvg, unit, 0)} (${formatWind(match.maxGust, unit, 0)}) ${windUnitSymbol(unit)}`;
+  if (source === 'observed') return `Pågår sedan ${format(match.start, 'HH:mm')} · ${wind}`;
+  const day = isSameDay(match.start, now) ? 'Idag' : format(match.start, 'EEE d/M', { locale: sv });
+  return `${day} ${formatAlertMatch(match, source)} · ${wind}`;
+}
+
+/**
+ * Egna larm i Läget: varje regel mot stationen (pågår nu) eller prognosen
+ * (nästa fönster inom ledtiden). Klick öppnar redigeringen.
+ */
+export function AlertRulesCard({ timeline, forecastPoints, ensemble }: AlertRulesCardProps) {
+  const { spot } = useSpot();
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const { rules } = useAlertRules();
+  const [sheetOpen, setSheetOpen] = useState(false);
+
+  const results = useMemo(() => {
+    const now = new Date();
+    const probabilities = ensemble ? hourlySurfableProbability(ensemble, scale) : [];
+    const observed = samplesFromTimeline(timeline);
+    const forecast = samplesFromWindPoints(forecastPoints, spot, probabilities);
+    return rules.map(rule => ({
+      rule,
+      match: evaluateAlertRule(rule, rule.source === 'forecast' ? forecast : observed, scale, now),
+    }));
+  }, [rules, timeline, forecastPoints, ensemble, scale, spot]);
+
+  const now = new Date();
+
+  return (
+    <>
+      <button
+        onClick={() => setSheetOpen(true)}
+        className="w-full text-left bg-app-surface-elevated border border-app-border-muted rounded-2xl p-4 transition-all hover:border-app-text/30 active:scale-[0.99] cursor-pointer"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-app-muted text-[10px] uppercase tracking-wider font-bold">Egna larm</h3>
+          <ChevronRight size={16} className="text-app-subtle flex-shrink-0" />
+        </div>
+        {results.length === 0 ? (
+          <p className="text-sm text-app-muted mt-1">Skapa ett larm — t.ex. sydväst efter jobbet eller hög chans i helgen.</p>
+        ) : (
+          <ul className="mt-1.5 space-y-1">
+            {results.map(({ rule, match }) => (
+              <li key={rule.id} className="flex items-baseline justify-between gap-3 text-xs">
+                <span className={`truncate ${match ? 'font-bold text-app-text' : 'text-app-muted'}`}>{rule.name}</span>
+                <span className={`flex-shrink-0 ${match ? 'text-app-text' : 'text-app-subtle'}`}>
+                  {match ? matchText(match, rule.source, now, unit) : 'Ingen träff'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </button>
+      <AlertRuleSheet open={sheetOpen} onClose={() => setSheetOpen(false)} />
+    </>
+  );
+}
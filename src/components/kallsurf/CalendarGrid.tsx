@@ -4,6 +4,7 @@ import { format, addMonths, subMonths, isSameMonth } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import { DailySummary } from '../../hooks/useKallsurfTimeline';
 import { getWindColor, getWindTextColor, getScaleGradient } from '../../utils/windColors';
+import { useWindScale } from '../../hooks/useWindScale';
 
 interface CalendarGridProps {
   dailySummary: DailySummary[];
@@ -15,6 +16,7 @@ interface CalendarGridProps {
 export function CalendarGrid({ dailySummary, onDayClick, viewDate = new Date(), onViewDateChange }: CalendarGridProps) {
   const [isPickerOpen, setIsPickerOpen] = useState(false);
   const [pickerYear, setPickerYear] = useState(viewDate.getFullYear());
+  const scale = useWindScale();
 
   const currentDate = viewDate;
   const monthName = format(currentDate, 'MMMM yyyy', { locale: sv });
@@ -187,8 +189,8 @@ export function CalendarGrid({ dailySummary, onDayClick, viewDate = new Date(),
 
               const isToday = isSameMonth(currentDate, new Date()) && day.day === new Date().getDate() && year === new Date().getFullYear();
               const maxAvg = day.summary?.maxAvg || 0;
-              const bgColor = getWindColor(maxAvg);
-              const textColor = getWindTextColor(maxAvg);
+              const bgColor = getWindColor(maxAvg, scale);
+              const textColor = getWindTextColor(maxAvg, scale);
 
               return (
                 <div
@@ -213,7 +215,7 @@ export function CalendarGrid({ dailySummary, onDayClick, viewDate = new Date(),
           <div className="mt-6 px-4">
             <div
               className="h-2 w-full rounded-full mb-1"
-              style={{ background: getScaleGradient() }}
+              style={{ background: getScaleGradient(scale) }}
             ></div>
             <div className="flex justify-between text-[10px] text-app-muted font-medium">
               <span>Lugnt</span>
@@ -1,10 +1,19 @@
 import { useMemo } from 'react';
 import { HourlyBucket } from '../../hooks/useKallsurfTimeline';
 import { getBestSlotPerDay } from '../../utils/bestWindPerDay';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { windUnitSymbol } from '../../utils/windUnits';
+import type { WindPoint } from '../../types/WindData';
 import { DayStrip } from './DayStrip';
+import { SurfCalendarButton } from './SurfCalendarButton';
 
 interface DailyForecastProps {
     hourlyBuckets: HourlyBucket[];
+    /** Sannolikhet för surfbart per dag (ensemble) */
+    probabilities?: Record<string, number>;
+    /** Consensus-prognosen — visar kalenderknappen */
+    forecastPoints?: WindPoint[];
     onCardClick?: (date: Date) => void;
 }
 
@@ -12,25 +21,32 @@ interface DailyForecastProps {
  * Kommande 7 dagar — bästa vindtillfället per dag (BESLUT 01 i docs/ux/BESLUT.md).
  * Chipet är en signal; fördjupning sker i Detaljer via klick.
  */
-export function DailyForecast({ hourlyBuckets, onCardClick }: DailyForecastProps) {
+export function DailyForecast({ hourlyBuckets, probabilities, forecastPoints, onCardClick }: DailyForecastProps) {
+    const scale = useWindScale();
+    const unit = useWindUnit();
     const days = useMemo(() => {
         const now = new Date();
         const futureBuckets = hourlyBuckets.filter(b => b.time > now && b.isForecast);
-        return getBestSlotPerDay(futureBuckets, 7);
-    }, [hourlyBuckets]);
+        return getBestSlotPerDay(futureBuckets, 7, scale);
+    }, [hourlyBuckets, scale]);
 
     if (days.length === 0) return null;
 
     return (
         <div className="bg-app-surface border border-app-border rounded-2xl p-4 shadow-sm space-y-3">
-            <h3 className="text-app-text text-xs font-bold uppercase tracking-wider">
-                Kommande 7 dagar
-            </h3>
+            <div className="flex items-center justify-between">
+                <h3 className="text-app-text text-xs font-bold uppercase tracking-wider">
+                    Kommande 7 dagar
+                </h3>
+                {forecastPoints && forecastPoints.length > 0 && <SurfCalendarButton forecastPoints={forecastPoints} />}
+            </div>
 
-            <DayStrip days={days} onDayClick={(day) => onCardClick?.(day.slot.time)} />
+            <DayStrip days={days} probabilities={probabilities} onDayClick={(day) => onCardClick?.(day.slot.time)} />
 
             <p className="text-[10px] text-app-subtle">
-                Bästa vindtillfälle per dag (medel m/s) · * = byvind lyfter dagen · tryck för detaljer
+                Bästa vindtillfälle per dag (medel {windUnitSymbol(unit)}) · * = byvind lyfter dagen
+                {probabilities && Object.keys(probabilities).length > 0 && ' · % = chans för surfbart (ensemble)'}
+                {' '}· tryck för detaljer
             </p>
         </div>
     );
@@ -15,20 +15,23 @@ import {
 } from 'recharts';
 import { TimelinePoint } from '../../hooks/useKallsurfTimeline';
 import { useDailyMedia } from '../../hooks/useDailyMedia';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useAppTheme, useWindUnit } from '../../hooks/usePreferences';
 import { DailyGallery } from '../media/DailyGallery';
 import { MediaUpload } from '../media/MediaUpload';
-import { getLevelBadgeStyle } from '../../utils/windColors';
 import {
-  APP_THEME,
-  AVG_SURFABLE_MS,
   WIND_SCALE_LEVELS,
   getEffectiveLevelIndex,
 } from '../../config/windScale';
 import { getSunTimes, formatDecimalTime } from '../../utils/sunTimes';
 import { aggregateWindIntervals } from '../../utils/dailyStatsAggregation';
+import { isExcludingFlag, QC_FLAG_LABELS, QcPeriod } from '../../utils/windQualityControl';
+import { insertGapBreaks } from '../../utils/seriesGaps';
 import { formatSurfableHours } from '../../utils/statsFilters';
+import { estimateWavesAtBreak, formatWaveHeight, WaveEstimate } from '../../utils/waveEstimate';
+import { formatWind, windAxisTicks, windUnitSymbol } from '../../utils/windUnits';
 
-const INK = APP_THEME.text;
 const SURFABLE_INDEX = WIND_SCALE_LEVELS.findIndex(l => l.id === 'surfable');
 
 const SECTORS = ['N', 'NNO', 'NO', 'ONO', 'O', 'OSO', 'SO', 'SSO', 'S', 'SSV', 'SV', 'VSV', 'V', 'VNV', 'NV', 'NNV'];
@@ -62,6 +65,35 @@ function getDirectionSpan(points: TimelinePoint[], maxAvg: number): string | nul
   return SECTORS[primary];
 }
 
+function formatQcPeriod(period: QcPeriod): string {
+  const from = format(period.from, 'HH:mm');
+  const to = format(period.to, 'HH:mm');
+  return from === to ? from : `${from}–${to}`;
+}
+
+/** Mätperioder som QC flaggat (windQualityControl.ts) */
+function QcPeriodList({ periods }: { periods: QcPeriod[] }) {
+  const hasExcluded = periods.some(p => isExcludingFlag(p.flag));
+  return (
+    <div className="mt-3 pt-3 border-t border-app-border-muted">
+      <h4 className="text-app-muted text-[10px] uppercase tracking-wider font-bold mb-1">Datakvalitet</h4>
+      <ul className="space-y-0.5">
+        {periods.map(period => (
+          <li key={`${period.flag}-${period.from.getTime()}`} className="text-xs text-app-muted flex justify-between gap-2">
+            <span>{QC_FLAG_LABELS[period.flag]}</span>
+            <span className="tabular-nums text-app-text">{formatQcPeriod(period)}</span>
+          </li>
+        ))}
+      </ul>
+      {hasExcluded && (
+        <p className="text-[10px] text-app-subtle mt-1 leading-snug">
+          Spikar, fastfrusen mätare och by under medel räknas inte i effektiv surftid eller Stats.
+        </p>
+      )}
+    </div>
+  );
+}
+
 interface ChartPoint {
   timeMs: number;
   pastAvg: number | null;
@@ -86,7 +118,11 @@ interface DayDetailProps {
  */
 export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareModels }: DayDetailProps) {
   const [showUpload, setShowUpload] = useState(false);
+  const { spot } = useSpot();
+  const scale = useWindScale();
+  const unit = useWindUnit();
 
+  const theme = useAppTheme();
   const dateKey = format(date, 'yyyy-MM-dd');
   const media = useDailyMedia(dateKey);
 
@@ -100,18 +136,21 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
     const maxAvg = Math.max(...dayPoints.map(p => p.avg));
     const maxGust = Math.max(...dayPoints.map(p => p.gust));
     const bestLevelIndex = dayPoints.reduce(
-      (best, p) => Math.max(best, getEffectiveLevelIndex(p.avg, p.gust)),
+      (best, p) => Math.max(best, getEffectiveLevelIndex(p.avg, p.gust, scale, p.dir)),
       0
     );
 
-    const surfable = dayPoints.filter(p => getEffectiveLevelIndex(p.avg, p.gust) >= SURFABLE_INDEX);
+    const surfable = dayPoints.filter(p => getEffectiveLevelIndex(p.avg, p.gust, scale, p.dir) >= SURFABLE_INDEX);
     const thresholdWindow = surfable.length > 0
       ? { from: format(surfable[0].time, 'HH:mm'), to: format(surfable[surfable.length - 1].time, 'HH:mm') }
       : null;
 
     const observedPoints = dayPoints.filter(p => !p.isForecast);
     let surfableMinutes = 0;
+    let coveragePercent: number | null = null;
+    let qcPeriods: QcPeriod[] = [];
     if (observedPoints.length > 0) {
+      // Som i Stats: flaggade värden räknas inte som effektiv surftid
       const aggregated = aggregateWindIntervals(
         observedPoints.map((p) => ({
           force: p.avg,
@@ -119,25 +158,39 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
           direction: p.dir,
           time: p.time,
         })),
-        dateKey
+        dateKey,
+        // Idag: täckning fram till nu, inte hela dygnet
+        { excludeFlagged: true, until: isSameDay(date, new Date()) ? new Date() : undefined, spot, scale }
       );
       surfableMinutes = aggregated.surfableMinutes;
+      if (aggregated.insufficientCoverage) coveragePercent = aggregated.coveragePercent;
+      qcPeriods = aggregated.qc.periods;
     }
 
+    // Högsta uppskattade våg under dagen (fetchbegränsad, se waveEstimate.ts)
+    const lake = spot.lake;
+    const peakWaves = lake && dayPoints.reduce<WaveEstimate | null>((best, p) => {
+      const waves = estimateWavesAtBreak(p.avg, p.dir, lake);
+      return waves && (!best || waves.heightM > best.heightM) ? waves : best;
+    }, null);
+
     const isForecast = dayPoints.every(p => p.isForecast);
     const hasForecast = dayPoints.some(p => p.isForecast);
 
     return {
       maxAvg,
       maxGust,
-      level: WIND_SCALE_LEVELS[bestLevelIndex],
+      level: scale.levels[bestLevelIndex],
       directionSpan: getDirectionSpan(dayPoints, maxAvg),
       thresholdWindow,
       surfableMinutes,
+      coveragePercent,
+      peakWaves,
+      qcPeriods,
       isForecast,
       hasForecast,
     };
-  }, [dayPoints, dateKey]);
+  }, [dayPoints, dateKey, date, spot, scale]);
 
   const chartData = useMemo<ChartPoint[]>(() => {
     let lastObservedIndex = -1;
@@ -145,7 +198,7 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
       if (!dayPoints[i].isForecast) { lastObservedIndex = i; break; }
     }
 
-    return dayPoints.map((p, index) => {
+    const points = dayPoints.map((p, index) => {
       const isObserved = !p.isForecast;
       const isFuture = p.isForecast || index === lastObservedIndex;
       return {
@@ -156,8 +209,21 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
         futureGust: isFuture ? p.gust : null,
       };
     });
+
+    // Bryt observationslinjen över luckor i stationens data
+    return insertGapBreaks(
+      points,
+      p => p.timeMs,
+      timeMs => ({ timeMs, pastAvg: null, pastGust: null, futureAvg: null, futureGust: null }),
+      (before, after) => before.pastAvg !== null && after.pastAvg !== null
+    );
   }, [dayPoints]);
 
+  const yTicks = useMemo(
+    () => windAxisTicks(dayPoints.reduce((max, p) => Math.max(max, p.gust), 0), unit),
+    [dayPoints, unit]
+  );
+
   // Mediamarkörer: tidpunkt på dagens tidslinje (kräver capturedAt HH:mm)
   const mediaMarkers = useMemo(() => {
     const dayStart = startOfDay(date).getTime();
@@ -230,7 +296,11 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
             <div className="flex items-start justify-between gap-2 mb-2">
               <span
                 className="text-[11px] font-bold px-2.5 py-1 rounded-lg border-[1.5px] uppercase tracking-wide"
-                style={getLevelBadgeStyle(summary.maxAvg, summary.maxGust)}
+                style={{
+                  backgroundColor: summary.level.colors.bg,
+                  color: summary.level.colors.text,
+                  borderColor: summary.level.colors.border ?? summary.level.colors.bg,
+                }}
               >
                 {summary.level.label}
               </span>
@@ -242,8 +312,14 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
             </div>
 
             <p className="text-sm text-app-text">
-              Max medel <b>{summary.maxAvg.toFixed(1).replace('.', ',')}</b> · max by{' '}
-              <b>{summary.maxGust.toFixed(1).replace('.', ',')}</b> m/s
+              Max medel <b>{formatWind(summary.maxAvg, unit)}</b> · max by{' '}
+              <b>{formatWind(summary.maxGust, unit)}</b> {windUnitSymbol(unit)}
+              {summary.peakWaves && summary.peakWaves.heightM >= 0.05 && (
+                <>
+                  {' · '}vågor upp till <b>{formatWaveHeight(summary.peakWaves.heightM)}</b>
+                  {' '}({summary.peakWaves.periodS.toFixed(1).replace('.', ',')} s)
+                </>
+              )}
             </p>
             <p className="text-sm text-app-muted mt-0.5">
               {summary.directionSpan && <>Riktning {summary.directionSpan}</>}
@@ -261,6 +337,12 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
             <p className="text-xs text-app-subtle mt-2">
               Dagsljus {formatDecimalTime(sunTimes.rise)}–{formatDecimalTime(sunTimes.set)}
             </p>
+            {summary.coveragePercent !== null && (
+              <p className="text-xs text-amber-600 mt-1">
+                Data för {summary.coveragePercent} % av dagen — surftiden kan vara underskattad.
+              </p>
+            )}
+            {summary.qcPeriods.length > 0 && <QcPeriodList periods={summary.qcPeriods} />}
           </>
         ) : (
           <p className="text-sm text-app-muted">Ingen vinddata för den här dagen.</p>
@@ -275,19 +357,19 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
               ? 'Vind under dagen · prognos'
               : summary?.hasForecast
                 ? 'Vind under dagen · observation + prognos'
-                : 'Vind under dagen · observation Vassnäs'}
+                : `Vind under dagen · observation ${spot.station.name}`}
           </h3>
 
           <div className="h-44 w-full">
             <ResponsiveContainer width="100%" height="100%" minWidth={0} minHeight={160} debounce={50}>
               <ComposedChart data={chartData} margin={{ top: 8, right: 0, left: -18, bottom: 0 }}>
-                <CartesianGrid strokeDasharray="2 3" stroke={APP_THEME.borderMuted} vertical={false} />
+                <CartesianGrid strokeDasharray="2 3" stroke={theme.borderMuted} vertical={false} />
                 <XAxis
                   dataKey="timeMs"
                   type="number"
                   domain={xDomain}
                   scale="time"
-                  stroke={APP_THEME.textSubtle}
+                  stroke={theme.textSubtle}
                   fontSize={9}
                   tickLine={false}
                   axisLine={false}
@@ -296,26 +378,26 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
                 />
                 <YAxis
                   orientation="left"
-                  tick={{ fontSize: 9, fill: APP_THEME.textSubtle, fontFamily: 'monospace' }}
+                  tick={{ fontSize: 9, fill: theme.textSubtle, fontFamily: 'monospace' }}
                   tickLine={false}
                   axisLine={false}
-                  domain={[0, (dataMax: number) => Math.max(12, Math.ceil(dataMax + 1))]}
-                  allowDecimals={false}
-                  tickCount={5}
+                  domain={[0, yTicks[yTicks.length - 1]]}
+                  ticks={yTicks}
+                  tickFormatter={(ms: number) => formatWind(ms, unit, 0)}
                 />
 
                 <ReferenceLine
-                  y={AVG_SURFABLE_MS}
-                  stroke={APP_THEME.accentFlag.blue}
+                  y={scale.avgSurfableMs}
+                  stroke={theme.accentFlag.blue}
                   strokeDasharray="4 3"
                   strokeOpacity={0.6}
                 />
 
-                <Area type="monotone" dataKey="pastAvg" stroke="none" fill={APP_THEME.accentFlag.blue} fillOpacity={0.06} isAnimationActive={false} />
-                <Line type="monotone" dataKey="pastGust" stroke={APP_THEME.textSubtle} strokeWidth={1} dot={false} isAnimationActive={false} />
-                <Line type="monotone" dataKey="pastAvg" stroke={INK} strokeWidth={2} dot={false} isAnimationActive={false} />
-                <Line type="monotone" dataKey="futureGust" stroke={APP_THEME.textSubtle} strokeWidth={1} strokeDasharray="4 4" dot={false} isAnimationActive={false} />
-                <Line type="monotone" dataKey="futureAvg" stroke={INK} strokeWidth={2} strokeDasharray="5 4" dot={false} isAnimationActive={false} />
+                <Area type="monotone" dataKey="pastAvg" stroke="none" fill={theme.accentFlag.blue} fillOpacity={0.06} isAnimationActive={false} />
+                <Line type="monotone" dataKey="pastGust" stroke={theme.textSubtle} strokeWidth={1} dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="pastAvg" stroke={theme.text} strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="futureGust" stroke={theme.textSubtle} strokeWidth={1} strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="futureAvg" stroke={theme.text} strokeWidth={2} strokeDasharray="5 4" dot={false} isAnimationActive={false} />
 
                 {/* Mediamarkörer på tidslinjen */}
                 {mediaMarkers.map(marker => (
@@ -324,8 +406,8 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
                     x={marker.timeMs}
                     y={0}
                     r={4}
-                    fill={INK}
-                    stroke="#ffffff"
+                    fill={theme.text}
+                    stroke={theme.surface}
                     strokeWidth={1}
                     onClick={scrollToMedia}
                     className="cursor-pointer"
@@ -369,10 +451,7 @@ export function DayDetail({ date, timeline, onBack, onNavigateDay, onCompareMode
           <div className="mt-4">
             <MediaUpload
               preselectedDate={dateKey}
-              onUploadComplete={() => {
-                setShowUpload(false);
-                media.refetch();
-              }}
+              onUploadComplete={() => setShowUpload(false)}
             />
           </div>
         )}
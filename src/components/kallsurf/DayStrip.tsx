@@ -1,9 +1,14 @@
-import { WIND_SCALE_LEVELS } from '../../config/windScale';
 import { DayBest } from '../../utils/bestWindPerDay';
+import { formatProbability } from '../../utils/ensembleProbability';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { formatWind } from '../../utils/windUnits';
 
 interface DayStripProps {
   days: DayBest[];
   selectedDateKey?: string | null;
+  /** yyyy-MM-dd → sannolikhet för surfbart (ensemble), 0–1 */
+  probabilities?: Record<string, number>;
   onDayClick?: (day: DayBest) => void;
 }
 
@@ -11,14 +16,17 @@ interface DayStripProps {
  * Dagremsa med bästa vindtillfället per dag (BESLUT 01).
  * Delad mellan Läget (Kommande 7 dagar) och Prognos (dagval).
  */
-export function DayStrip({ days, selectedDateKey, onDayClick }: DayStripProps) {
+export function DayStrip({ days, selectedDateKey, probabilities, onDayClick }: DayStripProps) {
+  const scale = useWindScale();
+  const unit = useWindUnit();
   if (days.length === 0) return null;
 
   return (
     <div className="grid grid-cols-7 gap-1.5">
       {days.map(day => {
-        const level = WIND_SCALE_LEVELS[day.levelIndex];
+        const level = scale.levels[day.levelIndex];
         const isSelected = selectedDateKey === day.dateKey;
+        const probability = probabilities?.[day.dateKey];
 
         return (
           <button
@@ -37,12 +45,20 @@ export function DayStrip({ days, selectedDateKey, onDayClick }: DayStripProps) {
               style={{ backgroundColor: level.colors.bg }}
             />
             <span className="text-[11px] font-bold text-app-text leading-none">
-              {Math.round(day.slot.avg)}
+              {formatWind(day.slot.avg, unit, 0)}
               {day.gustDriven && <span className="text-app-accent" title="Byvind gör dagen surfbar">*</span>}
             </span>
             <span className="text-[8px] text-app-subtle leading-none">
               kl {String(day.slot.time.getHours()).padStart(2, '0')}
             </span>
+            {probability != null && (
+              <span
+                className={`text-[9px] font-bold leading-none tabular-nums ${probability >= 0.5 ? 'text-app-text' : 'text-app-subtle'}`}
+                title="Andel ensemblemedlemmar med surfbart under dagen"
+              >
+                {formatProbability(probability)}
+              </span>
+            )}
           </button>
         );
       })}
@@ -1,12 +1,24 @@
 import { ArrowUp } from 'lucide-react';
 import { MatrixCell } from '../../hooks/useForecastMatrix';
 import { getWindColor, getWindTextColor } from '../../utils/windColors';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { formatWind } from '../../utils/windUnits';
 
 interface ForecastModelCellProps {
   cell: MatrixCell | null;
+  /** Efter modellens prognoshorisont — tom plats i stället för "ingen data" */
+  beyondHorizon?: boolean;
 }
 
-export function ForecastModelCell({ cell }: ForecastModelCellProps) {
+export function ForecastModelCell({ cell, beyondHorizon = false }: ForecastModelCellProps) {
+  const scale = useWindScale();
+  const unit = useWindUnit();
+
+  if (!cell && beyondHorizon) {
+    return <div className="h-full" title="Utanför modellens prognoshorisont" />;
+  }
+
   if (!cell) {
     return (
       <div className="rounded-md border border-dashed border-app-border/50 bg-app-bg/20 py-1.5 text-center text-app-subtle text-[10px]">
@@ -15,8 +27,8 @@ export function ForecastModelCell({ cell }: ForecastModelCellProps) {
     );
   }
 
-  const bg = getWindColor(cell.wind);
-  const text = getWindTextColor(cell.wind);
+  const bg = getWindColor(cell.wind, scale);
+  const text = getWindTextColor(cell.wind, scale);
 
   return (
     <div
@@ -31,10 +43,15 @@ export function ForecastModelCell({ cell }: ForecastModelCellProps) {
           <ArrowUp size={9} strokeWidth={3} />
         </span>
       )}
-      <span className="block text-[11px] font-bold">{Math.round(cell.wind)}</span>
+      <span className="block text-[11px] font-bold">{formatWind(cell.wind, unit, 0)}</span>
       <span className="block text-[8px] opacity-80">
-        {cell.gust !== null ? `(${Math.round(cell.gust)})` : ''}
+        {cell.gust !== null ? `(${formatWind(cell.gust, unit, 0)})` : ''}
       </span>
+      {cell.waveHeight !== null && cell.waveHeight >= 0.1 && (
+        <span className="block text-[8px] opacity-70" title="Uppskattad våghöjd (m)">
+          ≈{cell.waveHeight.toFixed(1).replace('.', ',')}
+        </span>
+      )}
     </div>
   );
 }
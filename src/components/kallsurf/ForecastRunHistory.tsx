@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { useForecastRunHistory } from '../../hooks/useForecastRunHistory';
+import { getForecastProvider, getModelName } from '../../api/forecastProviders';
+import { RunForDay } from '../../utils/forecastRunHistory';
+import { getWindColor, getWindTextColor } from '../../utils/windColors';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { degreesToSector8 } from '../../utils/windDirection8';
+import { ForecastModelId } from '../../types/WindData';
+import { formatWind, linearWindUnit } from '../../utils/windUnits';
+
+/** Så många körningar per modell ryms på en rad */
+const RUNS_PER_MODEL = 8;
+/** Mindre ändring än så räknas som oförändrad */
+const CHANGE_THRESHOLD_MS = 0.5;
+
+const formatHour = (ms: number) => format(ms, 'HH');
+
+interface ModelHistory {
+  model: ForecastModelId;
+  name: string;
+  runs: RunForDay[];
+  /** Topp i senaste körningen minus föregående (m/s) */
+  change: number | null;
+}
+
+function groupByModel(runs: RunForDay[]): ModelHistory[] {
+  const byModel = new Map<ForecastModelId, RunForDay[]>();
+  runs.forEach(run => {
+    const list = byModel.get(run.model);
+    if (list) list.push(run);
+    else byModel.set(run.model, [run]);
+  });
+
+  return Array.from(byModel.entries())
+    .map(([model, modelRuns]) => {
+      const n = modelRuns.length;
+      return {
+        model,
+        name: getModelName(model),
+        runs: modelRuns.slice(-RUNS_PER_MODEL),
+        change: n >= 2 ? modelRuns[n - 1].summary.peakWind - modelRuns[n - 2].summary.peakWind : null,
+      };
+    })
+    .sort((a, b) => (getForecastProvider(a.model)?.order ?? 999) - (getForecastProvider(b.model)?.order ?? 999));
+}
+
+function ChangeBadge({ change }: { change: number | null }) {
+  const unit = linearWindUnit(useWindUnit());
+  if (change == null) return null;
+  if (Math.abs(change) < CHANGE_THRESHOLD_MS) {
+    return <span className="text-[9px] text-app-subtle">oförändrad</span>;
+  }
+  return change > 0 ? (
+    <span className="text-[9px] font-bold text-emerald-600">↑ +{formatWind(change, unit, 1)}</span>
+  ) : (
+    <span className="text-[9px] font-bold text-amber-500">↓ −{formatWind(Math.abs(change), unit, 1)}</span>
+  );
+}
+
+function RunChip({ run }: { run: RunForDay }) {
+  const { summary } = run;
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const window = summary.windowStart != null && summary.windowEnd != null
+    ? `${formatHour(summary.windowStart)}–${formatHour(summary.windowEnd)}`
+    : '–';
+
+  return (
+    <div className="flex flex-col items-center gap-0.5 min-w-[38px]">
+      <div
+        className="w-full rounded-md border border-black/10 py-1 px-0.5 text-center leading-tight"
+        style={{ backgroundColor: getWindColor(summary.peakWind, scale), color: getWindTextColor(summary.peakWind, scale) }}
+        title={`Topp kl ${formatHour(summary.peakTime)} · ${summary.surfableHours} surfbara timmar`}
+      >
+        <span className="block text-[11px] font-bold">{formatWind(summary.peakWind, unit, 0)}</span>
+        <span className="block text-[8px] opacity-80">
+          {summary.peakGust != null ? `(${formatWind(summary.peakGust, unit, 0)})` : ''}
+        </span>
+        <span className="block text-[8px] opacity-80">{summary.dir != null ? degreesToSector8(summary.dir) : ''}</span>
+      </div>
+      <span className="text-[8px] text-app-muted leading-none tabular-nums" title="Surfbart fönster">{window}</span>
+      <span className="text-[8px] text-app-subtle leading-none capitalize">
+        {format(run.runTime, 'EEE HH', { locale: sv }).replace('.', '')}
+      </span>
+    </div>
+  );
+}
+
+function RunHistoryContent({ dateKey }: { dateKey: string }) {
+  const { runs, loading, sharedError } = useForecastRunHistory(dateKey);
+  const models = useMemo(() => groupByModel(runs), [runs]);
+
+  if (runs.length === 0) {
+    return (
+      <p className="text-[11px] text-app-muted">
+        {loading
+          ? 'Hämtar sparade körningar…'
+          : 'Inga sparade körningar för dagen än. Varje ny körning sparas när prognoserna hämtas.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {models.map(history => (
+        <div key={history.model}>
+          <div className="flex items-baseline justify-between mb-1">
+            <span className="text-[10px] font-bold text-app-muted">{history.name}</span>
+            <ChangeBadge change={history.change} />
+          </div>
+          <div className="flex gap-1 overflow-x-auto pb-1">
+            {history.runs.map(run => (
+              <RunChip key={run.runTime.getTime()} run={run} />
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <p className="text-[10px] text-app-subtle leading-snug">
+        En ruta per körning, äldst till vänster: dagens högsta medelvind (by), riktning vid toppen,
+        surfbart fönster och när körningen gjordes. Pilen jämför senaste körningen med föregående.
+        {sharedError && ' Delade körningar kunde inte hämtas — visar bara de som sparats på den här enheten.'}
+      </p>
+    </div>
+  );
+}
+
+interface ForecastRunHistoryProps {
+  /** yyyy-MM-dd — vald dag i Prognos-flikens dagremsa */
+  dateKey: string;
+  date?: Date;
+}
+
+/**
+ * "Hur har prognosen ändrats?" för vald dag: varje sparad körnings topp,
+ * fönster och riktning, modell för modell. Data laddas först när panelen öppnas.
+ */
+export function ForecastRunHistory({ dateKey, date }: ForecastRunHistoryProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="bg-app-surface border border-app-border rounded-xl shadow-sm">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between p-3 text-left"
+      >
+        <span className="text-xs text-app-text font-bold">
+          Så har prognosen ändrats{date ? ` — ${format(date, 'EEEE d MMM', { locale: sv })}` : ''}
+        </span>
+        {open ? <ChevronUp size={14} className="text-app-subtle" /> : <ChevronDown size={14} className="text-app-subtle" />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3">
+          <RunHistoryContent dateKey={dateKey} />
+        </div>
+      )}
+    </div>
+  );
+}
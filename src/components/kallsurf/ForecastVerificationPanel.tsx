@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { useForecastVerification } from '../../hooks/useForecastVerification';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { LEAD_BUCKETS, rankModels } from '../../utils/forecastVerification';
+import { getModelName } from '../../api/forecastProviders';
+import { ForecastCorrectionMethod, ForecastCorrections } from '../../utils/forecastCorrection';
+import { ForecastModelId } from '../../types/WindData';
+import { formatWind, linearWindUnit, WindUnit, windUnitSymbol } from '../../utils/windUnits';
+
+interface CorrectionTrainingProps {
+  correctionMethod?: ForecastCorrectionMethod;
+  /** Nya korrigeringar (MOS) tränade från samma par som tabellen */
+  onCorrectionsTrained?: (corrections: ForecastCorrections) => void;
+  /** Nya consensus-vikter från samma verifiering */
+  onSkillWeightsUpdated?: (weights: Partial<Record<ForecastModelId, number>>) => void;
+}
+
+const formatVal = (ms: number, unit: WindUnit) => formatWind(ms, unit, 1);
+const formatSigned = (ms: number, unit: WindUnit) => `${ms > 0 ? '+' : ms < 0 ? '−' : ''}${formatVal(Math.abs(ms), unit)}`;
+const formatPercent = (n: number | null) => (n == null ? '–' : `${Math.round(n * 100)} %`);
+
+function VerificationTable(props: CorrectionTrainingProps) {
+  const { verification, runCount, since, loading, error } = useForecastVerification(props);
+  const [leadBucketId, setLeadBucketId] = useState<string | null>(null);
+  const { spot } = useSpot();
+  const unit = linearWindUnit(useWindUnit());
+
+  if (runCount === 0) {
+    return (
+      <p className="text-[11px] text-app-muted">
+        Inga sparade prognoser än. Varje hämtning sparas på den här enheten — kom tillbaka om ett par dygn.
+      </p>
+    );
+  }
+
+  if (loading) {
+    return <p className="text-[11px] text-app-subtle">Hämtar observationer…</p>;
+  }
+
+  if (error) {
+    return <p className="text-[11px] text-amber-500">Kunde inte hämta observationer för jämförelsen.</p>;
+  }
+
+  const ranked = rankModels(verification, leadBucketId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1 flex-wrap">
+        {[{ id: null, label: 'Alla' }, ...LEAD_BUCKETS].map(bucket => (
+          <button
+            key={bucket.id ?? 'all'}
+            onClick={() => setLeadBucketId(bucket.id)}
+            className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${leadBucketId === bucket.id
+              ? 'bg-app-text text-app-bg border-app-text'
+              : 'border-app-border text-app-muted hover:text-app-text'
+              }`}
+          >
+            {bucket.label}
+          </button>
+        ))}
+      </div>
+
+      {ranked.length === 0 ? (
+        <p className="text-[11px] text-app-muted">
+          Inga prognostimmar har passerat med observationer ännu för den ledtiden.
+        </p>
+      ) : (
+        <table className="w-full text-[11px] tabular-nums">
+          <thead>
+            <tr className="text-[9px] uppercase tracking-wider text-app-subtle text-right">
+              <th className="text-left font-bold py-1">Modell</th>
+              <th className="font-bold" title={`Medelabsolutfel, ${windUnitSymbol(unit)}`}>MAE</th>
+              <th className="font-bold" title={`Medelfel, ${windUnitSymbol(unit)} — plus = överskattar`}>Bias</th>
+              <th className="font-bold" title="Andel surfbara timmar som modellen förutsåg">Träff</th>
+              <th className="font-bold" title="Matchade timmar">n</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map((row, i) => {
+              return (
+                <tr key={row.model} className={`text-right border-t border-app-border/60 ${row.ranked ? '' : 'text-app-subtle'}`}>
+                  <td className="text-left py-1">
+                    <span className="text-app-subtle mr-1">{row.ranked ? `${i + 1}.` : '–'}</span>
+                    <span className="font-bold">{getModelName(row.model)}</span>
+                  </td>
+                  <td className="font-bold">{formatVal(row.score.mae, unit)}</td>
+                  <td>{formatSigned(row.score.bias, unit)}</td>
+                  <td>{formatPercent(row.score.hitRate)}</td>
+                  <td className="text-app-subtle">{row.score.count}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <p className="text-[10px] text-app-subtle leading-snug">
+        {runCount} sparade körningar sedan{' '}
+        {since ? format(since, 'd MMM HH:mm', { locale: sv }) : '–'}, jämförda med {spot.station.name} timmedel.
+        Träff = andel surfbara timmar som modellen också pekade ut. Rankas från 12 matchade timmar.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Osynlig: tränar om korrigering och consensus-vikter i bakgrunden
+ * (monteras bara när senaste träningen är för gammal).
+ */
+export function ForecastCorrectionTrainer(props: CorrectionTrainingProps) {
+  useForecastVerification(props);
+  return null;
+}
+
+/**
+ * Verifieringspanel i Prognos-fliken: rankar modellerna efter hur väl
+ * sparade körningar stämde mot observerad vind. Data laddas först när
+ * panelen öppnas.
+ */
+export function ForecastVerificationPanel(props: CorrectionTrainingProps) {
+  const [open, setOpen] = useState(false);
+  const { spot } = useSpot();
+
+  return (
+    <div className="bg-app-surface border border-app-border rounded-xl shadow-sm">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between p-3 text-left"
+      >
+        <span className="text-xs text-app-text font-bold">
+          Träffsäkerhet — vilken modell stämmer vid {spot.name}?
+        </span>
+        {open ? <ChevronUp size={14} className="text-app-subtle" /> : <ChevronDown size={14} className="text-app-subtle" />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3">
+          <VerificationTable {...props} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,10 +3,21 @@ import { format } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { useForecastMatrix } from '../../hooks/useForecastMatrix';
+import { useEnsembleProbability } from '../../hooks/useEnsembleProbability';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { useWindProfiles } from '../../hooks/useWindProfiles';
 import { ModelComparisonGrid } from './ModelComparisonGrid';
 import { DayStrip } from './DayStrip';
+import { ForecastCorrectionTrainer, ForecastVerificationPanel } from './ForecastVerificationPanel';
+import { ForecastRunHistory } from './ForecastRunHistory';
+import { WindProfileSheet } from './WindProfileSheet';
 import { getScaleLegend } from '../../utils/windColors';
-import { GUST_SURFABLE_MS } from '../../config/windScale';
+import { formatWindThreshold, windUnitSymbol } from '../../utils/windUnits';
+import { getActiveProfile } from '../../utils/windProfiles';
+import { ForecastCorrectionMethod, isCorrectionStale } from '../../utils/forecastCorrection';
+import { getProviderAttributions } from '../../api/forecastProviders';
 
 interface ForecastViewProps {
   onDayDetailsClick?: (date: Date) => void;
@@ -19,8 +30,28 @@ interface ForecastViewProps {
  * Dagremsa väljer dag; gridden visar 8 tidsluckor × modellrader.
  */
 export function ForecastView({ onDayDetailsClick, focusDayKey }: ForecastViewProps) {
-  const { days, dayBests, selectedDayKey, setSelectedDayKey, rows, loading } = useForecastMatrix();
+  const {
+    days,
+    dayBests,
+    selectedDayKey,
+    setSelectedDayKey,
+    rows,
+    loading,
+    correctionMode,
+    setCorrectionMode,
+    correctionMethod,
+    setCorrectionMethod,
+    corrections,
+    setCorrections,
+    setSkillWeights,
+  } = useForecastMatrix();
+  const { dayProbabilities } = useEnsembleProbability();
+  const { spot } = useSpot();
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const activeProfile = getActiveProfile(useWindProfiles());
   const [legendOpen, setLegendOpen] = useState(false);
+  const [profileSheetOpen, setProfileSheetOpen] = useState(false);
 
   useEffect(() => {
     if (focusDayKey && days.some(d => d.dateKey === focusDayKey)) {
@@ -29,7 +60,15 @@ export function ForecastView({ onDayDetailsClick, focusDayKey }: ForecastViewPro
   }, [focusDayKey, days, setSelectedDayKey]);
 
   const selectedDay = days.find(d => d.dateKey === selectedDayKey);
-  const legend = getScaleLegend();
+  const legend = getScaleLegend(scale, unit);
+  // Stale-kontrollen görs vid montering — tränaren ska inte monteras om efter varje ny träning.
+  // Byte av metod monterar den (den tränar då om med nya metoden).
+  const [needsTraining, setNeedsTraining] = useState(() => isCorrectionStale(corrections, new Date(), correctionMethod));
+  const changeCorrectionMethod = (method: ForecastCorrectionMethod) => {
+    setCorrectionMethod(method);
+    if (corrections?.method !== method) setNeedsTraining(true);
+  };
+  const trainingProps = { correctionMethod, onCorrectionsTrained: setCorrections, onSkillWeightsUpdated: setSkillWeights };
 
   return (
     <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -38,13 +77,14 @@ export function ForecastView({ onDayDetailsClick, focusDayKey }: ForecastViewPro
           <h3 className="text-app-muted text-xs font-bold uppercase tracking-wider">
             Prognosmodeller
           </h3>
-          <span className="text-[10px] text-app-subtle">Kallsjön · 7 dygn</span>
+          <span className="text-[10px] text-app-subtle">{spot.name} · 7 dygn</span>
         </div>
 
         {dayBests.length > 0 ? (
           <DayStrip
             days={dayBests}
             selectedDateKey={selectedDayKey}
+            probabilities={dayProbabilities}
             onDayClick={(day) => setSelectedDayKey(day.dateKey)}
           />
         ) : loading ? (
@@ -59,7 +99,43 @@ export function ForecastView({ onDayDetailsClick, focusDayKey }: ForecastViewPro
           <span className="text-[11px] text-app-text font-medium capitalize">
             {selectedDay ? format(selectedDay.date, 'EEEE d MMMM', { locale: sv }) : ''}
           </span>
-          <span className="text-[9px] text-app-subtle">medel (by) m/s · pil = vindriktning</span>
+          <span className="text-[9px] text-app-subtle">medel (by) {windUnitSymbol(unit)} · pil = vindriktning</span>
+        </div>
+
+        <div className="mb-2 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-1.5">
+            <div className="flex rounded-lg border border-app-border overflow-hidden" role="group" aria-label="Rå eller korrigerad prognos">
+              {(['raw', 'corrected'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setCorrectionMode(mode)}
+                  className={`px-2.5 py-1 text-[10px] font-medium ${correctionMode === mode ? 'bg-app-text text-app-bg' : 'bg-app-surface text-app-text'}`}
+                >
+                  {mode === 'raw' ? 'Rå' : 'Korrigerad'}
+                </button>
+              ))}
+            </div>
+            {correctionMode === 'corrected' && (
+              <div className="flex rounded-lg border border-app-border overflow-hidden" role="group" aria-label="Korrigeringsmetod">
+                {(['linear', 'quantile'] as const).map(method => (
+                  <button
+                    key={method}
+                    onClick={() => changeCorrectionMethod(method)}
+                    className={`px-2 py-1 text-[10px] font-medium ${correctionMethod === method ? 'bg-app-text text-app-bg' : 'bg-app-surface text-app-text'}`}
+                  >
+                    {method === 'linear' ? 'Linjär' : 'Kvantil'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <span className="text-[9px] text-app-subtle text-right leading-tight">
+            {correctionMode === 'raw'
+              ? 'modellernas egna värden'
+              : corrections && corrections.method === correctionMethod
+                ? `justerad mot ${spot.station.name} per riktning · ${corrections.pairCount} par`
+                : 'tränas när observationer laddats…'}
+          </span>
         </div>
 
         <ModelComparisonGrid rows={rows} selectedDayKey={selectedDayKey} />
@@ -74,6 +150,11 @@ export function ForecastView({ onDayDetailsClick, focusDayKey }: ForecastViewPro
         )}
       </div>
 
+      <ForecastRunHistory dateKey={selectedDayKey} date={selectedDay?.date} />
+
+      <ForecastVerificationPanel {...trainingProps} />
+      {needsTraining && <ForecastCorrectionTrainer {...trainingProps} />}
+
       {/* Vindskala — expanderbar förklaring */}
       <div className="bg-app-surface border border-app-border rounded-xl shadow-sm">
         <button
@@ -88,9 +169,20 @@ export function ForecastView({ onDayDetailsClick, focusDayKey }: ForecastViewPro
 
         {legendOpen && (
           <div className="px-3 pb-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[10px] text-app-muted">
+                {activeProfile ? `Din skala: ${activeProfile.name}` : `${spot.name}s skala`}
+              </span>
+              <button
+                onClick={() => setProfileSheetOpen(true)}
+                className="text-[10px] font-medium text-app-text underline underline-offset-2"
+              >
+                Egna skalor ›
+              </button>
+            </div>
             <div className="grid grid-cols-7 gap-1">
-              {legend.map(item => (
-                <div key={item.label} className="text-center">
+              {legend.map((item, i) => (
+                <div key={i} className="text-center">
                   <div
                     className="h-3 rounded-sm border border-black/10 mb-1"
                     style={{ backgroundColor: item.bg }}
@@ -101,16 +193,21 @@ export function ForecastView({ onDayDetailsClick, focusDayKey }: ForecastViewPro
               ))}
             </div>
             <p className="text-[10px] text-app-subtle leading-snug">
-              Trösklar i medelvind (m/s). Byvind ≥ {GUST_SURFABLE_MS} m/s räknas som surfbart även om
-              medelvinden är lägre. Nedtonade celler har passerat.
+              Trösklar i medelvind ({windUnitSymbol(unit)}). Byvind ≥ {formatWindThreshold(scale.gustSurfableMs, unit)} {windUnitSymbol(unit)} räknas som surfbart även om
+              medelvinden är lägre. ≈-raden är uppskattad våghöjd (m) vid brytet, räknad från medelvind och
+              stryklängd. Nedtonade celler har passerat. Regionala modeller (MEPS, DMI) räcker bara ett par
+              dygn — raden slutar där modellens prognos tar slut. Procenten i dagremsan är andelen
+              ensemblemedlemmar (ECMWF + GFS) med minst en surfbar timme under dagen.
             </p>
           </div>
         )}
       </div>
 
       <p className="text-[9px] text-app-subtle text-center">
-        Weather data by Open-Meteo.com · MET Norway
+        {getProviderAttributions().join(' · ')}
       </p>
+
+      <WindProfileSheet open={profileSheetOpen} onClose={() => setProfileSheetOpen(false)} />
     </div>
   );
 }
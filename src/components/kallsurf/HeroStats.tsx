@@ -2,9 +2,14 @@ import { useState } from 'react';
 import { format } from 'date-fns';
 import { ArrowUp } from 'lucide-react';
 import { getWindLevel, getLevelBadgeStyle } from '../../utils/windColors';
-import { getEffectiveLevelIndex } from '../../config/windScale';
+import { DIRECTION_QUALITY_LABELS, getDirectionQuality, getEffectiveLevelIndex } from '../../config/windScale';
 import { TimelinePoint } from '../../hooks/useKallsurfTimeline';
 import { NowWindBar, ForecastHourPoint } from '../../utils/nowWindChartData';
+import { estimateWavesAtBreak, formatWaveHeight } from '../../utils/waveEstimate';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { formatWind, windUnitSymbol } from '../../utils/windUnits';
 import { NowWindChart } from './NowWindChart';
 import { WindScaleMeter } from './WindScaleMeter';
 
@@ -26,6 +31,7 @@ interface HeroStatsProps {
   };
   timeline: TimelinePoint[];
   forecastHourly: ForecastHourPoint[];
+  nowcast?: ForecastHourPoint[];
   isActive: boolean;
 }
 
@@ -34,10 +40,13 @@ interface HeroStatsProps {
  * stapeldiagram, sammanfattning och sjustegsmätare.
  * Scrubb i grafen uppdaterar de tre rutorna; släpp återgår till NU.
  */
-export function HeroStats({ currentWind, timeline, forecastHourly }: HeroStatsProps) {
+export function HeroStats({ currentWind, timeline, forecastHourly, nowcast }: HeroStatsProps) {
   const { avg, gust, dir } = currentWind;
-  const level = getWindLevel(avg, gust);
-  const levelIndex = getEffectiveLevelIndex(avg, gust);
+  const { spot } = useSpot();
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const level = getWindLevel(avg, gust, scale, dir);
+  const levelIndex = getEffectiveLevelIndex(avg, gust, scale, dir);
 
   const [scrubBar, setScrubBar] = useState<NowWindBar | null>(null);
   const isScrubbing = scrubBar != null;
@@ -45,12 +54,14 @@ export function HeroStats({ currentWind, timeline, forecastHourly }: HeroStatsPr
   const displayAvg = scrubBar?.isGap ? null : (scrubBar?.avg ?? avg);
   const displayGust = scrubBar?.isGap ? null : (scrubBar?.gust ?? gust);
   const displayDir = scrubBar?.isGap ? null : (scrubBar?.dir ?? dir);
+  const directionQuality = getDirectionQuality(displayDir, scale);
+  const waves = displayAvg != null && spot.lake ? estimateWavesAtBreak(displayAvg, displayDir, spot.lake) : null;
   const displayTimeLabel = scrubBar
     ? `${scrubBar.timeStr} · ${scrubBar.isForecast ? 'PROG' : 'OBS'}${scrubBar.isGap ? ' · saknas' : ''}`
     : `${format(currentWind.time, 'HH:mm')} · OBS`;
 
   const badgeStyle = levelIndex >= 2
-    ? getLevelBadgeStyle(avg, gust)
+    ? getLevelBadgeStyle(avg, gust, scale, dir)
     : { backgroundColor: '#ffffff', color: '#1c1c1c', borderColor: '#1c1c1c' };
 
   return (
@@ -76,18 +87,18 @@ export function HeroStats({ currentWind, timeline, forecastHourly }: HeroStatsPr
       <div className={`grid grid-cols-3 border border-app-border rounded-xl overflow-hidden mb-4 transition-opacity duration-200 ${isScrubbing ? 'opacity-90' : ''}`}>
         <div className="px-3 py-3 border-r border-app-border">
           <p className="text-5xl font-extrabold tracking-tighter text-app-text leading-none">
-            {displayAvg != null ? formatVal(displayAvg) : '—'}
+            {displayAvg != null ? formatWind(displayAvg, unit) : '—'}
           </p>
           <p className="text-[11px] text-app-muted mt-1.5 leading-tight">medelvind</p>
-          <p className="text-[10px] text-app-subtle leading-tight">m/s</p>
+          <p className="text-[10px] text-app-subtle leading-tight">{windUnitSymbol(unit)}</p>
         </div>
 
         <div className="px-3 py-3 border-r border-app-border">
           <p className="text-5xl font-extrabold tracking-tighter text-app-text leading-none">
-            {displayGust != null ? formatVal(displayGust) : '—'}
+            {displayGust != null ? formatWind(displayGust, unit) : '—'}
           </p>
           <p className="text-[11px] text-app-muted mt-1.5 leading-tight">byvind</p>
-          <p className="text-[10px] text-app-subtle leading-tight">m/s</p>
+          <p className="text-[10px] text-app-subtle leading-tight">{windUnitSymbol(unit)}</p>
         </div>
 
         <div className="px-2 py-2 flex flex-col items-center justify-center text-center min-h-[88px]">
@@ -105,6 +116,11 @@ export function HeroStats({ currentWind, timeline, forecastHourly }: HeroStatsPr
               <p className="text-[11px] text-app-muted leading-tight">
                 {getCardinalDirection(displayDir)}
               </p>
+              {directionQuality !== 'good' && (
+                <p className="text-[10px] font-bold text-amber-700 leading-tight mt-0.5">
+                  {DIRECTION_QUALITY_LABELS[directionQuality]}
+                </p>
+              )}
             </>
           ) : (
             <p className="text-3xl font-bold text-app-subtle">—</p>
@@ -112,9 +128,17 @@ export function HeroStats({ currentWind, timeline, forecastHourly }: HeroStatsPr
         </div>
       </div>
 
-      <NowWindChart timeline={timeline} forecastHourly={forecastHourly} onScrubChange={setScrubBar} />
+      {waves && waves.heightM >= 0.05 && (
+        <p className="text-xs text-app-muted -mt-2 mb-3">
+          Vågor ca <b className="text-app-text">{formatWaveHeight(waves.heightM)}</b>
+          {' · '}{formatVal(waves.periodS)} s
+          <span className="text-app-subtle"> · stryklängd {Math.round(waves.fetchKm)} km · uppskattat</span>
+        </p>
+      )}
 
-      <WindScaleMeter avg={avg} gust={gust} />
+      <NowWindChart timeline={timeline} forecastHourly={forecastHourly} nowcast={nowcast} onScrubChange={setScrubBar} />
+
+      <WindScaleMeter avg={avg} gust={gust} dir={dir} />
     </div>
   );
 }
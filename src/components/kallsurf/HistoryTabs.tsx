@@ -11,53 +11,80 @@ import {
   ReferenceArea
 } from 'recharts';
 import { TimelinePoint } from '../../hooks/useKallsurfTimeline';
-import { format, subDays } from 'date-fns';
+import { addDays, addHours, format, startOfDay, startOfHour, subDays } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import { getDirectionLabel } from '../../utils/windDataConverter';
-import { APP_THEME, AVG_SURFABLE_MS } from '../../config/windScale';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useAppTheme, useWindUnit } from '../../hooks/usePreferences';
+import { insertGapBreaks } from '../../utils/seriesGaps';
+import { formatWindWithUnit, formatWind, windAxisTicks, WindUnit } from '../../utils/windUnits';
 
-const getNightZones = (data: TimelinePoint[]) => {
+interface HistoryChartPoint {
+  timeMs: number;
+  fullDate: Date;
+  avg: number | null;
+  gust: number | null;
+  dir: number;
+  isDaylight: boolean;
+  /** Brytpunkt i en lucka — inga värden, linjen bryts */
+  isGap?: boolean;
+}
+
+/** Mörka zoner; en lucka avslutar zonen vid sista mätningen före den */
+const getNightZones = (data: HistoryChartPoint[]) => {
   const zones: Array<{ start: number; end: number }> = [];
-  let currentZone: { start: number } | null = null;
+  let start: number | null = null;
+  let last: number | null = null;
 
   data.forEach((point) => {
+    if (point.isGap) {
+      if (start !== null && last !== null && last > start) zones.push({ start, end: last });
+      start = null;
+      return;
+    }
     if (!point.isDaylight) {
-      if (!currentZone) {
-        currentZone = { start: point.time.getTime() };
-      }
-    } else {
-      if (currentZone) {
-        zones.push({
-          ...currentZone,
-          end: point.time.getTime()
-        });
-        currentZone = null;
-      }
+      if (start === null) start = point.timeMs;
+    } else if (start !== null) {
+      zones.push({ start, end: point.timeMs });
+      start = null;
     }
+    last = point.timeMs;
   });
 
-  if (currentZone !== null) {
-    zones.push({
-      start: (currentZone as { start: number }).start,
-      end: data[data.length - 1].time.getTime()
-    });
+  if (start !== null && last !== null && last > start) {
+    zones.push({ start, end: last });
   }
 
   return zones;
 };
 
+/** Tickar på hela timmar (24h) eller vid midnatt (3d/7d) */
+const getTicks = (data: HistoryChartPoint[], range: '24h' | '3d' | '7d'): number[] => {
+  if (data.length === 0) return [];
+  const first = data[0].timeMs;
+  const last = data[data.length - 1].timeMs;
+  const ticks: number[] = [];
+  const cursor = range === '24h' ? startOfHour(first) : startOfDay(addDays(first, 1));
+  const stepHours = range === '24h' ? 4 : 24;
+  if (range === '24h') cursor.setHours(Math.ceil(cursor.getHours() / stepHours) * stepHours);
+  for (let t = cursor; t.getTime() <= last; t = addHours(t, stepHours)) {
+    if (t.getTime() >= first) ticks.push(t.getTime());
+  }
+  return ticks;
+};
+
 interface TooltipEntry {
   dataKey?: string;
   value?: number;
-  payload?: { fullDate: Date; dir?: number };
+  payload?: HistoryChartPoint;
 }
 
-const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: TooltipEntry[] }) => {
+const CustomTooltip = ({ active, payload, unit }: { active?: boolean; payload?: TooltipEntry[]; unit: WindUnit }) => {
   if (active && payload && payload.length) {
     const avgData = payload.find((p) => p.dataKey === 'avg');
     const gustData = payload.find((p) => p.dataKey === 'gust');
     const dataPoint = payload[0]?.payload;
-    if (!dataPoint) return null;
+    if (!dataPoint || dataPoint.isGap) return null;
     const dir = dataPoint?.dir || 0;
 
     return (
@@ -71,13 +98,13 @@ const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Toolti
           {gustData && (
             <div className="flex items-center justify-between gap-4">
               <span className="text-xs text-app-muted">Byvind</span>
-              <span className="text-sm font-bold text-yellow-400">{gustData.value} m/s</span>
+              <span className="text-sm font-bold text-yellow-400">{gustData.value != null ? formatWindWithUnit(gustData.value, unit) : '—'}</span>
             </div>
           )}
           {avgData && (
             <div className="flex items-center justify-between gap-4">
               <span className="text-xs text-app-muted">Medel</span>
-              <span className="text-sm font-bold text-app-muted">{avgData.value} m/s</span>
+              <span className="text-sm font-bold text-app-muted">{avgData.value != null ? formatWindWithUnit(avgData.value, unit) : '—'}</span>
             </div>
           )}
 
@@ -105,6 +132,9 @@ interface HistoryTabsProps {
 
 /** Periodgraf 24h/3d/7d. Vald dag hanteras av DayDetail. */
 export function HistoryTabs({ timeline }: HistoryTabsProps) {
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const theme = useAppTheme();
   const [historyRange, setHistoryRange] = useState<'24h' | '3d' | '7d'>('24h');
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
@@ -145,17 +175,27 @@ export function HistoryTabs({ timeline }: HistoryTabsProps) {
   }, [historyRange, timeline]);
 
   const chartData = useMemo(() => {
-    return activeHistoryData.map((point) => ({
-      time: point.timeStr,
+    const points = activeHistoryData.map((point): HistoryChartPoint => ({
+      timeMs: point.time.getTime(),
       fullDate: point.time,
       avg: point.avg,
       gust: point.gust,
       dir: point.dir,
       isDaylight: point.isDaylight
     }));
+    return insertGapBreaks(
+      points,
+      p => p.timeMs,
+      (timeMs, before) => ({ ...before, timeMs, fullDate: new Date(timeMs), avg: null, gust: null, isGap: true })
+    );
   }, [activeHistoryData]);
 
-  const nightZones = useMemo(() => getNightZones(activeHistoryData), [activeHistoryData]);
+  const nightZones = useMemo(() => getNightZones(chartData), [chartData]);
+  const ticks = useMemo(() => getTicks(chartData, historyRange), [chartData, historyRange]);
+  const yTicks = useMemo(
+    () => windAxisTicks(activeHistoryData.reduce((max, p) => Math.max(max, p.gust), 0), unit),
+    [activeHistoryData, unit]
+  );
 
   return (
     <div className="animate-in slide-in-from-right-8 duration-300">
@@ -196,20 +236,23 @@ export function HistoryTabs({ timeline }: HistoryTabsProps) {
           >
             <defs>
               <linearGradient id="colorAvg" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor={APP_THEME.accentFlag.blue} stopOpacity={0.35} />
-                <stop offset="95%" stopColor={APP_THEME.accentFlag.blue} stopOpacity={0} />
+                <stop offset="5%" stopColor={theme.accentFlag.blue} stopOpacity={0.35} />
+                <stop offset="95%" stopColor={theme.accentFlag.blue} stopOpacity={0} />
               </linearGradient>
             </defs>
-            <CartesianGrid strokeDasharray="3 3" stroke={APP_THEME.border} vertical={false} />
+            <CartesianGrid strokeDasharray="3 3" stroke={theme.border} vertical={false} />
 
             <XAxis
-              dataKey="fullDate"
-              stroke={APP_THEME.textMuted}
+              dataKey="timeMs"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              ticks={ticks}
+              stroke={theme.textMuted}
               fontSize={10}
               tickLine={false}
               axisLine={false}
-              interval={historyRange === '24h' ? 47 : historyRange === '3d' ? 143 : 287}
-              tickFormatter={(val) => {
+              tickFormatter={(val: number) => {
                 if (!val) return '';
                 if (historyRange === '24h') {
                   return format(val, 'HH:mm');
@@ -218,8 +261,15 @@ export function HistoryTabs({ timeline }: HistoryTabsProps) {
               }}
               height={40}
             />
-            <YAxis stroke={APP_THEME.textMuted} fontSize={12} domain={[0, 'auto']} orientation="right" />
-            <Tooltip content={<CustomTooltip />} wrapperStyle={{ zIndex: 10 }} />
+            <YAxis
+              stroke={theme.textMuted}
+              fontSize={12}
+              domain={[0, yTicks[yTicks.length - 1]]}
+              ticks={yTicks}
+              tickFormatter={(ms: number) => formatWind(ms, unit, 0)}
+              orientation="right"
+            />
+            <Tooltip content={<CustomTooltip unit={unit} />} wrapperStyle={{ zIndex: 10 }} />
 
             {nightZones.map((zone, i) => (
               <ReferenceArea
@@ -233,18 +283,18 @@ export function HistoryTabs({ timeline }: HistoryTabsProps) {
             ))}
 
             <ReferenceLine
-              y={AVG_SURFABLE_MS}
-              stroke={APP_THEME.accentFlag.blue}
+              y={scale.avgSurfableMs}
+              stroke={theme.accentFlag.blue}
               strokeDasharray="3 3"
               strokeOpacity={0.5}
-              label={{ value: 'Surfbart', fill: APP_THEME.textMuted, fontSize: 10 }}
+              label={{ value: 'Surfbart', fill: theme.textMuted, fontSize: 10 }}
             />
 
             <Area
               type="monotone"
               dataKey="gust"
               name="Byvind"
-              stroke={APP_THEME.textSubtle}
+              stroke={theme.textSubtle}
               strokeWidth={1}
               fill="transparent"
               dot={false}
@@ -254,12 +304,12 @@ export function HistoryTabs({ timeline }: HistoryTabsProps) {
               type="monotone"
               dataKey="avg"
               name="Medel"
-              stroke={APP_THEME.accentFlag.blue}
+              stroke={theme.accentFlag.blue}
               strokeWidth={2}
               fillOpacity={1}
               fill="url(#colorAvg)"
               dot={false}
-              activeDot={{ r: 4, strokeWidth: 0, fill: APP_THEME.accentFlag.blue }}
+              activeDot={{ r: 4, strokeWidth: 0, fill: theme.accentFlag.blue }}
             />
           </AreaChart>
         ) : (
@@ -285,10 +335,10 @@ export function HistoryTabs({ timeline }: HistoryTabsProps) {
         <div className="text-right">
           <span className="text-xs text-app-subtle block">Högsta medelvind denna period</span>
           <span className="text-lg font-bold text-app-text">
-            {activeHistoryData.length > 0
-              ? Math.max(...activeHistoryData.map((d) => d.avg)).toFixed(1)
-              : '0.0'}{' '}
-            m/s
+            {formatWindWithUnit(
+              activeHistoryData.length > 0 ? Math.max(...activeHistoryData.map((d) => d.avg)) : 0,
+              unit
+            )}
           </span>
         </div>
       </div>
@@ -0,0 +1,59 @@
+import { LiveWindStatus } from '../../hooks/useLiveWind';
+import { useSpot } from '../../hooks/useSpot';
+
+/** Senaste mätning äldre än så = stationen har tystnat */
+const STATION_STALE_MS = 15 * 60 * 1000;
+
+interface LiveStatusProps {
+  /** null = ingen lyssnare (t.ex. kalendervy för en annan månad) */
+  status: LiveWindStatus | null;
+  lastReading: Date;
+  lastSync: Date | null;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Stationsstatus i headern: fylld punkt = live och färsk mätning,
+ * ring = stationen tyst, gul = offline eller återansluter.
+ */
+export function LiveStatus({ status, lastReading, lastSync }: LiveStatusProps) {
+  const { spot } = useSpot();
+  const stationFresh = Date.now() - lastReading.getTime() < STATION_STALE_MS;
+
+  if (status === 'reconnecting') {
+    return (
+      <span className="flex items-center gap-1.5 text-[11px] text-amber-700" title="Realtidsanslutningen föll — försöker igen">
+        <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse" />
+        Återansluter · {formatTime(lastReading)}
+      </span>
+    );
+  }
+
+  if (status === 'stale') {
+    return (
+      <span
+        className="flex items-center gap-1.5 text-[11px] text-amber-700"
+        title={lastSync ? `Offline — senast synkad ${formatTime(lastSync)}` : 'Offline — visar sparad data'}
+      >
+        <span className="w-2 h-2 rounded-full bg-transparent border-[1.5px] border-amber-500" />
+        Offline · {formatTime(lastReading)}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="flex items-center gap-1.5 text-[11px] text-app-muted"
+      title={status === 'live' ? 'Realtid — nya mätningar visas direkt' : undefined}
+    >
+      <span
+        className={`w-2 h-2 rounded-full ${stationFresh && status !== 'connecting'
+          ? 'bg-app-text'
+          : 'bg-transparent border-[1.5px] border-app-text'
+          }`}
+      />
+      {spot.station.name} · {formatTime(lastReading)}
+    </span>
+  );
+}
@@ -1,6 +1,13 @@
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { MatrixRow, MATRIX_SLOT_HOURS } from '../../hooks/useForecastMatrix';
 import { ForecastModelCell } from './ForecastModelCell';
+import { CONSENSUS_METHOD_LABELS } from '../../utils/consensusEngine';
+
+function slotStart(dayKey: string, slotIndex: number): Date {
+  const date = parseISO(`${dayKey}T00:00:00`);
+  date.setHours(MATRIX_SLOT_HOURS[slotIndex], 0, 0, 0);
+  return date;
+}
 
 interface ModelComparisonGridProps {
   rows: MatrixRow[];
@@ -21,6 +28,7 @@ export function ModelComparisonGrid({ rows, selectedDayKey }: ModelComparisonGri
         return now.getHours() >= h && now.getHours() < next;
       })
     : -1;
+  const consensusRow = rows.find(r => r.isConsensus);
 
   return (
     <div className="space-y-1">
@@ -50,7 +58,9 @@ export function ModelComparisonGrid({ rows, selectedDayKey }: ModelComparisonGri
               {row.isConsensus ? 'CONS.' : row.name}
             </span>
             {row.isConsensus && (
-              <span className="block text-[8px] text-app-subtle leading-none">median</span>
+              <span className="block text-[8px] text-app-subtle leading-none">
+                {row.consensusMethod ? CONSENSUS_METHOD_LABELS[row.consensusMethod] : 'median'}
+              </span>
             )}
             {row.error && (
               <span className="block text-[8px] text-amber-500 leading-none" title={row.error.message}>
@@ -63,9 +73,28 @@ export function ModelComparisonGrid({ rows, selectedDayKey }: ModelComparisonGri
             ? MATRIX_SLOT_HOURS.map(h => (
                 <div key={h} className="rounded-md bg-app-surface/60 animate-pulse h-10" />
               ))
-            : row.cells.map((cell, i) => <ForecastModelCell key={i} cell={cell} />)}
+            : row.cells.map((cell, i) => (
+                <ForecastModelCell
+                  key={i}
+                  cell={cell}
+                  beyondHorizon={row.horizonEnd != null && slotStart(selectedDayKey, i) >= row.horizonEnd}
+                />
+              ))}
         </div>
       ))}
+
+      {consensusRow?.contributions && consensusRow.contributions.length > 0 && (
+        <p className="pt-1 text-[9px] text-app-subtle leading-snug">
+          CONS. = {CONSENSUS_METHOD_LABELS[consensusRow.consensusMethod ?? 'median']} av{' '}
+          {consensusRow.contributions
+            .map(c => `${c.name} ${Math.round(c.weight * 100)} %`)
+            .join(' · ')}
+          {consensusRow.consensusMethod === 'skillWeighted'
+            ? ' — vikt efter träffsäkerhet.'
+            : ' — genomsnittlig vikt under dagen.'}
+          {' '}Byvind = högsta modellen.
+        </p>
+      )}
     </div>
   );
 }
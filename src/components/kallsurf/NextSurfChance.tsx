@@ -3,9 +3,12 @@ import { ChevronRight } from 'lucide-react';
 import { format } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import { HourlyBucket } from '../../hooks/useKallsurfTimeline';
-import { WIND_SCALE_LEVELS, getEffectiveLevelIndex } from '../../config/windScale';
-
-const INTERESTING_INDEX = WIND_SCALE_LEVELS.findIndex(l => l.id === 'interesting');
+import { getEffectiveLevelIndex } from '../../config/windScale';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { EnsembleMember, formatProbability, surfableProbabilityInWindow } from '../../utils/ensembleProbability';
+import { findChance, INTERESTING_LEVEL_INDEX } from '../../utils/surfChance';
+import { formatWind, windUnitSymbol } from '../../utils/windUnits';
 
 const getPartOfDay = (hour: number): string => {
   if (hour < 6) return 'natt';
@@ -16,34 +19,11 @@ const getPartOfDay = (hour: number): string => {
   return 'natt';
 };
 
-interface Chance {
-  bucket: HourlyBucket;
-  maxAvg: number;
-  maxGust: number;
-}
-
-/** Första prognoslucka ≥ Intressant + max inom det sammanhängande fönstret */
-function findChance(future: HourlyBucket[]): Chance | null {
-  const first = future.find(b => getEffectiveLevelIndex(b.avg, b.gust) >= INTERESTING_INDEX);
-  if (!first) return null;
-
-  let maxAvg = first.avg;
-  let maxGust = first.gust;
-  const startIdx = future.indexOf(first);
-  for (let i = startIdx + 1; i < future.length; i++) {
-    const b = future[i];
-    if (getEffectiveLevelIndex(b.avg, b.gust) < INTERESTING_INDEX) break;
-    if (b.time.getTime() - first.time.getTime() > 12 * 60 * 60 * 1000) break;
-    maxAvg = Math.max(maxAvg, b.avg);
-    maxGust = Math.max(maxGust, b.gust);
-  }
-
-  return { bucket: first, maxAvg, maxGust };
-}
-
 interface NextSurfChanceProps {
   hourlyBuckets: HourlyBucket[];
-  currentWind: { avg: number; gust: number };
+  currentWind: { avg: number; gust: number; dir?: number };
+  /** Ensemblemedlemmar — ger chansen för surfbart under fönstret */
+  ensemble?: EnsembleMember[] | null;
   onClick?: (date: Date) => void;
 }
 
@@ -52,15 +32,17 @@ interface NextSurfChanceProps {
  * Intressant eller högre. Döljs när det redan är minst Intressant nu —
  * då är svaret "nu" och hero-kortet bär det.
  */
-export function NextSurfChance({ hourlyBuckets, currentWind, onClick }: NextSurfChanceProps) {
+export function NextSurfChance({ hourlyBuckets, currentWind, ensemble, onClick }: NextSurfChanceProps) {
+  const scale = useWindScale();
+  const unit = useWindUnit();
   const { chance, hasForecast } = useMemo(() => {
     const now = new Date();
     const future = hourlyBuckets.filter(b => b.isForecast && b.time > now);
-    return { chance: findChance(future), hasForecast: future.length > 0 };
-  }, [hourlyBuckets]);
+    return { chance: findChance(future, scale), hasForecast: future.length > 0 };
+  }, [hourlyBuckets, scale]);
 
-  const nowIndex = getEffectiveLevelIndex(currentWind.avg, currentWind.gust);
-  if (nowIndex >= INTERESTING_INDEX) return null;
+  const nowIndex = getEffectiveLevelIndex(currentWind.avg, currentWind.gust, scale, currentWind.dir);
+  if (nowIndex >= INTERESTING_LEVEL_INDEX) return null;
 
   // Skilj på "lugn prognos" och "prognos saknas" — annars ljuger kortet
   // när prognoskällorna är nere.
@@ -79,11 +61,12 @@ export function NextSurfChance({ hourlyBuckets, currentWind, onClick }: NextSurf
     );
   }
 
-  const { bucket, maxAvg, maxGust } = chance;
-  const level = WIND_SCALE_LEVELS[getEffectiveLevelIndex(bucket.avg, bucket.gust)];
-  const lowAvg = Math.round(bucket.avg);
-  const highAvg = Math.round(maxAvg);
-  const avgText = highAvg > lowAvg ? `${lowAvg}–${highAvg}` : `${lowAvg}`;
+  const { bucket, maxAvg, maxGust, endTime } = chance;
+  const probability = ensemble ? surfableProbabilityInWindow(ensemble, bucket.time, endTime, scale) : null;
+  const level = scale.levels[getEffectiveLevelIndex(bucket.avg, bucket.gust, scale, bucket.dir)];
+  const lowAvg = formatWind(bucket.avg, unit, 0);
+  const highAvg = formatWind(maxAvg, unit, 0);
+  const avgText = highAvg !== lowAvg ? `${lowAvg}–${highAvg}` : lowAvg;
 
   return (
     <button
@@ -99,8 +82,14 @@ export function NextSurfChance({ hourlyBuckets, currentWind, onClick }: NextSurf
             {format(bucket.time, 'EEE d MMMM', { locale: sv })} · {getPartOfDay(bucket.time.getHours())}
           </p>
           <p className="text-xs text-app-muted mt-0.5">
-            {level.label} — prognos {avgText} m/s, by {Math.round(maxGust)}
+            {level.label} — prognos {avgText} {windUnitSymbol(unit)}, by {formatWind(maxGust, unit, 0)}
           </p>
+          {probability != null && (
+            <p className="text-[11px] text-app-subtle mt-0.5" title="Andel ensemblemedlemmar (ECMWF + GFS) med surfbart under fönstret">
+              Chans för surfbart: <span className="font-bold text-app-text">{formatProbability(probability)}</span>
+              {probability < 0.3 ? ' — osäkert' : probability >= 0.7 ? ' — säkert läge' : ''}
+            </p>
+          )}
         </div>
         <ChevronRight size={18} className="text-app-subtle flex-shrink-0" />
       </div>
@@ -12,20 +12,20 @@ import {
 import { TimelinePoint } from '../../hooks/useKallsurfTimeline';
 import { buildNowWindChartData, NowWindBar, ForecastHourPoint } from '../../utils/nowWindChartData';
 import { getWindColor } from '../../utils/windColors';
-import { APP_THEME } from '../../config/windScale';
+import { WindScale } from '../../config/windScale';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useAppTheme, useWindUnit } from '../../hooks/usePreferences';
+import { formatWind, windAxisTicks, windUnitSymbol } from '../../utils/windUnits';
 
 const GUST_GRAY = '#D4D4D4';
 const GAP_COLOR = '#E8E8E6';
-const INK = APP_THEME.text;
 
-const formatMs = (n: number) => n.toFixed(1).replace('.', ',');
-
-function renderAvgBar(props: unknown) {
-  return <WindBarShape {...(props as BarShapeProps)} dataKey="avgBar" />;
-}
-
-function renderGustBar(props: unknown) {
-  return <WindBarShape {...(props as BarShapeProps)} dataKey="gustDeltaBar" />;
+/** Stapelformer med aktiv skalas färger */
+function barShapes(scale: WindScale) {
+  return {
+    avg: (props: unknown) => <WindBarShape {...(props as BarShapeProps)} dataKey="avgBar" scale={scale} />,
+    gust: (props: unknown) => <WindBarShape {...(props as BarShapeProps)} dataKey="gustDeltaBar" scale={scale} />,
+  };
 }
 
 interface BarShapeProps {
@@ -35,10 +35,12 @@ interface BarShapeProps {
   height?: number;
   payload?: NowWindBar;
   dataKey?: string;
+  scale?: WindScale;
 }
 
 function WindArrow({ x, y, dir, isForecast }: { x: number; y: number; dir: number; isForecast: boolean }) {
-  const color = isForecast ? APP_THEME.textSubtle : INK;
+  const theme = useAppTheme();
+  const color = isForecast ? theme.textSubtle : theme.text;
   return (
     <g
       transform={`translate(${x}, ${y}) rotate(${dir + 180})`}
@@ -56,7 +58,7 @@ function WindArrow({ x, y, dir, isForecast }: { x: number; y: number; dir: numbe
   );
 }
 
-function WindBarShape({ x = 0, y = 0, width = 0, height = 0, payload, dataKey }: BarShapeProps) {
+function WindBarShape({ x = 0, y = 0, width = 0, height = 0, payload, dataKey, scale }: BarShapeProps) {
   if (!payload || height <= 0) return null;
 
   const isAvg = dataKey === 'avgBar';
@@ -82,10 +84,10 @@ function WindBarShape({ x = 0, y = 0, width = 0, height = 0, payload, dataKey }:
 
   if (payload.isForecast) {
     const stroke = isAvg && payload.avg != null
-      ? getWindColor(payload.avg)
+      ? getWindColor(payload.avg, scale)
       : GUST_GRAY;
     const fill = isAvg && payload.avg != null
-      ? getWindColor(payload.avg)
+      ? getWindColor(payload.avg, scale)
       : GUST_GRAY;
     return (
       <g>
@@ -107,7 +109,7 @@ function WindBarShape({ x = 0, y = 0, width = 0, height = 0, payload, dataKey }:
   }
 
   const fill = isAvg && payload.avg != null
-    ? getWindColor(payload.avg)
+    ? getWindColor(payload.avg, scale)
     : GUST_GRAY;
 
   return (
@@ -139,15 +141,23 @@ function ScrubSync({
 interface NowWindChartProps {
   timeline: TimelinePoint[];
   forecastHourly: ForecastHourPoint[];
+  /** MET Nordic nowcast för de närmaste 30 minuterna (valfri) */
+  nowcast?: ForecastHourPoint[];
   onScrubChange: (bar: NowWindBar | null) => void;
 }
 
-export function NowWindChart({ timeline, forecastHourly, onScrubChange }: NowWindChartProps) {
+export function NowWindChart({ timeline, forecastHourly, nowcast, onScrubChange }: NowWindChartProps) {
   const chartData = useMemo(
-    () => buildNowWindChartData(timeline, forecastHourly),
-    [timeline, forecastHourly]
+    () => buildNowWindChartData(timeline, forecastHourly, new Date(), nowcast),
+    [timeline, forecastHourly, nowcast]
   );
-  const { bars, nuLineLabel, yMax, summary, hasForecast } = chartData;
+  const { bars, nuLineLabel, yMax, summary, hasForecast, usesNowcast } = chartData;
+  const scale = useWindScale();
+  const theme = useAppTheme();
+  const unit = useWindUnit();
+  const shapes = useMemo(() => barShapes(scale), [scale]);
+  // yMax har redan luft över byarna — används som axelns minsta topp
+  const yTicks = useMemo(() => windAxisTicks(0, unit, yMax), [unit, yMax]);
 
   if (bars.length === 0) {
     return (
@@ -179,10 +189,10 @@ export function NowWindChart({ timeline, forecastHourly, onScrubChange }: NowWin
             barGap={0}
             onMouseLeave={() => onScrubChange(null)}
           >
-            <CartesianGrid strokeDasharray="2 3" stroke={APP_THEME.borderMuted} vertical={false} />
+            <CartesianGrid strokeDasharray="2 3" stroke={theme.borderMuted} vertical={false} />
             <XAxis
               dataKey="timeStr"
-              stroke={APP_THEME.textSubtle}
+              stroke={theme.textSubtle}
               fontSize={8}
               tickLine={false}
               axisLine={false}
@@ -191,31 +201,31 @@ export function NowWindChart({ timeline, forecastHourly, onScrubChange }: NowWin
             />
             <YAxis
               orientation="left"
-              tick={{ fontSize: 8, fill: APP_THEME.textSubtle, fontFamily: 'monospace' }}
+              tick={{ fontSize: 8, fill: theme.textSubtle, fontFamily: 'monospace' }}
               tickLine={false}
               axisLine={false}
-              domain={[0, yMax]}
-              allowDecimals={false}
-              tickCount={5}
+              domain={[0, yTicks[yTicks.length - 1]]}
+              ticks={yTicks}
+              tickFormatter={(ms: number) => formatWind(ms, unit, 0)}
               width={28}
               label={{
-                value: 'm/s',
+                value: windUnitSymbol(unit),
                 angle: -90,
                 position: 'insideLeft',
                 offset: 12,
-                style: { fontSize: 8, fill: APP_THEME.textSubtle },
+                style: { fontSize: 8, fill: theme.textSubtle },
               }}
             />
 
             <Tooltip
               content={<ScrubSync onScrub={onScrubChange} />}
-              cursor={{ stroke: INK, strokeWidth: 1, strokeDasharray: '2 2' }}
+              cursor={{ stroke: theme.text, strokeWidth: 1, strokeDasharray: '2 2' }}
               isAnimationActive={false}
             />
 
             <ReferenceLine
               x={nuLineLabel}
-              stroke={INK}
+              stroke={theme.text}
               strokeWidth={1.2}
               label={({ viewBox }) => {
                 if (!viewBox || !('x' in viewBox)) return <g />;
@@ -225,7 +235,7 @@ export function NowWindChart({ timeline, forecastHourly, onScrubChange }: NowWin
                     x={x}
                     y={y - 8}
                     textAnchor="middle"
-                    fill={INK}
+                    fill={theme.text}
                     fontSize={8}
                     fontWeight={700}
                   >
@@ -239,13 +249,13 @@ export function NowWindChart({ timeline, forecastHourly, onScrubChange }: NowWin
               dataKey="avgBar"
               stackId="wind"
               minPointSize={2}
-              shape={renderAvgBar}
+              shape={shapes.avg}
               isAnimationActive={false}
             />
             <Bar
               dataKey="gustDeltaBar"
               stackId="wind"
-              shape={renderGustBar}
+              shape={shapes.gust}
               isAnimationActive={false}
             />
           </ComposedChart>
@@ -260,10 +270,10 @@ export function NowWindChart({ timeline, forecastHourly, onScrubChange }: NowWin
           <span className="flex items-center gap-1.5 text-app-text">
             <span
               className="w-2 h-2 rounded-full flex-shrink-0"
-              style={{ backgroundColor: getWindColor((summary.avgMin + summary.avgMax) / 2) }}
+              style={{ backgroundColor: getWindColor((summary.avgMin + summary.avgMax) / 2, scale) }}
             />
             <span className="font-mono">
-              {formatMs(summary.avgMin)} — {formatMs(summary.avgMax)} m/s
+              {formatWind(summary.avgMin, unit)} — {formatWind(summary.avgMax, unit)} {windUnitSymbol(unit)}
             </span>
           </span>
         ) : (
@@ -273,7 +283,7 @@ export function NowWindChart({ timeline, forecastHourly, onScrubChange }: NowWin
           <span className="flex items-center gap-1.5 text-app-text">
             <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: GUST_GRAY }} />
             <span className="font-mono">
-              {formatMs(summary.gustMin)} — {formatMs(summary.gustMax)} m/s
+              {formatWind(summary.gustMin, unit)} — {formatWind(summary.gustMax, unit)} {windUnitSymbol(unit)}
             </span>
             <span className="text-app-muted">(by)</span>
           </span>
@@ -281,6 +291,9 @@ export function NowWindChart({ timeline, forecastHourly, onScrubChange }: NowWin
         {!hasForecast && (
           <span className="text-app-subtle w-full">Prognos saknas</span>
         )}
+        {usesNowcast && (
+          <span className="text-app-subtle w-full">Närmaste 30 min: MET Nordic nowcast</span>
+        )}
       </div>
     </div>
   );
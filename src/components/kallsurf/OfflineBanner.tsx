@@ -0,0 +1,35 @@
+import { CloudOff } from 'lucide-react';
+
+interface OfflineBannerProps {
+  /** Nätet borta eller live-lyssnaren svarar ur cachen */
+  offline: boolean;
+  /** Senaste observation som visas */
+  lastReading: Date;
+  /** Äldsta prognos ur service workerns cache, null = färsk */
+  forecastCachedAt: Date | null;
+  /** Uppladdningar som väntar på täckning */
+  pendingUploads: number;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Visas när appen kör på sparad data: offline eller så svag täckning att
+ * prognosen kom ur cachen.
+ */
+export function OfflineBanner({ offline, lastReading, forecastCachedAt, pendingUploads }: OfflineBannerProps) {
+  if (!offline && !forecastCachedAt && pendingUploads === 0) return null;
+
+  const parts = [
+    offline ? `Offline — data från ${formatTime(lastReading)}` : forecastCachedAt ? 'Svag täckning' : null,
+    forecastCachedAt ? `prognos från ${formatTime(forecastCachedAt)}` : null,
+    pendingUploads > 0 ? `${pendingUploads} ${pendingUploads === 1 ? 'uppladdning väntar' : 'uppladdningar väntar'}` : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 px-3 py-1.5 rounded-lg text-amber-900 mb-3 text-xs flex items-center gap-2">
+      <CloudOff size={12} className="flex-shrink-0" />
+      {parts.join(' · ')}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Bell, BellRing } from 'lucide-react';
+import { useSpot } from '../../hooks/useSpot';
+import { useAlertRules } from '../../hooks/useAlertRules';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { DEFAULT_PUSH_RULE_IDS, PUSH_ALERT_RULES } from '../../config/pushAlerts';
+import { isPushSupported, loadPushRules, PushRulesBySpot, savePushRules } from '../../api/pushSubscriptions';
+import { AlertRule, describeAlertRule } from '../../utils/alertRules';
+
+/** Egna regler som något spot har valt — bara de skickas med till servern */
+function selectedCustomRules(rules: PushRulesBySpot, alertRules: AlertRule[]): AlertRule[] {
+  const ids = new Set(Object.values(rules).flat());
+  return alertRules.filter(rule => ids.has(rule.id));
+}
+
+/**
+ * Klockan i headern: välj vilka surflarm som ska komma som push-notiser
+ * för valt spot — fasta regler och egna larm. Döljs i webbläsare utan
+ * Web Push (eller utan VAPID-nyckel).
+ */
+export function PushAlertButton() {
+  const { spot } = useSpot();
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const { rules: alertRules } = useAlertRules();
+  const [open, setOpen] = useState(false);
+  const [rules, setRules] = useState<PushRulesBySpot>({});
+  /** Kopian av egna regler i prenumerationen */
+  const [syncedCustom, setSyncedCustom] = useState<AlertRule[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supported = isPushSupported();
+
+  useEffect(() => {
+    if (!supported) return;
+    loadPushRules()
+      .then(saved => {
+        setRules(saved?.rules ?? {});
+        setSyncedCustom(saved?.customRules ?? []);
+      })
+      .catch(err => console.warn('Push rules load failed', err));
+  }, [supported]);
+
+  const active = Object.values(rules).some(ids => ids.length > 0);
+
+  // Ändrade eller borttagna egna larm ska följa med till servern
+  useEffect(() => {
+    if (!active || syncedCustom === null) return;
+    const custom = selectedCustomRules(rules, alertRules);
+    if (JSON.stringify(custom) === JSON.stringify(syncedCustom)) return;
+    savePushRules(rules, custom)
+      .then(() => setSyncedCustom(custom))
+      .catch(err => console.warn('Push rules sync failed', err));
+  }, [active, rules, alertRules, syncedCustom]);
+
+  if (!supported) return null;
+
+  const spotRules = rules[spot.id] ?? [];
+
+  const update = async (ruleIds: string[]) => {
+    const next = { ...rules, [spot.id]: ruleIds };
+    const custom = selectedCustomRules(next, alertRules);
+    setSaving(true);
+    setError(null);
+    try {
+      await savePushRules(next, custom);
+      setRules(next);
+      setSyncedCustom(custom);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = (ruleId: string) =>
+    update(spotRules.includes(ruleId) ? spotRules.filter(id => id !== ruleId) : [...spotRules, ruleId]);
+
+  const options = [
+    ...PUSH_ALERT_RULES.map(rule => ({ id: rule.id, label: rule.label, detail: null as string | null })),
+    ...alertRules.map(rule => ({ id: rule.id, label: rule.name, detail: describeAlertRule(rule, scale, unit) })),
+  ];
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="bg-transparent border-none cursor-pointer p-0 text-app-muted hover:text-app-text"
+        aria-label="Surflarm"
+      >
+        {active ? <BellRing size={18} className="text-app-text" /> : <Bell size={18} />}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/50 animate-in fade-in duration-200">
+          <div className="w-full max-w-md bg-app-surface rounded-t-2xl border border-app-border shadow-2xl max-h-[85vh] overflow-y-auto animate-in slide-in-from-bottom-4 duration-300">
+            <div className="p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold text-app-text">Surflarm · {spot.name}</h3>
+                <button type="button" onClick={() => setOpen(false)} className="text-xs text-app-muted">
+                  Stäng
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                {options.map(rule => {
+                  const checked = spotRules.includes(rule.id);
+                  return (
+                    <label key={rule.id} className="flex items-center justify-between gap-3 py-1.5 cursor-pointer">
+                      <span className="min-w-0">
+                        <span className="block text-sm text-app-text">{rule.label}</span>
+                        {rule.detail && <span className="block text-[11px] text-app-muted">{rule.detail}</span>}
+                      </span>
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={saving}
+                        onChange={() => toggle(rule.id)}
+                        className="h-4 w-4 accent-app-text"
+                      />
+                    </label>
+                  );
+                })}
+              </div>
+
+              {spotRules.length === 0 && (
+                <button
+                  type="button"
+                  disabled={saving}
+                  onClick={() => update(DEFAULT_PUSH_RULE_IDS)}
+                  className="w-full py-2.5 rounded-xl bg-app-text text-app-bg text-sm font-semibold disabled:opacity-50"
+                >
+                  Slå på surflarm
+                </button>
+              )}
+
+              {error && <p className="text-xs text-red-600">{error}</p>}
+
+              <p className="text-[10px] text-app-subtle leading-snug">
+                Prognoslarmen bygger på consensus och sjöns vindskala (inte din egen profil) och kommer
+                en gång per dag och regel — samma fönster annonseras inte igen när prognosen uppdateras.
+                Egna larm skapar du under Egna larm i Läget.
+                På iPhone krävs att appen är installerad på hemskärmen.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
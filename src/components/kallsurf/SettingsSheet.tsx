@@ -0,0 +1,255 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { addDays, format, startOfHour } from 'date-fns';
+import { useSpot } from '../../hooks/useSpot';
+import { usePreferences } from '../../hooks/usePreferences';
+import { useWindProfiles } from '../../hooks/useWindProfiles';
+import { useCacheManager } from '../../hooks/useCacheManager';
+import { useForecastModels } from '../../hooks/useForecastModels';
+import { getForecastProviders } from '../../api/forecastProviders';
+import { CacheUsage } from '../../utils/idbStore';
+import { TAB_OPTIONS, THEME_OPTIONS } from '../../utils/preferences';
+import { WIND_UNIT_OPTIONS } from '../../utils/windUnits';
+import { WindProfileSheet } from './WindProfileSheet';
+
+interface SettingsSheetProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const CACHE_KIND_LABELS: Record<keyof CacheUsage['byKind'], string> = {
+  obs: 'Observationer',
+  dailyStats: 'Dagsstatistik',
+  forecast: 'Prognoser',
+  media: 'Media',
+};
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h4 className="text-[10px] font-bold uppercase tracking-wider text-app-muted">{title}</h4>
+      {children}
+    </section>
+  );
+}
+
+/** Modellstatus: egen instans av hooken — hämtningarna delas via query-cachen */
+function ForecastModelStatus() {
+  const { spot } = useSpot();
+  const [range] = useState(() => {
+    const start = startOfHour(new Date());
+    return { start, end: addDays(start, 2) };
+  });
+  const { loadingByModel, errors, lastUpdatedByModel } = useForecastModels({
+    lat: spot.lat,
+    lon: spot.lon,
+    altitude: spot.altitude,
+    startDate: range.start,
+    endDate: range.end,
+  });
+
+  return (
+    <ul className="divide-y divide-app-border-muted rounded-lg border border-app-border">
+      {getForecastProviders().map(provider => {
+        const error = errors[provider.id];
+        const updatedAt = lastUpdatedByModel[provider.id];
+        return (
+          <li key={provider.id} className="flex items-center justify-between gap-3 px-3 py-2 text-xs">
+            <span className="flex items-center gap-2 text-app-text">
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: provider.color }} />
+              {provider.name}
+            </span>
+            <span className={`text-right ${error ? 'text-red-600' : 'text-app-muted'}`}>
+              {loadingByModel[provider.id]
+                ? 'Hämtar…'
+                : error
+                  ? error.message
+                  : updatedAt
+                    ? `OK · ${format(new Date(updatedAt), 'HH:mm')}`
+                    : '—'}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * Kugghjulet i headern: tema, startflik, vindenhet och vindskala, status per
+ * prognosmodell, cachen (användning, rensa, hämta om) och byggversion.
+ */
+export function SettingsSheet({ open, onClose }: SettingsSheetProps) {
+  const { spot } = useSpot();
+  const { theme, defaultTab, windUnit, setPreference } = usePreferences();
+  const { activeId, profiles, setActiveId } = useWindProfiles();
+  const { invalidate, clearAll, clearOldCaches, getCacheStats, ignoreCache, setIgnoreCache } = useCacheManager();
+  const [usage, setUsage] = useState<CacheUsage | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [profileSheetOpen, setProfileSheetOpen] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    getCacheStats()
+      .then(setUsage)
+      .catch(err => console.warn('Cache stats failed', err));
+    // getCacheStats är en ny funktion varje render — läs bara när arket öppnas
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  if (!open) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setUsage(await getCacheStats());
+    } catch (err) {
+      console.warn('Cache action failed', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chipClass = (selected: boolean) =>
+    `px-3 py-1.5 rounded-lg border text-xs ${selected ? 'bg-app-text text-app-bg border-app-text' : 'bg-app-surface border-app-border text-app-text'}`;
+  const actionClass =
+    'flex-1 py-2 rounded-xl border border-app-border text-xs text-app-text disabled:opacity-40';
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/50 animate-in fade-in duration-200">
+        <div className="w-full max-w-md bg-app-surface rounded-t-2xl border border-app-border shadow-2xl max-h-[85vh] overflow-y-auto animate-in slide-in-from-bottom-4 duration-300">
+          <div className="p-4 space-y-5">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold text-app-text">Inställningar</h3>
+              <button type="button" onClick={onClose} className="text-xs text-app-muted">
+                Stäng
+              </button>
+            </div>
+
+            <Section title="Tema">
+              <div className="flex flex-wrap gap-2">
+                {THEME_OPTIONS.map(option => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setPreference('theme', option.id)}
+                    className={chipClass(theme === option.id)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="Startflik">
+              <div className="flex flex-wrap gap-2">
+                {TAB_OPTIONS.map(option => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setPreference('defaultTab', option.id)}
+                    className={chipClass(defaultTab === option.id)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="Vindenhet">
+              <div className="flex flex-wrap gap-2">
+                {WIND_UNIT_OPTIONS.map(option => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setPreference('windUnit', option.id)}
+                    className={chipClass(windUnit === option.id)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="Vindskala">
+              <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={() => setActiveId(null)} className={chipClass(activeId === null)}>
+                  {spot.name}s skala
+                </button>
+                {profiles.map(profile => (
+                  <button
+                    key={profile.id}
+                    type="button"
+                    onClick={() => setActiveId(profile.id)}
+                    className={chipClass(activeId === profile.id)}
+                  >
+                    {profile.name}
+                  </button>
+                ))}
+              </div>
+              <button type="button" onClick={() => setProfileSheetOpen(true)} className="text-xs text-app-muted">
+                Hantera skalor ›
+              </button>
+            </Section>
+
+            <Section title="Prognosmodeller">
+              <ForecastModelStatus />
+            </Section>
+
+            <Section title="Cache">
+              {usage ? (
+                <ul className="text-xs space-y-1">
+                  {(Object.keys(CACHE_KIND_LABELS) as Array<keyof CacheUsage['byKind']>).map(kind => (
+                    <li key={kind} className="flex justify-between text-app-text">
+                      <span>{CACHE_KIND_LABELS[kind]}</span>
+                      <span className="text-app-muted tabular-nums">
+                        {usage.byKind[kind].entries} st · {formatMb(usage.byKind[kind].bytes)}
+                      </span>
+                    </li>
+                  ))}
+                  <li className="flex justify-between font-semibold text-app-text pt-1 border-t border-app-border-muted">
+                    <span>Totalt</span>
+                    <span className="tabular-nums">{usage.entries} st · {formatMb(usage.bytes)}</span>
+                  </li>
+                </ul>
+              ) : (
+                <p className="text-xs text-app-muted">Läser cachen…</p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => run(() => invalidate(['obs', 'dailyStats', 'forecast', 'media']))}
+                  className={actionClass}
+                >
+                  Hämta om allt
+                </button>
+                <button type="button" disabled={busy} onClick={() => run(clearOldCaches)} className={actionClass}>
+                  Rensa gammalt
+                </button>
+                <button type="button" disabled={busy} onClick={() => run(clearAll)} className={actionClass}>
+                  Rensa cache
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-app-text">
+                <input type="checkbox" checked={ignoreCache} onChange={e => setIgnoreCache(e.target.checked)} />
+                Ignorera cache (bara denna session)
+              </label>
+            </Section>
+
+            <Section title="Om appen">
+              <p className="text-xs text-app-muted">
+                Version {__APP_VERSION__} · byggd {format(new Date(__BUILD_TIME__), 'yyyy-MM-dd HH:mm')}
+              </p>
+            </Section>
+          </div>
+        </div>
+      </div>
+
+      <WindProfileSheet open={profileSheetOpen} onClose={() => setProfileSheetOpen(false)} />
+    </>
+  );
+}
@@ -0,0 +1,27 @@
+import { ChevronDown } from 'lucide-react';
+import { SPOTS } from '../../config/spots';
+import { useSpot } from '../../hooks/useSpot';
+
+/**
+ * Spotväljare i headern. Byte av spot monterar om vyerna (se App.tsx),
+ * så all data hämtas på nytt för sjöns station och prognospunkt.
+ */
+export function SpotSwitcher() {
+  const { spot, setSpotId } = useSpot();
+
+  return (
+    <label className="relative flex items-center">
+      <span className="sr-only">Välj sjö</span>
+      <select
+        value={spot.id}
+        onChange={e => setSpotId(e.target.value)}
+        className="appearance-none bg-transparent border border-app-border rounded-full pl-2.5 pr-6 py-1 text-[11px] font-bold text-app-text cursor-pointer focus:outline-none focus:border-app-text"
+      >
+        {SPOTS.map(s => (
+          <option key={s.id} value={s.id}>{s.name}</option>
+        ))}
+      </select>
+      <ChevronDown size={12} className="absolute right-2 text-app-subtle pointer-events-none" />
+    </label>
+  );
+}
@@ -0,0 +1,223 @@
+import type { ReactNode } from 'react';
+import { format, parseISO } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { X } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { useStationHealth } from '../../hooks/useStationHealth';
+import { useSpot } from '../../hooks/useSpot';
+import { useAppTheme } from '../../hooks/usePreferences';
+import {
+  DayUptime,
+  EXPECTED_PER_DAY,
+  formatDuration,
+  StationVerdict,
+} from '../../utils/stationHealth';
+
+/** Så många luckor listas — resten sammanfattas */
+const MAX_GAPS = 12;
+
+const formatPercent = (n: number) => `${Math.round(n * 100)} %`;
+
+const VERDICT_STYLE: Record<StationVerdict, { label: string; className: string }> = {
+  ok: { label: 'Stationen mår bra', className: 'bg-emerald-50 border-emerald-200 text-emerald-900' },
+  watch: { label: 'Håll koll', className: 'bg-amber-50 border-amber-200 text-amber-900' },
+  visit: { label: 'Dags för platsbesök', className: 'bg-red-50 border-red-200 text-red-800' },
+};
+
+function uptimeColor(uptime: number, ink: string): string {
+  if (uptime >= 0.95) return ink;
+  if (uptime >= 0.7) return '#f59e0b';
+  return '#dc2626';
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="bg-app-surface border border-app-border rounded-xl p-3 shadow-sm">
+      <h3 className="text-app-muted text-[10px] uppercase tracking-wider font-bold mb-2">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function DayUptimeBars({ days }: { days: DayUptime[] }) {
+  const theme = useAppTheme();
+  return (
+    <div>
+      <div className="flex items-end gap-[2px] h-16">
+        {days.map(day => (
+          <div
+            key={day.dateKey}
+            className="flex-1 rounded-sm"
+            style={{ height: `${Math.max(4, day.uptime * 100)}%`, backgroundColor: uptimeColor(day.uptime, theme.text) }}
+            title={`${day.dateKey}: ${formatPercent(day.uptime)} (${day.received}/${day.expected})`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[9px] text-app-subtle mt-1">
+        <span>{days[0] && format(parseISO(days[0].dateKey), 'd MMM', { locale: sv })}</span>
+        <span>idag</span>
+      </div>
+    </div>
+  );
+}
+
+interface StationHealthViewProps {
+  onClose: () => void;
+}
+
+/**
+ * Stationsdiagnostik (öppnas från headerns stationsstatus): rapportintervall,
+ * luckor, upptid per dag och månad, dataPointsCount-trend och äldsta dokument.
+ */
+export function StationHealthView({ onClose }: StationHealthViewProps) {
+  const health = useStationHealth();
+  const { spot } = useSpot();
+  const theme = useAppTheme();
+  const verdict = VERDICT_STYLE[health.verdict.verdict];
+  const { compliance } = health;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-end sm:items-center justify-center animate-in fade-in duration-200">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-app-bg border border-app-border rounded-t-2xl sm:rounded-2xl shadow-2xl p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-base font-bold text-app-text">Stationen · {spot.station.name}</h2>
+          <button onClick={onClose} className="text-app-muted hover:text-app-text" aria-label="Stäng">
+            <X size={20} />
+          </button>
+        </div>
+
+        {health.error && (
+          <p className="text-xs text-amber-600">Kunde inte hämta all stationsdata — visar det som finns.</p>
+        )}
+
+        {health.loading && health.days.every(d => d.received === 0) ? (
+          <p className="text-xs text-app-muted py-8 text-center">Hämtar stationsdata…</p>
+        ) : (
+          <>
+            <div className={`border rounded-xl px-3 py-2 text-xs ${verdict.className}`}>
+              <p className="font-bold">{verdict.label}</p>
+              {health.verdict.reasons.length > 0 && <p className="mt-0.5">{health.verdict.reasons.join(' · ')}</p>}
+              {health.latest && (
+                <p className="mt-0.5 opacity-80">
+                  Senaste rapport {format(health.latest, 'd MMM HH:mm', { locale: sv })}
+                </p>
+              )}
+            </div>
+
+            <Section title="Rapportintervall · 30 dagar">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div>
+                  <p className="text-lg font-bold text-app-text tabular-nums">{formatPercent(compliance.uptime)}</p>
+                  <p className="text-[10px] text-app-muted">upptid</p>
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-app-text tabular-nums">{formatPercent(compliance.onTimeShare)}</p>
+                  <p className="text-[10px] text-app-muted">i tid (≤ 5,5 min)</p>
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-app-text tabular-nums">
+                    {compliance.medianIntervalMs != null ? formatDuration(compliance.medianIntervalMs) : '–'}
+                  </p>
+                  <p className="text-[10px] text-app-muted">median</p>
+                </div>
+              </div>
+              <p className="text-[10px] text-app-subtle mt-2">
+                {compliance.received.toLocaleString('sv-SE')} av {compliance.expected.toLocaleString('sv-SE')} förväntade rapporter (var 5:e minut)
+              </p>
+            </Section>
+
+            <Section title="Upptid per dag">
+              <DayUptimeBars days={health.days} />
+            </Section>
+
+            <Section title={`Luckor > 15 min · ${health.gaps.length}`}>
+              {health.gaps.length === 0 ? (
+                <p className="text-xs text-app-muted">Inga luckor senaste 30 dagarna.</p>
+              ) : (
+                <ul className="space-y-0.5">
+                  {health.gaps.slice(0, MAX_GAPS).map(gap => (
+                    <li key={gap.from.getTime()} className="text-xs flex justify-between gap-2">
+                      <span className="text-app-muted tabular-nums">
+                        {format(gap.from, 'd MMM HH:mm', { locale: sv })}
+                        {' – '}
+                        {gap.to ? format(gap.to, 'HH:mm') : 'pågår'}
+                      </span>
+                      <span className={`tabular-nums ${gap.to ? 'text-app-text' : 'text-red-600 font-bold'}`}>
+                        {formatDuration(gap.durationMs)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {health.gaps.length > MAX_GAPS && (
+                <p className="text-[10px] text-app-subtle mt-1">+ {health.gaps.length - MAX_GAPS} äldre luckor</p>
+              )}
+            </Section>
+
+            <Section title="Upptid per månad">
+              {health.months.length === 0 ? (
+                <p className="text-xs text-app-muted">Ingen dagsstatistik.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {health.months.map(month => (
+                    <li key={month.monthKey} className="flex items-center gap-2 text-xs">
+                      <span className="w-14 text-app-muted capitalize">
+                        {format(parseISO(`${month.monthKey}-01`), 'MMM yy', { locale: sv })}
+                      </span>
+                      <span className="flex-1 h-1.5 bg-app-border-muted rounded-full overflow-hidden">
+                        <span
+                          className="block h-full rounded-full"
+                          style={{ width: `${month.uptime * 100}%`, backgroundColor: uptimeColor(month.uptime, theme.text) }}
+                        />
+                      </span>
+                      <span className="w-10 text-right tabular-nums text-app-text">{formatPercent(month.uptime)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="Mätpunkter per dag (dailyStats)">
+              {health.trend.length > 0 ? (
+                <div className="h-28 w-full">
+                  <ResponsiveContainer width="100%" height="100%" minWidth={0} minHeight={100} debounce={50}>
+                    <LineChart
+                      data={health.trend.map(d => ({ t: parseISO(d.date).getTime(), n: d.dataPointsCount }))}
+                      margin={{ top: 4, right: 0, left: -24, bottom: 0 }}
+                    >
+                      <XAxis
+                        dataKey="t"
+                        type="number"
+                        scale="time"
+                        domain={['dataMin', 'dataMax']}
+                        fontSize={9}
+                        stroke={theme.textSubtle}
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={(ms: number) => format(ms, 'MMM', { locale: sv })}
+                      />
+                      <YAxis fontSize={9} stroke={theme.textSubtle} tickLine={false} axisLine={false} domain={[0, EXPECTED_PER_DAY + 12]} />
+                      <ReferenceLine y={EXPECTED_PER_DAY} stroke={theme.accentFlag.blue} strokeDasharray="4 3" strokeOpacity={0.6} />
+                      <Line type="monotone" dataKey="n" stroke={theme.text} strokeWidth={1} dot={false} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-xs text-app-muted">Ingen dagsstatistik.</p>
+              )}
+              <p className="text-[10px] text-app-subtle mt-1">Streckad linje = {EXPECTED_PER_DAY} (full dag).</p>
+            </Section>
+
+            <Section title="Äldsta dokument">
+              <p className="text-xs text-app-text">
+                {health.oldest
+                  ? format(health.oldest, 'd MMMM yyyy HH:mm', { locale: sv })
+                  : health.loading ? 'Hämtar…' : 'Inget hittat'}
+              </p>
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
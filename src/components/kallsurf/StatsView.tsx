@@ -1,11 +1,15 @@
 import { useMemo, useState } from 'react';
 import { useDailyStats } from '../../hooks/useDailyStats';
 import { useStatsFilterState } from '../../hooks/useStatsFilterState';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { useWindProfiles } from '../../hooks/useWindProfiles';
 import { STATS_DATA_START_YEAR } from '../../config/constants';
 import {
   applyStatsFilters,
   describeEmptyFilters,
-  MIN_LEVEL_PRESETS,
+  getMinLevelPresets,
 } from '../../utils/statsFilters';
 import {
   ActiveFilterChips,
@@ -25,14 +29,20 @@ interface StatsViewProps {
 
 export function StatsView({ onDayClick, onMonthClick }: StatsViewProps) {
   const currentYear = new Date().getFullYear();
-  const { data: allDailyStats, loading, error } = useDailyStats({ endYear: currentYear });
+  const scale = useWindScale();
+  // Personlig profil: nivåerna räknas om från dagarnas max, bland alla dagar —
+  // isSurfableDay bygger på spotets skala
+  const rerate = useWindProfiles().activeId ? scale : undefined;
+  const { data: allDailyStats, loading, error } = useDailyStats({ endYear: currentYear, surfableOnly: !rerate });
   const { filters, setFilters, resetFilters } = useStatsFilterState();
+  const { spot } = useSpot();
+  const unit = useWindUnit();
   const [viewMode, setViewMode] = useState<StatsViewMode>('overview');
   const [sheetOpen, setSheetOpen] = useState(false);
 
   const { days: filteredDays, total } = useMemo(
-    () => applyStatsFilters(allDailyStats, filters),
-    [allDailyStats, filters]
+    () => applyStatsFilters(allDailyStats, filters, spot.ice, rerate),
+    [allDailyStats, filters, spot.ice, rerate]
   );
 
   const availableYears = useMemo(
@@ -48,8 +58,9 @@ export function StatsView({ onDayClick, onMonthClick }: StatsViewProps) {
   const overviewYear = filters.year === 'all' ? currentYear : filters.year;
 
   const cycleMinLevel = () => {
-    const currentIndex = MIN_LEVEL_PRESETS.findIndex((p) => p.index === filters.minLevelIndex);
-    const next = MIN_LEVEL_PRESETS[(currentIndex + 1) % MIN_LEVEL_PRESETS.length];
+    const presets = getMinLevelPresets(scale);
+    const currentIndex = presets.findIndex((p) => p.index === filters.minLevelIndex);
+    const next = presets[(currentIndex + 1) % presets.length];
     setFilters({ minLevelIndex: next.index });
   };
 
@@ -91,7 +102,7 @@ export function StatsView({ onDayClick, onMonthClick }: StatsViewProps) {
             type="button"
             onClick={() => setViewMode(tab.id)}
             className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
-              viewMode === tab.id ? 'bg-app-text text-white' : 'text-app-muted'
+              viewMode === tab.id ? 'bg-app-text text-app-bg' : 'text-app-muted'
             }`}
           >
             {tab.label}
@@ -101,11 +112,17 @@ export function StatsView({ onDayClick, onMonthClick }: StatsViewProps) {
 
       <StatsFilterPills
         filters={filters}
+        daylightUnavailable={!!rerate}
         onOpenSheet={() => setSheetOpen(true)}
         onToggleIce={() => setFilters({ excludeIce: !filters.excludeIce })}
         onToggleDaylight={() => setFilters({ daylightOnly: !filters.daylightOnly })}
         onCycleMinLevel={cycleMinLevel}
       />
+      {rerate && (
+        <p className="text-[10px] text-app-subtle leading-snug">
+          Egen skala: nivån räknas från dygnets max, så dagsljusfiltret gäller inte.
+        </p>
+      )}
 
       <ActiveFilterChips filters={filters} onChange={setFilters} />
       <StatsResultCounter shown={filteredDays.length} total={total} />
@@ -114,7 +131,7 @@ export function StatsView({ onDayClick, onMonthClick }: StatsViewProps) {
         <div className="bg-app-surface border border-app-border rounded-2xl p-4 text-sm text-app-text">
           <p className="font-semibold mb-1">Inga dagar matchar</p>
           <p className="text-app-muted mb-3">
-            Inga dagar matchar {describeEmptyFilters(filters)}. Prova en lägre nivå eller fler riktningar.
+            Inga dagar matchar {describeEmptyFilters(filters, scale, unit)}. Prova en lägre nivå eller fler riktningar.
           </p>
           <button
             type="button"
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { CalendarPlus } from 'lucide-react';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindScale } from '../../hooks/useWindScale';
+import type { WindPoint } from '../../types/WindData';
+import { samplesFromWindPoints } from '../../utils/alertRules';
+import { buildIcsCalendar, calendarStoragePath, findSurfWindowEvents } from '../../utils/icsCalendar';
+
+const STORAGE_BUCKET = import.meta.env.VITE_FIREBASE_STORAGE_BUCKET as string | undefined;
+
+/** Publikt flöde som scripts/exportSurfCalendar.ts skriver; null utan bucket */
+function calendarFeedUrl(spotId: string): string | null {
+  if (!STORAGE_BUCKET) return null;
+  return `https://firebasestorage.googleapis.com/v0/b/${STORAGE_BUCKET}/o/${encodeURIComponent(calendarStoragePath(spotId))}?alt=media`;
+}
+
+interface SurfCalendarButtonProps {
+  /** Consensus-prognosen (forecastPoints från useKallsurfTimeline) */
+  forecastPoints: WindPoint[];
+}
+
+/**
+ * Surffönster i kalendern: ladda ner nuvarande prognos som .ics eller
+ * prenumerera på spotets flöde som uppdateras på servern.
+ */
+export function SurfCalendarButton({ forecastPoints }: SurfCalendarButtonProps) {
+  const { spot } = useSpot();
+  const scale = useWindScale();
+  const [open, setOpen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const feedUrl = calendarFeedUrl(spot.id);
+
+  const handleDownload = () => {
+    const now = new Date();
+    const events = findSurfWindowEvents(samplesFromWindPoints(forecastPoints, spot), spot, scale, now);
+    if (events.length === 0) {
+      setMessage('Inga surfbara fönster i prognosen just nu');
+      return;
+    }
+    const blob = new Blob([buildIcsCalendar(events, `Surf ${spot.name}`, now)], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `surf-${spot.id}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setMessage(`${events.length} fönster nedladdade`);
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setMessage('Länken är kopierad');
+    } catch {
+      setMessage(feedUrl);
+    }
+  };
+
+  const actionClass = 'w-full py-2.5 rounded-xl border border-app-border text-sm text-app-text text-center block';
+  const primaryClass = 'w-full py-2.5 rounded-xl bg-app-text text-app-bg text-sm font-semibold text-center block';
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="text-app-muted hover:text-app-text"
+        aria-label="Surffönster i kalendern"
+      >
+        <CalendarPlus size={16} />
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/50 animate-in fade-in duration-200">
+          <div className="w-full max-w-md bg-app-surface rounded-t-2xl border border-app-border shadow-2xl max-h-[85vh] overflow-y-auto animate-in slide-in-from-bottom-4 duration-300">
+            <div className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold text-app-text">Surffönster i kalendern · {spot.name}</h3>
+                <button type="button" onClick={() => setOpen(false)} className="text-xs text-app-muted">
+                  Stäng
+                </button>
+              </div>
+
+              {feedUrl && (
+                <>
+                  <a href={feedUrl.replace(/^https:/, 'webcal:')} className={primaryClass}>
+                    Prenumerera
+                  </a>
+                  <button type="button" onClick={handleCopy} className={actionClass}>
+                    Kopiera länk (Google Kalender m.fl.)
+                  </button>
+                </>
+              )}
+              <button type="button" onClick={handleDownload} className={actionClass}>
+                Ladda ner .ics
+              </button>
+
+              {message && <p className="text-xs text-app-muted text-center break-all">{message}</p>}
+
+              <p className="text-[10px] text-app-subtle leading-snug">
+                En händelse per dag med surfbart i dagsljus enligt consensus-prognosen, med bästa timmens
+                medel, by, riktning och nivå. Prenumerationen uppdateras när prognosen ändras — samma dag
+                ersätter sin händelse i stället för att dubbleras. Den följer sjöns skala; nedladdningen
+                din egen.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -13,10 +13,12 @@ import {
 } from 'recharts';
 import { ArrowUp } from 'lucide-react';
 import { TimelinePoint } from '../../hooks/useKallsurfTimeline';
-import { AVG_SURFABLE_MS, APP_THEME } from '../../config/windScale';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useAppTheme, useWindUnit } from '../../hooks/usePreferences';
 import { getSunTimes, formatDecimalTime } from '../../utils/sunTimes';
+import { insertGapBreaks } from '../../utils/seriesGaps';
+import { formatWind, windAxisTicks } from '../../utils/windUnits';
 
-const INK = APP_THEME.text;
 
 /** Kortriktning för avläsningsraden */
 const getShortDirection = (degrees: number): string => {
@@ -56,13 +58,23 @@ interface ChartPoint {
   dir: number;
   isDaylight: boolean;
   isForecast: boolean;
+  /** Brytpunkt i en lucka — null i värdefälten så linjen bryts */
+  isGap?: boolean;
 }
 
+/** Mörka zoner; en lucka avslutar zonen — vi vet inte hur det såg ut där */
 const getNightZones = (data: ChartPoint[]) => {
   const zones: Array<{ start: number; end: number }> = [];
   let start: number | null = null;
+  let last: number | null = null;
 
   data.forEach(point => {
+    if (point.isGap) {
+      if (start !== null && last !== null && last > start) zones.push({ start, end: last });
+      start = null;
+      return;
+    }
+    last = point.timeMs;
     if (!point.isDaylight && start === null) start = point.timeMs;
     if (point.isDaylight && start !== null) {
       zones.push({ start, end: point.timeMs });
@@ -89,7 +101,8 @@ function ScrubSync({
   payload?: Array<{ payload?: ChartPoint }>;
   onScrub: (point: ChartPoint | null) => void;
 }) {
-  const point = active && payload && payload.length > 0 ? payload[0].payload ?? null : null;
+  const hovered = active && payload && payload.length > 0 ? payload[0].payload ?? null : null;
+  const point = hovered?.isGap ? null : hovered;
 
   useEffect(() => {
     onScrub(point);
@@ -109,6 +122,9 @@ interface WindOverviewChartProps {
  * flyttar avläsningen; släpp återgår till NU.
  */
 export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const theme = useAppTheme();
   const [windowId, setWindowId] = useState<WindowId>(loadWindow);
   const [scrub, setScrubState] = useState<ChartPoint | null>(null);
 
@@ -141,7 +157,7 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
       if (!relevant[i].isForecast) { lastObservedIndex = i; break; }
     }
 
-    return relevant.map((point, index) => {
+    const points = relevant.map((point, index): ChartPoint => {
       const isObserved = !point.isForecast;
       const isFuture = point.isForecast || index === lastObservedIndex;
 
@@ -160,12 +176,33 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
         isForecast: point.isForecast,
       };
     });
+
+    // Bryt observationslinjen där stationen inte rapporterat
+    return insertGapBreaks(
+      points,
+      p => p.timeMs,
+      (timeMs, before) => ({
+        ...before,
+        timeMs,
+        pastAvg: null,
+        pastGust: null,
+        futureAvg: null,
+        futureGust: null,
+        isGap: true,
+      }),
+      (before, after) => !before.isForecast && !after.isForecast
+    );
   }, [timeline, win]);
 
   const nightZones = useMemo(() => getNightZones(chartData), [chartData]);
 
+  const yTicks = useMemo(
+    () => windAxisTicks(chartData.reduce((max, p) => Math.max(max, p.gust), 0), unit),
+    [chartData, unit]
+  );
+
   const nowPoint = useMemo(() => {
-    const observed = chartData.filter(p => !p.isForecast);
+    const observed = chartData.filter(p => !p.isForecast && !p.isGap);
     return observed.length > 0 ? observed[observed.length - 1] : null;
   }, [chartData]);
 
@@ -199,7 +236,7 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
               {readoutLabel}
             </span>
             <span className="text-sm font-bold text-app-text">
-              {readout.avg.toFixed(1).replace('.', ',')} / {readout.gust.toFixed(1).replace('.', ',')}
+              {formatWind(readout.avg, unit)} / {formatWind(readout.gust, unit)}
             </span>
             <span className="text-[10px] text-app-muted ml-1 inline-flex items-center gap-0.5">
               <span
@@ -221,7 +258,7 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
             key={w.id}
             onClick={() => selectWindow(w.id)}
             className={`py-1.5 text-center transition-colors ${w.id === windowId
-              ? 'bg-app-text text-white font-bold'
+              ? 'bg-app-text text-app-bg font-bold'
               : 'bg-app-surface text-app-muted hover:text-app-text'
               } border-l border-app-border first:border-l-0`}
           >
@@ -242,13 +279,13 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
             margin={{ top: 12, right: 0, left: -18, bottom: 0 }}
             onMouseLeave={() => setScrub(null)}
           >
-            <CartesianGrid strokeDasharray="2 3" stroke={APP_THEME.borderMuted} vertical={false} />
+            <CartesianGrid strokeDasharray="2 3" stroke={theme.borderMuted} vertical={false} />
             <XAxis
               dataKey="timeMs"
               type="number"
               domain={['dataMin', 'dataMax']}
               scale="time"
-              stroke={APP_THEME.textSubtle}
+              stroke={theme.textSubtle}
               fontSize={9}
               tickLine={false}
               axisLine={false}
@@ -259,17 +296,17 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
             />
             <YAxis
               orientation="left"
-              tick={{ fontSize: 9, fill: APP_THEME.textSubtle, fontFamily: 'monospace' }}
+              tick={{ fontSize: 9, fill: theme.textSubtle, fontFamily: 'monospace' }}
               tickLine={false}
               axisLine={false}
-              domain={[0, (dataMax: number) => Math.max(12, Math.ceil(dataMax + 1))]}
-              allowDecimals={false}
-              tickCount={5}
+              domain={[0, yTicks[yTicks.length - 1]]}
+              ticks={yTicks}
+              tickFormatter={(ms: number) => formatWind(ms, unit, 0)}
             />
             {/* Tooltip utan synligt innehåll — driver scrubb-avläsningen (mus + touch) */}
             <Tooltip
               content={<ScrubSync onScrub={setScrub} />}
-              cursor={{ stroke: INK, strokeWidth: 1, strokeDasharray: '2 2' }}
+              cursor={{ stroke: theme.text, strokeWidth: 1, strokeDasharray: '2 2' }}
               isAnimationActive={false}
             />
 
@@ -278,17 +315,17 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
             ))}
 
             <ReferenceLine
-              y={AVG_SURFABLE_MS}
-              stroke={APP_THEME.accentFlag.blue}
+              y={scale.avgSurfableMs}
+              stroke={theme.accentFlag.blue}
               strokeDasharray="4 3"
               strokeOpacity={0.6}
             />
             {nowPoint && (
               <ReferenceLine
                 x={nowPoint.timeMs}
-                stroke={INK}
+                stroke={theme.text}
                 strokeWidth={1.2}
-                label={{ value: 'NU', position: 'insideTopLeft', fill: INK, fontSize: 9, fontWeight: 700, offset: 4 }}
+                label={{ value: 'NU', position: 'insideTopLeft', fill: theme.text, fontSize: 9, fontWeight: 700, offset: 4 }}
               />
             )}
 
@@ -297,7 +334,7 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
               type="monotone"
               dataKey="pastAvg"
               stroke="none"
-              fill={APP_THEME.accentFlag.blue}
+              fill={theme.accentFlag.blue}
               fillOpacity={0.06}
               isAnimationActive={false}
             />
@@ -305,7 +342,7 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
             <Line
               type="monotone"
               dataKey="pastGust"
-              stroke={APP_THEME.textSubtle}
+              stroke={theme.textSubtle}
               strokeWidth={1}
               dot={false}
               isAnimationActive={false}
@@ -313,7 +350,7 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
             <Line
               type="monotone"
               dataKey="pastAvg"
-              stroke={INK}
+              stroke={theme.text}
               strokeWidth={2}
               dot={false}
               isAnimationActive={false}
@@ -321,7 +358,7 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
             <Line
               type="monotone"
               dataKey="futureGust"
-              stroke={APP_THEME.textSubtle}
+              stroke={theme.textSubtle}
               strokeWidth={1}
               strokeDasharray="4 4"
               dot={false}
@@ -330,7 +367,7 @@ export function WindOverviewChart({ timeline }: WindOverviewChartProps) {
             <Line
               type="monotone"
               dataKey="futureAvg"
-              stroke={INK}
+              stroke={theme.text}
               strokeWidth={2}
               strokeDasharray="5 4"
               dot={false}
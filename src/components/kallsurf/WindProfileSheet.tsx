@@ -0,0 +1,253 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { Download, Pencil, Trash2, Upload } from 'lucide-react';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindProfiles } from '../../hooks/useWindProfiles';
+import {
+  createWindProfile,
+  exportWindProfiles,
+  parseWindProfiles,
+  validateWindProfile,
+  withLevelColor,
+  WindProfile,
+} from '../../utils/windProfiles';
+
+interface WindProfileSheetProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function ProfileEditor({
+  initial,
+  onSave,
+  onCancel,
+}: {
+  initial: WindProfile;
+  onSave: (profile: WindProfile) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateLevel = (index: number, patch: Partial<{ label: string; minAvgMs: number; bg: string }>) => {
+    setDraft(prev => ({
+      ...prev,
+      levels: prev.levels.map((level, i) => {
+        if (i !== index) return level;
+        const next = { ...level, label: patch.label ?? level.label, minAvgMs: patch.minAvgMs ?? level.minAvgMs };
+        return patch.bg ? withLevelColor(next, patch.bg) : next;
+      }),
+    }));
+  };
+
+  const save = () => {
+    try {
+      onSave(validateWindProfile(draft));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block">
+        <span className="text-xs font-medium text-app-muted">Namn</span>
+        <input
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          placeholder="T.ex. Foil eller Shortboard"
+          className="mt-1 w-full rounded-lg border border-app-border px-3 py-2 text-sm text-app-text"
+        />
+      </label>
+
+      <div className="space-y-1.5">
+        <div className="grid grid-cols-[2rem_1fr_4.5rem] gap-2 text-[10px] text-app-subtle">
+          <span>Färg</span>
+          <span>Nivå</span>
+          <span className="text-right">Från m/s</span>
+        </div>
+        {draft.levels.map((level, i) => (
+          <div key={level.id} className="grid grid-cols-[2rem_1fr_4.5rem] gap-2 items-center">
+            <input
+              type="color"
+              value={level.colors.bg}
+              onChange={e => updateLevel(i, { bg: e.target.value })}
+              aria-label={`Färg för ${level.label}`}
+              className="h-8 w-8 rounded border border-app-border bg-transparent p-0"
+            />
+            <input
+              value={level.label}
+              onChange={e => updateLevel(i, { label: e.target.value })}
+              className="rounded-lg border border-app-border px-2 py-1.5 text-xs text-app-text"
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={level.minAvgMs}
+              disabled={i === 0}
+              onChange={e => updateLevel(i, { minAvgMs: Number(e.target.value) })}
+              aria-label={`Tröskel för ${level.label}`}
+              className="rounded-lg border border-app-border px-2 py-1.5 text-xs text-app-text text-right disabled:opacity-50"
+            />
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center justify-between gap-3">
+        <span className="text-xs text-app-muted">Byvind som räcker för surfbart (m/s)</span>
+        <input
+          type="number"
+          min={1}
+          step={0.5}
+          value={draft.gustSurfableMs}
+          onChange={e => setDraft({ ...draft, gustSurfableMs: Number(e.target.value) })}
+          className="w-[4.5rem] rounded-lg border border-app-border px-2 py-1.5 text-xs text-app-text text-right"
+        />
+      </label>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button type="button" onClick={onCancel} className="flex-1 py-2.5 rounded-xl border border-app-border text-sm text-app-text">
+          Avbryt
+        </button>
+        <button type="button" onClick={save} className="flex-1 py-2.5 rounded-xl bg-app-text text-app-bg text-sm font-semibold">
+          Spara
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Personliga vindskalor: välj, skapa, ändra, ta bort, exportera och
+ * importera. Riktningsprofilen följer alltid spotet.
+ */
+export function WindProfileSheet({ open, onClose }: WindProfileSheetProps) {
+  const { spot } = useSpot();
+  const scale = useWindScale();
+  const { activeId, profiles, setActiveId, saveProfile, deleteProfile, importProfiles } = useWindProfiles();
+  const [editing, setEditing] = useState<WindProfile | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  if (!open) return null;
+
+  const handleSave = (profile: WindProfile) => {
+    saveProfile(profile);
+    setActiveId(profile.id);
+    setEditing(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportWindProfiles(profiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'vindprofiler.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseWindProfiles(await file.text());
+      importProfiles(imported);
+      setMessage(`${imported.length} ${imported.length === 1 ? 'profil' : 'profiler'} importerade`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 text-left px-3 py-2 rounded-lg border text-sm ${selected ? 'bg-app-text text-app-bg border-app-text' : 'bg-app-surface border-app-border text-app-text'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/50 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-app-surface rounded-t-2xl border border-app-border shadow-2xl max-h-[85vh] overflow-y-auto animate-in slide-in-from-bottom-4 duration-300">
+        <div className="p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold text-app-text">{editing ? 'Ändra vindskala' : 'Vindskalor'}</h3>
+            <button type="button" onClick={onClose} className="text-xs text-app-muted">
+              Stäng
+            </button>
+          </div>
+
+          {editing ? (
+            <ProfileEditor initial={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+          ) : (
+            <>
+              <div className="space-y-2">
+                <button type="button" onClick={() => setActiveId(null)} className={`w-full ${optionClass(activeId === null)}`}>
+                  {spot.name}s skala
+                </button>
+                {profiles.map(profile => (
+                  <div key={profile.id} className="flex items-center gap-2">
+                    <button type="button" onClick={() => setActiveId(profile.id)} className={optionClass(activeId === profile.id)}>
+                      {profile.name}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditing(profile)}
+                      aria-label={`Ändra ${profile.name}`}
+                      className="p-2 text-app-muted hover:text-app-text"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteProfile(profile.id)}
+                      aria-label={`Ta bort ${profile.name}`}
+                      className="p-2 text-app-muted hover:text-red-600"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setEditing(createWindProfile(`Min skala ${profiles.length + 1}`, scale))}
+                className="w-full py-2.5 rounded-xl bg-app-text text-app-bg text-sm font-semibold"
+              >
+                Ny profil
+              </button>
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  disabled={profiles.length === 0}
+                  className="flex-1 inline-flex items-center justify-center gap-1.5 py-2 rounded-xl border border-app-border text-xs text-app-text disabled:opacity-40"
+                >
+                  <Download size={12} /> Exportera
+                </button>
+                <button
+                  type="button"
+                  onClick={() => fileRef.current?.click()}
+                  className="flex-1 inline-flex items-center justify-center gap-1.5 py-2 rounded-xl border border-app-border text-xs text-app-text"
+                >
+                  <Upload size={12} /> Importera
+                </button>
+                <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+              </div>
+
+              {message && <p className="text-xs text-app-muted text-center">{message}</p>}
+
+              <p className="text-[10px] text-app-subtle leading-snug">
+                En profil ersätter nivåer, trösklar, färger och by-regel i hela appen — grafer, kalender,
+                nästa surfchans och statistik. Riktningarna följer alltid sjön. Statistiken räknar om
+                alla dagar från dagens max med profilen; dagsljusfiltret är då avstängt.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
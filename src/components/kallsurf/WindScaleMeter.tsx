@@ -1,23 +1,31 @@
-import { WIND_SCALE_LEVELS, getEffectiveLevelIndex } from '../../config/windScale';
+import { getEffectiveLevelIndex } from '../../config/windScale';
+import { useWindScale } from '../../hooks/useWindScale';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { formatWindThreshold, windUnitSymbol } from '../../utils/windUnits';
 
 interface WindScaleMeterProps {
   avg: number;
   gust: number;
+  /** Riktning (grader) — fel riktning sänker nivån */
+  dir?: number | null;
 }
 
 /**
  * Sjustegsmätaren från UX-skiss v1.4: sju segment med pil vid aktuell vind
- * och m/s-trösklar som ticks. Gör skalan lärbar — samma färger som chips,
- * kalender och prognosceller.
+ * och trösklarna (i vald enhet) som ticks. Gör skalan lärbar — samma färger som chips,
+ * kalender och prognosceller. Trösklarna följer valt spot.
  */
-export function WindScaleMeter({ avg, gust }: WindScaleMeterProps) {
-  const levelCount = WIND_SCALE_LEVELS.length;
-  const activeIndex = getEffectiveLevelIndex(avg, gust);
+export function WindScaleMeter({ avg, gust, dir }: WindScaleMeterProps) {
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const levels = scale.levels;
+  const levelCount = levels.length;
+  const activeIndex = getEffectiveLevelIndex(avg, gust, scale, dir);
 
   // Pilens position: segment + andel in i segmentet (sista segmentet öppet uppåt)
-  const segMin = WIND_SCALE_LEVELS[activeIndex].minAvgMs;
+  const segMin = levels[activeIndex].minAvgMs;
   const segMax = activeIndex < levelCount - 1
-    ? WIND_SCALE_LEVELS[activeIndex + 1].minAvgMs
+    ? levels[activeIndex + 1].minAvgMs
     : segMin + 6;
   const frac = Math.min(Math.max((avg - segMin) / (segMax - segMin), 0), 1);
   const pinLeftPct = ((activeIndex + frac) / levelCount) * 100;
@@ -45,25 +53,25 @@ export function WindScaleMeter({ avg, gust }: WindScaleMeterProps) {
         className="grid gap-1"
         style={{ gridTemplateColumns: `repeat(${levelCount}, 1fr)` }}
       >
-        {WIND_SCALE_LEVELS.map((level, i) => (
+        {levels.map((level, i) => (
           <div
             key={level.id}
             className={`h-2.5 rounded-md border border-black/10 transition-opacity ${i === activeIndex ? '' : 'opacity-80'}`}
             style={{ backgroundColor: level.colors.bg }}
-            title={`${level.label} (≥ ${level.minAvgMs} m/s)`}
+            title={`${level.label} (≥ ${formatWindThreshold(level.minAvgMs, unit)} ${windUnitSymbol(unit)})`}
           />
         ))}
       </div>
 
       {/* Tick-etiketter vid segmentgränserna */}
       <div className="relative h-4 mt-0.5">
-        {WIND_SCALE_LEVELS.slice(1).map((level, i) => (
+        {levels.slice(1).map((level, i) => (
           <span
             key={level.id}
             className="absolute -translate-x-1/2 text-[9px] font-mono text-app-subtle"
             style={{ left: `${((i + 1) / levelCount) * 100}%` }}
           >
-            {level.minAvgMs}
+            {formatWindThreshold(level.minAvgMs, unit)}
           </span>
         ))}
       </div>
@@ -1,9 +1,13 @@
 import { X, SlidersHorizontal } from 'lucide-react';
-import { MIN_LEVEL_PRESETS, DEFAULT_STATS_FILTERS, countActiveSheetFilters, type StatsFilters } from '../../../utils/statsFilters';
-import { getDefaultIcePeriodLabel } from '../../../config/iceConfig';
+import { getMinLevelPresets, DEFAULT_STATS_FILTERS, countActiveSheetFilters, type StatsFilters } from '../../../utils/statsFilters';
+import { getIcePeriodLabel, IceSeason } from '../../../config/iceConfig';
+import { useWindScale } from '../../../hooks/useWindScale';
+import { useWindUnit } from '../../../hooks/usePreferences';
 
 interface StatsFilterPillsProps {
   filters: StatsFilters;
+  /** Egen skala aktiv — dagsljusfiltret kan inte räknas om */
+  daylightUnavailable?: boolean;
   onOpenSheet: () => void;
   onToggleIce: () => void;
   onToggleDaylight: () => void;
@@ -12,14 +16,15 @@ interface StatsFilterPillsProps {
 
 export function StatsFilterPills({
   filters,
+  daylightUnavailable = false,
   onOpenSheet,
   onToggleIce,
   onToggleDaylight,
   onCycleMinLevel,
 }: StatsFilterPillsProps) {
   const sheetCount = countActiveSheetFilters(filters);
-  const minPreset =
-    MIN_LEVEL_PRESETS.find((p) => p.index === filters.minLevelIndex) ?? MIN_LEVEL_PRESETS[0];
+  const presets = getMinLevelPresets(useWindScale(), useWindUnit());
+  const minPreset = presets.find((p) => p.index === filters.minLevelIndex) ?? presets[0];
 
   return (
     <div className="flex flex-wrap gap-2">
@@ -28,7 +33,7 @@ export function StatsFilterPills({
         onClick={onToggleIce}
         className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
           filters.excludeIce
-            ? 'bg-app-text text-white border-app-text'
+            ? 'bg-app-text text-app-bg border-app-text'
             : 'bg-app-surface border-app-border text-app-text'
         }`}
       >
@@ -37,13 +42,14 @@ export function StatsFilterPills({
       <button
         type="button"
         onClick={onToggleDaylight}
-        className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
-          filters.daylightOnly
-            ? 'bg-app-text text-white border-app-text'
+        disabled={daylightUnavailable}
+        className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors disabled:opacity-40 ${
+          filters.daylightOnly && !daylightUnavailable
+            ? 'bg-app-text text-app-bg border-app-text'
             : 'bg-app-surface border-app-border text-app-text'
         }`}
       >
-        Dagsljus{filters.daylightOnly ? ' ✓' : ''}
+        Dagsljus{filters.daylightOnly && !daylightUnavailable ? ' ✓' : ''}
       </button>
       <button
         type="button"
@@ -70,6 +76,8 @@ interface ActiveFilterChipsProps {
 }
 
 export function ActiveFilterChips({ filters, onChange }: ActiveFilterChipsProps) {
+  const scale = useWindScale();
+  const unit = useWindUnit();
   const chips: Array<{ key: string; label: string; onRemove: () => void }> = [];
 
   if (!filters.excludeIce) {
@@ -86,8 +94,15 @@ export function ActiveFilterChips({ filters, onChange }: ActiveFilterChipsProps)
       onRemove: () => onChange({ daylightOnly: true }),
     });
   }
+  if (filters.excludeLowCoverage) {
+    chips.push({
+      key: 'coverage',
+      label: 'Bara hela dagar',
+      onRemove: () => onChange({ excludeLowCoverage: false }),
+    });
+  }
   if (filters.minLevelIndex !== DEFAULT_STATS_FILTERS.minLevelIndex) {
-    const preset = MIN_LEVEL_PRESETS.find((p) => p.index === filters.minLevelIndex);
+    const preset = getMinLevelPresets(scale, unit).find((p) => p.index === filters.minLevelIndex);
     chips.push({
       key: 'level',
       label: preset?.label ?? 'Miniminivå',
@@ -137,6 +152,6 @@ export function StatsResultCounter({ shown, total }: { shown: number; total: num
   );
 }
 
-export function icePeriodHint(): string {
-  return getDefaultIcePeriodLabel();
+export function icePeriodHint(season?: IceSeason): string {
+  return getIcePeriodLabel(season);
 }
@@ -1,5 +1,9 @@
-import { MIN_LEVEL_PRESETS, type StatsFilters } from '../../../utils/statsFilters';
-import { getDefaultIcePeriodLabel } from '../../../config/iceConfig';
+import { getMinLevelPresets, type StatsFilters } from '../../../utils/statsFilters';
+import { getIcePeriodLabel } from '../../../config/iceConfig';
+import { useSpot } from '../../../hooks/useSpot';
+import { useWindScale } from '../../../hooks/useWindScale';
+import { useWindUnit } from '../../../hooks/usePreferences';
+import { useWindProfiles } from '../../../hooks/useWindProfiles';
 import { WindCompass8 } from './WindCompass8';
 import type { WindSector8 } from '../../../utils/windDirection8';
 
@@ -31,14 +35,14 @@ function TogglePair({
       <button
         type="button"
         onClick={onLeft}
-        className={`flex-1 py-2 text-xs font-medium ${activeLeft ? 'bg-app-text text-white' : 'bg-app-surface text-app-text'}`}
+        className={`flex-1 py-2 text-xs font-medium ${activeLeft ? 'bg-app-text text-app-bg' : 'bg-app-surface text-app-text'}`}
       >
         {left}
       </button>
       <button
         type="button"
         onClick={onRight}
-        className={`flex-1 py-2 text-xs font-medium ${!activeLeft ? 'bg-app-text text-white' : 'bg-app-surface text-app-text'}`}
+        className={`flex-1 py-2 text-xs font-medium ${!activeLeft ? 'bg-app-text text-app-bg' : 'bg-app-surface text-app-text'}`}
       >
         {right}
       </button>
@@ -55,6 +59,10 @@ export function StatsFilterSheet({
   onClose,
   onReset,
 }: StatsFilterSheetProps) {
+  const { spot } = useSpot();
+  const scale = useWindScale();
+  const unit = useWindUnit();
+  const profileActive = useWindProfiles().activeId !== null;
   if (!open) return null;
 
   const toggleDirection = (sector: WindSector8) => {
@@ -76,7 +84,7 @@ export function StatsFilterSheet({
           </div>
 
           <div>
-            <p className="text-xs font-medium text-app-muted mb-2">Isperiod ({getDefaultIcePeriodLabel()})</p>
+            <p className="text-xs font-medium text-app-muted mb-2">Isperiod ({getIcePeriodLabel(spot.ice)})</p>
             <TogglePair
               left="Exkludera"
               right="Inkludera"
@@ -87,7 +95,9 @@ export function StatsFilterSheet({
           </div>
 
           <div>
-            <p className="text-xs font-medium text-app-muted mb-2">Dagsljus</p>
+            <p className="text-xs font-medium text-app-muted mb-2">
+              Dagsljus{profileActive ? ' — gäller inte med egen skala' : ''}
+            </p>
             <TogglePair
               left="Endast"
               right="Alla"
@@ -97,17 +107,28 @@ export function StatsFilterSheet({
             />
           </div>
 
+          <div>
+            <p className="text-xs font-medium text-app-muted mb-2">Datatäckning</p>
+            <TogglePair
+              left="Alla dagar"
+              right="Bara hela"
+              activeLeft={!filters.excludeLowCoverage}
+              onLeft={() => onChange({ excludeLowCoverage: false })}
+              onRight={() => onChange({ excludeLowCoverage: true })}
+            />
+          </div>
+
           <div>
             <p className="text-xs font-medium text-app-muted mb-2">Miniminivå</p>
             <div className="flex flex-wrap gap-2">
-              {MIN_LEVEL_PRESETS.map((preset) => (
+              {getMinLevelPresets(scale, unit).map((preset) => (
                 <button
                   key={preset.id}
                   type="button"
                   onClick={() => onChange({ minLevelIndex: preset.index })}
                   className={`px-3 py-1.5 rounded-full text-xs font-medium border ${
                     filters.minLevelIndex === preset.index
-                      ? 'bg-app-text text-white border-app-text'
+                      ? 'bg-app-text text-app-bg border-app-text'
                       : 'bg-app-surface border-app-border text-app-text'
                   }`}
                 >
@@ -132,7 +153,7 @@ export function StatsFilterSheet({
                 type="button"
                 onClick={() => onChange({ year: 'all' })}
                 className={`px-3 py-1.5 rounded-full text-xs font-medium border ${
-                  filters.year === 'all' ? 'bg-app-text text-white border-app-text' : 'bg-app-surface border-app-border'
+                  filters.year === 'all' ? 'bg-app-text text-app-bg border-app-text' : 'bg-app-surface border-app-border'
                 }`}
               >
                 Alla
@@ -143,7 +164,7 @@ export function StatsFilterSheet({
                   type="button"
                   onClick={() => onChange({ year })}
                   className={`px-3 py-1.5 rounded-full text-xs font-medium border ${
-                    filters.year === year ? 'bg-app-text text-white border-app-text' : 'bg-app-surface border-app-border'
+                    filters.year === year ? 'bg-app-text text-app-bg border-app-text' : 'bg-app-surface border-app-border'
                   }`}
                 >
                   {year}
@@ -164,7 +185,7 @@ export function StatsFilterSheet({
           <button
             type="button"
             onClick={onClose}
-            className="w-full py-3 rounded-xl bg-app-text text-white text-sm font-semibold"
+            className="w-full py-3 rounded-xl bg-app-text text-app-bg text-sm font-semibold"
           >
             Visa resultat
           </button>
@@ -11,8 +11,9 @@ import {
   CartesianGrid,
 } from 'recharts';
 import type { DailyStats } from '../../../hooks/useDailyStats';
-import { APP_THEME } from '../../../config/windScale';
 import { formatDirectionLabel } from '../../../utils/windDirection8';
+import { formatWindWithUnit } from '../../../utils/windUnits';
+import { useAppTheme, useWindUnit } from '../../../hooks/usePreferences';
 import {
   averageYtdAcrossYears,
   buildAverageSeasonLabel,
@@ -39,6 +40,8 @@ export function StatsOverview({
   onDayClick,
   onMonthClick,
 }: StatsOverviewProps) {
+  const unit = useWindUnit();
+  const theme = useAppTheme();
   const yearDays = days.filter((d) => d.year === overviewYear);
   const ytdCount = countSurfableDaysYtd(days, overviewYear);
   const ytdAverage = averageYtdAcrossYears(days, overviewYear);
@@ -75,7 +78,7 @@ export function StatsOverview({
               <TrendingUp size={16} className="text-app-muted" />
               <span className="text-xs font-medium uppercase tracking-wide text-app-muted">Bästa dag</span>
             </div>
-            <p className="text-2xl font-bold text-app-text">{bestDay.maxForce} m/s</p>
+            <p className="text-2xl font-bold text-app-text">{formatWindWithUnit(bestDay.maxForce, unit)}</p>
             <p className="text-xs text-app-muted mt-1">
               {format(parseDayDate(bestDay.date), 'd MMMM yyyy', { locale: sv })} ·{' '}
               {formatDirectionLabel(bestDay.maxForceDirection)}
@@ -108,7 +111,7 @@ export function StatsOverview({
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#ececea" />
               <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#6b6b6b' }} axisLine={false} tickLine={false} />
               <YAxis allowDecimals={false} tick={{ fontSize: 10, fill: '#6b6b6b' }} axisLine={false} tickLine={false} />
-              <Bar dataKey="yearCount" fill={APP_THEME.accentFlag.blue} radius={[4, 4, 0, 0]} maxBarSize={24} />
+              <Bar dataKey="yearCount" fill={theme.accentFlag.blue} radius={[4, 4, 0, 0]} maxBarSize={24} />
               <Line
                 type="monotone"
                 dataKey="averageCount"
@@ -4,12 +4,15 @@ import { sv } from 'date-fns/locale';
 import { ChevronRight } from 'lucide-react';
 import type { DailyStats } from '../../../hooks/useDailyStats';
 import { getWindLevel } from '../../../utils/windColors';
+import { useWindScale } from '../../../hooks/useWindScale';
+import { useWindUnit } from '../../../hooks/usePreferences';
 import { formatDirectionLabel } from '../../../utils/windDirection8';
 import {
   formatSurfableHours,
   type StatsSortMode,
 } from '../../../utils/statsFilters';
 import { parseDayDate } from '../../../utils/statsOverviewUtils';
+import { formatWind, formatWindWithUnit, type WindUnit } from '../../../utils/windUnits';
 
 interface StatsTopListProps {
   days: DailyStats[];
@@ -22,10 +25,10 @@ const SORT_OPTIONS: Array<{ id: StatsSortMode; label: string }> = [
   { id: 'surfableMinutes', label: 'Längst fönster' },
 ];
 
-function primaryValue(day: DailyStats, sortBy: StatsSortMode): string {
-  if (sortBy === 'maxGust') return `${day.maxGust} m/s`;
+function primaryValue(day: DailyStats, sortBy: StatsSortMode, unit: WindUnit): string {
+  if (sortBy === 'maxGust') return formatWindWithUnit(day.maxGust, unit);
   if (sortBy === 'surfableMinutes') return formatSurfableHours(day.surfableMinutes);
-  return `${day.maxForce} m/s`;
+  return formatWindWithUnit(day.maxForce, unit);
 }
 
 function sortDays(days: DailyStats[], sortBy: StatsSortMode): DailyStats[] {
@@ -39,6 +42,8 @@ function sortDays(days: DailyStats[], sortBy: StatsSortMode): DailyStats[] {
 export function StatsTopList({ days, onDayClick }: StatsTopListProps) {
   const [sortBy, setSortBy] = useState<StatsSortMode>('maxForce');
   const [visibleCount, setVisibleCount] = useState(20);
+  const scale = useWindScale();
+  const unit = useWindUnit();
 
   const sorted = useMemo(() => sortDays(days, sortBy), [days, sortBy]);
   const visible = sorted.slice(0, visibleCount);
@@ -57,7 +62,7 @@ export function StatsTopList({ days, onDayClick }: StatsTopListProps) {
               onClick={() => setSortBy(option.id)}
               className={`px-3 py-1.5 rounded-full text-xs font-medium border ${
                 sortBy === option.id
-                  ? 'bg-app-text text-white border-app-text'
+                  ? 'bg-app-text text-app-bg border-app-text'
                   : 'bg-app-surface border-app-border text-app-text'
               }`}
             >
@@ -69,8 +74,8 @@ export function StatsTopList({ days, onDayClick }: StatsTopListProps) {
 
       <div className="space-y-2">
         {visible.map((day, index) => {
-          const level = getWindLevel(day.maxForce, day.maxGust);
-          const primary = primaryValue(day, sortBy);
+          const level = getWindLevel(day.maxForce, day.maxGust, scale, day.maxForceDirection);
+          const primary = primaryValue(day, sortBy, unit);
           return (
             <button
               key={day.date}
@@ -83,7 +88,12 @@ export function StatsTopList({ days, onDayClick }: StatsTopListProps) {
                 <p className="text-sm font-semibold text-app-text truncate">
                   {format(parseDayDate(day.date), 'd MMM yyyy', { locale: sv })}
                 </p>
-                <p className="text-[11px] text-app-muted">{formatDirectionLabel(day.maxForceDirection)}</p>
+                <p className="text-[11px] text-app-muted">
+                  {formatDirectionLabel(day.maxForceDirection)}
+                  {day.insufficientCoverage && day.coveragePercent !== undefined && (
+                    <span className="text-amber-600"> · data {day.coveragePercent} %</span>
+                  )}
+                </p>
               </div>
               <div className="text-right flex items-center gap-2">
                 <div>
@@ -91,7 +101,7 @@ export function StatsTopList({ days, onDayClick }: StatsTopListProps) {
                     {primary}
                   </p>
                   <p className="text-[10px] text-app-muted mt-1">
-                    medel {day.maxForce} · by {day.maxGust}
+                    medel {formatWind(day.maxForce, unit)} · by {formatWind(day.maxGust, unit)}
                   </p>
                 </div>
                 <span
@@ -4,6 +4,10 @@ import { ref, deleteObject } from 'firebase/storage';
 import { db, storage } from '../../config/firebase';
 import { X, Play, Trash2, AlertTriangle, Wind, User } from 'lucide-react';
 import { DailyMediaItem as MediaItem } from '../../hooks/useDailyMedia';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { formatWind, windUnitSymbol } from '../../utils/windUnits';
+import { belongsToSpot } from '../../config/spots';
 
 interface DailyGalleryProps {
     date: string; // YYYY-MM-DD
@@ -14,10 +18,12 @@ interface DailyGalleryProps {
 }
 
 export const DailyGallery: React.FC<DailyGalleryProps> = ({ date, items, onDeleted }) => {
+    const unit = useWindUnit();
     const controlled = items !== undefined;
     const [mediaItems, setMediaItems] = useState<MediaItem[]>(items ?? []);
     const [loading, setLoading] = useState(!controlled);
     const [selectedItem, setSelectedItem] = useState<MediaItem | null>(null);
+    const { spot } = useSpot();
 
     useEffect(() => {
         if (controlled) setMediaItems(items ?? []);
@@ -47,7 +53,8 @@ export const DailyGallery: React.FC<DailyGalleryProps> = ({ date, items, onDelet
             const querySnapshot = await getDocs(q);
             const items: MediaItem[] = [];
             querySnapshot.forEach((doc) => {
-                items.push({ id: doc.id, ...doc.data() } as MediaItem);
+                const item = { id: doc.id, ...doc.data() } as MediaItem;
+                if (belongsToSpot(item, spot.id)) items.push(item);
             });
 
             // Sort in memory
@@ -134,7 +141,7 @@ export const DailyGallery: React.FC<DailyGalleryProps> = ({ date, items, onDelet
                         {item.windData && (
                             <div className="absolute top-2 right-2 bg-black/60 text-white text-[10px] px-1.5 py-0.5 rounded backdrop-blur-sm flex items-center gap-1">
                                 <Wind className="w-3 h-3 text-app-muted" />
-                                <span>{item.windData.avg.toFixed(0)}</span>
+                                <span>{formatWind(item.windData.avg, unit, 0)}</span>
                             </div>
                         )}
                     </div>
@@ -224,9 +231,9 @@ export const DailyGallery: React.FC<DailyGalleryProps> = ({ date, items, onDelet
                                 <div>
                                     <p className="text-[10px] text-app-muted uppercase tracking-wider font-bold">Vind vid tillfället</p>
                                     <div className="flex items-baseline gap-2">
-                                        <span className="text-xl font-bold text-white">{selectedItem.windData.avg.toFixed(1)}</span>
-                                        <span className="text-sm text-yellow-400 font-bold">({selectedItem.windData.gust.toFixed(1)})</span>
-                                        <span className="text-xs text-white/50">m/s</span>
+                                        <span className="text-xl font-bold text-white">{formatWind(selectedItem.windData.avg, unit)}</span>
+                                        <span className="text-sm text-yellow-400 font-bold">({formatWind(selectedItem.windData.gust, unit)})</span>
+                                        <span className="text-xs text-white/50">{windUnitSymbol(unit)}</span>
                                     </div>
                                 </div>
                             </div>
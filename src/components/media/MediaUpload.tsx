@@ -1,11 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
-import { collection, addDoc, serverTimestamp, query, where, orderBy, getDocs, Timestamp } from 'firebase/firestore';
-import { signInAnonymously, signOut } from 'firebase/auth';
-import { db, storage, auth } from '../../config/firebase';
+import { collection, query, where, orderBy, getDocs, Timestamp } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { uploadMedia } from '../../api/mediaUpload';
+import { MEDIA_UPLOAD_SYNC_TAG, requestBackgroundSync } from '../../api/serviceWorker';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { formatWind, windUnitSymbol } from '../../utils/windUnits';
+import { enqueueMediaUpload, isRetryableUploadError, MediaUploadInput } from '../../utils/mediaUploadQueue';
 import ExifReader from 'exifreader';
 import { format, parseISO, isValid } from 'date-fns';
-import { Upload, X, Image as ImageIcon, Calendar, Check, Wind, User, FileText, ArrowRight } from 'lucide-react';
+import { Upload, X, Image as ImageIcon, Calendar, Check, Wind, User, FileText, ArrowRight, CloudOff } from 'lucide-react';
 
 
 interface MediaUploadProps {
@@ -14,6 +18,7 @@ interface MediaUploadProps {
 }
 
 export const MediaUpload: React.FC<MediaUploadProps> = ({ preselectedDate, onUploadComplete }) => {
+    const unit = useWindUnit();
     const [file, setFile] = useState<File | null>(null);
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
 
@@ -29,9 +34,11 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({ preselectedDate, onUpl
     const [uploadCode, setUploadCode] = useState('');
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState(false);
+    const [queued, setQueued] = useState(false);
     const [uploadProgress, setUploadProgress] = useState(0);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const { spot } = useSpot();
 
     // Simple client-side check for "auth"
     const SHARED_CODE = "kallsjon2024";
@@ -50,7 +57,7 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({ preselectedDate, onUpl
                 const startSearch = new Date(mediaDate.getTime() - 2 * 60 * 60 * 1000);
                 const endSearch = new Date(mediaDate.getTime() + 2 * 60 * 60 * 1000);
 
-                const windRef = collection(db, 'wind');
+                const windRef = collection(db, spot.station.windCollection);
                 const q = query(
                     windRef,
                     where('time', '>=', Timestamp.fromDate(startSearch)),
@@ -94,7 +101,7 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({ preselectedDate, onUpl
         };
 
         fetchWindData();
-    }, [detectedDate, capturedAt]);
+    }, [detectedDate, capturedAt, spot]);
 
     const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
@@ -150,60 +157,58 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({ preselectedDate, onUpl
 
         setIsUploading(true);
         setError(null);
+        setQueued(false);
+
+        const input: MediaUploadInput = {
+            file,
+            fileName: file.name,
+            date: detectedDate,
+            spotId: spot.id,
+            capturedAt,
+            windData,
+            description,
+            uploaderName,
+        };
+
+        const finish = () => {
+            setFile(null);
+            setPreviewUrl(null);
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        };
+
+        // Utan täckning: spara i kön, laddas upp när nätet är tillbaka
+        const queueForLater = async () => {
+            await enqueueMediaUpload(input);
+            await requestBackgroundSync(MEDIA_UPLOAD_SYNC_TAG);
+            setQueued(true);
+            finish();
+            setTimeout(() => setQueued(false), 5000);
+        };
 
         try {
-            // Force a fresh session
-            if (auth.currentUser) {
-                await signOut(auth);
+            if (!navigator.onLine) {
+                await queueForLater();
+                return;
             }
-            await signInAnonymously(auth);
-
-            // 1. Upload file to Storage
-            const storagePath = `daily_uploads/${detectedDate}/${Date.now()}_${file.name}`;
-            const storageRef = ref(storage, storagePath);
-            const uploadTask = uploadBytesResumable(storageRef, file);
-
-            await new Promise<void>((resolve, reject) => {
-                uploadTask.on('state_changed',
-                    (snapshot) => {
-                        const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-                        setUploadProgress(progress);
-                    },
-                    (error) => {
-                        console.error('Upload failed:', error);
-                        reject(error);
-                    },
-                    () => resolve()
-                );
-            });
-
-            const downloadURL = await getDownloadURL(storageRef);
-
-            // 2. Save metadata to Firestore
-            await addDoc(collection(db, 'media_items'), {
-                date: detectedDate,
-                url: downloadURL,
-                type: file.type.startsWith('video/') ? 'video' : 'image',
-                storagePath,
-                createdAt: serverTimestamp(),
-                capturedAt: capturedAt,
-                windData: windData,
-                description: description,
-                uploaderName: uploaderName,
-                originalName: file.name,
-                uploadedBy: 'guest_with_code'
-            });
+
+            await uploadMedia(input, setUploadProgress);
 
             setSuccess(true);
-            setFile(null);
-            setPreviewUrl(null);
-            if (fileInputRef.current) fileInputRef.current.value = '';
+            finish();
             if (onUploadComplete) onUploadComplete();
 
             setTimeout(() => setSuccess(false), 3000);
 
         } catch (err: any) {
             console.error('Upload failed:', err);
+            if (isRetryableUploadError(err)) {
+                try {
+                    await queueForLater();
+                    return;
+                } catch (queueError) {
+                    console.error('Could not queue upload:', queueError);
+                }
+            }
             if (err.code === 'storage/unauthenticated') {
                 setError('Åtkomst nekad. Kontrollera att "Storage Rules" i Firebase tillåter skrivning.');
             } else {
@@ -229,6 +234,13 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({ preselectedDate, onUpl
                 Ladda upp bild/film
             </h3>
 
+            {queued && (
+                <div className="text-app-text text-sm bg-app-surface/20 border border-app-border/50 p-3 rounded-lg flex items-center gap-2 mb-4">
+                    <CloudOff className="w-4 h-4" />
+                    Sparad — laddas upp när du har täckning
+                </div>
+            )}
+
             {!file ? (
                 <div
                     onClick={() => fileInputRef.current?.click()}
@@ -270,9 +282,9 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({ preselectedDate, onUpl
                                     <span className="text-[10px] text-app-muted uppercase tracking-wider font-bold">Vind vid fototillfället</span>
                                     <div className="flex items-center gap-2 text-white font-bold">
                                         <Wind className="w-4 h-4 text-app-muted" />
-                                        <span>{windData.avg.toFixed(1)}</span>
-                                        <span className="text-yellow-400 text-xs">({windData.gust.toFixed(1)})</span>
-                                        <span className="text-xs font-normal text-white/70">m/s</span>
+                                        <span>{formatWind(windData.avg, unit)}</span>
+                                        <span className="text-yellow-400 text-xs">({formatWind(windData.gust, unit)})</span>
+                                        <span className="text-xs font-normal text-white/70">{windUnitSymbol(unit)}</span>
                                     </div>
                                 </div>
                             </div>
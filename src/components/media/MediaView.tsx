@@ -4,6 +4,10 @@ import { db } from '../../config/firebase';
 import { Play, X, Calendar, Wind, User, ArrowRight, ChevronLeft } from 'lucide-react';
 import { format } from 'date-fns';
 import { sv } from 'date-fns/locale';
+import { useSpot } from '../../hooks/useSpot';
+import { useWindUnit } from '../../hooks/usePreferences';
+import { formatWind, windUnitSymbol } from '../../utils/windUnits';
+import { belongsToSpot } from '../../config/spots';
 
 interface MediaItem {
     id: string;
@@ -12,6 +16,7 @@ interface MediaItem {
     originalName: string;
     createdAt: any;
     date: string; // YYYY-MM-DD
+    spotId?: string;
     capturedAt?: string; // HH:mm
     description?: string;
     uploaderName?: string;
@@ -29,11 +34,13 @@ interface MediaViewProps {
 }
 
 export const MediaView: React.FC<MediaViewProps> = ({ onNavigateToDate, onUploadClick, onBackToOverview }) => {
+    const unit = useWindUnit();
     const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
     const [loading, setLoading] = useState(true);
     const [selectedItem, setSelectedItem] = useState<MediaItem | null>(null);
     const [touchStartY, setTouchStartY] = useState<number | null>(null);
     const [touchEndY, setTouchEndY] = useState<number | null>(null);
+    const { spot } = useSpot();
 
     useEffect(() => {
         fetchMedia();
@@ -83,11 +90,17 @@ export const MediaView: React.FC<MediaViewProps> = ({ onNavigateToDate, onUpload
         }
     };
 
+    // Bara valt spots media (äldre uppladdningar saknar spotId = Kallsjön)
+    const spotItems = useMemo(
+        () => mediaItems.filter(item => belongsToSpot(item, spot.id)),
+        [mediaItems, spot.id]
+    );
+
     // Group items by Month
     const groupedItems = useMemo(() => {
         const groups: { [key: string]: MediaItem[] } = {};
 
-        mediaItems.forEach(item => {
+        spotItems.forEach(item => {
             const date = new Date(item.date);
             const monthKey = format(date, 'MMMM yyyy', { locale: sv });
             // Capitalize first letter
@@ -100,7 +113,7 @@ export const MediaView: React.FC<MediaViewProps> = ({ onNavigateToDate, onUpload
         });
 
         return groups;
-    }, [mediaItems]);
+    }, [spotItems]);
 
     return (
         <div className="animate-in fade-in duration-500 pb-24">
@@ -147,7 +160,7 @@ export const MediaView: React.FC<MediaViewProps> = ({ onNavigateToDate, onUpload
                                         {item.windData && (
                                             <div className="absolute top-1 right-1 bg-black/40 backdrop-blur-sm rounded px-1 py-0.5 flex items-center gap-0.5">
                                                 <Wind className="w-2 h-2 text-app-muted" />
-                                                <span className="text-[8px] text-white font-bold">{item.windData.avg.toFixed(0)}</span>
+                                                <span className="text-[8px] text-white font-bold">{formatWind(item.windData.avg, unit, 0)}</span>
                                             </div>
                                         )}
                                     </div>
@@ -156,7 +169,7 @@ export const MediaView: React.FC<MediaViewProps> = ({ onNavigateToDate, onUpload
                         </div>
                     ))}
 
-                    {mediaItems.length === 0 && (
+                    {spotItems.length === 0 && (
                         <div className="text-center py-12 text-app-subtle/50">
                             <p>Inga bilder uppladdade än.</p>
                             <p className="text-sm mt-2">Bli den första!</p>
@@ -257,9 +270,9 @@ export const MediaView: React.FC<MediaViewProps> = ({ onNavigateToDate, onUpload
                                 <div>
                                     <p className="text-[10px] text-app-muted uppercase tracking-wider font-bold">Vind vid tillfället</p>
                                     <div className="flex items-baseline gap-2">
-                                        <span className="text-xl font-bold text-app-text">{selectedItem.windData.avg.toFixed(1)}</span>
-                                        <span className="text-sm text-yellow-400 font-bold">({selectedItem.windData.gust.toFixed(1)})</span>
-                                        <span className="text-xs text-white/50">m/s</span>
+                                        <span className="text-xl font-bold text-app-text">{formatWind(selectedItem.windData.avg, unit)}</span>
+                                        <span className="text-sm text-yellow-400 font-bold">({formatWind(selectedItem.windData.gust, unit)})</span>
+                                        <span className="text-xs text-white/50">{windUnitSymbol(unit)}</span>
                                     </div>
                                 </div>
                             </div>
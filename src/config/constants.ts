@@ -15,52 +15,11 @@ export const CONFIG = {
   }
 };
 
-// Trunkerade koordinater (4 decimaler) enligt MET Norway rekommendationer
-export const KALLSJON = {
-  lat: 63.6275,    // Uppdaterad från 63.3 för högre precision
-  lon: 13.0565,    // Uppdaterad från 13.8 för högre precision
-  altitude: 382    // meter över havet, för MET Norway
-} as const;
-
+/**
+ * Metadata för härledda serier. Prognoskällorna (namn, färg, licens) bor i
+ * sina adaptrar och registreras i `src/api/forecastProviders.ts`.
+ */
 export const FORECAST_MODELS = {
-  SMHI: {
-    id: 'smhi' as const,
-    name: 'SMHI',
-    color: '#0b7c46',
-    url: 'https://opendata-download-metfcst.smhi.se/api/category/pmp3g/version/2/geotype/point',
-    attribution: '© SMHI',
-    license: 'CC BY 4.0'
-  },
-  MET_NORWAY: {
-    id: 'met_norway' as const,
-    name: 'MET Norway',
-    color: '#ff8c42',
-    url: 'https://api.met.no/weatherapi/locationforecast/2.0/compact',
-    userAgent: 'KallsjonApp/1.0 (olanygards@gmail.com)',
-    attribution: '© MET Norway',
-    license: 'CC BY 4.0'
-  },
-  ECMWF: {
-    id: 'ecmwf' as const,
-    name: 'ECMWF',
-    openMeteoId: 'ecmwf_ifs025',
-    attribution: 'Weather data by Open-Meteo.com',
-    license: 'CC BY 4.0'
-  },
-  GFS: {
-    id: 'gfs' as const,
-    name: 'GFS',
-    openMeteoId: 'gfs_seamless',
-    attribution: 'Weather data by Open-Meteo.com',
-    license: 'CC BY 4.0'
-  },
-  ICON: {
-    id: 'icon' as const,
-    name: 'ICON',
-    openMeteoId: 'icon_seamless',
-    attribution: 'Weather data by Open-Meteo.com',
-    license: 'CC BY 4.0'
-  },
   CONSENSUS: {
     id: 'consensus' as const,
     name: 'Consensus',
@@ -84,6 +43,17 @@ export const WIND_CALENDAR_COLORS = {
 } as const;
 
 export const OPEN_METEO_URL = 'https://api.open-meteo.com/v1/forecast';
+export const OPEN_METEO_ENSEMBLE_URL = 'https://ensemble-api.open-meteo.com/v1/ensemble';
+
+/**
+ * Consensus-metod: 'median', 'trimmedMean' eller 'skillWeighted'.
+ * Viktat medel faller tillbaka på median tills verifieringen gett vikter.
+ */
+export const CONSENSUS_CONFIG = {
+  method: 'skillWeighted' as const,
+  /** Andel som rensas i varje ände vid trimmat medel */
+  trimFraction: 0.2,
+};
 
 export const FETCH_CONFIG = {
   TIMEOUT_MS: 6000,
@@ -1,5 +1,11 @@
 import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import {
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  Firestore,
+} from 'firebase/firestore';
 import { getStorage } from 'firebase/storage';
 import { getAuth } from 'firebase/auth';
 import { initializeAppCheck, ReCaptchaEnterpriseProvider } from 'firebase/app-check';
@@ -34,10 +40,15 @@ try {
   const apps = getApps();
   if (!apps.length) {
     app = initializeApp(firebaseConfig);
+    // IndexedDB-cache: senast kända observationer finns kvar utan täckning
+    // och lyssnare svarar direkt ur cachen (fromCache) i stället för att vänta
+    db = initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    });
   } else {
     app = apps[0];
+    db = getFirestore(app);
   }
-  db = getFirestore(app);
 } catch (error) {
   console.error('Error initializing Firebase:', error);
   throw error;
@@ -10,6 +10,16 @@ export interface IceConfig {
   };
 }
 
+/** En sjös issäsong: standardperiod plus faktiska datum per år där de är kända */
+export interface IceSeason {
+  /** Månad 0-indexerad (som Date) */
+  startMonth: number;
+  startDay: number;
+  endMonth: number;
+  endDay: number;
+  years: IceConfig;
+}
+
 /** Default: 15 feb – 15 apr. Januari före isläggning räknas som surfbar. */
 export const DEFAULT_ICE_START_MONTH = 1;
 export const DEFAULT_ICE_START_DAY = 15;
@@ -20,6 +30,21 @@ export const DEFAULT_ICE_CONFIG: IceConfig = {
   // Exempel: 2024: { start: '2024-02-10', end: '2024-04-20' },
 };
 
+/** Kallsjöns issäsong */
+export const DEFAULT_ICE_SEASON: IceSeason = {
+  startMonth: DEFAULT_ICE_START_MONTH,
+  startDay: DEFAULT_ICE_START_DAY,
+  endMonth: DEFAULT_ICE_END_MONTH,
+  endDay: DEFAULT_ICE_END_DAY,
+  years: DEFAULT_ICE_CONFIG,
+};
+
+const MONTH_SHORT = ['jan', 'feb', 'mar', 'apr', 'maj', 'jun', 'jul', 'aug', 'sep', 'okt', 'nov', 'dec'];
+
+export function getIcePeriodLabel(season: IceSeason = DEFAULT_ICE_SEASON): string {
+  return `${season.startDay} ${MONTH_SHORT[season.startMonth]} – ${season.endDay} ${MONTH_SHORT[season.endMonth]}`;
+}
+
 export function getDefaultIcePeriodLabel(): string {
-  return '15 feb – 15 apr';
+  return getIcePeriodLabel(DEFAULT_ICE_SEASON);
 }
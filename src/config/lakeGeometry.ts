@@ -0,0 +1,42 @@
+/**
+ * Sjögeometri för våguppskattning (stryklängd per vindriktning).
+ * Konturen är förenklad — räcker för stryklängd på kilometernivå,
+ * inte för kartritning. Förfina punkterna om uddar/vikar behöver synas.
+ */
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+/** Kallsjöns strandlinje, medurs från nordvästra spetsen (ca 17 punkter) */
+export const KALLSJON_OUTLINE: readonly LatLon[] = [
+  { lat: 63.760, lon: 12.880 },
+  { lat: 63.745, lon: 12.960 },
+  { lat: 63.700, lon: 13.020 },
+  { lat: 63.665, lon: 13.075 },
+  { lat: 63.640, lon: 13.120 },
+  { lat: 63.600, lon: 13.170 },
+  { lat: 63.555, lon: 13.215 },
+  { lat: 63.500, lon: 13.265 },
+  { lat: 63.470, lon: 13.255 },
+  { lat: 63.480, lon: 13.215 },
+  { lat: 63.530, lon: 13.160 },
+  { lat: 63.575, lon: 13.110 },
+  { lat: 63.610, lon: 13.060 },
+  { lat: 63.625, lon: 13.045 },
+  { lat: 63.650, lon: 13.010 },
+  { lat: 63.690, lon: 12.950 },
+  { lat: 63.730, lon: 12.880 },
+];
+
+/** Brytet vid Vassnäs — punkten stryklängden mäts från (samma som prognospunkten) */
+export const KALLSJON_BREAK: LatLon = { lat: 63.6275, lon: 13.0565 };
+
+/** Kontur + bryt för en sjö — det våguppskattningen behöver */
+export interface LakeGeometry {
+  outline: readonly LatLon[];
+  breakPoint: LatLon;
+}
+
+export const KALLSJON_LAKE: LakeGeometry = { outline: KALLSJON_OUTLINE, breakPoint: KALLSJON_BREAK };
@@ -0,0 +1,71 @@
+/**
+ * Push-regler användaren kan prenumerera på, per spot. Utvärderas på servern
+ * (scripts/evaluatePushAlerts.ts) mot consensus-prognosen och stationens
+ * senaste värde — se utils/pushAlertEvaluator.ts. Egna regler
+ * (utils/alertRules.ts) kan väljas vid sidan av dessa.
+ */
+
+export interface ForecastWindowRule {
+  kind: 'forecastWindow';
+  id: string;
+  label: string;
+  /** Nivå-id i vindskalan, t.ex. 'surfable' */
+  minLevelId: string;
+  /** Fönstret ska vara minst så här många timmar */
+  minHours: number;
+  daylightOnly: boolean;
+  /** Fönstret ska börja inom så här många timmar */
+  withinHours: number;
+}
+
+export interface StationNowRule {
+  kind: 'stationNow';
+  id: string;
+  label: string;
+  /** Medelvind över detta (m/s) */
+  minAvgMs: number;
+}
+
+export type PushAlertRule = ForecastWindowRule | StationNowRule;
+
+export const PUSH_ALERT_RULES: readonly PushAlertRule[] = [
+  {
+    kind: 'forecastWindow',
+    id: 'surfable2hDaylight48h',
+    label: 'Surfbart minst 2 h i dagsljus inom 48 h',
+    minLevelId: 'surfable',
+    minHours: 2,
+    daylightOnly: true,
+    withinHours: 48,
+  },
+  {
+    kind: 'forecastWindow',
+    id: 'great24h',
+    label: 'Riktigt bra inom 24 h',
+    minLevelId: 'great',
+    minHours: 1,
+    daylightOnly: false,
+    withinHours: 24,
+  },
+  {
+    kind: 'stationNow',
+    id: 'stationAbove12',
+    label: 'Stationen visar över 12 m/s nu',
+    minAvgMs: 12,
+  },
+];
+
+export const DEFAULT_PUSH_RULE_IDS = ['surfable2hDaylight48h'];
+
+/** Firestore-samlingar */
+export const PUSH_SUBSCRIPTIONS_COLLECTION = 'pushSubscriptions';
+export const ALERT_DELIVERIES_COLLECTION = 'alertDeliveries';
+
+/** Stationsvärden äldre än så räknas inte som "nu" */
+export const STATION_NOW_MAX_AGE_MS = 30 * 60 * 1000;
+
+/** Så lång stationshistorik hämtas för egna regler med minsta längd */
+export const STATION_HISTORY_HOURS = 12;
+
+/** Leveransposter städas bort efter så här lång tid (Firestore TTL på expiresAt) */
+export const ALERT_DELIVERY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
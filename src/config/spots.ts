@@ -0,0 +1,122 @@
+/**
+ * Spots — sjöar appen kan följa. Allt som tidigare var hårdkodat för
+ * Kallsjön (koordinater, station, is, skala med riktningar, sjögeometri) bor här.
+ * Valt spot hålls av `SpotProvider` (`hooks/useSpot.ts`).
+ */
+
+import { createWindScale, DEFAULT_WIND_SCALE, WindScale } from './windScale';
+import { DEFAULT_ICE_SEASON, IceSeason } from './iceConfig';
+import { KALLSJON_LAKE, LakeGeometry } from './lakeGeometry';
+
+export interface SpotStation {
+  /** Stationens id hos källan (Trafikverket) */
+  id: string;
+  /** Visas i headern: "Vassnäs · 14:05" */
+  name: string;
+  /** Firestore-samling med 5-minutersvärden */
+  windCollection: string;
+  /** Firestore-samling med dagsaggregat */
+  dailyStatsCollection: string;
+}
+
+export interface SpotConfig {
+  id: string;
+  name: string;
+  /** Prognospunkt (4 decimaler enligt MET Norway) — även soltider */
+  lat: number;
+  lon: number;
+  /** Meter över havet, för MET Norway */
+  altitude: number;
+  station: SpotStation;
+  ice: IceSeason;
+  /** Trösklar och riktningsprofil */
+  windScale: WindScale;
+  /** Sjökontur för våguppskattning; null = inga vågor visas */
+  lake: LakeGeometry | null;
+}
+
+export const DEFAULT_SPOT_ID = 'kallsjon';
+
+/**
+ * Grannsjöarnas samlingar fylls när Cloud Function-importen läser deras
+ * station; tills dess visar vyerna bara prognos.
+ */
+export const SPOTS: readonly SpotConfig[] = [
+  {
+    id: DEFAULT_SPOT_ID,
+    name: 'Kallsjön',
+    lat: 63.6275,
+    lon: 13.0565,
+    altitude: 382,
+    station: {
+      id: 'vassnas',
+      name: 'Vassnäs',
+      windCollection: 'wind',
+      dailyStatsCollection: 'dailyStats',
+    },
+    ice: DEFAULT_ICE_SEASON,
+    windScale: DEFAULT_WIND_SCALE,
+    lake: KALLSJON_LAKE,
+  },
+  {
+    id: 'storsjon',
+    name: 'Storsjön',
+    lat: 63.1792,
+    lon: 14.6357,
+    altitude: 292,
+    station: {
+      id: 'frosobron',
+      name: 'Frösöbron',
+      windCollection: 'wind_storsjon',
+      dailyStatsCollection: 'dailyStats_storsjon',
+    },
+    ice: DEFAULT_ICE_SEASON,
+    // Längsta fria vattnet mot Frösöbron ligger åt SV–V
+    windScale: createWindScale({}, {
+      directions: { N: 'blocked', NO: 'blocked', O: 'blocked', SO: 'marginal', S: 'marginal', SV: 'good', V: 'good', NV: 'marginal' },
+    }),
+    lake: null,
+  },
+  {
+    id: 'aresjon',
+    name: 'Åresjön',
+    lat: 63.3990,
+    lon: 13.0790,
+    altitude: 385,
+    station: {
+      id: 'are',
+      name: 'Åre',
+      windCollection: 'wind_aresjon',
+      dailyStatsCollection: 'dailyStats_aresjon',
+    },
+    ice: DEFAULT_ICE_SEASON,
+    // Kort stryklängd: samma våg kräver mer vind än på Kallsjön.
+    // Dalgången kanaliserar vinden väst–öst.
+    windScale: createWindScale({ surfable: 11, good: 13, great: 16 }, {
+      directions: { N: 'blocked', NO: 'marginal', O: 'good', SO: 'marginal', S: 'blocked', SV: 'marginal', V: 'good', NV: 'marginal' },
+    }),
+    lake: null,
+  },
+];
+
+export const DEFAULT_SPOT: SpotConfig = SPOTS[0];
+
+/** Valt spot i localStorage */
+export const SPOT_STORAGE_KEY = 'kallifornia.spot.v1';
+
+export function getSpot(id: string | null | undefined): SpotConfig {
+  return SPOTS.find(spot => spot.id === id) ?? DEFAULT_SPOT;
+}
+
+/**
+ * localStorage-nyckel per spot. Kallsjön behåller den gamla nyckeln så att
+ * befintliga arkiv, vikter och korrigeringar följer med.
+ */
+export function spotStorageKey(baseKey: string, spotId: string = DEFAULT_SPOT_ID): string {
+  return spotId === DEFAULT_SPOT_ID ? baseKey : `${baseKey}.${spotId}`;
+}
+
+/** Poster utan spotId (media m.m. från före spots) hör till Kallsjön */
+export function belongsToSpot(item: { spotId?: string }, spotId: string): boolean {
+  return (item.spotId ?? DEFAULT_SPOT_ID) === spotId;
+}
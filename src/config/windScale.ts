@@ -5,6 +5,8 @@
  * Design: docs/ux/VINDSKALA.md · Beslut: docs/ux/BESLUT.md
  */
 
+import { degreesToSector8, type WindSector8 } from '../utils/windDirection8';
+
 export interface WindScaleLevelConfig {
   id: string;
   label: string;
@@ -24,6 +26,34 @@ export const GUST_SURFABLE_MS = 15;
 /** Medelvind för Surfbart utan by-regel */
 export const AVG_SURFABLE_MS = 10;
 
+/**
+ * Hur väl en vindriktning bygger vågor vid brytet:
+ * good = full nivå, marginal = ett steg ner, blocked = högst Håll koll
+ * (frånlandsvind eller för kort stryklängd — vind men inga vågor).
+ */
+export type DirectionQuality = 'good' | 'marginal' | 'blocked';
+
+/** Kvalitet per 8-sektor, varifrån vinden blåser */
+export type DirectionProfile = Record<WindSector8, DirectionQuality>;
+
+export const DIRECTION_QUALITY_LABELS: Record<DirectionQuality, string> = {
+  good: 'Bra riktning',
+  marginal: 'Halvbra riktning',
+  blocked: 'Fel riktning',
+};
+
+/**
+ * En spots vindskala. Nivåernas id, ordning och färger är desamma för alla
+ * spots (index betyder samma sak överallt) — bara trösklarna skiljer.
+ */
+export interface WindScale {
+  levels: readonly WindScaleLevelConfig[];
+  avgSurfableMs: number;
+  gustSurfableMs: number;
+  /** null = riktningen spelar ingen roll */
+  directions: DirectionProfile | null;
+}
+
 /**
  * Sjustegsskala — default enligt UX-skiss v1.4 (Jämtlandspalett).
  * Ordning: lägst → högst. Vid matchning väljs högsta nivå där avg >= minAvgMs.
@@ -75,6 +105,48 @@ export const WIND_SCALE_LEVELS: readonly WindScaleLevelConfig[] = [
   },
 ] as const;
 
+/**
+ * Vassnäs: sjön går NV–SO, så längsgående vind (SO, S, V, NV) ger lång
+ * stryklängd. NO–O blåser från land och bygger inget.
+ */
+export const KALLSJON_DIRECTIONS: DirectionProfile = {
+  N: 'marginal',
+  NO: 'blocked',
+  O: 'blocked',
+  SO: 'good',
+  S: 'good',
+  SV: 'marginal',
+  V: 'good',
+  NV: 'good',
+};
+
+/** Kallsjöns skala — standard för spots utan egna trösklar */
+export const DEFAULT_WIND_SCALE: WindScale = {
+  levels: WIND_SCALE_LEVELS,
+  avgSurfableMs: AVG_SURFABLE_MS,
+  gustSurfableMs: GUST_SURFABLE_MS,
+  directions: KALLSJON_DIRECTIONS,
+};
+
+interface CreateWindScaleOptions {
+  gustSurfableMs?: number;
+  directions?: DirectionProfile | null;
+}
+
+/**
+ * Skala med egna trösklar: `minAvgMs` per nivå-id (saknade behåller
+ * standardvärdet), by-regel och surftröskel följer nivån Surfbart.
+ * Utan riktningsprofil spelar riktningen ingen roll.
+ */
+export function createWindScale(
+  minAvgMsById: Partial<Record<string, number>>,
+  { gustSurfableMs = GUST_SURFABLE_MS, directions = null }: CreateWindScaleOptions = {}
+): WindScale {
+  const levels = WIND_SCALE_LEVELS.map(level => ({ ...level, minAvgMs: minAvgMsById[level.id] ?? level.minAvgMs }));
+  const surfable = levels.find(l => l.id === 'surfable');
+  return { levels, avgSurfableMs: surfable?.minAvgMs ?? AVG_SURFABLE_MS, gustSurfableMs, directions };
+}
+
 /** App-chrome (navigation, text) — neutral ljus, enligt UX-skiss v1.4. Beslut 04. */
 export const APP_THEME = {
   background: '#fbfbf9',
@@ -100,6 +172,26 @@ export const APP_THEME = {
   },
 } as const;
 
+/**
+ * Mörkt tema för färger som ritas som värden (grafer, SVG) — CSS-variablerna
+ * i index.css når inte dit. Samma toner som mörka paletten; välj med useAppTheme().
+ */
+export const APP_THEME_DARK = {
+  ...APP_THEME,
+  background: '#121212',
+  surface: '#1c1c1c',
+  surfaceElevated: '#262626',
+  border: '#3a3a38',
+  borderMuted: '#2c2c2a',
+  text: '#ececea',
+  textMuted: '#a0a0a0',
+  textSubtle: '#7a7a7a',
+  accentFlag: {
+    ...APP_THEME.accentFlag,
+    blue: '#7aa2ff',
+  },
+} as const;
+
 /** Surftrösklar för referenslinjer m.m. — speglar skalan */
 export const WIND_THRESHOLDS = {
   MIN_WORTH_WATCHING: 6,
@@ -108,31 +200,59 @@ export const WIND_THRESHOLDS = {
   GUST_SURFABLE: GUST_SURFABLE_MS,
 } as const;
 
-export function getLevelIndexFromAvg(avgMs: number): number {
+export function getLevelIndexFromAvg(avgMs: number, scale: WindScale = DEFAULT_WIND_SCALE): number {
   let index = 0;
-  for (let i = 0; i < WIND_SCALE_LEVELS.length; i++) {
-    if (avgMs >= WIND_SCALE_LEVELS[i].minAvgMs) index = i;
+  for (let i = 0; i < scale.levels.length; i++) {
+    if (avgMs >= scale.levels[i].minAvgMs) index = i;
   }
   return index;
 }
 
-export function getLevelFromAvg(avgMs: number): WindScaleLevelConfig {
-  return WIND_SCALE_LEVELS[getLevelIndexFromAvg(avgMs)];
+export function getLevelFromAvg(avgMs: number, scale: WindScale = DEFAULT_WIND_SCALE): WindScaleLevelConfig {
+  return scale.levels[getLevelIndexFromAvg(avgMs, scale)];
+}
+
+/** Riktningens kvalitet; okänd riktning eller skala utan profil räknas som good */
+export function getDirectionQuality(
+  dirDeg: number | null | undefined,
+  scale: WindScale = DEFAULT_WIND_SCALE
+): DirectionQuality {
+  if (dirDeg == null || !scale.directions) return 'good';
+  return scale.directions[degreesToSector8(dirDeg)];
 }
 
 /**
  * Surfbarhetsnivå för ett tidslot — används t.ex. vid val av bästa lucka per dag.
- * By ≥ GUST_SURFABLE_MS ger minst Surfbart även om medel < AVG_SURFABLE_MS.
+ * By ≥ gustSurfableMs ger minst Surfbart även om medel < avgSurfableMs.
+ * Med riktning (grader, varifrån) justeras nivån efter skalans riktningsprofil.
  */
-export function getEffectiveLevelIndex(avgMs: number, gustMs: number): number {
-  const fromAvg = getLevelIndexFromAvg(avgMs);
-  const surfableIndex = WIND_SCALE_LEVELS.findIndex((l) => l.id === 'surfable');
-  if (gustMs >= GUST_SURFABLE_MS && avgMs < AVG_SURFABLE_MS) {
-    return Math.max(fromAvg, surfableIndex);
+export function getEffectiveLevelIndex(
+  avgMs: number,
+  gustMs: number,
+  scale: WindScale = DEFAULT_WIND_SCALE,
+  dirDeg?: number | null
+): number {
+  const fromAvg = getLevelIndexFromAvg(avgMs, scale);
+  const surfableIndex = scale.levels.findIndex((l) => l.id === 'surfable');
+  const index = gustMs >= scale.gustSurfableMs && avgMs < scale.avgSurfableMs
+    ? Math.max(fromAvg, surfableIndex)
+    : fromAvg;
+
+  switch (getDirectionQuality(dirDeg, scale)) {
+    case 'marginal':
+      return Math.max(0, index - 1);
+    case 'blocked':
+      return Math.min(index, scale.levels.findIndex((l) => l.id === 'watching'));
+    default:
+      return index;
   }
-  return fromAvg;
 }
 
-export function getEffectiveLevel(avgMs: number, gustMs: number): WindScaleLevelConfig {
-  return WIND_SCALE_LEVELS[getEffectiveLevelIndex(avgMs, gustMs)];
+export function getEffectiveLevel(
+  avgMs: number,
+  gustMs: number,
+  scale: WindScale = DEFAULT_WIND_SCALE,
+  dirDeg?: number | null
+): WindScaleLevelConfig {
+  return scale.levels[getEffectiveLevelIndex(avgMs, gustMs, scale, dirDeg)];
 }
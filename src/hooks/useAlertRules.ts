@@ -0,0 +1,40 @@
+import { createContext, createElement, useCallback, useContext, useState, type ReactNode } from 'react';
+import { AlertRule, loadAlertRules, saveAlertRules } from '../utils/alertRules';
+
+interface AlertRulesContextValue {
+  rules: AlertRule[];
+  /** Lägger till eller ersätter (samma id) */
+  saveRule: (rule: AlertRule) => void;
+  deleteRule: (id: string) => void;
+}
+
+const AlertRulesContext = createContext<AlertRulesContextValue>({
+  rules: [],
+  saveRule: () => {},
+  deleteRule: () => {},
+});
+
+/** Håller egna larmregler (sparas i localStorage). Delas av Läget och surflarmen i headern. */
+export function AlertRulesProvider({ children }: { children: ReactNode }) {
+  const [rules, setRules] = useState<AlertRule[]>(loadAlertRules);
+
+  const update = useCallback((next: (prev: AlertRule[]) => AlertRule[]) => {
+    setRules(prev => {
+      const updated = next(prev);
+      saveAlertRules(updated);
+      return updated;
+    });
+  }, []);
+
+  const saveRule = useCallback((rule: AlertRule) => update(prev =>
+    prev.some(r => r.id === rule.id) ? prev.map(r => (r.id === rule.id ? rule : r)) : [...prev, rule]
+  ), [update]);
+
+  const deleteRule = useCallback((id: string) => update(prev => prev.filter(r => r.id !== id)), [update]);
+
+  return createElement(AlertRulesContext.Provider, { value: { rules, saveRule, deleteRule } }, children);
+}
+
+export function useAlertRules(): AlertRulesContextValue {
+  return useContext(AlertRulesContext);
+}
@@ -1,98 +1,88 @@
 import { useState } from 'react';
-import { useWindCache } from './useWindCache';
-import { WindData } from '../types/WindData';
+import { format } from 'date-fns';
+import { CacheUsage, clearCache, evictCache, getCacheUsage } from '../utils/idbStore';
+import { invalidateQueries, isQueryCacheBypassed, setQueryCacheBypass } from '../utils/queryCache';
+import { useSpot } from './useSpot';
+
+/** Datatyper i query-cachen (taggprefix, se utils/queryCache) */
+type CachedDataType = 'obs' | 'dailyStats' | 'forecast' | 'media';
+
+const ALL_DATA_TYPES: CachedDataType[] = ['obs', 'dailyStats', 'forecast', 'media'];
 
 /**
  * Cache manager hook for user-facing cache controls
  * Provides functions to clear cache, get stats, and manage cache behavior
  */
 export function useCacheManager() {
-    const windCache = useWindCache<WindData>();
-
-    // Session flag to ignore cache (useful for debugging)
-    const [ignoreCache, setIgnoreCache] = useState(false);
+    const { station } = useSpot().spot;
+    // Session flag to ignore cache (useful for debugging) — gäller alla frågor
+    const [ignoreCache, setIgnoreCacheState] = useState(isQueryCacheBypassed);
 
-    /**
-     * Clear cache for a specific month
-     * @param date - Date within the month to clear
-     * @param type - 'obs' for observations, 'stats' for statistics
-     * @param minForce - For stats type, the minForce filter value (default: 10)
-     */
-    const clearMonth = (
-        date: Date,
-        type: 'obs' | 'stats' = 'obs',
-        minForce: number = 10
-    ): void => {
-        const force = type === 'stats' ? minForce : 0;
-        windCache.clearCacheForMonth(date, force);
+    const setIgnoreCache = (value: boolean) => {
+        setQueryCacheBypass(value);
+        setIgnoreCacheState(value);
     };
 
     /**
-     * Clear cache for an entire year
-     * Removes all month entries within that year
-     * @param year - Year to clear (e.g. 2024)
-     * @param type - 'obs' for observations, 'stats' for statistics
+     * Hämta om frågor med någon av taggarna (t.ex. 'obs:wind:2025-11', 'forecast').
+     * purge tar även bort lokala kopior
      */
-    const clearYear = (
-        year: number,
-        type: 'obs' | 'stats' = 'stats'
-    ): void => {
-        const prefix = type === 'stats' ? `stats:${year}` : `obs:${year}`;
-
-        const keysToRemove: string[] = [];
-        for (let i = 0; i < localStorage.length; i++) {
-            const key = localStorage.key(i);
-            if (key?.startsWith(prefix)) {
-                keysToRemove.push(key);
-            }
-        }
+    const invalidate = (tags: string[], purge: boolean = false): Promise<void> => {
+        return invalidateQueries({ tags, purge });
+    };
 
-        keysToRemove.forEach(key => localStorage.removeItem(key));
-        console.log(`Cleared ${keysToRemove.length} cache entries for ${type}:${year}`);
+    /** Månads- och årstaggarna är per samling — rensa bara valt spots station */
+    const periodPrefix = (type: CachedDataType): string => {
+        if (type === 'obs') return `obs:${station.windCollection}`;
+        if (type === 'dailyStats') return `dailyStats:${station.dailyStatsCollection}`;
+        return type;
     };
 
     /**
-     * Clear all cache (both obs: and stats:)
+     * Clear cache for a specific month
+     * @param date - Date within the month to clear
+     * @param type - 'obs' for observations, 'dailyStats' for statistics
      */
-    const clearAll = (): void => {
-        windCache.clearAllCache();
+    const clearMonth = (date: Date, type: CachedDataType = 'obs'): Promise<void> => {
+        return invalidate([`${periodPrefix(type)}:${format(date, 'yyyy-MM')}`], true);
     };
 
     /**
-     * Get cache statistics
-     * Returns info about cached months, storage usage, etc.
+     * Clear cache for an entire year
+     * @param year - Year to clear (e.g. 2024)
+     * @param type - 'obs' for observations, 'dailyStats' for statistics
      */
-    const getCacheStats = () => {
-        return windCache.getCacheStats();
+    const clearYear = (year: number, type: CachedDataType = 'dailyStats'): Promise<void> => {
+        return invalidate([`${periodPrefix(type)}:${year}`], true);
     };
 
     /**
-     * Clear old non-permanent caches to free up space
+     * Clear all cache (observations, daily stats, forecasts and media)
      */
-    const clearOldCaches = (): void => {
-        windCache.clearOldCaches();
+    const clearAll = async (): Promise<void> => {
+        await invalidate(ALL_DATA_TYPES, true);
+        await clearCache();
     };
 
     /**
-     * Check if a specific month is cached
-     * @param date - Date within the month to check
-     * @param minForce - Optional minForce filter (0 = observations, >0 = stats)
+     * Get cache statistics
+     * Returns entries and approximate bytes per kind
      */
-    const isMonthCached = (date: Date, minForce: number = 0): boolean => {
-        return windCache.isMonthDataFresh(date, minForce);
+    const getCacheStats = (): Promise<CacheUsage> => {
+        return getCacheUsage();
     };
 
     /**
-     * Get a formatted cache key for display purposes
-     * @param date - Date within the month
-     * @param minForce - Optional minForce filter
+     * Remove long-expired entries and least recently used above the size cap
      */
-    const getDisplayKey = (date: Date, minForce: number = 0): string => {
-        return windCache.getMonthKey(date, minForce);
+    const clearOldCaches = async (): Promise<void> => {
+        const removed = await evictCache();
+        console.log(`Cleared ${removed} old cache entries`);
     };
 
     return {
         // Clear functions
+        invalidate,
         clearMonth,
         clearYear,
         clearAll,
@@ -100,8 +90,6 @@ export function useCacheManager() {
 
         // Query functions
         getCacheStats,
-        isMonthCached,
-        getDisplayKey,
 
         // Dev/debug flags
         ignoreCache,
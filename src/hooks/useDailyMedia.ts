@@ -1,6 +1,10 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useMemo } from 'react';
 import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { belongsToSpot } from '../config/spots';
+import { useSpot } from './useSpot';
+import { useQuery } from './useQuery';
+import { QueryDefinition, rowsPersister, setQueryData } from '../utils/queryCache';
 
 export interface DailyMediaItem {
   id: string;
@@ -9,6 +13,8 @@ export interface DailyMediaItem {
   originalName: string;
   createdAt: Timestamp | null;
   storagePath: string;
+  /** Saknas på media från före spots (= Kallsjön) */
+  spotId?: string;
   capturedAt?: string; // HH:mm
   description?: string;
   uploaderName?: string;
@@ -19,43 +25,56 @@ export interface DailyMediaItem {
   };
 }
 
-/**
- * Media för en specifik dag (Firestore `media_items`).
- * Delas mellan dagvyns sammanfattning, grafmarkörer och galleri.
- */
-export function useDailyMedia(date: string) {
-  const [items, setItems] = useState<DailyMediaItem[]>([]);
-  const [loading, setLoading] = useState(true);
+/** Andra användares uppladdningar syns inom så här lång tid; egna invaliderar direkt */
+const MEDIA_STALE_MS = 5 * 60 * 1000;
+
+const NO_ITEMS: DailyMediaItem[] = [];
+
+/** Timestamp överlever inte IndexedDB — sparas som millisekunder */
+type CachedMediaItem = Omit<DailyMediaItem, 'createdAt'> & { createdAt: number | null };
+
+/** Kronologiskt efter tidpunkt på dagen (poster utan tid sist) */
+const byTimeOfDay = (a: { capturedAt?: string }, b: { capturedAt?: string }) =>
+  (a.capturedAt ?? '99:99').localeCompare(b.capturedAt ?? '99:99');
 
-  const fetchMedia = useCallback(async () => {
-    setLoading(true);
-    try {
+function dailyMediaQuery(spotId: string, date: string): QueryDefinition<DailyMediaItem[]> {
+  const dayTime = new Date(date).getTime();
+  return {
+    key: `media:${spotId}:${date}`,
+    staleTime: MEDIA_STALE_MS,
+    tags: ['media', `media:${date}`],
+    persister: rowsPersister<DailyMediaItem, CachedMediaItem>(
+      'media',
+      `media:${spotId}`,
+      item => ({ id: item.id, time: dayTime, value: { ...item, createdAt: item.createdAt?.toMillis() ?? null } }),
+      value => ({ ...value, createdAt: value.createdAt !== null ? Timestamp.fromMillis(value.createdAt) : null })
+    ),
+    fetcher: async () => {
       const q = query(collection(db, 'media_items'), where('date', '==', date));
       const snapshot = await getDocs(q);
 
       const fetched: DailyMediaItem[] = [];
       snapshot.forEach(doc => {
-        fetched.push({ id: doc.id, ...doc.data() } as DailyMediaItem);
+        const item = { id: doc.id, ...doc.data() } as DailyMediaItem;
+        if (belongsToSpot(item, spotId)) fetched.push(item);
       });
+      return fetched.sort(byTimeOfDay);
+    },
+  };
+}
 
-      // Kronologiskt efter tidpunkt på dagen (poster utan tid sist)
-      fetched.sort((a, b) => (a.capturedAt ?? '99:99').localeCompare(b.capturedAt ?? '99:99'));
-      setItems(fetched);
-    } catch (error) {
-      console.error('Error fetching daily media:', error);
-      setItems([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [date]);
-
-  useEffect(() => {
-    fetchMedia();
-  }, [fetchMedia]);
+/**
+ * Media för en specifik dag och valt spot (Firestore `media_items`).
+ * Delas mellan dagvyns sammanfattning, grafmarkörer och galleri.
+ */
+export function useDailyMedia(date: string) {
+  const { spot } = useSpot();
+  const mediaQuery = useMemo(() => dailyMediaQuery(spot.id, date), [spot.id, date]);
+  const { data, loading, refetch } = useQuery(mediaQuery);
 
   const removeItem = useCallback((id: string) => {
-    setItems(prev => prev.filter(item => item.id !== id));
-  }, []);
+    setQueryData<DailyMediaItem[]>(mediaQuery.key, prev => (prev ?? []).filter(item => item.id !== id));
+  }, [mediaQuery.key]);
 
-  return { items, loading, refetch: fetchMedia, removeItem };
+  return { items: data ?? NO_ITEMS, loading, refetch, removeItem };
 }
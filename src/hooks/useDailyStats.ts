@@ -1,12 +1,17 @@
-import { useState, useEffect } from 'react';
+import { useMemo } from 'react';
 import { collection, query, where, getDocs, orderBy, Timestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import { STATS_DATA_START_YEAR } from '../config/constants';
+import { useSpot } from './useSpot';
 import { startOfDay, format } from 'date-fns';
 import {
     aggregateWindIntervals,
+    type DailyQc,
     type WindInterval,
 } from '../utils/dailyStatsAggregation';
+import type { QcFlag } from '../utils/windQualityControl';
+import { entryPersister, QueryDefinition } from '../utils/queryCache';
+import { useQuery } from './useQuery';
 
 export interface DailyStats {
     date: string;
@@ -30,20 +35,54 @@ export interface DailyStats {
     peakLevelIndexDaylight?: number;
     windowFrom?: Date | null;
     windowTo?: Date | null;
+    /** Andel av dygnet med data, 0–100. Saknas för dagar aggregerade före luckhantering */
+    coveragePercent?: number;
+    insufficientCoverage?: boolean;
+    /** Saknas för dagar aggregerade före QC */
+    qc?: DailyQc;
 }
 
 interface UseDailyStatsOptions {
     startYear?: number;
     endYear: number;
+    /** Räkna bort spikar, fastfrusen mätare och by < medel (standard) */
+    excludeFlagged?: boolean;
+    /** Bara dagar med isSurfableDay (standard). false = alla dagar, t.ex. för backtest av larmregler */
+    surfableOnly?: boolean;
 }
 
-function mapFirestoreDailyStats(data: Record<string, unknown>): DailyStats {
-    const toDate = (value: unknown, fallback: string): Date => {
-        if (value && typeof value === 'object' && 'toDate' in value) {
-            return (value as { toDate: () => Date }).toDate();
-        }
-        return new Date(fallback);
+const toDate = (value: unknown, fallback: string): Date => {
+    if (value && typeof value === 'object' && 'toDate' in value) {
+        return (value as { toDate: () => Date }).toDate();
+    }
+    return new Date(fallback);
+};
+
+interface FirestoreQc {
+    periods?: Array<{ flag: QcFlag; from: unknown; to: unknown; count: number }>;
+    flaggedCount?: number;
+    clean?: Record<string, unknown> | null;
+}
+
+function mapFirestoreQc(qc: FirestoreQc | undefined, date: string, excluded: boolean): DailyQc | undefined {
+    if (!qc) return undefined;
+    return {
+        periods: (qc.periods ?? []).map(period => ({
+            flag: period.flag,
+            from: toDate(period.from, date),
+            to: toDate(period.to, date),
+            count: period.count,
+        })),
+        flaggedCount: qc.flaggedCount ?? 0,
+        excluded,
     };
+}
+
+/** excludeFlagged: fälten i qc.clean ersätter rådata där de finns */
+function mapFirestoreDailyStats(raw: Record<string, unknown>, excludeFlagged: boolean): DailyStats {
+    const qc = raw.qc as FirestoreQc | undefined;
+    const useClean = excludeFlagged && qc?.clean != null;
+    const data = useClean ? { ...raw, ...qc!.clean } : raw;
 
     return {
         date: data.date as string,
@@ -67,6 +106,9 @@ function mapFirestoreDailyStats(data: Record<string, unknown>): DailyStats {
         peakLevelIndexDaylight: data.peakLevelIndexDaylight as number | undefined,
         windowFrom: data.windowFrom ? toDate(data.windowFrom, data.date as string) : null,
         windowTo: data.windowTo ? toDate(data.windowTo, data.date as string) : null,
+        coveragePercent: data.coveragePercent as number | undefined,
+        insufficientCoverage: data.insufficientCoverage as boolean | undefined,
+        qc: mapFirestoreQc(qc, data.date as string, useClean),
     };
 }
 
@@ -77,120 +119,133 @@ function aggregationToDailyStats(aggregated: ReturnType<typeof aggregateWindInte
     };
 }
 
+/** Historiken ändras en gång per natt; dagens dygn byggs av live-data */
+const DAILY_STATS_STALE_MS = 60 * 60 * 1000;
+const DAILY_STATS_LIVE_STALE_MS = 5 * 60 * 1000;
+
 /**
- * Fetch daily aggregated wind stats from Firestore.
- * Query uses isSurfableDay (Beslut 06.3) — includes gust-driven surf days.
+ * Cachat svar: dygnen ur Firestore och dagens rådata. Dagens dygn räknas
+ * fram med aktuell skala i hooken — byte av skala kräver ingen ny hämtning.
  */
-export function useDailyStats({
-    startYear = STATS_DATA_START_YEAR,
-    endYear,
-}: UseDailyStatsOptions) {
-    const [data, setData] = useState<DailyStats[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<Error | null>(null);
-
-    useEffect(() => {
-        let mounted = true;
-
-        const fetchDailyStats = async () => {
-            try {
-                setLoading(true);
-                setError(null);
+interface DailyStatsResult {
+    history: DailyStats[];
+    today: { date: string; points: WindInterval[]; fetchedAt: Date } | null;
+}
 
-                const dailyStatsRef = collection(db, 'dailyStats');
-                const startDate = `${startYear}-01-01`;
-                const endDate = `${endYear}-12-31`;
+function dailyStatsQuery(
+    station: { windCollection: string; dailyStatsCollection: string },
+    startYear: number,
+    endYear: number,
+    excludeFlagged: boolean,
+    surfableOnly: boolean
+): QueryDefinition<DailyStatsResult> {
+    const collectionName = station.dailyStatsCollection;
+    const shouldFetchLive = endYear >= new Date().getFullYear();
+    const years = Array.from({ length: endYear - startYear + 1 }, (_, i) => startYear + i);
 
-                const q = query(
+    return {
+        key: `dailyStats:${collectionName}:${surfableOnly ? 'surfable' : 'all'}:${excludeFlagged ? 'clean' : 'raw'}:${startYear}-${endYear}`,
+        staleTime: shouldFetchLive ? DAILY_STATS_LIVE_STALE_MS : DAILY_STATS_STALE_MS,
+        tags: ['dailyStats', `dailyStats:${collectionName}`, ...years.map(year => `dailyStats:${collectionName}:${year}`)],
+        persister: entryPersister<DailyStatsResult>('dailyStats'),
+        fetcher: async () => {
+            const dailyStatsRef = collection(db, collectionName);
+            const startDate = `${startYear}-01-01`;
+            const endDate = `${endYear}-12-31`;
+
+            const q = surfableOnly
+                ? query(
                     dailyStatsRef,
                     where('isSurfableDay', '==', true),
                     where('date', '>=', startDate),
                     where('date', '<=', endDate),
                     orderBy('date', 'desc')
+                )
+                : query(
+                    dailyStatsRef,
+                    where('date', '>=', startDate),
+                    where('date', '<=', endDate),
+                    orderBy('date', 'desc')
                 );
 
-                const currentYear = new Date().getFullYear();
-                const shouldFetchLive = endYear >= currentYear;
-
-                const promises: [Promise<Awaited<ReturnType<typeof getDocs>>>, Promise<Awaited<ReturnType<typeof getDocs>> | null>] = [
-                    getDocs(q),
-                    Promise.resolve(null),
-                ];
-
-                if (shouldFetchLive) {
-                    const todayStart = startOfDay(new Date());
-                    const windRef = collection(db, 'wind');
-                    const liveQuery = query(
-                        windRef,
-                        where('time', '>=', Timestamp.fromDate(todayStart)),
-                        orderBy('time', 'asc')
-                    );
-                    promises[1] = getDocs(liveQuery);
-                }
-
-                const [statsSnapshot, liveSnapshot] = await Promise.all(promises);
-
-                if (!mounted) return;
+            const liveQuery = shouldFetchLive
+                ? query(
+                    collection(db, station.windCollection),
+                    where('time', '>=', Timestamp.fromDate(startOfDay(new Date()))),
+                    orderBy('time', 'asc')
+                )
+                : null;
+
+            const [statsSnapshot, liveSnapshot] = await Promise.all([
+                getDocs(q),
+                liveQuery ? getDocs(liveQuery) : Promise.resolve(null),
+            ]);
+
+            // Frågan går på rådata; dagar som bara var surfbara p.g.a. flaggade värden faller bort här
+            const history = statsSnapshot.docs
+                .map((doc) => mapFirestoreDailyStats(doc.data() as Record<string, unknown>, excludeFlagged))
+                .filter((s) => !surfableOnly || s.isSurfableDay);
+
+            const points: WindInterval[] = (liveSnapshot?.docs ?? []).map((doc) => {
+                const d = doc.data() as {
+                    force?: number;
+                    forceMax?: number;
+                    direction?: number;
+                    time?: { toDate: () => Date };
+                };
+                const force = d.force || 0;
+                return {
+                    force,
+                    forceMax: d.forceMax ?? force,
+                    direction: d.direction || 0,
+                    time: d.time?.toDate() || new Date(),
+                };
+            });
+
+            console.log(`✓ Loaded ${history.length} ${surfableOnly ? 'surfable ' : ''}daily stats (+${points.length} live points)`);
+            return {
+                history,
+                today: points.length > 0 ? { date: format(new Date(), 'yyyy-MM-dd'), points, fetchedAt: new Date() } : null,
+            };
+        },
+    };
+}
 
-                const stats: DailyStats[] = statsSnapshot.docs.map((doc) =>
-                    mapFirestoreDailyStats(doc.data() as Record<string, unknown>)
-                );
+/**
+ * Fetch daily aggregated wind stats from Firestore.
+ * Query uses isSurfableDay (Beslut 06.3) — includes gust-driven surf days.
+ */
+export function useDailyStats({
+    startYear = STATS_DATA_START_YEAR,
+    endYear,
+    excludeFlagged = true,
+    surfableOnly = true,
+}: UseDailyStatsOptions) {
+    const { spot } = useSpot();
+
+    const statsQuery = useMemo(
+        () => dailyStatsQuery(spot.station, startYear, endYear, excludeFlagged, surfableOnly),
+        [spot.station, startYear, endYear, excludeFlagged, surfableOnly]
+    );
+    const { data: result, loading, error } = useQuery(statsQuery);
+
+    const data = useMemo<DailyStats[]>(() => {
+        if (!result) return [];
+        if (!result.today) return result.history;
+
+        // Spotets skala som historiken — en personlig profil räknas om i StatsView (rerate)
+        const { date, points, fetchedAt } = result.today;
+        const todayStat = aggregationToDailyStats(
+            aggregateWindIntervals(points, date, { excludeFlagged, until: fetchedAt, spot })
+        );
+
+        const stats = result.history.filter((s) => s.date !== date);
+        if (!surfableOnly || todayStat.isSurfableDay) {
+            stats.push(todayStat);
+        }
+        return stats.sort((a, b) => b.date.localeCompare(a.date));
+    }, [result, excludeFlagged, surfableOnly, spot]);
 
-                if (liveSnapshot && !liveSnapshot.empty) {
-                    const todayPoints: WindInterval[] = liveSnapshot.docs.map((doc) => {
-                        const d = doc.data() as {
-                            force?: number;
-                            forceMax?: number;
-                            direction?: number;
-                            time?: { toDate: () => Date };
-                        };
-                        const force = d.force || 0;
-                        return {
-                            force,
-                            forceMax: d.forceMax ?? force,
-                            direction: d.direction || 0,
-                            time: d.time?.toDate() || new Date(),
-                        };
-                    });
-
-                    if (todayPoints.length > 0) {
-                        const todayDateStr = format(new Date(), 'yyyy-MM-dd');
-                        const todayStat = aggregationToDailyStats(
-                            aggregateWindIntervals(todayPoints, todayDateStr)
-                        );
-
-                        const filteredHistory = stats.filter((s) => s.date !== todayDateStr);
-
-                        if (todayStat.isSurfableDay) {
-                            filteredHistory.unshift(todayStat);
-                        }
-
-                        stats.length = 0;
-                        stats.push(...filteredHistory);
-                        stats.sort((a, b) => b.date.localeCompare(a.date));
-                    }
-                }
-
-                setData(stats);
-                console.log(`✓ Loaded ${stats.length} surfable daily stats (inc. live data)`);
-            } catch (err) {
-                console.error('Error fetching daily stats:', err);
-                if (mounted) {
-                    setError(err as Error);
-                }
-            } finally {
-                if (mounted) {
-                    setLoading(false);
-                }
-            }
-        };
-
-        fetchDailyStats();
-
-        return () => {
-            mounted = false;
-        };
-    }, [startYear, endYear]);
-
-    return { data, loading, error };
+    // Gammal data (offline) visas utan fel
+    return { data, loading, error: result ? null : error };
 }
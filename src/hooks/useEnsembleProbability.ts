@@ -0,0 +1,47 @@
+import { useMemo } from 'react';
+import { addDays, format, startOfDay, startOfHour } from 'date-fns';
+import { ensembleQuery } from '../api/ensembleQuery';
+import { EnsembleMember, surfableProbabilityInWindow } from '../utils/ensembleProbability';
+import { useQuery } from './useQuery';
+import { useSpot } from './useSpot';
+import { useWindScale } from './useWindScale';
+
+const ENSEMBLE_DAYS = 7;
+
+interface UseEnsembleProbabilityReturn {
+  members: EnsembleMember[] | null;
+  /** yyyy-MM-dd → andel medlemmar med minst en surfbar timme den dagen */
+  dayProbabilities: Record<string, number>;
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Ensemblemedlemmar (ECMWF + GFS via Open-Meteo) och sannolikhet för
+ * surfbart per dag de kommande 7 dygnen, för valt spot.
+ */
+export function useEnsembleProbability(): UseEnsembleProbabilityReturn {
+  const { spot } = useSpot();
+  const { lat, lon } = spot;
+  const windScale = useWindScale();
+  const query = useMemo(() => ensembleQuery(lat, lon), [lat, lon]);
+  const { data, loading, error } = useQuery(query);
+  const members = data ?? null;
+
+  const dayProbabilities = useMemo(() => {
+    const result: Record<string, number> = {};
+    if (!members) return result;
+    const now = new Date();
+    const today = startOfDay(now);
+    for (let i = 0; i < ENSEMBLE_DAYS; i++) {
+      const day = addDays(today, i);
+      // Idag: bara timmarna som är kvar (som "Kommande 7 dagar")
+      const start = i === 0 ? startOfHour(now) : day;
+      const probability = surfableProbabilityInWindow(members, start, addDays(day, 1), windScale);
+      if (probability != null) result[format(day, 'yyyy-MM-dd')] = probability;
+    }
+    return result;
+  }, [members, windScale]);
+
+  return { members, dayProbabilities, loading, error };
+}
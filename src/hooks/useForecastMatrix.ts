@@ -1,11 +1,32 @@
-import { useMemo, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { addDays, format, parseISO, startOfDay, startOfHour } from 'date-fns';
 import { sv } from 'date-fns/locale';
-import { ForecastModel, WindPoint } from '../types/WindData';
+import { ForecastModel, ForecastModelId, WindPoint } from '../types/WindData';
 import { useForecastModels } from './useForecastModels';
-import { KALLSJON, FORECAST_MODELS } from '../config/constants';
+import { useSpot } from './useSpot';
+import { useWindScale } from './useWindScale';
+import type { LakeGeometry } from '../config/lakeGeometry';
+import { getForecastProvider, getForecastProviders, getModelName, getProviderHorizonEnd } from '../api/forecastProviders';
+import {
+  averageContributions,
+  ConsensusMethod,
+  DEFAULT_CONSENSUS_OPTIONS,
+  loadSkillWeights,
+  resolveConsensusMethod,
+} from '../utils/consensusEngine';
 import { circularMean } from '../utils/timeUtils';
 import { getBestSlotPerDay, DayBest } from '../utils/bestWindPerDay';
+import { estimateWavesAtBreak } from '../utils/waveEstimate';
+import {
+  ForecastCorrectionMethod,
+  ForecastCorrectionMode,
+  ForecastCorrections,
+  loadCorrectionMethod,
+  loadCorrectionMode,
+  loadForecastCorrections,
+  saveCorrectionMethod,
+  saveCorrectionMode,
+} from '../utils/forecastCorrection';
 
 export const MATRIX_SLOT_HOURS = [0, 3, 6, 9, 12, 15, 18, 21];
 const MATRIX_DAYS = 7;
@@ -15,17 +36,31 @@ export interface MatrixCell {
   wind: number;
   gust: number | null;
   dir: number | null;
+  /** Uppskattad signifikant våghöjd (m) vid brytet; null utan riktning */
+  waveHeight: number | null;
   isPast: boolean;
 }
 
+export interface MatrixContribution {
+  model: ForecastModelId;
+  name: string;
+  /** Medelvikt under vald dag (0–1) */
+  weight: number;
+}
+
 export interface MatrixRow {
-  model: ForecastModel;
+  model: ForecastModelId;
   name: string;
   isConsensus: boolean;
+  /** Bara consensus: metod och modellernas medelvikt under dagen */
+  consensusMethod?: ConsensusMethod;
+  contributions?: MatrixContribution[];
   loading: boolean;
   error: Error | null;
   /** En cell per slot i vald dag; null = ingen data */
   cells: (MatrixCell | null)[];
+  /** Modellens prognos tar slut här (inom matrisens 7 dygn); null = räcker hela vägen */
+  horizonEnd: Date | null;
 }
 
 export interface MatrixDay {
@@ -35,50 +70,79 @@ export interface MatrixDay {
 }
 
 /** Aggregerar timpunkter till en 3h-cell: medel av vind, max by, cirkulärt riktningsmedel */
-function aggregateSlot(points: WindPoint[], slotTime: Date, now: Date): MatrixCell | null {
+function aggregateSlot(
+  points: WindPoint[],
+  slotTime: Date,
+  now: Date,
+  lake: LakeGeometry | null
+): MatrixCell | null {
   if (points.length === 0) return null;
 
   const winds = points.map(p => p.wind);
   const gusts = points.map(p => p.gust).filter((g): g is number => g !== null);
   const dirs = points.map(p => p.dir).filter((d): d is number => d !== null);
 
+  const wind = winds.reduce((a, b) => a + b, 0) / winds.length;
+  const dir = dirs.length > 0 ? circularMean(dirs) : null;
+
   return {
     time: slotTime,
-    wind: winds.reduce((a, b) => a + b, 0) / winds.length,
+    wind,
     gust: gusts.length > 0 ? Math.max(...gusts) : null,
-    dir: dirs.length > 0 ? circularMean(dirs) : null,
+    dir,
+    waveHeight: lake ? estimateWavesAtBreak(wind, dir, lake)?.heightM ?? null : null,
     isPast: slotTime.getTime() + 3 * 60 * 60 * 1000 <= now.getTime(),
   };
 }
 
 /**
  * Modellmatris för Prognos-fliken: 7 dagar, 3h-slots, en dag visas åt gången.
- * Datakällor: Open-Meteo (ECMWF/GFS/ICON) + MET Norway (+ SMHI i dev) + consensus.
+ * Datakällor: alla registrerade prognoskällor (se forecastProviders) + consensus.
  */
 export function useForecastMatrix() {
+  const { spot } = useSpot();
+  const scale = useWindScale();
   const now = useMemo(() => new Date(), []);
   const startDate = useMemo(() => startOfDay(now), [now]);
   const endDate = useMemo(() => addDays(startDate, MATRIX_DAYS), [startDate]);
 
-  const enabledModels = useMemo(() => {
-    const models = [
-      ForecastModel.MET_NORWAY,
-      ForecastModel.ECMWF,
-      ForecastModel.GFS,
-      ForecastModel.ICON,
-    ];
-    if (!import.meta.env.PROD) {
-      models.push(ForecastModel.SMHI); // CORS blockerar SMHI i prod (Fas B)
-    }
-    return models;
+  // Källorna i visningsordning
+  const enabledModels = useMemo(() => getForecastProviders().map(p => p.id), []);
+
+  // Rå eller MOS-korrigerad vind — valet sparas, korrigeringen tränas i verifieringen
+  const [correctionMode, setCorrectionModeState] = useState<ForecastCorrectionMode>(loadCorrectionMode);
+  const [corrections, setCorrections] = useState<ForecastCorrections | null>(
+    () => loadForecastCorrections(spot.id)
+  );
+
+  const setCorrectionMode = useCallback((mode: ForecastCorrectionMode) => {
+    setCorrectionModeState(mode);
+    saveCorrectionMode(mode);
   }, []);
 
+  // Linjär eller kvantilmappning — byte tränar om korrigeringen (se ForecastView)
+  const [correctionMethod, setCorrectionMethodState] = useState<ForecastCorrectionMethod>(loadCorrectionMethod);
+  const setCorrectionMethod = useCallback((method: ForecastCorrectionMethod) => {
+    setCorrectionMethodState(method);
+    saveCorrectionMethod(method);
+  }, []);
+
+  // Consensus-vikter från verifieringen (1/MAE²) — uppdateras när verifieringen körs
+  const [skillWeights, setSkillWeights] = useState(() => loadSkillWeights(spot.id));
+  const consensusOptions = useMemo(
+    () => ({ ...DEFAULT_CONSENSUS_OPTIONS, weights: skillWeights }),
+    [skillWeights]
+  );
+
   const { dataByModel, loadingByModel, errors, refetch } = useForecastModels({
-    lat: KALLSJON.lat,
-    lon: KALLSJON.lon,
+    lat: spot.lat,
+    lon: spot.lon,
+    altitude: spot.altitude,
     startDate,
     endDate,
     enabledModels,
+    corrections: correctionMode === 'corrected' ? corrections : null,
+    consensus: consensusOptions,
   });
 
   // Dagar i remsan
@@ -99,14 +163,11 @@ export function useForecastMatrix() {
 
   const [selectedDayKey, setSelectedDayKey] = useState(() => format(now, 'yyyy-MM-dd'));
 
-  // Bästa vind per dag för dagremsan — consensus i första hand
+  // Bästa vind per dag för dagremsan — consensus i första hand, sedan källorna i ordning
   const dayBests = useMemo<DayBest[]>(() => {
-    const source =
-      (dataByModel[ForecastModel.CONSENSUS]?.length ?? 0) > 0
-        ? dataByModel[ForecastModel.CONSENSUS]
-        : (dataByModel[ForecastModel.MET_NORWAY]?.length ?? 0) > 0
-          ? dataByModel[ForecastModel.MET_NORWAY]
-          : dataByModel[ForecastModel.ECMWF] ?? [];
+    const sourceModel = [ForecastModel.CONSENSUS, ...enabledModels]
+      .find(model => (dataByModel[model]?.length ?? 0) > 0);
+    const source = sourceModel ? dataByModel[sourceModel] : [];
 
     const slots = source.map(p => ({
       time: parseISO(p.time),
@@ -114,21 +175,14 @@ export function useForecastMatrix() {
       gust: p.gust ?? p.wind,
       dir: p.dir,
     }));
-    return getBestSlotPerDay(slots, MATRIX_DAYS);
-  }, [dataByModel]);
+    return getBestSlotPerDay(slots, MATRIX_DAYS, scale);
+  }, [dataByModel, enabledModels, scale]);
 
   // Rader för vald dag
   const rows = useMemo<MatrixRow[]>(() => {
     const dayStart = parseISO(`${selectedDayKey}T00:00:00`);
 
-    const modelOrder: ForecastModel[] = [
-      ForecastModel.CONSENSUS,
-      ForecastModel.MET_NORWAY,
-      ...(!import.meta.env.PROD ? [ForecastModel.SMHI] : []),
-      ForecastModel.ECMWF,
-      ForecastModel.GFS,
-      ForecastModel.ICON,
-    ];
+    const modelOrder: ForecastModelId[] = [ForecastModel.CONSENSUS, ...enabledModels];
 
     return modelOrder
       .map(model => {
@@ -144,26 +198,48 @@ export function useForecastMatrix() {
             return t >= slotStart && t < slotEnd;
           });
 
-          return aggregateSlot(slotPoints, slotStart, now);
+          return aggregateSlot(slotPoints, slotStart, now, spot.lake);
         });
 
-        const meta = Object.values(FORECAST_MODELS).find(m => m.id === model);
+        const isConsensus = model === ForecastModel.CONSENSUS;
+
+        const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+        // Kortare horisont än matrisen: raden slutar efter sista timmen med data
+        const provider = getForecastProvider(model);
+        const horizonEnd = provider && points.length > 0 && getProviderHorizonEnd(provider, now) < endDate
+          ? new Date(Date.parse(points[points.length - 1].time) + 60 * 60 * 1000)
+          : null;
+        const contributions = isConsensus
+          ? averageContributions(points.filter(p => {
+              const t = parseISO(p.time);
+              return t >= dayStart && t < dayEnd;
+            })).map(c => ({
+              ...c,
+              name: getModelName(c.model),
+            }))
+          : undefined;
 
         return {
           model,
-          name: meta?.name ?? model.toUpperCase(),
-          isConsensus: model === ForecastModel.CONSENSUS,
+          name: getModelName(model),
+          isConsensus,
+          consensusMethod: isConsensus ? resolveConsensusMethod(consensusOptions) : undefined,
+          contributions,
           loading: loadingByModel[model] ?? false,
           error: errors[model] ?? null,
           cells,
+          horizonEnd,
         };
       })
       // Consensus utan data (t.ex. bara en modell svarade) döljs; övriga rader visas med felstatus
-      .filter(row => !(row.isConsensus && row.cells.every(c => c === null)));
-  }, [dataByModel, loadingByModel, errors, selectedDayKey, now]);
+      .filter(row => !(row.isConsensus && row.cells.every(c => c === null)))
+      // Dagar helt bortom modellens horisont: ingen rad alls
+      .filter(row => !row.horizonEnd || row.horizonEnd > dayStart);
+  }, [dataByModel, loadingByModel, errors, selectedDayKey, now, endDate, consensusOptions, enabledModels, spot.lake]);
 
   const loading = Object.entries(loadingByModel)
-    .filter(([model]) => enabledModels.includes(model as ForecastModel))
+    .filter(([model]) => enabledModels.includes(model))
     .some(([, l]) => l);
 
   return {
@@ -175,5 +251,12 @@ export function useForecastMatrix() {
     slotHours: MATRIX_SLOT_HOURS,
     loading,
     refetch,
+    correctionMode,
+    setCorrectionMode,
+    correctionMethod,
+    setCorrectionMethod,
+    corrections,
+    setCorrections,
+    setSkillWeights,
   };
 }
@@ -1,93 +1,47 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { isWithinInterval, parseISO } from 'date-fns';
-import { WindPoint, ForecastModel } from '../types/WindData';
-import { fetchSMHI } from '../api/smhiAdapter';
-import { fetchMetNorway } from '../api/metNorwayAdapter';
-import { fetchOpenMeteo, OpenMeteoModel } from '../api/openMeteoAdapter';
-import { cacheStorage } from '../utils/cacheStorage';
-import { getCacheKey, get15MinBucket, circularMean } from '../utils/timeUtils';
-import { KALLSJON, FETCH_CONFIG } from '../config/constants';
-
-const ALL_MODELS = Object.values(ForecastModel);
-
-function emptyRecord<T>(value: T): Record<ForecastModel, T> {
-  return Object.fromEntries(ALL_MODELS.map(m => [m, value])) as Record<ForecastModel, T>;
-}
-
-const OPEN_METEO_MODELS: OpenMeteoModel[] = [
-  ForecastModel.ECMWF,
-  ForecastModel.GFS,
-  ForecastModel.ICON
-];
+import { WindPoint, ForecastModel, ForecastModelId } from '../types/WindData';
+import '../api/registerAdapters';
+import { getForecastProviders, getSupersededModels } from '../api/forecastProviders';
+import { CachedForecast, forecastQuery } from '../api/forecastQuery';
+import { fetchQuery, getQueryData, getQueryState, invalidateQueries, subscribe } from '../utils/queryCache';
+import { archiveForecastRuns } from '../utils/forecastRunArchive';
+import { saveRunHistory, summarizeRun } from '../utils/forecastRunHistory';
+import { saveRunHistoryToFirestore } from '../api/forecastRunsFirestore';
+import { applyForecastCorrections, ForecastCorrections } from '../utils/forecastCorrection';
+import {
+  calculateConsensus,
+  ConsensusOptions,
+  DEFAULT_CONSENSUS_OPTIONS,
+  withoutSupersededHours,
+} from '../utils/consensusEngine';
+import { DEFAULT_SPOT } from '../config/spots';
+import { useSpot } from './useSpot';
 
 interface UseForecastModelsParams {
   lat: number;
   lon: number;
+  /** Meter över havet — default Kallsjön */
+  altitude?: number;
   startDate: Date;
   endDate: Date;
-  enabledModels: ForecastModel[];
+  /** Källor att hämta — default alla registrerade och tillgängliga */
+  enabledModels?: ForecastModelId[];
+  /** Tränade korrigeringar (MOS) — null/utelämnad = råa modellvärden */
+  corrections?: ForecastCorrections | null;
+  /** Consensus-metod och modellvikter — default median tills vikter finns */
+  consensus?: ConsensusOptions;
 }
 
 interface UseForecastModelsReturn {
-  dataByModel: Record<ForecastModel, WindPoint[]>;
-  loadingByModel: Record<ForecastModel, boolean>;
-  errors: Record<ForecastModel, Error | null>;
-  lastUpdatedByModel: Record<ForecastModel, string | null>;
+  dataByModel: Record<string, WindPoint[]>;
+  loadingByModel: Record<string, boolean>;
+  errors: Record<string, Error | null>;
+  lastUpdatedByModel: Record<string, string | null>;
   modelSpread: Record<string, number>;
   refetch: () => void;
 }
 
-/**
- * Beräknar consensus från flera modellers data
- */
-function calculateConsensus(models: WindPoint[][]): WindPoint[] {
-  if (models.length === 0) return [];
-
-  // Gruppera alla punkter per timme
-  const timeMap = new Map<string, WindPoint[]>();
-
-  models.forEach(modelData => {
-    modelData.forEach(point => {
-      if (!timeMap.has(point.time)) {
-        timeMap.set(point.time, []);
-      }
-      timeMap.get(point.time)!.push(point);
-    });
-  });
-
-  // Beräkna median/medel för varje timme
-  const consensus: WindPoint[] = [];
-
-  timeMap.forEach((points, time) => {
-    if (points.length === 0) return;
-
-    // Median av wind
-    const winds = points.map(p => p.wind).sort((a, b) => a - b);
-    const medianWind = winds.length % 2 === 0
-      ? (winds[winds.length / 2 - 1] + winds[winds.length / 2]) / 2
-      : winds[Math.floor(winds.length / 2)];
-
-    // Max av gust
-    const gusts = points.map(p => p.gust).filter((g): g is number => g !== null);
-    const maxGust = gusts.length > 0 ? Math.max(...gusts) : null;
-
-    // Cirkulärt medel av dir
-    const dirs = points.map(p => p.dir).filter((d): d is number => d !== null);
-    const avgDir = dirs.length > 0 ? circularMean(dirs) : null;
-
-    consensus.push({
-      time,
-      wind: medianWind,
-      gust: maxGust,
-      dir: avgDir,
-      source: ForecastModel.CONSENSUS,
-      runTimestamp: points[0].runTimestamp
-    });
-  });
-
-  return consensus.sort((a, b) => a.time.localeCompare(b.time));
-}
-
 /**
  * Beräknar spridning mellan modeller per timme
  */
@@ -121,138 +75,85 @@ function calculateModelSpread(models: WindPoint[][]): Record<string, number> {
 export function useForecastModels({
   lat,
   lon,
+  altitude = DEFAULT_SPOT.altitude,
   startDate,
   endDate,
-  enabledModels
+  enabledModels,
+  corrections = null,
+  consensus = DEFAULT_CONSENSUS_OPTIONS
 }: UseForecastModelsParams): UseForecastModelsReturn {
-  const [dataByModel, setDataByModel] = useState<Record<ForecastModel, WindPoint[]>>(() => emptyRecord<WindPoint[]>([]));
-  const [loadingByModel, setLoadingByModel] = useState<Record<ForecastModel, boolean>>(() => emptyRecord(false));
-  const [errors, setErrors] = useState<Record<ForecastModel, Error | null>>(() => emptyRecord<Error | null>(null));
-  const [lastUpdatedByModel, setLastUpdatedByModel] = useState<Record<ForecastModel, string | null>>(() => emptyRecord<string | null>(null));
+  // Råa (okorrigerade) modellvärden; korrigering + consensus räknas fram nedan
+  const [rawByModel, setRawByModel] = useState<Record<string, WindPoint[]>>({});
+  const [loadingByModel, setLoadingByModel] = useState<Record<string, boolean>>({});
+  const [errors, setErrors] = useState<Record<string, Error | null>>({});
+  const [lastUpdatedByModel, setLastUpdatedByModel] = useState<Record<string, string | null>>({});
 
-  const [modelSpread, setModelSpread] = useState<Record<string, number>>({});
   const [refetchTrigger, setRefetchTrigger] = useState(0);
+  // Arkiv och körningshistorik sparas per spot. Historiken betygsätts med spotets
+  // skala (den delas i Firestore) — inte med en personlig profil.
+  const { spot } = useSpot();
 
+  // Hämtar om alla källor oavsett ålder (delad cache — även andra vyer får svaret)
   const refetch = useCallback(() => {
-    setRefetchTrigger(prev => prev + 1);
+    invalidateQueries({ tags: ['forecast'] });
   }, []);
 
+  const enabledKey = enabledModels ? [...enabledModels].sort().join(',') : '*';
+
+  // Invalidering (refetch här eller i Inställningar) hämtar om direkt
+  useEffect(() => {
+    const keys = getForecastProviders()
+      .filter(p => !enabledModels || enabledModels.includes(p.id))
+      .map(provider => forecastQuery(provider, { lat, lon, altitude }).key);
+    const seen = new Map(keys.map(key => [key, getQueryState(key)?.invalidatedSeq ?? 0]));
+
+    const unsubscribes = keys.map(key => subscribe(key, () => {
+      const invalidatedSeq = getQueryState(key)?.invalidatedSeq ?? 0;
+      if (invalidatedSeq === seen.get(key)) return;
+      seen.set(key, invalidatedSeq);
+      setRefetchTrigger(prev => prev + 1);
+    }));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lat, lon, altitude, enabledKey]);
+
   useEffect(() => {
     let mounted = true;
 
     const fetchData = async () => {
-      const bucket = get15MinBucket();
-      const fetchPromises: Array<Promise<{ model: ForecastModel; data: WindPoint[] }>> = [];
-      // Håller reda på vilken modell varje promise gäller (ordningen i
-      // fetchPromises följer inte nödvändigtvis enabledModels)
-      const promiseModels: ForecastModel[] = [];
-
-      // Filtrera bort CONSENSUS från enabled models (den beräknas senare)
-      const modelsToFetch = enabledModels.filter(m => m !== ForecastModel.CONSENSUS);
-
-      modelsToFetch.forEach(model => {
-        setLoadingByModel(prev => ({ ...prev, [model]: true }));
-      });
-
-      // SMHI
-      if (modelsToFetch.includes(ForecastModel.SMHI)) {
-        const cacheKey = `forecast_cache_${getCacheKey('smhi', lat, lon, undefined, bucket)}`;
-        const cachedETag = cacheStorage.getETag(cacheKey);
-
-        promiseModels.push(ForecastModel.SMHI);
-        fetchPromises.push(
-          fetchSMHI(lat, lon, cachedETag)
-            .then(({ data, etag }) => {
-              // Om 304, använd cache
-              if (data.length === 0 && cacheStorage.has(cacheKey, FETCH_CONFIG.CACHE_DURATION_MS)) {
-                const cached = cacheStorage.get(cacheKey);
-                return { model: ForecastModel.SMHI, data: cached || [] };
-              }
-
-              // Spara i cache
-              if (data.length > 0) {
-                cacheStorage.set(cacheKey, data, FETCH_CONFIG.CACHE_DURATION_MS, etag || undefined);
-              }
-
-              return { model: ForecastModel.SMHI, data };
-            })
-            .catch(err => {
-              // Vid fel, försök använda cache
-              if (cacheStorage.has(cacheKey)) {
-                console.warn('SMHI fetch failed, using cache');
-                const cached = cacheStorage.get(cacheKey);
-                if (mounted) {
-                  setErrors(prev => ({ ...prev, [ForecastModel.SMHI]: err }));
-                }
-                return { model: ForecastModel.SMHI, data: cached || [] };
-              }
-              throw err;
-            })
-        );
+      // CONSENSUS beräknas senare — bara registrerade källor hämtas
+      const providers = getForecastProviders()
+        .filter(p => !enabledModels || enabledModels.includes(p.id));
+
+      const queries = providers.map(provider => forecastQuery(provider, { lat, lon, altitude }));
+      const inRange = (points: WindPoint[]) => points.filter(point =>
+        isWithinInterval(parseISO(point.time), { start: startDate, end: endDate })
+      );
+
+      // Stale-while-revalidate: visa det som redan finns i cachen medan källorna hämtas
+      const cached = Object.fromEntries(providers.flatMap((provider, index) => {
+        const forecast = getQueryData<CachedForecast>(queries[index].key);
+        return forecast ? [[provider.id, inRange(forecast.points)]] : [];
+      }));
+      if (Object.keys(cached).length > 0) {
+        setRawByModel(cached);
       }
 
-      // MET Norway
-      if (modelsToFetch.includes(ForecastModel.MET_NORWAY)) {
-        const cacheKey = `forecast_cache_${getCacheKey('met_norway', lat, lon, undefined, bucket)}`;
-        const cachedETag = cacheStorage.getETag(cacheKey);
-
-        promiseModels.push(ForecastModel.MET_NORWAY);
-        fetchPromises.push(
-          fetchMetNorway(lat, lon, KALLSJON.altitude, cachedETag)
-            .then(({ data, etag }) => {
-              // Om 304, använd cache
-              if (data.length === 0 && cacheStorage.has(cacheKey, FETCH_CONFIG.CACHE_DURATION_MS)) {
-                const cached = cacheStorage.get(cacheKey);
-                return { model: ForecastModel.MET_NORWAY, data: cached || [] };
-              }
-
-              // Spara i cache
-              if (data.length > 0) {
-                cacheStorage.set(cacheKey, data, FETCH_CONFIG.CACHE_DURATION_MS, etag || undefined);
-              }
-
-              return { model: ForecastModel.MET_NORWAY, data };
-            })
-            .catch(err => {
-              // Vid fel, försök använda cache
-              if (cacheStorage.has(cacheKey)) {
-                console.warn('MET Norway fetch failed, using cache');
-                const cached = cacheStorage.get(cacheKey);
-                if (mounted) {
-                  setErrors(prev => ({ ...prev, [ForecastModel.MET_NORWAY]: err }));
-                }
-                return { model: ForecastModel.MET_NORWAY, data: cached || [] };
-              }
-              throw err;
-            })
-        );
-      }
-
-      // Open-Meteo (ECMWF / GFS / ICON)
-      OPEN_METEO_MODELS.filter(m => modelsToFetch.includes(m)).forEach(model => {
-        const cacheKey = `forecast_cache_${getCacheKey(model, lat, lon, undefined, bucket)}`;
-
-        promiseModels.push(model);
-        fetchPromises.push(
-          fetchOpenMeteo(lat, lon, model)
-            .then(({ data }) => {
-              if (data.length > 0) {
-                cacheStorage.set(cacheKey, data, FETCH_CONFIG.CACHE_DURATION_MS);
-              }
-              return { model, data };
-            })
-            .catch(err => {
-              if (cacheStorage.has(cacheKey)) {
-                console.warn(`Open-Meteo ${model} fetch failed, using cache`);
-                const cached = cacheStorage.get(cacheKey);
-                if (mounted) {
-                  setErrors(prev => ({ ...prev, [model]: err }));
-                }
-                return { model, data: (cached || []) as WindPoint[] };
-              }
-              throw err;
-            })
-        );
+      setLoadingByModel(prev => ({
+        ...prev,
+        ...Object.fromEntries(providers.map(p => [p.id, true]))
+      }));
+
+      const fetchPromises = queries.map(query => {
+        // Misslyckad hämtning med gammal data kvar — visa den men rapportera felet
+        return fetchQuery(query).then(({ points }) => {
+          const state = getQueryState(query.key);
+          return {
+            data: points,
+            error: state?.error ?? null,
+            updatedAt: new Date(state?.updatedAt || Date.now()).toISOString(),
+          };
+        });
       });
 
       // Hämta alla parallellt
@@ -260,54 +161,57 @@ export function useForecastModels({
 
       if (!mounted) return;
 
-      const newData = emptyRecord<WindPoint[]>([]);
-      const newErrors = emptyRecord<Error | null>(null);
-      const newLastUpdated = emptyRecord<string | null>(null);
+      const newData: Record<string, WindPoint[]> = {};
+      const newErrors: Record<string, Error | null> = {};
+      const newLastUpdated: Record<string, string | null> = {};
+      const fetchedRuns: Array<{ model: ForecastModelId; points: WindPoint[] }> = [];
 
-      // Bearbeta resultat
+      // Bearbeta resultat (samma ordning som providers)
       results.forEach((result, index) => {
-        const model = promiseModels[index];
+        const model = providers[index].id;
 
         if (result.status === 'fulfilled') {
-          const { data } = result.value;
+          const { data, error, updatedAt } = result.value;
+          fetchedRuns.push({ model, points: data });
 
           // Filtrera till tidsintervall
-          const filtered = data.filter(point => {
-            const time = parseISO(point.time);
-            return isWithinInterval(time, { start: startDate, end: endDate });
-          });
-
-          newData[model] = filtered;
-          newLastUpdated[model] = new Date().toISOString();
-          newErrors[model] = null;
+          newData[model] = inRange(data);
+          newLastUpdated[model] = updatedAt;
+          newErrors[model] = error;
         } else {
           console.error(`${model} fetch failed:`, result.reason);
+          newData[model] = [];
           newErrors[model] = result.reason;
         }
       });
 
-      // Beräkna consensus om vi har minst 2 modeller
-      const validModels = Object.entries(newData)
-        .filter(([key, data]) => key !== 'consensus' && data.length > 0)
-        .map(([, data]) => data);
+      // Spara körningarna för verifiering (hela horisonten, ofiltrerat) och
+      // sammanfattningar av nya körningar för körningshistoriken
+      const fetchedAt = new Date();
+      const newRuns = archiveForecastRuns(fetchedRuns, fetchedAt, spot.id);
+      if (newRuns.length > 0) {
+        const summaries = newRuns.map(run => ({
+          ...summarizeRun(run.model, run.runTime, run.points, fetchedAt, spot.windScale),
+          spotId: spot.id,
+        }));
+        saveRunHistory(summaries, fetchedAt, spot.id);
+        saveRunHistoryToFirestore(summaries).catch(err => {
+          console.warn('Forecast run history not saved to Firestore', err);
+        });
+      }
 
-      if (validModels.length >= 2) {
-        newData[ForecastModel.CONSENSUS] = calculateConsensus(validModels);
+      if (Object.values(newData).filter(data => data.length > 0).length >= 2) {
         newLastUpdated[ForecastModel.CONSENSUS] = new Date().toISOString();
       }
 
-      // Beräkna model spread
-      const spread = calculateModelSpread(validModels);
-
-      setDataByModel(newData);
+      setRawByModel(newData);
       setErrors(newErrors);
       setLastUpdatedByModel(newLastUpdated);
-      setModelSpread(spread);
 
-      // Sätt loading till false
-      modelsToFetch.forEach(model => {
-        setLoadingByModel(prev => ({ ...prev, [model]: false }));
-      });
+      setLoadingByModel(prev => ({
+        ...prev,
+        ...Object.fromEntries(providers.map(p => [p.id, false]))
+      }));
     };
 
     fetchData();
@@ -317,7 +221,29 @@ export function useForecastModels({
     };
     // Use primitive values for dependencies to avoid infinite loops from unstable object references
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [lat, lon, startDate.getTime(), endDate.getTime(), enabledModels.sort().join(','), refetchTrigger]);
+  }, [lat, lon, altitude, spot, startDate.getTime(), endDate.getTime(), enabledKey, refetchTrigger]);
+
+  // Korrigering (valfri) ligger mellan adaptrarna och consensus
+  const { dataByModel, modelSpread } = useMemo(() => {
+    const data: Record<string, WindPoint[]> = {};
+
+    Object.entries(rawByModel).forEach(([model, raw]) => {
+      const fetchedAt = lastUpdatedByModel[model];
+      data[model] = corrections && raw.length > 0
+        ? applyForecastCorrections(raw, model, corrections, fetchedAt ? new Date(fetchedAt) : undefined)
+        : raw;
+    });
+
+    // Beräkna consensus om vi har minst 2 modeller — källor med samma modelldata räknas en gång
+    const validModels = Object.values(data).filter(points => points.length > 0);
+    const consensusModels = withoutSupersededHours(data, getSupersededModels());
+
+    data[ForecastModel.CONSENSUS] = consensusModels.length >= 2
+      ? calculateConsensus(consensusModels, consensus)
+      : [];
+
+    return { dataByModel: data, modelSpread: calculateModelSpread(validModels) };
+  }, [rawByModel, lastUpdatedByModel, corrections, consensus]);
 
   return {
     dataByModel,
@@ -328,4 +254,3 @@ export function useForecastModels({
     refetch
   };
 }
-
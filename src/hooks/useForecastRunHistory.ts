@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { fetchRunHistoryForDay } from '../api/forecastRunsFirestore';
+import { loadRunHistory, RunForDay, runsForDay } from '../utils/forecastRunHistory';
+import { useSpot } from './useSpot';
+
+interface UseForecastRunHistoryReturn {
+  /** Körningarnas syn på dagen, äldst först */
+  runs: RunForDay[];
+  loading: boolean;
+  /** Firestore misslyckades — visar bara lokalt sparade körningar */
+  sharedError: Error | null;
+}
+
+/**
+ * Körningshistorik för en måldag: lokala körningar direkt, kompletterade
+ * med delade körningar från Firestore när de kommer.
+ */
+export function useForecastRunHistory(dateKey: string | null): UseForecastRunHistoryReturn {
+  const [runs, setRuns] = useState<RunForDay[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [sharedError, setSharedError] = useState<Error | null>(null);
+  const spotId = useSpot().spot.id;
+
+  useEffect(() => {
+    if (!dateKey) {
+      setRuns([]);
+      return;
+    }
+
+    let mounted = true;
+    const local = loadRunHistory(spotId);
+    setRuns(runsForDay(local, dateKey));
+    setLoading(true);
+    setSharedError(null);
+
+    fetchRunHistoryForDay(dateKey, spotId)
+      .then(shared => {
+        if (!mounted) return;
+        // Lokala först — samma körning från Firestore slås ihop
+        setRuns(runsForDay([...local, ...shared], dateKey));
+      })
+      .catch(err => {
+        console.warn('Forecast run history fetch failed', err);
+        if (mounted) setSharedError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [dateKey, spotId]);
+
+  return { runs, loading, sharedError };
+}
@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { startOfHour, subHours } from 'date-fns';
+import { useWindData } from './useWindData';
+import { loadArchivedRuns } from '../utils/forecastRunArchive';
+import {
+  aggregateObservationsHourly,
+  buildForecastPairs,
+  computeVerification,
+  ModelVerification,
+} from '../utils/forecastVerification';
+import {
+  DEFAULT_CORRECTION_METHOD,
+  ForecastCorrectionMethod,
+  ForecastCorrections,
+  saveForecastCorrections,
+  trainForecastCorrections,
+} from '../utils/forecastCorrection';
+import { deriveSkillWeights, saveSkillWeights } from '../utils/consensusEngine';
+import { ForecastModelId } from '../types/WindData';
+import { useSpot } from './useSpot';
+import { useWindScale } from './useWindScale';
+
+interface UseForecastVerificationOptions {
+  /** Metod för korrigeringen — byte tränar om */
+  correctionMethod?: ForecastCorrectionMethod;
+  /** Anropas när korrigeringar (MOS) tränats om från paren — sparas även lokalt */
+  onCorrectionsTrained?: (corrections: ForecastCorrections) => void;
+  /** Anropas med nya consensus-vikter (1/MAE²) — sparas även lokalt */
+  onSkillWeightsUpdated?: (weights: Partial<Record<ForecastModelId, number>>) => void;
+}
+
+/**
+ * Verifiering av arkiverade prognoskörningar mot observerad vind.
+ * Observationer hämtas för arkivets tidsspann (max 10 dygn) via useWindData.
+ */
+export function useForecastVerification({
+  correctionMethod = DEFAULT_CORRECTION_METHOD,
+  onCorrectionsTrained,
+  onSkillWeightsUpdated,
+}: UseForecastVerificationOptions = {}) {
+  const { spot } = useSpot();
+  const spotId = spot.id;
+  const scale = useWindScale();
+  // Arkivet läses en gång per montering — nya körningar kommer med nästa gång panelen öppnas
+  const runs = useMemo(() => loadArchivedRuns(spotId), [spotId]);
+
+  const { startDate, endDate } = useMemo(() => {
+    const end = startOfHour(new Date());
+    const oldestRun = runs.length > 0 ? runs[0].runTime : subHours(end, 24);
+    return { startDate: subHours(startOfHour(oldestRun), 1), endDate: end };
+  }, [runs]);
+
+  const { data: observations, loading, error } = useWindData({ startDate, endDate });
+
+  const pairs = useMemo(
+    () => buildForecastPairs(runs, aggregateObservationsHourly(observations)),
+    [runs, observations]
+  );
+
+  const verification = useMemo<ModelVerification[]>(
+    () => computeVerification(pairs, scale),
+    [pairs, scale]
+  );
+
+  // Samma par tränar korrigeringen och consensus-vikterna — en gång per laddade observationer
+  const callbacksRef = useRef({ onCorrectionsTrained, onSkillWeightsUpdated });
+  callbacksRef.current = { onCorrectionsTrained, onSkillWeightsUpdated };
+
+  useEffect(() => {
+    if (loading || pairs.length === 0) return;
+    const corrections = trainForecastCorrections(pairs, correctionMethod);
+    saveForecastCorrections(corrections, spotId);
+    callbacksRef.current.onCorrectionsTrained?.(corrections);
+
+    const weights = deriveSkillWeights(verification);
+    saveSkillWeights(weights, spotId);
+    callbacksRef.current.onSkillWeightsUpdated?.(weights);
+  }, [loading, pairs, verification, spotId, correctionMethod]);
+
+  return {
+    verification,
+    pairs,
+    runCount: runs.length,
+    since: runs.length > 0 ? runs[0].runTime : null,
+    loading,
+    error,
+  };
+}
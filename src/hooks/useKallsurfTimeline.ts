@@ -2,21 +2,28 @@ import { useMemo, useState, useEffect } from 'react';
 import { addHours, format, startOfDay, endOfDay, startOfMonth, endOfMonth, eachDayOfInterval, subDays, startOfHour, subHours } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import { useWindData } from './useWindData';
+import { useLiveWind } from './useLiveWind';
 import { useMonthlyStats } from './useMonthlyStats';
 import { useForecastModels } from './useForecastModels';
+import { getForecastProviders } from '../api/forecastProviders';
+import { useNowcast } from './useNowcast';
 import { useProcessedWindData } from './useProcessedWindData';
-import { KALLSJON } from '../config/constants';
-import { ForecastModel } from '../types/WindData';
+import { useSpot } from './useSpot';
+import { useWindScale } from './useWindScale';
+import { ForecastModel, WindPoint } from '../types/WindData';
 import { windPointsToWindData } from '../utils/windDataConverter';
 import { getSunTimes } from '../utils/sunTimes';
-import { getEffectiveLevelIndex, WIND_THRESHOLDS } from '../config/windScale';
+import { getEffectiveLevelIndex, WIND_THRESHOLDS, WindScale } from '../config/windScale';
 import { ForecastHourPoint } from '../utils/nowWindChartData';
+import { loadCorrectionMode, loadForecastCorrections } from '../utils/forecastCorrection';
+import { DEFAULT_CONSENSUS_OPTIONS, loadSkillWeights } from '../utils/consensusEngine';
 
 // Konfiguration
 const CONFIG = {
   ACTIVE_HISTORY_HOURS: 6,
   ACTIVE_FORECAST_HOURS: 168, // 7 dygn — krävs för "Kommande 7 dagar" (bästa vind per dag)
-  POINTS_PER_HOUR: 12 // 5-minuters upplösning = 12 punkter per timme
+  POINTS_PER_HOUR: 12, // 5-minuters upplösning = 12 punkter per timme
+  LOADING_TIMEOUT_MS: 8000 // Längsta väntan innan det som finns (cache) visas
 };
 
 
@@ -32,9 +39,9 @@ const isSurfableTime = (date: Date): boolean => {
   return hourVal >= times.rise && hourVal < times.lastLight;
 };
 
-// Beräknar vindnivå (sjustegsskala) inkl. by-regel
-const getWindLevelIndex = (avg: number, gust: number): number =>
-  getEffectiveLevelIndex(avg, gust);
+// Beräknar vindnivå (sjustegsskala) inkl. by-regel och riktning
+const getWindLevelIndex = (avg: number, gust: number, dir: number, scale: WindScale): number =>
+  getEffectiveLevelIndex(avg, gust, scale, dir);
 
 // Timeline data point interface
 export interface TimelinePoint {
@@ -74,14 +81,18 @@ export interface DailySummary {
 }
 
 export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null) {
+  const { spot } = useSpot();
+  const scale = useWindScale();
+
   // Använd state för 'now' för att undvika onödiga re-renders
   const [now, setNow] = useState(new Date());
 
-  // Uppdatera 'now' varje 30 sekunder för att hålla UI uppdaterat med senaste data
+  // Ny observationsdata kommer via lyssnaren — klockan behövs bara för
+  // NU-markören och timgränserna, så en gång i minuten räcker
   useEffect(() => {
     const timer = setInterval(() => {
       setNow(new Date());
-    }, 30000); // 30 sekunder
+    }, 60000);
     return () => clearInterval(timer);
   }, []);
 
@@ -102,7 +113,8 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
 
     const targetDate = viewDate || now;
     const monthStart = startOfMonth(targetDate);
-    const sevenDaysAgo = subDays(now, 7);
+    // Hel timme — annars blir arkivintervallet nytt varje minut
+    const sevenDaysAgo = startOfHour(subDays(now, 7));
 
     // Är vi i kalendervy för en annan månad än nuvarande?
     const currentMonth = startOfMonth(now);
@@ -147,7 +159,7 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
     return 0;
   }, [selectedDate, isCalendarView]);
 
-  // Split data fetching into Archive (stable, cached) and Live (dynamic, frequent)
+  // Split data fetching into Archive (stable, cached) and Live (Firestore listener)
 
   // The split point is 2 hours ago. Data before this is "archive", after is "live".
   const splitPoint = useMemo(() => {
@@ -171,8 +183,8 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
   });
 
   // 2. Live Data
-  // Range: [max(historyStart, splitPoint), historyEnd]
-  // Only fetch if historyEnd is actually after the split point
+  // Range: [max(historyStart, splitPoint), →) — onSnapshot, nya värden direkt
+  // Only listen if historyEnd is actually after the split point
   const shouldFetchLive = historyEnd > splitPoint;
   const liveStart = useMemo(() => {
     return historyStart > splitPoint ? historyStart : splitPoint;
@@ -180,13 +192,9 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
 
   const {
     data: liveWindData,
-    loading: liveLoading,
-    error: liveError
-  } = useWindData({
-    startDate: liveStart,
-    endDate: historyEnd,
-    minForce: shouldFetchLive ? minForce : 999 // Hack: use high minForce to effectively skip query if not needed, or handle in useWindData
-  });
+    status: liveStatus,
+    lastSync: liveLastSync
+  } = useLiveWind(liveStart, shouldFetchLive);
 
   // Merge data
   const windData = useMemo(() => {
@@ -197,8 +205,33 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
     return [...archiveWindData, ...liveWindData].sort((a, b) => a.time.getTime() - b.time.getTime());
   }, [archiveWindData, liveWindData, shouldFetchLive]);
 
-  const windLoading = archiveLoading || (shouldFetchLive && liveLoading);
-  const windError = archiveError || (shouldFetchLive && liveError);
+  // Med ett streck täckning kan första svaret dröja hur länge som helst —
+  // efter en stund (eller direkt offline) visas cachad data i stället.
+  // Timern gäller per arkivintervall: nytt dag-/månadsval väntar på nytt.
+  const archiveKey = `${spot.id}:${historyStart.getTime()}:${archiveEnd.getTime()}:${minForce}`;
+  const [timedOutKey, setTimedOutKey] = useState<string | null>(null);
+  useEffect(() => {
+    const timer = setTimeout(() => setTimedOutKey(archiveKey), CONFIG.LOADING_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [archiveKey]);
+  const stopWaiting = timedOutKey === archiveKey || !navigator.onLine;
+
+  // Lyssnaren blockerar bara första laddningen; fel syns som status i headern
+  const windLoading = !stopWaiting && (archiveLoading || (shouldFetchLive && liveStatus === 'connecting'));
+  const windError = archiveError;
+
+  // Samma rå/korrigerat-val som Prognos-fliken (läses vid montering)
+  const corrections = useMemo(
+    () => (loadCorrectionMode() === 'corrected' ? loadForecastCorrections(spot.id) : null),
+    [spot.id]
+  );
+  const consensus = useMemo(
+    () => ({ ...DEFAULT_CONSENSUS_OPTIONS, weights: loadSkillWeights(spot.id) }),
+    [spot.id]
+  );
+
+  // Källorna som ingår i Läget, i registrets ordning
+  const timelineModels = useMemo(() => getForecastProviders({ timeline: true }).map(p => p.id), []);
 
   // Hämta prognosdata (6h framåt)
   const {
@@ -206,34 +239,29 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
     loadingByModel,
     errors: modelErrors
   } = useForecastModels({
-    lat: KALLSJON.lat,
-    lon: KALLSJON.lon,
+    lat: spot.lat,
+    lon: spot.lon,
+    altitude: spot.altitude,
     startDate: startOfHour(now), // Stable start time (updates hourly) to prevent re-fetching every 30s
     endDate: forecastEnd,
-    // MET + Open-Meteo (ECMWF/ICON) fungerar direkt i webbläsaren och ger
-    // consensus även i prod. SMHI blockeras av CORS i prod (Fas B: proxy).
-    enabledModels: import.meta.env.PROD
-      ? [ForecastModel.MET_NORWAY, ForecastModel.ECMWF, ForecastModel.ICON]
-      : [ForecastModel.SMHI, ForecastModel.MET_NORWAY, ForecastModel.ECMWF, ForecastModel.ICON]
+    enabledModels: timelineModels,
+    corrections,
+    consensus
   });
 
-  // Konvertera prognosdata till WindData format
-  const forecastDataRaw = useMemo(() => {
-    // Consensus först; annars första modell med data — appen ska aldrig
-    // stå utan prognos för att en enskild källa är nere.
-    const fallbackOrder = [
-      ForecastModel.CONSENSUS,
-      ForecastModel.MET_NORWAY,
-      ForecastModel.ECMWF,
-      ForecastModel.ICON,
-      ForecastModel.SMHI,
-    ];
+  // Consensus först; annars första modell med data — appen ska aldrig
+  // stå utan prognos för att en enskild källa är nere.
+  const forecastPoints = useMemo<WindPoint[]>(() => {
+    const fallbackOrder = [ForecastModel.CONSENSUS, ...timelineModels];
     for (const model of fallbackOrder) {
       const points = dataByModel[model] || [];
-      if (points.length > 0) return windPointsToWindData(points);
+      if (points.length > 0) return points;
     }
     return [];
-  }, [dataByModel]);
+  }, [dataByModel, timelineModels]);
+
+  // Konvertera prognosdata till WindData format
+  const forecastDataRaw = useMemo(() => windPointsToWindData(forecastPoints), [forecastPoints]);
 
   // Processa data
   const { processedWindData, processedForecastData } = useProcessedWindData({
@@ -252,6 +280,19 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
     })),
   [processedForecastData]);
 
+  // Nowcast (5-min) för Läget-grafens närmaste halvtimme
+  const nowcastPoints = useNowcast({ lat: spot.lat, lon: spot.lon, altitude: spot.altitude });
+  const nowcast = useMemo<ForecastHourPoint[]>(() =>
+    nowcastPoints
+      .filter(p => p.dir !== null)
+      .map(p => ({
+        time: new Date(p.time),
+        avg: p.wind,
+        gust: p.gust ?? p.wind,
+        dir: p.dir as number,
+      })),
+  [nowcastPoints]);
+
   // Kombinera och processa till timeline med 5-minuters upplösning
   const timeline = useMemo<TimelinePoint[]>(() => {
     const points: TimelinePoint[] = [];
@@ -273,7 +314,7 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
         dir,
         isDaylight: isSurfableTime(time),
         isNow: Math.abs(time.getTime() - nowTime) < 5 * 60 * 1000, // 5 min tolerans
-        windLevelIndex: getWindLevelIndex(avg, gust),
+        windLevelIndex: getWindLevelIndex(avg, gust, dir, scale),
         isForecast: false
       });
     });
@@ -294,7 +335,7 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
         dir,
         isDaylight: isSurfableTime(time),
         isNow: Math.abs(time.getTime() - nowTime) < 5 * 60 * 1000,
-        windLevelIndex: getWindLevelIndex(avg, gust),
+        windLevelIndex: getWindLevelIndex(avg, gust, dir, scale),
         isForecast: true
       });
     });
@@ -310,7 +351,7 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
 
     return Array.from(uniquePoints.values())
       .sort((a, b) => a.time.getTime() - b.time.getTime());
-  }, [processedWindData, processedForecastData, now]);
+  }, [processedWindData, processedForecastData, now, scale]);
 
   // Gruppera till timvis buckets
   const hourlyBuckets = useMemo<HourlyBucket[]>(() => {
@@ -442,7 +483,7 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
     return { avg: 0, gust: 0, dir: 0, isDaylight: true, time: new Date() };
   }, [timeline]);
 
-  const loading = windLoading || (Object.values(loadingByModel).some(l => l) && timeline.length === 0);
+  const loading = windLoading || (!stopWaiting && Object.values(loadingByModel).some(l => l) && timeline.length === 0);
   // Endast kritiskt fel om vi inte kan hämta observerad vinddata
   const error = windError;
   // Varning endast om prognos verkligen saknas (inte bara "en modell failade" men vi har fallback-data)
@@ -453,12 +494,15 @@ export function useKallsurfTimeline(viewDate?: Date, selectedDate?: Date | null)
   return {
     timeline,
     forecastHourly,
+    forecastPoints,
+    nowcast,
     hourlyBuckets,
     dailySummary,
     currentWind,
     loading,
     error,
     warning,
+    live: { status: shouldFetchLive ? liveStatus : null, lastSync: liveLastSync },
     thresholds: WIND_THRESHOLDS
   };
 }
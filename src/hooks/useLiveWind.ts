@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { collection, query, where, orderBy, onSnapshot, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { WindData } from '../types/WindData';
+import { windDocToWindData } from './useWindData';
+import { useSpot } from './useSpot';
+
+/**
+ * - connecting   — första snapshot har inte kommit
+ * - live         — lyssnaren är synkad mot servern
+ * - stale        — Firestore svarar ur sin lokala cache (nätet borta)
+ * - reconnecting — lyssnaren föll, nytt försök schemalagt
+ */
+export type LiveWindStatus = 'connecting' | 'live' | 'stale' | 'reconnecting';
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60 * 1000;
+
+interface UseLiveWindReturn {
+  data: WindData[];
+  status: LiveWindStatus;
+  /** Senaste snapshot från servern */
+  lastSync: Date | null;
+  error: Error | null;
+}
+
+/**
+ * Realtidsström från valt spots vindsamling sedan `since` (onSnapshot). Nya 5-minutersvärden
+ * dyker upp så fort stationen skrivit dem. Tappas lyssnaren återansluter
+ * hooken med exponentiell backoff (2 s → 60 s), direkt när nätet kommer tillbaka.
+ * `since` ska vara stabil (t.ex. hel timme) — ny tid = ny lyssnare.
+ */
+export function useLiveWind(since: Date, enabled: boolean = true): UseLiveWindReturn {
+  const [data, setData] = useState<WindData[]>([]);
+  const [status, setStatus] = useState<LiveWindStatus>('connecting');
+  const [lastSync, setLastSync] = useState<Date | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const sinceMs = since.getTime();
+  const { windCollection } = useSpot().spot.station;
+
+  useEffect(() => {
+    if (!enabled) {
+      setData([]);
+      return;
+    }
+
+    let unsubscribe: (() => void) | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let active = true;
+
+    const q = query(
+      collection(db, windCollection),
+      where('time', '>=', Timestamp.fromMillis(sinceMs)),
+      orderBy('time', 'asc')
+    );
+
+    const subscribe = () => {
+      if (!active) return;
+      unsubscribe = onSnapshot(
+        q,
+        { includeMetadataChanges: true },
+        snapshot => {
+          setData(snapshot.docs.map(windDocToWindData));
+          if (snapshot.metadata.fromCache) {
+            setStatus('stale');
+            return;
+          }
+          attempt = 0;
+          setStatus('live');
+          setLastSync(new Date());
+          setError(null);
+        },
+        err => {
+          // Lyssnaren är död efter ett fel — starta en ny efter en stund
+          console.warn('Live wind listener failed', err);
+          unsubscribe = null;
+          setError(err);
+          setStatus('reconnecting');
+          scheduleRetry();
+        }
+      );
+    };
+
+    const scheduleRetry = () => {
+      if (!active || retryTimer) return;
+      const delay = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+      attempt++;
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        subscribe();
+      }, delay);
+    };
+
+    const handleOnline = () => {
+      if (unsubscribe || !retryTimer) return;
+      clearTimeout(retryTimer);
+      retryTimer = null;
+      subscribe();
+    };
+
+    setStatus('connecting');
+    subscribe();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      active = false;
+      unsubscribe?.();
+      if (retryTimer) clearTimeout(retryTimer);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [sinceMs, enabled, windCollection]);
+
+  return { data, status, lastSync, error };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import { flushMediaUploadQueue } from '../api/mediaUpload';
+import { onServiceWorkerMessage } from '../api/serviceWorker';
+import { listQueuedUploads, MEDIA_QUEUE_CHANGED_EVENT } from '../utils/mediaUploadQueue';
+
+/**
+ * Uppladdningar som väntar på täckning. Kön töms när appen startar, när
+ * webbläsaren säger att nätet är tillbaka och när service workerns
+ * background sync väcker sidan.
+ */
+export function useMediaUploadQueue(): { pending: number } {
+  const [pending, setPending] = useState(0);
+
+  const refresh = useCallback(() => {
+    listQueuedUploads()
+      .then(items => setPending(items.length))
+      .catch(() => setPending(0));
+  }, []);
+
+  useEffect(() => {
+    const flush = () => {
+      if (!navigator.onLine) return;
+      flushMediaUploadQueue()
+        .catch(error => console.warn('Media queue flush failed:', error))
+        .finally(refresh);
+    };
+
+    refresh();
+    flush();
+    window.addEventListener('online', flush);
+    window.addEventListener(MEDIA_QUEUE_CHANGED_EVENT, refresh);
+    const unsubscribe = onServiceWorkerMessage(message => {
+      if (message.type === 'flush-media-queue') flush();
+    });
+
+    return () => {
+      window.removeEventListener('online', flush);
+      window.removeEventListener(MEDIA_QUEUE_CHANGED_EVENT, refresh);
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  return { pending };
+}
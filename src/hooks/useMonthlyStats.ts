@@ -1,82 +1,88 @@
-import { useState, useEffect } from 'react';
+import { useMemo } from 'react';
 import { collection, query, where, getDocs, orderBy } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import { format, startOfMonth, endOfMonth } from 'date-fns';
 import { DailySummary } from './useKallsurfTimeline';
 import { getEffectiveLevelIndex } from '../config/windScale';
+import { useSpot } from './useSpot';
+import { useWindScale } from './useWindScale';
+import { useWindProfiles } from './useWindProfiles';
+import { getActiveProfile } from '../utils/windProfiles';
+import { useQuery } from './useQuery';
+import { periodTags } from '../utils/queryCache';
+
+/**
+ * Fälten ur dailyStats som kalendern behöver. Nivån är den lagrade
+ * (riktningsmedveten, hela dagen); saknas den eller gäller en egen skala
+ * räknas den om från dagens max.
+ */
+interface MonthlyStatsRow {
+    date: string;
+    maxForce: number;
+    avgForce: number;
+    maxGust: number;
+    maxForceDirection: number | null;
+    peakLevelIndex: number | null;
+}
 
-export function useMonthlyStats(monthDate: Date) {
-    const [stats, setStats] = useState<DailySummary[]>([]);
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<Error | null>(null);
-
-    useEffect(() => {
-        let mounted = true;
-
-        const fetchStats = async () => {
-            if (!monthDate) return;
-
-            try {
-                setLoading(true);
-                const start = format(startOfMonth(monthDate), 'yyyy-MM-dd');
-                const end = format(endOfMonth(monthDate), 'yyyy-MM-dd');
+const MONTHLY_STATS_STALE_MS = 60 * 60 * 1000;
 
-                const dailyStatsRef = collection(db, 'dailyStats');
+export function useMonthlyStats(monthDate: Date) {
+    const { spot } = useSpot();
+    const scale = useWindScale();
+    const rerate = getActiveProfile(useWindProfiles()) !== null;
+    const collectionName = spot.station.dailyStatsCollection;
+    const month = format(monthDate, 'yyyy-MM');
+
+    const statsQuery = useMemo(() => {
+        const monthStart = startOfMonth(new Date(`${month}-01T00:00:00`));
+        return {
+            key: `monthlyStats:${collectionName}:${month}`,
+            staleTime: MONTHLY_STATS_STALE_MS,
+            tags: ['dailyStats', `dailyStats:${collectionName}`, ...periodTags(`dailyStats:${collectionName}`, monthStart)],
+            fetcher: async (): Promise<MonthlyStatsRow[]> => {
+                const start = format(monthStart, 'yyyy-MM-dd');
+                const end = format(endOfMonth(monthStart), 'yyyy-MM-dd');
 
                 // Query for all stats in the month
                 // We don't filter by hasStrongWind to get a complete picture if possible
                 // Simple range query on 'date' should work with default indexes
                 const q = query(
-                    dailyStatsRef,
+                    collection(db, collectionName),
                     where('date', '>=', start),
                     where('date', '<=', end),
                     orderBy('date', 'asc')
                 );
 
                 const snapshot = await getDocs(q);
-
-                if (!mounted) return;
-
-                const summaries: DailySummary[] = snapshot.docs.map(doc => {
+                return snapshot.docs.map(doc => {
                     const data = doc.data();
-
-                    // Map to DailySummary interface
-                    // Note: dailyStats might not have exactly the same fields as calculated from raw data
-                    // but we map what we have.
-
-                    const maxAvg = data.maxForce || 0;
-                    const maxGust = data.maxGust || 0;
-
                     return {
-                        date: new Date(data.date),
-                        dateStr: data.date,
-                        maxAvg,
-                        avgAvg: data.avgForce || 0,
-                        maxGust,
-                        bestWindLevelIndex: getEffectiveLevelIndex(maxAvg, maxGust),
+                        date: data.date,
+                        maxForce: data.maxForce || 0,
+                        avgForce: data.avgForce || 0,
+                        maxGust: data.maxGust || 0,
+                        // Riktningen vid dagens max avgör om vinden gav vågor
+                        maxForceDirection: typeof data.maxForceDirection === 'number' ? data.maxForceDirection : null,
+                        peakLevelIndex: typeof data.peakLevelIndex === 'number' ? data.peakLevelIndex : null,
                     };
                 });
-
-                setStats(summaries);
-                setError(null);
-            } catch (err) {
-                console.error('Error fetching monthly stats:', err);
-                if (mounted) {
-                    setError(err as Error);
-                }
-            } finally {
-                if (mounted) {
-                    setLoading(false);
-                }
-            }
-        };
-
-        fetchStats();
-
-        return () => {
-            mounted = false;
+            },
         };
-    }, [monthDate.getTime()]); // Depend on time to trigger on month change
+    }, [collectionName, month]);
+
+    const { data: rows, loading, error } = useQuery(statsQuery);
+
+    const stats = useMemo<DailySummary[]>(() => (rows ?? []).map(row => ({
+        date: new Date(row.date),
+        dateStr: row.date,
+        maxAvg: row.maxForce,
+        avgAvg: row.avgForce,
+        maxGust: row.maxGust,
+        bestWindLevelIndex: row.peakLevelIndex != null && !rerate
+            ? row.peakLevelIndex
+            : getEffectiveLevelIndex(row.maxForce, row.maxGust, scale, row.maxForceDirection),
+    })), [rows, scale, rerate]);
 
     return { stats, loading, error };
 }
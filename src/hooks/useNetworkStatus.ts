@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useState } from 'react';
+import { onServiceWorkerMessage } from '../api/serviceWorker';
+
+interface NetworkStatus {
+  /** navigator.onLine — false betyder säkert offline, true bara "kanske" */
+  online: boolean;
+  /** Äldsta prognossvaret som service workern tog ur cachen, null = allt färskt */
+  forecastCachedAt: Date | null;
+}
+
+/**
+ * Nätläge för offline-bannern. Service workern meddelar för varje
+ * prognosanrop om svaret kom från nätet eller cachen (per källa), så en
+ * källa som svarar igen tar bort sin gamla tid.
+ */
+export function useNetworkStatus(): NetworkStatus {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [cachedBySource, setCachedBySource] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+
+    const unsubscribe = onServiceWorkerMessage(message => {
+      if (message.type !== 'forecast-source') return;
+      setCachedBySource(prev => {
+        if (message.cachedAt === null) {
+          if (!(message.key in prev)) return prev;
+          const next = { ...prev };
+          delete next[message.key];
+          return next;
+        }
+        return { ...prev, [message.key]: message.cachedAt };
+      });
+    });
+
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+      unsubscribe();
+    };
+  }, []);
+
+  const forecastCachedAt = useMemo(() => {
+    const times = Object.values(cachedBySource);
+    return times.length > 0 ? new Date(Math.min(...times)) : null;
+  }, [cachedBySource]);
+
+  return { online, forecastCachedAt };
+}
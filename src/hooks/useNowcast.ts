@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { WindPoint } from '../types/WindData';
+import '../api/registerAdapters';
+import { getForecastProviders } from '../api/forecastProviders';
+import { forecastQuery } from '../api/forecastQuery';
+import { fetchQuery } from '../utils/queryCache';
+import { DEFAULT_SPOT } from '../config/spots';
+
+/** Nowcast uppdateras var 5:e minut hos MET — vi frågar lite glesare (ETag gör det billigt) */
+const NOWCAST_REFRESH_MS = 5 * 60 * 1000;
+
+interface UseNowcastParams {
+  lat: number;
+  lon: number;
+  altitude?: number;
+}
+
+/**
+ * Korttidsprognos (MET Nordic nowcast, 5-minuterssteg ~2 h framåt) för
+ * Läget-grafens närmaste halvtimme. Tom lista om källan saknas eller fallerar —
+ * grafen faller då tillbaka på timprognosen.
+ */
+export function useNowcast({ lat, lon, altitude = DEFAULT_SPOT.altitude }: UseNowcastParams): WindPoint[] {
+  const [points, setPoints] = useState<WindPoint[]>([]);
+
+  useEffect(() => {
+    const [provider] = getForecastProviders({ nowcast: true });
+    if (!provider) return;
+
+    let mounted = true;
+    const query = forecastQuery(provider, { lat, lon, altitude }, NOWCAST_REFRESH_MS);
+
+    const fetchData = async () => {
+      try {
+        const { points: data } = await fetchQuery(query);
+        if (mounted) setPoints(data);
+      } catch (err) {
+        console.warn(`${provider.name} fetch failed`, err);
+      }
+    };
+
+    fetchData();
+    const interval = setInterval(fetchData, NOWCAST_REFRESH_MS);
+
+    return () => {
+      mounted = false;
+      clearInterval(interval);
+    };
+  }, [lat, lon, altitude]);
+
+  return points;
+}
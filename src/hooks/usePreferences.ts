@@ -0,0 +1,72 @@
+import { createContext, createElement, useCallback, useContext, useEffect, useState, type ReactNode } from 'react';
+import {
+  applyTheme,
+  DEFAULT_PREFERENCES,
+  loadPreferences,
+  Preferences,
+  resolveTheme,
+  savePreferences,
+  systemPrefersDark,
+} from '../utils/preferences';
+import { WindUnit } from '../utils/windUnits';
+import { APP_THEME, APP_THEME_DARK } from '../config/windScale';
+
+interface PreferencesContextValue extends Preferences {
+  /** Temat som faktiskt visas — 'system' upplöst mot enhetens läge */
+  resolvedTheme: 'light' | 'dark';
+  setPreference: <K extends keyof Preferences>(key: K, value: Preferences[K]) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextValue>({
+  ...DEFAULT_PREFERENCES,
+  resolvedTheme: 'light',
+  setPreference: () => {},
+});
+
+/** Håller användarens inställningar (sparas i localStorage) och tillämpar temat */
+export function PreferencesProvider({ children }: { children: ReactNode }) {
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+
+  const setPreference = useCallback(<K extends keyof Preferences>(key: K, value: Preferences[K]) => {
+    setPreferences(prev => {
+      const updated = { ...prev, [key]: value };
+      savePreferences(updated);
+      return updated;
+    });
+  }, []);
+
+  // 'system' följer enhetens läge även när det byts medan appen är öppen
+  const [systemDark, setSystemDark] = useState(systemPrefersDark);
+  useEffect(() => {
+    if (!window.matchMedia) return;
+    const media = window.matchMedia('(prefers-color-scheme: dark)');
+    const onChange = () => setSystemDark(media.matches);
+    media.addEventListener('change', onChange);
+    return () => media.removeEventListener('change', onChange);
+  }, []);
+
+  useEffect(() => {
+    applyTheme(preferences.theme);
+  }, [preferences.theme, systemDark]);
+
+  const resolvedTheme = resolveTheme(preferences.theme, systemDark);
+  return createElement(
+    PreferencesContext.Provider,
+    { value: { ...preferences, resolvedTheme, setPreference } },
+    children
+  );
+}
+
+export function usePreferences(): PreferencesContextValue {
+  return useContext(PreferencesContext);
+}
+
+/** Appens färger för aktivt tema — för grafer och SVG som inte kan läsa CSS-variablerna */
+export function useAppTheme(): typeof APP_THEME | typeof APP_THEME_DARK {
+  return useContext(PreferencesContext).resolvedTheme === 'dark' ? APP_THEME_DARK : APP_THEME;
+}
+
+/** Vald visningsenhet för vind — formatera med utils/windUnits */
+export function useWindUnit(): WindUnit {
+  return useContext(PreferencesContext).windUnit;
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  QueryDefinition,
+  subscribe,
+} from '../utils/queryCache';
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  /** Ingen data att visa än */
+  loading: boolean;
+  error: Error | null;
+  /** Hämtar i bakgrunden (data kan vara gammal) */
+  isValidating: boolean;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Läser en fråga ur utils/queryCache: visar det som finns direkt och hämtar
+ * om när data är inaktuell, vid ny nyckel och efter invalidering.
+ * query = null hoppar över hämtningen.
+ * keepPreviousData: visa förra nyckelns data tills den nya kommit.
+ */
+export function useQuery<T>(
+  query: QueryDefinition<T> | null,
+  { keepPreviousData = false }: { keepPreviousData?: boolean } = {}
+): UseQueryResult<T> {
+  const key = query?.key ?? null;
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const subscribeToKey = useCallback(
+    (onChange: () => void) => (key ? subscribe(key, onChange) : () => {}),
+    [key]
+  );
+  const state = useSyncExternalStore(subscribeToKey, () => (key ? getQueryState<T>(key) : undefined));
+  const invalidatedSeq = state?.invalidatedSeq ?? 0;
+
+  useEffect(() => {
+    const current = queryRef.current;
+    if (!current) return;
+    // Felet hamnar också i state
+    fetchQuery(current).catch(error => console.error(`Error fetching ${current.key}:`, error));
+  }, [key, invalidatedSeq]);
+
+  const previousData = useRef<T | undefined>(undefined);
+  if (state?.data !== undefined) previousData.current = state.data;
+  const data = state?.data ?? (keepPreviousData ? previousData.current : undefined);
+
+  const refetch = useCallback(
+    () => (key ? invalidateQueries({ keys: [key] }) : Promise.resolve()),
+    [key]
+  );
+
+  return {
+    data,
+    loading: data === undefined && query !== null && (!state?.error || state.isFetching),
+    error: state?.error ?? null,
+    isValidating: state?.isFetching ?? false,
+    refetch,
+  };
+}
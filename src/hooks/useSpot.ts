@@ -0,0 +1,38 @@
+import { createContext, createElement, useCallback, useContext, useState, type ReactNode } from 'react';
+import { DEFAULT_SPOT, getSpot, SPOT_STORAGE_KEY, SpotConfig } from '../config/spots';
+
+interface SpotContextValue {
+  spot: SpotConfig;
+  setSpotId: (id: string) => void;
+}
+
+const SpotContext = createContext<SpotContextValue>({ spot: DEFAULT_SPOT, setSpotId: () => {} });
+
+function loadSpotId(): string | null {
+  try {
+    return localStorage.getItem(SPOT_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/** Håller valt spot (sparas i localStorage). Utan provider gäller Kallsjön. */
+export function SpotProvider({ children }: { children: ReactNode }) {
+  const [spot, setSpot] = useState<SpotConfig>(() => getSpot(loadSpotId()));
+
+  const setSpotId = useCallback((id: string) => {
+    const next = getSpot(id);
+    setSpot(next);
+    try {
+      localStorage.setItem(SPOT_STORAGE_KEY, next.id);
+    } catch {
+      // Privat läge / full lagring — valet gäller sessionen ut
+    }
+  }, []);
+
+  return createElement(SpotContext.Provider, { value: { spot, setSpotId } }, children);
+}
+
+export function useSpot(): SpotContextValue {
+  return useContext(SpotContext);
+}
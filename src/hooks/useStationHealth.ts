@@ -0,0 +1,111 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collection, query, where, getDocs, orderBy, limit } from 'firebase/firestore';
+import { format, startOfDay, subDays, subMonths, startOfMonth } from 'date-fns';
+import { db } from '../config/firebase';
+import { useWindData } from './useWindData';
+import { useSpot } from './useSpot';
+import {
+  assessStationHealth,
+  computeIntervalCompliance,
+  findStationGaps,
+  uptimeByDay,
+  uptimeByMonth,
+  REPORT_INTERVAL_MS,
+} from '../utils/stationHealth';
+import { runWindQc } from '../utils/windQualityControl';
+
+const RECENT_DAYS = 30;
+const TREND_MONTHS = 12;
+
+export interface DataPointsDay {
+  date: string;
+  dataPointsCount: number;
+}
+
+/**
+ * Diagnostik för valt spots station: rapporter senaste 30 dagarna (vindsamlingen),
+ * dataPointsCount per dag senaste året (dagsaggregaten) och äldsta dokumentet.
+ * Tungt — används bara när stationsvyn är öppen.
+ */
+export function useStationHealth() {
+  // Stabil under vyns livstid — annars ny wind-fråga varje render
+  const [now] = useState(() => new Date());
+  const recentStart = useMemo(() => startOfDay(subDays(now, RECENT_DAYS - 1)), [now]);
+  const { station } = useSpot().spot;
+
+  const { data: recent, loading: recentLoading, error: recentError } = useWindData({
+    startDate: recentStart,
+    endDate: now,
+  });
+
+  const [trend, setTrend] = useState<DataPointsDay[]>([]);
+  const [oldest, setOldest] = useState<Date | null>(null);
+  const [trendLoading, setTrendLoading] = useState(true);
+  const [trendError, setTrendError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchTrend = async () => {
+      try {
+        const since = format(startOfMonth(subMonths(now, TREND_MONTHS - 1)), 'yyyy-MM-dd');
+        const [statsSnapshot, oldestSnapshot] = await Promise.all([
+          getDocs(query(collection(db, station.dailyStatsCollection), where('date', '>=', since), orderBy('date', 'asc'))),
+          getDocs(query(collection(db, station.windCollection), orderBy('time', 'asc'), limit(1))),
+        ]);
+        if (!mounted) return;
+
+        setTrend(statsSnapshot.docs.map(doc => {
+          const data = doc.data();
+          return { date: data.date as string, dataPointsCount: (data.dataPointsCount as number) || 0 };
+        }));
+        const oldestTime = oldestSnapshot.docs[0]?.data().time;
+        setOldest(oldestTime?.toDate ? oldestTime.toDate() : null);
+      } catch (err) {
+        console.error('Error fetching station health:', err);
+        if (mounted) setTrendError(err as Error);
+      } finally {
+        if (mounted) setTrendLoading(false);
+      }
+    };
+
+    fetchTrend();
+    return () => {
+      mounted = false;
+    };
+  }, [now, station]);
+
+  const health = useMemo(() => {
+    const times = recent.map(d => d.time);
+    const days = uptimeByDay(times, recentStart, now);
+    const gaps = findStationGaps(times, now);
+
+    // Fastfrusen mätare senaste veckan (samma QC som dailyStats)
+    const weekStart = subDays(now, 7);
+    const weekIntervals = recent
+      .filter(d => d.time >= weekStart)
+      .map(d => ({ force: d.windSpeed, forceMax: d.windGust, direction: d.windDirection, time: d.time }));
+    const frozenIntervals = runWindQc(weekIntervals).flags.filter(f => f.includes('stuck')).length;
+    const frozenHours = (frozenIntervals * REPORT_INTERVAL_MS) / 3_600_000;
+
+    return {
+      compliance: computeIntervalCompliance(times, recentStart, now),
+      days,
+      gaps,
+      frozenHours,
+      latest: times.length > 0 ? times[times.length - 1] : null,
+      verdict: assessStationHealth(days, gaps, frozenHours),
+    };
+  }, [recent, recentStart, now]);
+
+  const months = useMemo(() => uptimeByMonth(trend, now), [trend, now]);
+
+  return {
+    ...health,
+    months,
+    trend,
+    oldest,
+    loading: recentLoading || trendLoading,
+    error: recentError || trendError,
+  };
+}
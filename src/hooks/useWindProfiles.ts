@@ -0,0 +1,68 @@
+import { createContext, createElement, useCallback, useContext, useState, type ReactNode } from 'react';
+import {
+  EMPTY_WIND_PROFILES,
+  loadWindProfiles,
+  mergeImportedProfiles,
+  saveWindProfiles,
+  WindProfile,
+  WindProfilesState,
+} from '../utils/windProfiles';
+
+interface WindProfilesContextValue extends WindProfilesState {
+  /** null = spotets skala */
+  setActiveId: (id: string | null) => void;
+  /** Lägger till eller ersätter (samma id) */
+  saveProfile: (profile: WindProfile) => void;
+  deleteProfile: (id: string) => void;
+  importProfiles: (profiles: WindProfile[]) => void;
+}
+
+const WindProfilesContext = createContext<WindProfilesContextValue>({
+  ...EMPTY_WIND_PROFILES,
+  setActiveId: () => {},
+  saveProfile: () => {},
+  deleteProfile: () => {},
+  importProfiles: () => {},
+});
+
+/** Håller personliga vindskalor (sparas i localStorage). Utan provider gäller spotets skala. */
+export function WindProfilesProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<WindProfilesState>(loadWindProfiles);
+
+  const update = useCallback((next: (prev: WindProfilesState) => WindProfilesState) => {
+    setState(prev => {
+      const updated = next(prev);
+      saveWindProfiles(updated);
+      return updated;
+    });
+  }, []);
+
+  const setActiveId = useCallback((id: string | null) => update(prev => ({ ...prev, activeId: id })), [update]);
+
+  const saveProfile = useCallback((profile: WindProfile) => update(prev => ({
+    ...prev,
+    profiles: prev.profiles.some(p => p.id === profile.id)
+      ? prev.profiles.map(p => (p.id === profile.id ? profile : p))
+      : [...prev.profiles, profile],
+  })), [update]);
+
+  const deleteProfile = useCallback((id: string) => update(prev => ({
+    activeId: prev.activeId === id ? null : prev.activeId,
+    profiles: prev.profiles.filter(p => p.id !== id),
+  })), [update]);
+
+  const importProfiles = useCallback(
+    (profiles: WindProfile[]) => update(prev => mergeImportedProfiles(prev, profiles)),
+    [update]
+  );
+
+  return createElement(
+    WindProfilesContext.Provider,
+    { value: { ...state, setActiveId, saveProfile, deleteProfile, importProfiles } },
+    children
+  );
+}
+
+export function useWindProfiles(): WindProfilesContextValue {
+  return useContext(WindProfilesContext);
+}
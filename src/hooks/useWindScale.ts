@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import type { WindScale } from '../config/windScale';
+import { getActiveProfile, profileToScale } from '../utils/windProfiles';
+import { useSpot } from './useSpot';
+import { useWindProfiles } from './useWindProfiles';
+
+/** Vindskalan för valt spot — eller aktiv personlig profil med spotets riktningar */
+export function useWindScale(): WindScale {
+  const { spot } = useSpot();
+  const profiles = useWindProfiles();
+  const profile = getActiveProfile(profiles);
+  return useMemo(
+    () => (profile ? profileToScale(profile, spot.windScale) : spot.windScale),
+    [profile, spot.windScale]
+  );
+}
@@ -2,6 +2,12 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './api/serviceWorker'
+import { applyTheme, loadPreferences } from './utils/preferences'
+
+// Före första renderingen — annars blinkar ljust tema förbi
+applyTheme(loadPreferences().theme)
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -1,8 +1,13 @@
 import { useState, useMemo, useRef } from 'react';
-import { Wind, History, TrendingUp, Zap, Image as ImageIcon, X, Layers } from 'lucide-react';
+import { Wind, History, TrendingUp, Zap, Image as ImageIcon, X, Layers, Settings } from 'lucide-react';
 import { useKallsurfTimeline } from '../hooks/useKallsurfTimeline';
+import { useEnsembleProbability } from '../hooks/useEnsembleProbability';
+import { useNetworkStatus } from '../hooks/useNetworkStatus';
+import { useMediaUploadQueue } from '../hooks/useMediaUploadQueue';
+import { usePreferences } from '../hooks/usePreferences';
 import { HeroStats } from '../components/kallsurf/HeroStats';
 import { NextSurfChance } from '../components/kallsurf/NextSurfChance';
+import { AlertRulesCard } from '../components/kallsurf/AlertRulesCard';
 import { WindOverviewChart } from '../components/kallsurf/WindOverviewChart';
 import { DailyForecast } from '../components/kallsurf/DailyForecast';
 import { HistoryTabs } from '../components/kallsurf/HistoryTabs';
@@ -10,22 +15,33 @@ import { DayDetail } from '../components/kallsurf/DayDetail';
 import { CalendarGrid } from '../components/kallsurf/CalendarGrid';
 import { StatsView } from '../components/kallsurf/StatsView';
 import { ForecastView } from '../components/kallsurf/ForecastView';
+import { LiveStatus } from '../components/kallsurf/LiveStatus';
+import { OfflineBanner } from '../components/kallsurf/OfflineBanner';
+import { SpotSwitcher } from '../components/kallsurf/SpotSwitcher';
+import { PushAlertButton } from '../components/kallsurf/PushAlertButton';
+import { StationHealthView } from '../components/kallsurf/StationHealthView';
+import { SettingsSheet } from '../components/kallsurf/SettingsSheet';
 import { MediaView } from '../components/media/MediaView';
 import { MediaUpload } from '../components/media/MediaUpload';
 import { APP_THEME } from '../config/windScale';
+import { AppTab } from '../utils/preferences';
 import { format } from 'date-fns';
 
-type TabId = 'overview' | 'history' | 'forecast' | 'stats' | 'media';
-
 export default function KallsurfHome() {
-  const [activeTab, setActiveTab] = useState<TabId>('overview');
+  const { defaultTab } = usePreferences();
+  const [activeTab, setActiveTab] = useState<AppTab>(defaultTab);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [viewDate, setViewDate] = useState(new Date());
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [showStationHealth, setShowStationHealth] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const mainRef = useRef<HTMLElement>(null);
   const [forecastFocusDay, setForecastFocusDay] = useState<string | null>(null);
 
-  const { timeline, forecastHourly, hourlyBuckets, dailySummary, currentWind, loading, error, warning } = useKallsurfTimeline(viewDate, selectedDate);
+  const { timeline, forecastHourly, forecastPoints, nowcast, hourlyBuckets, dailySummary, currentWind, loading, error, warning, live } = useKallsurfTimeline(viewDate, selectedDate);
+  const ensemble = useEnsembleProbability();
+  const network = useNetworkStatus();
+  const mediaQueue = useMediaUploadQueue();
 
   /** Scrollen bor i <main> (app-skalet är en flex-kolumn utan sidscroll) */
   const scrollToTop = () => {
@@ -66,8 +82,6 @@ export default function KallsurfHome() {
     return next12Hours.some(h => h.avg > 9);
   }, [hourlyBuckets]);
 
-  const stationFresh = Date.now() - currentWind.time.getTime() < 15 * 60 * 1000;
-
   const renderOverview = () => (
     <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
       {showPotentialInfo && (
@@ -83,17 +97,25 @@ export default function KallsurfHome() {
         </div>
       )}
 
-      <HeroStats currentWind={currentWind} timeline={timeline} forecastHourly={forecastHourly} isActive />
+      <HeroStats currentWind={currentWind} timeline={timeline} forecastHourly={forecastHourly} nowcast={nowcast} isActive />
 
       <NextSurfChance
         hourlyBuckets={hourlyBuckets}
         currentWind={currentWind}
+        ensemble={ensemble.members}
         onClick={handleDayClick}
       />
 
+      <AlertRulesCard timeline={timeline} forecastPoints={forecastPoints} ensemble={ensemble.members} />
+
       <WindOverviewChart timeline={timeline} />
 
-      <DailyForecast hourlyBuckets={hourlyBuckets} onCardClick={handleDayClick} />
+      <DailyForecast
+        hourlyBuckets={hourlyBuckets}
+        probabilities={ensemble.dayProbabilities}
+        forecastPoints={forecastPoints}
+        onCardClick={handleDayClick}
+      />
     </div>
   );
 
@@ -118,18 +140,26 @@ export default function KallsurfHome() {
             />
           </button>
 
-          {/* Stationsstatus: fylld punkt = färsk data (< 15 min) */}
-          {!loading && !error && (
-            <span className="flex items-center gap-1.5 text-[11px] text-app-muted">
-              <span
-                className={`w-2 h-2 rounded-full ${stationFresh
-                  ? 'bg-app-text'
-                  : 'bg-transparent border-[1.5px] border-app-text'
-                  }`}
-              />
-              Vassnäs · {currentWind.time.toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' })}
-            </span>
-          )}
+          <div className="flex items-center gap-3">
+            {!loading && !error && (
+              <button
+                onClick={() => setShowStationHealth(true)}
+                className="bg-transparent border-none cursor-pointer p-0"
+                aria-label="Stationsstatus"
+              >
+                <LiveStatus status={live.status} lastReading={currentWind.time} lastSync={live.lastSync} />
+              </button>
+            )}
+            <PushAlertButton />
+            <SpotSwitcher />
+            <button
+              onClick={() => setShowSettings(true)}
+              className="bg-transparent border-none cursor-pointer p-0 text-app-muted hover:text-app-text"
+              aria-label="Inställningar"
+            >
+              <Settings size={18} />
+            </button>
+          </div>
         </div>
       </header>
 
@@ -152,6 +182,12 @@ export default function KallsurfHome() {
           </div>
         ) : (
           <>
+            <OfflineBanner
+              offline={!network.online || live.status === 'stale'}
+              lastReading={currentWind.time}
+              forecastCachedAt={network.forecastCachedAt}
+              pendingUploads={mediaQueue.pending}
+            />
             {warning && (
               <div className="bg-amber-50 border border-amber-200 px-3 py-1.5 rounded-lg text-amber-900 mb-3 text-xs flex items-center gap-2">
                 <span className="block w-1.5 h-1.5 rounded-full bg-amber-500 flex-shrink-0" />
@@ -229,6 +265,10 @@ export default function KallsurfHome() {
         </div>
       )}
 
+      {showStationHealth && <StationHealthView onClose={() => setShowStationHealth(false)} />}
+
+      <SettingsSheet open={showSettings} onClose={() => setShowSettings(false)} />
+
       {/* Bottennav: vanligt flex-barn i app-skalet — ingen fixed/transform.
           Safe area (hemindikatorn) hanteras med max(): i Safari blir det
           8 px, som installerad PWA exakt indikatorns höjd. */}
@@ -238,11 +278,11 @@ export default function KallsurfHome() {
       >
         <div className="max-w-md mx-auto flex justify-around items-center px-1 pt-1.5 pb-1">
           {([
-            { id: 'overview' as TabId, label: 'Läget', Icon: Wind },
-            { id: 'history' as TabId, label: 'Detaljer', Icon: History },
-            { id: 'forecast' as TabId, label: 'Prognos', Icon: Layers },
-            { id: 'stats' as TabId, label: 'Stats', Icon: TrendingUp },
-            { id: 'media' as TabId, label: 'Media', Icon: ImageIcon },
+            { id: 'overview' as AppTab, label: 'Läget', Icon: Wind },
+            { id: 'history' as AppTab, label: 'Detaljer', Icon: History },
+            { id: 'forecast' as AppTab, label: 'Prognos', Icon: Layers },
+            { id: 'stats' as AppTab, label: 'Stats', Icon: TrendingUp },
+            { id: 'media' as AppTab, label: 'Media', Icon: ImageIcon },
           ]).map(({ id, label, Icon }) => (
             <button
               key={id}
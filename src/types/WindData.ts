@@ -14,16 +14,30 @@ export interface WindPoint {
     wind: number;           // m/s medelvind
     gust: number | null;    // m/s byvind (fallback till wind om saknas)
     dir: number | null;     // 0-360 grader
-    source: ForecastModel;
+    source: ForecastModelId;
     runTimestamp?: string;  // ISO, när modellkörningen startade
+    contributors?: ConsensusContributor[]; // bara consensus: vilka modeller, med vilken vikt
 }
 
+// Bidrag till en consensuspunkt — vikterna summerar till 1 (0 = bortrensad)
+export interface ConsensusContributor {
+    model: ForecastModelId;
+    weight: number;
+}
+
+// Modell-id: inbyggda i ForecastModel; nya källor i providerregistret kan använda egna strängar
+export type ForecastModelId = ForecastModel | (string & {});
+
 export enum ForecastModel {
     SMHI = 'smhi',
     MET_NORWAY = 'met_norway',
+    MET_MEPS = 'met_meps',
+    MET_NOWCAST = 'met_nowcast',
     ECMWF = 'ecmwf',
     GFS = 'gfs',
     ICON = 'icon',
+    DMI_HARMONIE = 'dmi_harmonie',
+    METEO_FRANCE_ARPEGE = 'meteofrance_arpege',
     CONSENSUS = 'consensus',
     OBSERVED = 'observed'
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WIND_SCALE } from '../config/windScale';
+import { DEFAULT_SPOT } from '../config/spots';
+import {
+  AlertRule,
+  AlertSample,
+  backtestAlertRule,
+  BacktestDay,
+  createAlertRule,
+  evaluateAlertRule,
+  validateAlertRule,
+} from './alertRules';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-06-15T06:00:00');
+
+/** Värden var stepMin:e minut från start; wind(i) ger [medel, riktning] */
+function series(start: Date, count: number, stepMin: number, wind: (i: number) => [number, number]): AlertSample[] {
+  return Array.from({ length: count }, (_, i) => {
+    const time = new Date(start.getTime() + i * stepMin * 60 * 1000);
+    const [avg, dir] = wind(i);
+    return { time, avg, gust: avg + 3, dir, isDaylight: time.getHours() >= 4 && time.getHours() < 22 };
+  });
+}
+
+function rule(patch: Partial<AlertRule>): AlertRule {
+  return { ...createAlertRule('Test'), ...patch };
+}
+
+describe('evaluateAlertRule — prognos', () => {
+  const southwestAfterWork = rule({
+    conditions: [{ metric: 'mean', minMs: 9 }, { metric: 'direction', sectors: ['SV', 'V'] }],
+    hours: { from: 16, to: 21 },
+    minDurationHours: 2,
+  });
+
+  it('hittar första fönstret som uppfyller alla villkor och är långt nog', () => {
+    // Idag 16–18 från S (fel riktning), imorgon 17–20 från SV
+    const forecast = series(NOW, 48, 60, i => [i >= 10 && i < 12 ? 11 : i >= 35 && i < 38 ? 11 : 4, i < 24 ? 180 : 230]);
+    const match = evaluateAlertRule(southwestAfterWork, forecast, DEFAULT_WIND_SCALE, NOW);
+    expect(match?.start).toEqual(new Date('2026-06-16T17:00:00'));
+    expect(match?.hours).toBe(3);
+  });
+
+  it('respekterar ledtiden', () => {
+    const forecast = series(NOW, 48, 60, i => [i >= 35 && i < 38 ? 11 : 4, 230]);
+    expect(evaluateAlertRule({ ...southwestAfterWork, maxLeadHours: 24 }, forecast, DEFAULT_WIND_SCALE, NOW)).toBeNull();
+  });
+
+  it('kräver sannolikhet när villkoret finns', () => {
+    const chance = rule({ conditions: [{ metric: 'probability', min: 0.6 }], daylightOnly: false, minDurationHours: 1 });
+    const forecast = series(NOW, 6, 60, () => [11, 230]).map((s, i) => ({ ...s, probability: i === 3 ? 0.7 : 0.4 }));
+    expect(evaluateAlertRule(chance, forecast, DEFAULT_WIND_SCALE, NOW)?.start).toEqual(new Date('2026-06-15T09:00:00'));
+  });
+});
+
+describe('evaluateAlertRule — observationer', () => {
+  const surfableNow = rule({ source: 'observed', minDurationHours: 1 });
+
+  it('slår till när det pågått minst minsta längden', () => {
+    const observed = series(new Date(NOW.getTime() - 2 * HOUR), 24, 5, i => [i >= 10 ? 11 : 5, 150]);
+    const match = evaluateAlertRule(surfableNow, observed, DEFAULT_WIND_SCALE, NOW);
+    expect(match?.start).toEqual(new Date('2026-06-15T04:50:00'));
+  });
+
+  it('slår inte till när det slutat blåsa eller varat för kort', () => {
+    const stopped = series(new Date(NOW.getTime() - 2 * HOUR), 24, 5, i => [i < 20 ? 11 : 5, 150]);
+    const short = series(new Date(NOW.getTime() - 2 * HOUR), 24, 5, i => [i >= 16 ? 11 : 5, 150]);
+    expect(evaluateAlertRule(surfableNow, stopped, DEFAULT_WIND_SCALE, NOW)).toBeNull();
+    expect(evaluateAlertRule(surfableNow, short, DEFAULT_WIND_SCALE, NOW)).toBeNull();
+  });
+});
+
+describe('backtestAlertRule', () => {
+  function day(date: string, maxForce: number, patch: Partial<BacktestDay> = {}): BacktestDay {
+    return {
+      date,
+      year: Number(date.slice(0, 4)),
+      maxForce,
+      maxForceTime: new Date(`${date}T14:00:00`),
+      maxForceDirection: 150,
+      maxGust: maxForce + 3,
+      surfableMinutes: maxForce >= 10 ? 180 : 0,
+      surfableMinutesDaylight: maxForce >= 10 ? 180 : 0,
+      ...patch,
+    };
+  }
+
+  it('räknar dagar per år och hoppar över dagar med för lite data', () => {
+    const result = backtestAlertRule(rule({}), [
+      day('2025-05-01', 12),
+      day('2025-05-02', 6),
+      day('2026-05-01', 11),
+      day('2026-05-02', 11, { surfableMinutesDaylight: 60 }),
+      day('2026-05-03', 14, { insufficientCoverage: true }),
+    ], DEFAULT_WIND_SCALE, DEFAULT_SPOT);
+    expect(result.days).toBe(4);
+    expect(result.firedDates).toEqual(['2026-05-01', '2025-05-01']);
+    expect(result.byYear).toEqual([{ year: 2026, days: 2, fired: 1 }, { year: 2025, days: 2, fired: 1 }]);
+  });
+});
+
+describe('validateAlertRule', () => {
+  it('avvisar ofullständiga regler med svensk text', () => {
+    expect(() => validateAlertRule(rule({ conditions: [] }))).toThrow('minst ett villkor');
+    expect(() => validateAlertRule(rule({ minLeadHours: 48, maxLeadHours: 24 }))).toThrow('ledtiden');
+    expect(() => validateAlertRule(rule({ source: 'observed', conditions: [{ metric: 'probability', min: 0.5 }] })))
+      .toThrow('bara i prognosen');
+    expect(validateAlertRule(rule({ hours: { from: 22, to: 2 } })).hours).toEqual({ from: 22, to: 2 });
+  });
+});
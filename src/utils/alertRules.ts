@@ -0,0 +1,505 @@
+import { format } from 'date-fns';
+import { getEffectiveLevelIndex, WIND_SCALE_LEVELS, WindScale } from '../config/windScale';
+import type { TimelinePoint } from '../hooks/useKallsurfTimeline';
+import type { WindPoint } from '../types/WindData';
+import { DaylightCoords, isDaylightAt, isMaxWindDuringDaylight } from './daylightCalculations';
+import type { HourlyProbability } from './ensembleProbability';
+import { degreesToSector8, WIND_SECTORS_8, WindSector8 } from './windDirection8';
+import { DEFAULT_WIND_UNIT, formatWindThreshold, linearWindUnit, WindUnit, windUnitSymbol } from './windUnits';
+
+/**
+ * Egna larmregler. En regel är ett antal villkor som alla ska gälla samtidigt
+ * (medelvind, by, nivå, riktningssektor, sannolikhet) plus klockslag,
+ * dagsljus, minsta längd och — för prognos — hur långt fram fönstret får ligga.
+ *
+ * Samma regel utvärderas mot observationer (`TimelinePoint`, "pågår nu"),
+ * prognos (`WindPoint`, "kommer") och historik (`dailyStats`, backtest).
+ * Historiken har bara dagsvärden, så backtestet är en uppskattning — se
+ * backtestAlertRule.
+ */
+
+export const ALERT_RULES_STORAGE_KEY = 'kallifornia.alertRules.v1';
+
+const MAX_NAME_LENGTH = 40;
+/** Prognoserna räcker ungefär en vecka */
+export const MAX_LEAD_HOURS = 168;
+const MAX_DURATION_HOURS = 12;
+const HOUR_MS = 60 * 60 * 1000;
+/** Längre avstånd mellan två värden (t.ex. natten bortfiltrerad) bryter fönstret */
+const MAX_SAMPLE_GAP_MS = 1.5 * HOUR_MS;
+/** Senaste observationen får vara så här gammal för att räknas som "nu" */
+const OBSERVED_MAX_AGE_MS = 30 * 60 * 1000;
+
+export type AlertSource = 'forecast' | 'observed';
+
+export type AlertCondition =
+  | { metric: 'mean'; minMs: number; maxMs?: number }
+  | { metric: 'gust'; minMs: number; maxMs?: number }
+  /** Nivå-id i vindskalan (by-regel och riktning räknas) */
+  | { metric: 'level'; minLevelId: string }
+  | { metric: 'direction'; sectors: WindSector8[] }
+  /** Andel ensemblemedlemmar som är surfbara, 0–1. Bara prognos. */
+  | { metric: 'probability'; min: number };
+
+export type AlertMetric = AlertCondition['metric'];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  source: AlertSource;
+  /** Alla ska gälla samtidigt */
+  conditions: AlertCondition[];
+  /** Klockslag [from, to) i lokal tid; from > to går över midnatt. null = hela dygnet */
+  hours: { from: number; to: number } | null;
+  daylightOnly: boolean;
+  minDurationHours: number;
+  /** Prognos: fönstret ska börja mellan minLead och maxLead timmar fram */
+  minLeadHours: number;
+  maxLeadHours: number;
+}
+
+/** Ett värde i en serie — observation eller prognostimme */
+export interface AlertSample {
+  time: Date;
+  avg: number;
+  gust: number;
+  dir: number | null;
+  isDaylight: boolean;
+  /** Ensemblens sannolikhet för surfbart; saknas = villkoret uppfylls inte */
+  probability?: number | null;
+}
+
+export interface AlertMatch {
+  start: Date;
+  /** Exklusivt */
+  end: Date;
+  hours: number;
+  maxAvg: number;
+  maxGust: number;
+}
+
+function newRuleId(): string {
+  return `r${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Ny regel: surfbart minst 2 h i dagsljus inom 48 h */
+export function createAlertRule(name: string): AlertRule {
+  return {
+    id: newRuleId(),
+    name: name.trim().slice(0, MAX_NAME_LENGTH),
+    source: 'forecast',
+    conditions: [{ metric: 'level', minLevelId: 'surfable' }],
+    hours: null,
+    daylightOnly: true,
+    minDurationHours: 2,
+    minLeadHours: 0,
+    maxLeadHours: 48,
+  };
+}
+
+// ── Serier ──────────────────────────────────────────────────────────────
+
+/** Observationerna i tidslinjen (prognosdelen hoppas över) */
+export function samplesFromTimeline(points: TimelinePoint[]): AlertSample[] {
+  return points
+    .filter(p => !p.isForecast)
+    .map(p => ({ time: p.time, avg: p.avg, gust: p.gust, dir: p.dir, isDaylight: p.isDaylight }));
+}
+
+/** Prognospunkter med dagsljus för platsen och ev. ensemblens sannolikhet per timme */
+export function samplesFromWindPoints(
+  points: WindPoint[],
+  coords: DaylightCoords,
+  probabilities: HourlyProbability[] = []
+): AlertSample[] {
+  const byHour = new Map(probabilities.map(p => [p.time.getTime(), p.probability]));
+  return points
+    .map(p => {
+      const time = new Date(p.time);
+      return {
+        time,
+        avg: p.wind,
+        gust: p.gust ?? p.wind,
+        dir: p.dir,
+        isDaylight: isDaylightAt(time, coords),
+        probability: byHour.get(time.getTime()) ?? null,
+      };
+    })
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+// ── Utvärdering ─────────────────────────────────────────────────────────
+
+function levelIndexOf(levelId: string): number {
+  return WIND_SCALE_LEVELS.findIndex(l => l.id === levelId);
+}
+
+function inRange(value: number, min: number, max?: number): boolean {
+  return value >= min && (max == null || value <= max);
+}
+
+/** Klockslaget inom [from, to); from > to går över midnatt */
+export function isWithinHours(time: Date, hours: AlertRule['hours']): boolean {
+  if (!hours) return true;
+  const hour = time.getHours() + time.getMinutes() / 60;
+  return hours.from <= hours.to
+    ? hour >= hours.from && hour < hours.to
+    : hour >= hours.from || hour < hours.to;
+}
+
+function conditionHolds(condition: AlertCondition, sample: AlertSample, scale: WindScale): boolean {
+  switch (condition.metric) {
+    case 'mean':
+      return inRange(sample.avg, condition.minMs, condition.maxMs);
+    case 'gust':
+      return inRange(sample.gust, condition.minMs, condition.maxMs);
+    case 'level':
+      return getEffectiveLevelIndex(sample.avg, sample.gust, scale, sample.dir) >= levelIndexOf(condition.minLevelId);
+    case 'direction':
+      return sample.dir != null && condition.sectors.includes(degreesToSector8(sample.dir));
+    case 'probability':
+      return sample.probability != null && sample.probability >= condition.min;
+  }
+}
+
+/** Uppfyller värdet regelns villkor, klockslag och dagsljus? */
+export function sampleMatches(rule: AlertRule, sample: AlertSample, scale: WindScale): boolean {
+  if (rule.daylightOnly && !sample.isDaylight) return false;
+  if (!isWithinHours(sample.time, rule.hours)) return false;
+  return rule.conditions.every(condition => conditionHolds(condition, sample, scale));
+}
+
+/** Typiskt avstånd mellan värden — 5 min för observationer, 1 h för prognos */
+function sampleStepMs(samples: AlertSample[]): number {
+  const gaps = samples
+    .slice(1)
+    .map((s, i) => s.time.getTime() - samples[i].time.getTime())
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+  return gaps.length > 0 ? Math.min(gaps[Math.floor(gaps.length / 2)], HOUR_MS) : HOUR_MS;
+}
+
+/** Sammanhängande fönster där regeln uppfylls, oavsett längd. Serien ska vara sorterad. */
+export function findAlertWindows(rule: AlertRule, samples: AlertSample[], scale: WindScale): AlertMatch[] {
+  const step = sampleStepMs(samples);
+  const windows: AlertMatch[] = [];
+  let current: { first: AlertSample; last: AlertSample; maxAvg: number; maxGust: number } | null = null;
+
+  const close = () => {
+    if (!current) return;
+    const end = new Date(current.last.time.getTime() + step);
+    windows.push({
+      start: current.first.time,
+      end,
+      hours: (end.getTime() - current.first.time.getTime()) / HOUR_MS,
+      maxAvg: current.maxAvg,
+      maxGust: current.maxGust,
+    });
+    current = null;
+  };
+
+  samples.forEach(sample => {
+    if (!sampleMatches(rule, sample, scale)) {
+      close();
+      return;
+    }
+    if (current && sample.time.getTime() - current.last.time.getTime() > MAX_SAMPLE_GAP_MS) close();
+    if (!current) {
+      current = { first: sample, last: sample, maxAvg: sample.avg, maxGust: sample.gust };
+      return;
+    }
+    current.last = sample;
+    current.maxAvg = Math.max(current.maxAvg, sample.avg);
+    current.maxGust = Math.max(current.maxGust, sample.gust);
+  });
+  close();
+
+  return windows;
+}
+
+/**
+ * Prognos: första fönstret som börjar inom ledtiden och är minst minDurationHours.
+ * Observationer: fönstret som pågår just nu (senaste värdet färskt) om det
+ * redan varat minDurationHours.
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  samples: AlertSample[],
+  scale: WindScale,
+  now: Date
+): AlertMatch | null {
+  if (rule.source === 'forecast') {
+    const from = now.getTime() + rule.minLeadHours * HOUR_MS;
+    const to = now.getTime() + rule.maxLeadHours * HOUR_MS;
+    const ahead = samples.filter(s => s.time.getTime() >= from && s.time.getTime() < to);
+    return findAlertWindows(rule, ahead, scale).find(w => w.hours >= rule.minDurationHours) ?? null;
+  }
+
+  const past = samples.filter(s => s.time <= now);
+  const latest = past[past.length - 1];
+  if (!latest || now.getTime() - latest.time.getTime() > OBSERVED_MAX_AGE_MS) return null;
+  if (!sampleMatches(rule, latest, scale)) return null;
+  // Senaste värdet uppfyller regeln, så sista fönstret är det pågående
+  const ongoing = findAlertWindows(rule, past, scale).pop();
+  return ongoing && ongoing.hours >= rule.minDurationHours ? ongoing : null;
+}
+
+// ── Backtest mot dailyStats ─────────────────────────────────────────────
+
+/** Fälten backtestet läser — DailyStats uppfyller dem */
+export interface BacktestDay {
+  date: string;
+  year: number;
+  maxForce: number;
+  maxForceTime: Date;
+  maxForceDirection: number;
+  maxGust: number;
+  surfableMinutes?: number;
+  surfableMinutesDaylight?: number;
+  insufficientCoverage?: boolean;
+}
+
+export interface AlertBacktest {
+  /** Dagar med tillräcklig datatäckning */
+  days: number;
+  /** yyyy-MM-dd, nyast först */
+  firedDates: string[];
+  byYear: Array<{ year: number; days: number; fired: number }>;
+  /** Delar av regeln som bara kan uppskattas ur dagsvärden */
+  approximations: string[];
+}
+
+function dayMatches(rule: AlertRule, day: BacktestDay, scale: WindScale, coords: DaylightCoords): boolean {
+  const peak: AlertSample = {
+    time: day.maxForceTime,
+    avg: day.maxForce,
+    gust: day.maxGust,
+    dir: day.maxForceDirection,
+    isDaylight: isMaxWindDuringDaylight(day.maxForceTime, coords),
+  };
+  const conditions = rule.conditions.filter(c => c.metric !== 'probability');
+  if (!sampleMatches({ ...rule, conditions }, peak, scale)) return false;
+
+  if (rule.minDurationHours > 0) {
+    const minutes = rule.daylightOnly ? day.surfableMinutesDaylight : day.surfableMinutes;
+    if (minutes != null && minutes < rule.minDurationHours * 60) return false;
+  }
+  return true;
+}
+
+/**
+ * Hur ofta regeln hade slagit till historiskt. Varje dag bedöms på dagens
+ * max (medel, by, riktning och klockslag för maxvinden); längden på
+ * surfbara minuter. Dagar med för lite data räknas inte.
+ */
+export function backtestAlertRule(
+  rule: AlertRule,
+  days: BacktestDay[],
+  scale: WindScale,
+  coords: DaylightCoords
+): AlertBacktest {
+  const counted = days.filter(d => !d.insufficientCoverage);
+  const fired = counted.filter(d => dayMatches(rule, d, scale, coords));
+
+  const years = new Map<number, { days: number; fired: number }>();
+  counted.forEach(d => {
+    const entry = years.get(d.year) ?? { days: 0, fired: 0 };
+    entry.days++;
+    years.set(d.year, entry);
+  });
+  fired.forEach(d => years.get(d.year)!.fired++);
+
+  const approximations = ['Varje dag bedöms på sitt max'];
+  if (rule.conditions.some(c => c.metric === 'probability')) {
+    approximations.push('Sannolikhet finns inte i historiken och räknas inte');
+  }
+  if (rule.minDurationHours > 0) {
+    approximations.push('Längden räknas som surfbara minuter enligt sjöns skala');
+  }
+
+  return {
+    days: counted.length,
+    firedDates: fired.map(d => d.date).sort((a, b) => b.localeCompare(a)),
+    byYear: Array.from(years.entries())
+      .sort(([a], [b]) => b - a)
+      .map(([year, entry]) => ({ year, ...entry })),
+    approximations,
+  };
+}
+
+// ── Text ────────────────────────────────────────────────────────────────
+
+/** Gränserna i samma enhet som i redigeraren (m/s för Beaufort) */
+function formatSpeedRange(min: number, max: number | undefined, unit: WindUnit): string {
+  const inputUnit = linearWindUnit(unit);
+  const symbol = windUnitSymbol(inputUnit);
+  return max == null
+    ? `≥ ${formatWindThreshold(min, inputUnit)} ${symbol}`
+    : `${formatWindThreshold(min, inputUnit)}–${formatWindThreshold(max, inputUnit)} ${symbol}`;
+}
+
+function formatHour(hour: number): string {
+  return String(hour).padStart(2, '0');
+}
+
+export function describeCondition(condition: AlertCondition, scale: WindScale, unit: WindUnit = DEFAULT_WIND_UNIT): string {
+  switch (condition.metric) {
+    case 'mean':
+      return `medel ${formatSpeedRange(condition.minMs, condition.maxMs, unit)}`;
+    case 'gust':
+      return `by ${formatSpeedRange(condition.minMs, condition.maxMs, unit)}`;
+    case 'level':
+      return `${scale.levels[levelIndexOf(condition.minLevelId)]?.label ?? condition.minLevelId}+`;
+    case 'direction':
+      return `från ${condition.sectors.join('/')}`;
+    case 'probability':
+      return `chans ≥ ${Math.round(condition.min * 100)} %`;
+  }
+}
+
+/** Kort sammanfattning, t.ex. "Surfbart+ · från S/SV · dagsljus · ≥ 2 h · inom 48 h" */
+export function describeAlertRule(rule: AlertRule, scale: WindScale, unit: WindUnit = DEFAULT_WIND_UNIT): string {
+  const parts = rule.conditions.map(c => describeCondition(c, scale, unit));
+  if (rule.hours) parts.push(`kl ${formatHour(rule.hours.from)}–${formatHour(rule.hours.to)}`);
+  if (rule.daylightOnly) parts.push('dagsljus');
+  if (rule.minDurationHours > 0) parts.push(`≥ ${rule.minDurationHours} h`);
+  if (rule.source === 'forecast') {
+    parts.push(rule.minLeadHours > 0
+      ? `${rule.minLeadHours}–${rule.maxLeadHours} h fram`
+      : `inom ${rule.maxLeadHours} h`);
+  } else {
+    parts.push('pågår nu');
+  }
+  return parts.join(' · ');
+}
+
+/** "kl 14–17" eller "kl 14:05–16:30" för observationer */
+export function formatAlertMatch(match: AlertMatch, source: AlertSource): string {
+  const pattern = source === 'forecast' ? 'HH' : 'HH:mm';
+  return `kl ${format(match.start, pattern)}–${format(match.end, pattern)}`;
+}
+
+// ── Validering och lagring ──────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function validateCondition(value: unknown, ruleName: string): AlertCondition {
+  if (!isRecord(value)) throw new Error(`${ruleName}: ogiltigt villkor`);
+  switch (value.metric) {
+    case 'mean':
+    case 'gust': {
+      const label = value.metric === 'mean' ? 'medelvind' : 'by';
+      if (!isNumber(value.minMs) || value.minMs < 0) throw new Error(`${ruleName}: ogiltig ${label}`);
+      if (value.maxMs != null && (!isNumber(value.maxMs) || value.maxMs <= value.minMs)) {
+        throw new Error(`${ruleName}: högsta ${label} måste vara över lägsta`);
+      }
+      return value.maxMs != null
+        ? { metric: value.metric, minMs: value.minMs, maxMs: value.maxMs as number }
+        : { metric: value.metric, minMs: value.minMs };
+    }
+    case 'level':
+      if (typeof value.minLevelId !== 'string' || levelIndexOf(value.minLevelId) < 0) {
+        throw new Error(`${ruleName}: okänd nivå`);
+      }
+      return { metric: 'level', minLevelId: value.minLevelId };
+    case 'direction': {
+      const sectors = Array.isArray(value.sectors)
+        ? WIND_SECTORS_8.filter(s => (value.sectors as unknown[]).includes(s))
+        : [];
+      if (sectors.length === 0) throw new Error(`${ruleName}: välj minst en riktning`);
+      return { metric: 'direction', sectors };
+    }
+    case 'probability':
+      if (!isNumber(value.min) || value.min <= 0 || value.min > 1) {
+        throw new Error(`${ruleName}: sannolikheten ska vara 1–100 %`);
+      }
+      return { metric: 'probability', min: value.min };
+    default:
+      throw new Error(`${ruleName}: okänt villkor`);
+  }
+}
+
+/**
+ * Kontrollerar en regel (sparad, redigerad eller från en push-prenumeration).
+ * Kastar Error med ett meddelande som kan visas för användaren.
+ */
+export function validateAlertRule(value: unknown): AlertRule {
+  if (!isRecord(value)) throw new Error('Regeln är inte ett objekt');
+  const name = typeof value.name === 'string' ? value.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+  if (!name) throw new Error('Regeln saknar namn');
+  if (value.source !== 'forecast' && value.source !== 'observed') throw new Error(`${name}: okänd källa`);
+  if (!Array.isArray(value.conditions) || value.conditions.length === 0) {
+    throw new Error(`${name}: lägg till minst ett villkor`);
+  }
+  const conditions = value.conditions.map(c => validateCondition(c, name));
+  if (value.source === 'observed' && conditions.some(c => c.metric === 'probability')) {
+    throw new Error(`${name}: sannolikhet finns bara i prognosen`);
+  }
+
+  let hours: AlertRule['hours'] = null;
+  if (value.hours != null) {
+    const h = value.hours as Record<string, unknown>;
+    const valid = isRecord(h) && isNumber(h.from) && isNumber(h.to)
+      && h.from >= 0 && h.from < 24 && h.to > 0 && h.to <= 24 && h.from !== h.to;
+    if (!valid) throw new Error(`${name}: ogiltigt klockslag`);
+    hours = { from: h.from as number, to: h.to as number };
+  }
+
+  const duration = value.minDurationHours;
+  if (!isNumber(duration) || duration < 0 || duration > MAX_DURATION_HOURS) {
+    throw new Error(`${name}: längden ska vara 0–${MAX_DURATION_HOURS} h`);
+  }
+  const minLead = value.minLeadHours;
+  const maxLead = value.maxLeadHours;
+  if (!isNumber(minLead) || !isNumber(maxLead) || minLead < 0 || maxLead > MAX_LEAD_HOURS || minLead >= maxLead) {
+    throw new Error(`${name}: ledtiden ska ligga inom 0–${MAX_LEAD_HOURS} h`);
+  }
+
+  const id = typeof value.id === 'string' && value.id ? value.id : newRuleId();
+  return {
+    id,
+    name,
+    source: value.source,
+    conditions,
+    hours,
+    daylightOnly: value.daylightOnly === true,
+    minDurationHours: duration,
+    minLeadHours: minLead,
+    maxLeadHours: maxLead,
+  };
+}
+
+/** Giltiga regler ur en lista; ogiltiga hoppas över */
+export function parseAlertRules(values: unknown): AlertRule[] {
+  if (!Array.isArray(values)) return [];
+  return values.flatMap(value => {
+    try {
+      return [validateAlertRule(value)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function loadAlertRules(): AlertRule[] {
+  try {
+    const raw = localStorage.getItem(ALERT_RULES_STORAGE_KEY);
+    return raw ? parseAlertRules(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveAlertRules(rules: AlertRule[]): void {
+  try {
+    localStorage.setItem(ALERT_RULES_STORAGE_KEY, JSON.stringify(rules));
+  } catch {
+    // Full lagring — reglerna gäller sessionen ut
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getBestSlotPerDay } from './bestWindPerDay';
+import { aggregateWindIntervals } from './dailyStatsAggregation';
+import { getEffectiveLevelIndex, WIND_SCALE_LEVELS } from '../config/windScale';
+
+const levelId = (index: number) => WIND_SCALE_LEVELS[index].id;
+const at = (hour: number) => new Date(`2026-06-15T${String(hour).padStart(2, '0')}:00:00`);
+
+describe('riktningsprofil', () => {
+  it('frånlandsvind blir högst Håll koll, halvbra riktning ett steg ner', () => {
+    expect(levelId(getEffectiveLevelIndex(12, 14))).toBe('good');
+    expect(levelId(getEffectiveLevelIndex(12, 14, undefined, 310))).toBe('good');
+    expect(levelId(getEffectiveLevelIndex(12, 14, undefined, 225))).toBe('surfable');
+    expect(levelId(getEffectiveLevelIndex(12, 14, undefined, 60))).toBe('watching');
+  });
+
+  it('bästa lucka väljer surfbar riktning framför starkare frånlandsvind', () => {
+    const [day] = getBestSlotPerDay([
+      { time: at(10), avg: 14, gust: 18, dir: 70 },
+      { time: at(14), avg: 11, gust: 13, dir: 150 },
+    ]);
+    expect(day.slot.time).toEqual(at(14));
+    expect(levelId(day.levelIndex)).toBe('surfable');
+  });
+
+  it('aggregeringen räknar inte frånlandsvind som surftid', () => {
+    const intervals = Array.from({ length: 24 }, (_, i) => ({
+      force: 12,
+      forceMax: 14,
+      direction: i < 12 ? 80 : 300,
+      time: new Date(at(10).getTime() + i * 5 * 60 * 1000),
+    }));
+    const result = aggregateWindIntervals(intervals, '2026-06-15');
+    expect(result.surfableMinutes).toBe(60);
+    expect(result.windowFrom).toEqual(intervals[12].time);
+  });
+});
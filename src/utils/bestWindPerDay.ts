@@ -1,6 +1,6 @@
 import { format, startOfDay } from 'date-fns';
 import { sv } from 'date-fns/locale';
-import { getEffectiveLevelIndex } from '../config/windScale';
+import { DEFAULT_WIND_SCALE, getEffectiveLevelIndex, WindScale } from '../config/windScale';
 
 export interface WindSlot {
   time: Date;
@@ -23,10 +23,14 @@ export interface DayBest {
 
 /**
  * Bästa vindtillfället per dag enligt BESLUT 01 (docs/ux/BESLUT.md):
- * högst surfbarhetsnivå → vid lika högst medelvind → vid lika högst byvind.
+ * högst surfbarhetsnivå (riktningen räknas) → vid lika högst medelvind → vid lika högst byvind.
  * Dagar utan slots utelämnas.
  */
-export function getBestSlotPerDay(slots: WindSlot[], maxDays = 7): DayBest[] {
+export function getBestSlotPerDay(
+  slots: WindSlot[],
+  maxDays = 7,
+  scale: WindScale = DEFAULT_WIND_SCALE
+): DayBest[] {
   const byDay = new Map<string, WindSlot[]>();
 
   slots.forEach(slot => {
@@ -42,14 +46,14 @@ export function getBestSlotPerDay(slots: WindSlot[], maxDays = 7): DayBest[] {
     .slice(0, maxDays)
     .map(([dateKey, daySlots]) => {
       const best = daySlots.reduce((bestSoFar, current) => {
-        const bestLevel = getEffectiveLevelIndex(bestSoFar.avg, bestSoFar.gust);
-        const curLevel = getEffectiveLevelIndex(current.avg, current.gust);
+        const bestLevel = getEffectiveLevelIndex(bestSoFar.avg, bestSoFar.gust, scale, bestSoFar.dir);
+        const curLevel = getEffectiveLevelIndex(current.avg, current.gust, scale, current.dir);
         if (curLevel !== bestLevel) return curLevel > bestLevel ? current : bestSoFar;
         if (current.avg !== bestSoFar.avg) return current.avg > bestSoFar.avg ? current : bestSoFar;
         return current.gust > bestSoFar.gust ? current : bestSoFar;
       });
 
-      const levelIndex = getEffectiveLevelIndex(best.avg, best.gust);
+      const levelIndex = getEffectiveLevelIndex(best.avg, best.gust, scale, best.dir);
 
       return {
         date: startOfDay(best.time),
@@ -59,7 +63,7 @@ export function getBestSlotPerDay(slots: WindSlot[], maxDays = 7): DayBest[] {
           : format(best.time, 'EEE', { locale: sv }).replace('.', ''),
         slot: best,
         levelIndex,
-        gustDriven: levelIndex > getEffectiveLevelIndex(best.avg, 0),
+        gustDriven: levelIndex > getEffectiveLevelIndex(best.avg, 0, scale, best.dir),
       };
     });
 }
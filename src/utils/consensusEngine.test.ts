@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ForecastModel, WindPoint } from '../types/WindData';
+import { averageContributions, calculateConsensus, deriveSkillWeights, withoutSupersededHours } from './consensusEngine';
+import type { ModelVerification } from './forecastVerification';
+
+const TIME = '2026-09-01T12:00:00Z';
+
+function point(source: ForecastModel, wind: number, gust: number | null = wind + 4, dir: number | null = 270): WindPoint {
+  return { time: TIME, wind, gust, dir, source };
+}
+
+const HOUR = [
+  point(ForecastModel.MET_NORWAY, 8),
+  point(ForecastModel.ECMWF, 10),
+  point(ForecastModel.GFS, 11),
+  point(ForecastModel.ICON, 20, 26),
+];
+
+describe('calculateConsensus', () => {
+  it('median: snitt av de två mittersta och max av byarna', () => {
+    const [c] = calculateConsensus(HOUR.map(p => [p]), { method: 'median', trimFraction: 0.2 });
+    expect(c.wind).toBeCloseTo(10.5, 5);
+    expect(c.gust).toBe(26);
+    expect(c.contributors?.find(x => x.model === ForecastModel.ICON)?.weight).toBe(0);
+  });
+
+  it('trimmat medel rensar ytterligheterna i båda ändar', () => {
+    const [c] = calculateConsensus(HOUR.map(p => [p]), { method: 'trimmedMean', trimFraction: 0.25 });
+    expect(c.wind).toBeCloseTo(10.5, 5);
+    const kept = c.contributors?.filter(x => x.weight > 0).map(x => x.model);
+    expect(kept).toEqual([ForecastModel.ECMWF, ForecastModel.GFS]);
+  });
+
+  it('viktat medel följer vikterna och registrerar bidragen', () => {
+    const [c] = calculateConsensus(
+      [[point(ForecastModel.MET_NORWAY, 8)], [point(ForecastModel.ECMWF, 12)]],
+      { method: 'skillWeighted', trimFraction: 0.2, weights: { [ForecastModel.MET_NORWAY]: 3, [ForecastModel.ECMWF]: 1 } }
+    );
+    expect(c.wind).toBeCloseTo(9, 5);
+    expect(c.contributors).toEqual([
+      { model: ForecastModel.MET_NORWAY, weight: 0.75 },
+      { model: ForecastModel.ECMWF, weight: 0.25 },
+    ]);
+  });
+
+  it('viktat utan vikter faller tillbaka på median', () => {
+    const [c] = calculateConsensus(HOUR.map(p => [p]), { method: 'skillWeighted', trimFraction: 0.2, weights: null });
+    expect(c.wind).toBeCloseTo(10.5, 5);
+  });
+
+  it('riktning är cirkulärt medel runt norr', () => {
+    const [c] = calculateConsensus(
+      [[point(ForecastModel.MET_NORWAY, 10, 14, 350)], [point(ForecastModel.ECMWF, 10, 14, 10)]],
+      { method: 'trimmedMean', trimFraction: 0 }
+    );
+    expect(Math.min(c.dir!, 360 - c.dir!)).toBeLessThan(0.001);
+  });
+});
+
+describe('deriveSkillWeights', () => {
+  const score = (mae: number, count: number) => ({
+    count, bias: 0, mae, hitRate: null, falseAlarmRatio: null, surfableObserved: 0,
+  });
+
+  it('ger 1/MAE² och hoppar över modeller med för få timmar', () => {
+    const weights = deriveSkillWeights([
+      { model: ForecastModel.ECMWF, overall: score(1, 50), byLead: {} },
+      { model: ForecastModel.GFS, overall: score(2, 50), byLead: {} },
+      { model: ForecastModel.ICON, overall: score(1, 3), byLead: {} },
+    ] as ModelVerification[]);
+    expect(weights).toEqual({ [ForecastModel.ECMWF]: 1, [ForecastModel.GFS]: 0.25 });
+  });
+});
+
+describe('averageContributions', () => {
+  it('medelvikt per modell över flera timmar', () => {
+    const avg = averageContributions([
+      { ...point(ForecastModel.CONSENSUS, 10), contributors: [{ model: ForecastModel.ECMWF, weight: 1 }, { model: ForecastModel.GFS, weight: 0 }] },
+      { ...point(ForecastModel.CONSENSUS, 10), contributors: [{ model: ForecastModel.ECMWF, weight: 0 }, { model: ForecastModel.GFS, weight: 1 }] },
+    ]);
+    expect(avg).toEqual([
+      { model: ForecastModel.ECMWF, weight: 0.5 },
+      { model: ForecastModel.GFS, weight: 0.5 },
+    ]);
+  });
+});
+
+describe('withoutSupersededHours', () => {
+  const at = (source: ForecastModel, time: string, wind: number): WindPoint => ({ time, wind, gust: null, dir: 270, source });
+  const LATER = '2026-09-04T12:00:00Z';
+
+  it('räknar samma modelldata en gång där båda källorna har en punkt', () => {
+    const models = withoutSupersededHours(
+      {
+        [ForecastModel.MET_MEPS]: [at(ForecastModel.MET_MEPS, TIME, 8)],
+        [ForecastModel.MET_NORWAY]: [at(ForecastModel.MET_NORWAY, TIME, 8), at(ForecastModel.MET_NORWAY, LATER, 9)],
+        [ForecastModel.ECMWF]: [at(ForecastModel.ECMWF, TIME, 10)],
+      },
+      { [ForecastModel.MET_MEPS]: ForecastModel.MET_NORWAY }
+    );
+    const atTime = models.flat().filter(p => p.time === TIME).map(p => p.source);
+    expect(atTime).toEqual([ForecastModel.MET_MEPS, ForecastModel.ECMWF]);
+    expect(models.flat().find(p => p.time === LATER)?.source).toBe(ForecastModel.MET_NORWAY);
+  });
+});
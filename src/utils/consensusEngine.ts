@@ -0,0 +1,224 @@
+import { ConsensusContributor, ForecastModel, ForecastModelId, WindPoint } from '../types/WindData';
+import { CONSENSUS_CONFIG } from '../config/constants';
+import { spotStorageKey } from '../config/spots';
+import type { ModelVerification } from './forecastVerification';
+import { MIN_RANKED_PAIRS } from './forecastVerification';
+
+/**
+ * Consensus över prognosmodeller, per timme.
+ *
+ * - median: mittvärdet (en eller två modeller bär hela vikten)
+ * - trimmedMean: medel efter att ytterlighetsvärden rensats i båda ändar
+ * - skillWeighted: viktat medel, vikt ∝ 1/MAE² från verifieringen
+ *
+ * Byvind är alltid max av alla modeller (försiktigt — en modell som ser
+ * byar räcker). Riktning är viktat cirkulärt medel. Varje punkt bär med
+ * sig `contributors` så UI kan förklara vad consensus består av.
+ */
+
+export type ConsensusMethod = 'median' | 'trimmedMean' | 'skillWeighted';
+
+export interface ConsensusOptions {
+  method: ConsensusMethod;
+  trimFraction: number;
+  /** Vikt per modell (ej normaliserad); saknas modellen används medelvikten */
+  weights?: Partial<Record<ForecastModelId, number>> | null;
+}
+
+export const DEFAULT_CONSENSUS_OPTIONS: ConsensusOptions = {
+  method: CONSENSUS_CONFIG.method,
+  trimFraction: CONSENSUS_CONFIG.trimFraction,
+};
+
+export const CONSENSUS_METHOD_LABELS: Record<ConsensusMethod, string> = {
+  median: 'median',
+  trimmedMean: 'trimmat medel',
+  skillWeighted: 'viktat medel',
+};
+
+export const FORECAST_SKILL_STORAGE_KEY = 'kallifornia.forecastSkill.v1';
+
+/** Faktiskt använd metod — viktat kräver vikter, annars median som tidigare */
+export function resolveConsensusMethod(options: ConsensusOptions): ConsensusMethod {
+  if (options.method === 'skillWeighted' && (!options.weights || Object.keys(options.weights).length === 0)) {
+    return 'median';
+  }
+  return options.method;
+}
+
+function medianWeights(points: WindPoint[]): number[] {
+  const order = points.map((p, i) => ({ wind: p.wind, i })).sort((a, b) => a.wind - b.wind);
+  const weights = new Array(points.length).fill(0);
+  const mid = Math.floor(order.length / 2);
+  if (order.length % 2 === 1) {
+    weights[order[mid].i] = 1;
+  } else {
+    weights[order[mid - 1].i] = 0.5;
+    weights[order[mid].i] = 0.5;
+  }
+  return weights;
+}
+
+function trimmedWeights(points: WindPoint[], trimFraction: number): number[] {
+  const order = points.map((p, i) => ({ wind: p.wind, i })).sort((a, b) => a.wind - b.wind);
+  // Alltid minst en modell kvar
+  const trim = Math.min(Math.floor(points.length * trimFraction), Math.floor((points.length - 1) / 2));
+  const kept = order.slice(trim, order.length - trim);
+  const weights = new Array(points.length).fill(0);
+  kept.forEach(({ i }) => { weights[i] = 1 / kept.length; });
+  return weights;
+}
+
+function skillWeights(points: WindPoint[], weights: Partial<Record<ForecastModelId, number>>): number[] {
+  const known = Object.values(weights).filter((w): w is number => w != null && w > 0);
+  const fallback = known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 1;
+  const raw = points.map(p => weights[p.source] ?? fallback);
+  const total = raw.reduce((a, b) => a + b, 0);
+  return raw.map(w => (total > 0 ? w / total : 1 / points.length));
+}
+
+function weightedCircularMean(dirs: Array<{ dir: number; weight: number }>): number | null {
+  let x = 0;
+  let y = 0;
+  dirs.forEach(({ dir, weight }) => {
+    x += Math.cos((dir * Math.PI) / 180) * weight;
+    y += Math.sin((dir * Math.PI) / 180) * weight;
+  });
+  if (x === 0 && y === 0) return null;
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Källor som bär samma modelldata ska bara räknas en gång. `supersedes`
+ * (källa → källa den ersätter) tar bort den ersattas timmar där ersättaren
+ * har en punkt. Returnerar modellerna som har punkter kvar.
+ */
+export function withoutSupersededHours(
+  data: Record<string, WindPoint[]>,
+  supersedes: Partial<Record<ForecastModelId, ForecastModelId>>
+): WindPoint[][] {
+  const hidden = new Map<string, Set<string>>();
+  Object.entries(supersedes).forEach(([model, superseded]) => {
+    if (!superseded || !data[model]) return;
+    const times = hidden.get(superseded) ?? new Set<string>();
+    data[model].forEach(p => times.add(p.time));
+    hidden.set(superseded, times);
+  });
+
+  return Object.entries(data)
+    .map(([model, points]) => {
+      const times = hidden.get(model);
+      return times ? points.filter(p => !times.has(p.time)) : points;
+    })
+    .filter(points => points.length > 0);
+}
+
+/**
+ * Beräknar consensus från flera modellers timdata.
+ * Modeller utan punkt för en viss timme räknas inte in den timmen.
+ */
+export function calculateConsensus(
+  models: WindPoint[][],
+  options: ConsensusOptions = DEFAULT_CONSENSUS_OPTIONS
+): WindPoint[] {
+  if (models.length === 0) return [];
+  const method = resolveConsensusMethod(options);
+
+  // Gruppera alla punkter per timme
+  const timeMap = new Map<string, WindPoint[]>();
+  models.forEach(modelData => {
+    modelData.forEach(point => {
+      const list = timeMap.get(point.time);
+      if (list) list.push(point);
+      else timeMap.set(point.time, [point]);
+    });
+  });
+
+  const consensus: WindPoint[] = [];
+
+  timeMap.forEach((points, time) => {
+    const weights = method === 'median'
+      ? medianWeights(points)
+      : method === 'trimmedMean'
+        ? trimmedWeights(points, options.trimFraction)
+        : skillWeights(points, options.weights ?? {});
+
+    const wind = points.reduce((sum, p, i) => sum + p.wind * weights[i], 0);
+
+    const gusts = points.map(p => p.gust).filter((g): g is number => g !== null);
+    const gust = gusts.length > 0 ? Math.max(...gusts) : null;
+
+    // Riktning: bidragande modeller med sin vikt; alla lika om ingen bidragande har riktning
+    const weightedDirs = points
+      .map((p, i) => ({ dir: p.dir, weight: weights[i] }))
+      .filter((d): d is { dir: number; weight: number } => d.dir !== null && d.weight > 0);
+    const dir = weightedDirs.length > 0
+      ? weightedCircularMean(weightedDirs)
+      : weightedCircularMean(
+          points.filter(p => p.dir !== null).map(p => ({ dir: p.dir as number, weight: 1 }))
+        );
+
+    const contributors: ConsensusContributor[] = points.map((p, i) => ({
+      model: p.source,
+      weight: weights[i],
+    }));
+
+    consensus.push({
+      time,
+      wind,
+      gust,
+      dir,
+      source: ForecastModel.CONSENSUS,
+      runTimestamp: points[0].runTimestamp,
+      contributors,
+    });
+  });
+
+  return consensus.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Vikter från verifieringen: 1/MAE² för modeller med tillräckligt många
+ * matchade timmar. Normaliseras inte här — det görs per timme.
+ */
+export function deriveSkillWeights(verification: ModelVerification[]): Partial<Record<ForecastModelId, number>> {
+  const weights: Partial<Record<ForecastModelId, number>> = {};
+  verification.forEach(v => {
+    if (v.overall.count < MIN_RANKED_PAIRS) return;
+    const mae = Math.max(v.overall.mae, 0.3); // undvik extremvikt vid nästan perfekta serier
+    weights[v.model] = 1 / (mae * mae);
+  });
+  return weights;
+}
+
+/** Medelvikt per modell över ett urval consensuspunkter (t.ex. en dag) */
+export function averageContributions(points: WindPoint[]): ConsensusContributor[] {
+  const sums = new Map<ForecastModelId, number>();
+  let counted = 0;
+  points.forEach(p => {
+    if (!p.contributors) return;
+    counted++;
+    p.contributors.forEach(c => sums.set(c.model, (sums.get(c.model) ?? 0) + c.weight));
+  });
+  if (counted === 0) return [];
+  return Array.from(sums.entries())
+    .map(([model, sum]) => ({ model, weight: sum / counted }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+export function loadSkillWeights(spotId?: string): Partial<Record<ForecastModelId, number>> | null {
+  try {
+    const raw = localStorage.getItem(spotStorageKey(FORECAST_SKILL_STORAGE_KEY, spotId));
+    return raw ? (JSON.parse(raw) as Partial<Record<ForecastModelId, number>>) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSkillWeights(weights: Partial<Record<ForecastModelId, number>>, spotId?: string): void {
+  try {
+    localStorage.setItem(spotStorageKey(FORECAST_SKILL_STORAGE_KEY, spotId), JSON.stringify(weights));
+  } catch (e) {
+    console.warn('Forecast skill weights not saved', e);
+  }
+}
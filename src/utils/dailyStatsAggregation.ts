@@ -1,6 +1,14 @@
-import { parseISO } from 'date-fns';
-import { getEffectiveLevelIndex, WIND_SCALE_LEVELS } from '../config/windScale';
-import { isDaylightAtKallsjon } from './daylightCalculations';
+import { parseISO, startOfDay } from 'date-fns';
+import { getEffectiveLevelIndex, WIND_SCALE_LEVELS, WindScale } from '../config/windScale';
+import { DEFAULT_SPOT, SpotConfig } from '../config/spots';
+import { isDaylightAt } from './daylightCalculations';
+import { isExcludingFlag, QcPeriod, runWindQc } from './windQualityControl';
+import { intervalWeightsMs } from './seriesGaps';
+
+/** Under så stor andel av dagen med data räknas dagen som ofullständig */
+export const MIN_COVERAGE_PERCENT = 80;
+
+const DAY_MINUTES = 24 * 60;
 
 export const SURFABLE_LEVEL_INDEX = WIND_SCALE_LEVELS.findIndex((l) => l.id === 'surfable');
 
@@ -11,6 +19,25 @@ export interface WindInterval {
   time: Date;
 }
 
+export interface DailyQc {
+  periods: QcPeriod[];
+  /** Intervall med en ogiltigförklarande flagga (spike/stuck/gustBelowMean) */
+  flaggedCount: number;
+  /** true = de flaggade intervallen är uteslutna ur statistiken ovan */
+  excluded: boolean;
+}
+
+export interface AggregateOptions {
+  /** Utesluter intervall med spike/stuck/gustBelowMean */
+  excludeFlagged?: boolean;
+  /** Pågående dag: täckningen räknas bara fram till denna tidpunkt */
+  until?: Date;
+  /** Dagsljus och vindskala (standard Kallsjön) */
+  spot?: SpotConfig;
+  /** Annan skala än spotets, t.ex. en personlig profil */
+  scale?: WindScale;
+}
+
 export interface DailyStatsAggregation {
   date: string;
   year: number;
@@ -33,6 +60,12 @@ export interface DailyStatsAggregation {
   peakLevelIndexDaylight: number;
   windowFrom: Date | null;
   windowTo: Date | null;
+  /** Minuter av dygnet som täcks av mätningar (luckor > 15 min räknas inte) */
+  coveredMinutes: number;
+  /** coveredMinutes av dygnet (eller fram till `until`), 0–100 */
+  coveragePercent: number;
+  insufficientCoverage: boolean;
+  qc: DailyQc;
 }
 
 function round1(value: number): number {
@@ -41,24 +74,41 @@ function round1(value: number): number {
 
 /**
  * Aggregerar 5-minutersintervall till dagsstatistik.
- * Surfbarhet via getEffectiveLevelIndex — samma logik i script, klient och (framtida) Cloud Function.
+ * Surfbarhet via getEffectiveLevelIndex inkl. spotets riktningsprofil — samma logik i script,
+ * klient och (framtida) Cloud Function.
+ * Varje mätning väger den tid den täcker (seriesGaps.ts) — minuter och medel
+ * blir rätt även när stationen missat rapporter.
+ * QC körs alltid (se windQualityControl.ts); med excludeFlagged räknas bara giltiga värden.
+ * Är alla värden flaggade blir dagen tom (0 m/s, inte surfbar) — hellre det än en falsk surfdag.
  */
 export function aggregateWindIntervals(
   intervals: WindInterval[],
-  dateStr: string
+  dateStr: string,
+  options: AggregateOptions = {}
 ): DailyStatsAggregation {
   if (intervals.length === 0) {
     throw new Error(`No wind intervals for ${dateStr}`);
   }
 
-  const sorted = [...intervals].sort((a, b) => a.time.getTime() - b.time.getTime());
+  const all = [...intervals].sort((a, b) => a.time.getTime() - b.time.getTime());
+  const qcResult = runWindQc(all);
+  const invalid = qcResult.flags.map(flags => flags.some(isExcludingFlag));
+  const excluded = options.excludeFlagged === true;
+  const spot = options.spot ?? DEFAULT_SPOT;
+  const scale = options.scale ?? spot.windScale;
+  const allWeights = intervalWeightsMs(all.map(i => i.time.getTime()));
+  const keep = (_: unknown, i: number) => !excluded || !invalid[i];
+  const sorted = all.filter(keep);
+  const weights = allWeights.filter(keep);
+  const firstTime = all[0].time;
 
   let maxForce = 0;
-  let maxForceTime = sorted[0].time;
+  let maxForceTime = firstTime;
   let maxForceDirection = 0;
   let maxGust = 0;
-  let maxGustTime = sorted[0].time;
+  let maxGustTime = firstTime;
   let sumForce = 0;
+  let sumWeight = 0;
   let minForce = Infinity;
   let hasDaylightWind10Plus = false;
 
@@ -69,12 +119,13 @@ export function aggregateWindIntervals(
   let windowFrom: Date | null = null;
   let windowTo: Date | null = null;
 
-  for (const interval of sorted) {
+  sorted.forEach((interval, i) => {
+    const minutes = weights[i] / 60000;
     const force = interval.force || 0;
     const gust = interval.forceMax ?? force;
     const { time: measurementTime } = interval;
-    const levelIndex = getEffectiveLevelIndex(force, gust);
-    const daylight = isDaylightAtKallsjon(measurementTime);
+    const levelIndex = getEffectiveLevelIndex(force, gust, scale, interval.direction);
+    const daylight = isDaylightAt(measurementTime, spot);
     const surfable = levelIndex >= SURFABLE_LEVEL_INDEX;
 
     if (force > maxForce) {
@@ -93,7 +144,8 @@ export function aggregateWindIntervals(
     }
 
     if (force < minForce) minForce = force;
-    sumForce += force;
+    sumForce += force * minutes;
+    sumWeight += minutes;
 
     if (levelIndex > peakLevelIndex) peakLevelIndex = levelIndex;
     if (daylight && levelIndex > peakLevelIndexDaylight) {
@@ -101,16 +153,23 @@ export function aggregateWindIntervals(
     }
 
     if (surfable) {
-      surfableMinutes += 5;
+      surfableMinutes += minutes;
       if (!windowFrom) windowFrom = measurementTime;
       windowTo = measurementTime;
-      if (daylight) surfableMinutesDaylight += 5;
+      if (daylight) surfableMinutesDaylight += minutes;
     }
-  }
+  });
 
-  const avgForce = sumForce / sorted.length;
+  const avgForce = sumWeight > 0 ? sumForce / sumWeight : 0;
   const parsedDate = parseISO(dateStr);
 
+  // Täckning räknas på alla mätningar — även flaggade visar att stationen rapporterade
+  const coveredMinutes = Math.round(allWeights.reduce((sum, w) => sum + w, 0) / 60000);
+  const expectedMinutes = options.until
+    ? Math.min(DAY_MINUTES, Math.max(1, (options.until.getTime() - startOfDay(parsedDate).getTime()) / 60000))
+    : DAY_MINUTES;
+  const coveragePercent = Math.min(100, Math.round((coveredMinutes / expectedMinutes) * 100));
+
   return {
     date: dateStr,
     year: parsedDate.getFullYear(),
@@ -127,11 +186,19 @@ export function aggregateWindIntervals(
     hasGaleForce: maxForce >= 15,
     hasDaylightWind10Plus,
     isSurfableDay: surfableMinutes > 0,
-    surfableMinutes,
-    surfableMinutesDaylight,
+    surfableMinutes: Math.round(surfableMinutes),
+    surfableMinutesDaylight: Math.round(surfableMinutesDaylight),
     peakLevelIndex,
     peakLevelIndexDaylight,
     windowFrom,
     windowTo,
+    coveredMinutes,
+    coveragePercent,
+    insufficientCoverage: coveragePercent < MIN_COVERAGE_PERCENT,
+    qc: {
+      periods: qcResult.periods,
+      flaggedCount: invalid.filter(Boolean).length,
+      excluded,
+    },
   };
 }
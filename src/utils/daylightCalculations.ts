@@ -1,24 +1,25 @@
 import SunCalc from 'suncalc';
+import { DEFAULT_SPOT } from '../config/spots';
 
-/**
- * Källsjön coordinates
- */
-export const KALLSJON_LAT = 63.637993;
-export const KALLSJON_LON = 13.033151;
+/** Koordinater för soltider — ett spot duger (lat/lon) */
+export interface DaylightCoords {
+    lat: number;
+    lon: number;
+}
 
 /**
- * Check if a specific time is during daylight hours at Källsjön
+ * Check if a specific time is during daylight hours at the spot (default Källsjön)
  */
-export function isDaylightAtKallsjon(date: Date): boolean {
-    const times = SunCalc.getTimes(date, KALLSJON_LAT, KALLSJON_LON);
+export function isDaylightAt(date: Date, coords: DaylightCoords = DEFAULT_SPOT): boolean {
+    const times = SunCalc.getTimes(date, coords.lat, coords.lon);
     return date >= times.sunrise && date <= times.sunset;
 }
 
 /**
- * Get sunrise and sunset times for a specific date at Källsjön
+ * Get sunrise and sunset times for a specific date at the spot
  */
-export function getSunTimesForKallsjon(date: Date) {
-    const times = SunCalc.getTimes(date, KALLSJON_LAT, KALLSJON_LON);
+export function getSunTimesAt(date: Date, coords: DaylightCoords = DEFAULT_SPOT) {
+    const times = SunCalc.getTimes(date, coords.lat, coords.lon);
     return {
         sunrise: times.sunrise,
         sunset: times.sunset,
@@ -30,15 +31,15 @@ export function getSunTimesForKallsjon(date: Date) {
  * Check if the max wind for a day occurred during daylight
  * Used for filtering "surfable in daylight" days
  */
-export function isMaxWindDuringDaylight(maxForceTime: Date): boolean {
-    return isDaylightAtKallsjon(maxForceTime);
+export function isMaxWindDuringDaylight(maxForceTime: Date, coords: DaylightCoords = DEFAULT_SPOT): boolean {
+    return isDaylightAt(maxForceTime, coords);
 }
 
 /**
  * Get daylight hours for a specific date (for display purposes)
  */
-export function getDaylightHours(date: Date): number {
-    const { daylightDuration } = getSunTimesForKallsjon(date);
+export function getDaylightHours(date: Date, coords: DaylightCoords = DEFAULT_SPOT): number {
+    const { daylightDuration } = getSunTimesAt(date, coords);
     return daylightDuration / (1000 * 60 * 60); // Convert ms to hours
 }
 
@@ -46,7 +47,7 @@ export function getDaylightHours(date: Date): number {
  * Check if a day has reasonable daylight for surfing (> 6 hours)
  * Helps exclude deep winter days with very short daylight
  */
-export function hasReasonableDaylight(date: Date): boolean {
-    const hours = getDaylightHours(date);
+export function hasReasonableDaylight(date: Date, coords: DaylightCoords = DEFAULT_SPOT): boolean {
+    const hours = getDaylightHours(date, coords);
     return hours > 6;
 }
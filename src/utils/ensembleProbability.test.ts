@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { EnsembleMember, hourlySurfableProbability, surfableProbabilityInWindow } from './ensembleProbability';
+import { getSpot } from '../config/spots';
+
+const T0 = Date.parse('2026-09-01T10:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const TIMES = [T0, T0 + HOUR, T0 + 2 * HOUR];
+
+function member(wind: Array<number | null>, gust: Array<number | null> = wind.map(() => null)): EnsembleMember {
+  return { model: 'TEST', times: TIMES, wind, gust };
+}
+
+describe('hourlySurfableProbability', () => {
+  it('andel medlemmar som når surfbart per timme', () => {
+    const hours = hourlySurfableProbability([
+      member([11, 4, 4]),
+      member([5, 4, 4]),
+      member([12, 11, 4]),
+      member([4, 4, 4]),
+    ]);
+    expect(hours.map(h => h.probability)).toEqual([0.5, 0.25, 0]);
+    expect(hours[0].memberCount).toBe(4);
+  });
+
+  it('byregeln räknas; saknad by bedöms på medelvind', () => {
+    const [hour] = hourlySurfableProbability([
+      member([7, 7, 7], [16, 16, 16]),
+      member([7, 7, 7]),
+    ]);
+    expect(hour.probability).toBe(0.5);
+  });
+
+  it('följer spotets skala — 10 m/s räcker inte i Åresjön', () => {
+    const members = [member([10, 10, 10]), member([12, 12, 12])];
+    const [kallsjon] = hourlySurfableProbability(members, getSpot('kallsjon').windScale);
+    const [aresjon] = hourlySurfableProbability(members, getSpot('aresjon').windScale);
+    expect(kallsjon.probability).toBe(1);
+    expect(aresjon.probability).toBe(0.5);
+  });
+});
+
+describe('surfableProbabilityInWindow', () => {
+  it('räknar per medlem — inte max av timsannolikheterna', () => {
+    const members = [member([11, 4, 4]), member([4, 11, 4]), member([4, 4, 4])];
+    const p = surfableProbabilityInWindow(members, new Date(T0), new Date(T0 + 3 * HOUR));
+    expect(p).toBeCloseTo(2 / 3, 5);
+  });
+
+  it('null när ingen medlem har data i fönstret', () => {
+    expect(surfableProbabilityInWindow([member([null, null, null])], new Date(T0), new Date(T0 + HOUR))).toBeNull();
+  });
+});
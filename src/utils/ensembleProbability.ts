@@ -0,0 +1,98 @@
+import { DEFAULT_WIND_SCALE, getEffectiveLevelIndex, WindScale } from '../config/windScale';
+import { SURFABLE_LEVEL_INDEX } from './dailyStatsAggregation';
+
+/**
+ * Sannolikhet för surfbart ur ensembleprognoser. Varje medlem är en
+ * möjlig utveckling; andelen medlemmar som når Surfbart (samma by-regel som
+ * överallt via getEffectiveLevelIndex) är sannolikheten. Medlemmar från
+ * olika modeller räknas lika.
+ */
+
+export interface EnsembleMember {
+  /** Ensemblemodellens visningsnamn, t.ex. "ECMWF ENS" */
+  model: string;
+  /** Epoch ms per timme (delas mellan medlemmar i samma modell) */
+  times: number[];
+  wind: Array<number | null>;
+  /** null = modellen saknar byvind — nivån bedöms då på medelvind */
+  gust: Array<number | null>;
+}
+
+export interface HourlyProbability {
+  time: Date;
+  /** 0–1 */
+  probability: number;
+  memberCount: number;
+}
+
+function isSurfable(wind: number, gust: number | null, scale: WindScale): boolean {
+  return getEffectiveLevelIndex(wind, gust ?? wind, scale) >= SURFABLE_LEVEL_INDEX;
+}
+
+/** Andel medlemmar som är surfbara, per timme */
+export function hourlySurfableProbability(
+  members: EnsembleMember[],
+  scale: WindScale = DEFAULT_WIND_SCALE
+): HourlyProbability[] {
+  const byHour = new Map<number, { surfable: number; total: number }>();
+
+  members.forEach(member => {
+    member.times.forEach((time, i) => {
+      const wind = member.wind[i];
+      if (wind == null) return;
+      const entry = byHour.get(time) ?? { surfable: 0, total: 0 };
+      entry.total++;
+      if (isSurfable(wind, member.gust[i], scale)) entry.surfable++;
+      byHour.set(time, entry);
+    });
+  });
+
+  return Array.from(byHour.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([time, { surfable, total }]) => ({
+      time: new Date(time),
+      probability: surfable / total,
+      memberCount: total,
+    }));
+}
+
+/**
+ * Andel medlemmar med minst en surfbar timme i [start, end) — t.ex. en dag.
+ * Räknas per medlem, inte som max av timsannolikheterna: två timmar med
+ * 50 % vardera kan vara samma eller olika medlemmar.
+ * null om ingen medlem har data i fönstret.
+ */
+export function surfableProbabilityInWindow(
+  members: EnsembleMember[],
+  start: Date,
+  end: Date,
+  scale: WindScale = DEFAULT_WIND_SCALE
+): number | null {
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+  let counted = 0;
+  let surfable = 0;
+
+  members.forEach(member => {
+    let hasData = false;
+    let hit = false;
+    for (let i = 0; i < member.times.length; i++) {
+      const time = member.times[i];
+      const wind = member.wind[i];
+      if (time < startMs || time >= endMs || wind == null) continue;
+      hasData = true;
+      if (isSurfable(wind, member.gust[i], scale)) {
+        hit = true;
+        break;
+      }
+    }
+    if (hasData) counted++;
+    if (hit) surfable++;
+  });
+
+  return counted > 0 ? surfable / counted : null;
+}
+
+export function formatProbability(probability: number): string {
+  return `${Math.round(probability * 100)} %`;
+}
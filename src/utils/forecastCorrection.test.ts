@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { ForecastModel, WindPoint } from '../types/WindData';
+import type { ForecastPair } from './forecastVerification';
+import { applyForecastCorrections, isCorrectionStale, trainForecastCorrections } from './forecastCorrection';
+
+const RUN = Date.parse('2026-09-01T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+/** Par där observationen = prognos × factor + offset för given riktning */
+function pairs(count: number, dir: number, factor: number, offset = 0, leadHours = 3): ForecastPair[] {
+  return Array.from({ length: count }, (_, i) => {
+    const forecastWind = 4 + (i % 10);
+    return {
+      model: ForecastModel.ECMWF,
+      runTime: RUN,
+      validTime: RUN + leadHours * HOUR,
+      leadHours,
+      forecastWind,
+      forecastGust: forecastWind + 4,
+      forecastDir: dir,
+      observedWind: forecastWind * factor + offset,
+      observedGust: forecastWind * factor + 4,
+      observedDir: dir,
+    };
+  });
+}
+
+function point(wind: number, dir: number, leadHours = 3): WindPoint {
+  return {
+    time: new Date(RUN + leadHours * HOUR).toISOString(),
+    wind,
+    gust: wind * 1.5,
+    dir,
+    source: ForecastModel.ECMWF,
+    runTimestamp: new Date(RUN).toISOString(),
+  };
+}
+
+describe('trainForecastCorrections (linjär)', () => {
+  it('lär sig olika korrigering per riktning', () => {
+    const corrections = trainForecastCorrections([...pairs(30, 270, 1.2), ...pairs(30, 180, 0.8)]);
+    const [west] = applyForecastCorrections([point(10, 270)], ForecastModel.ECMWF, corrections);
+    const [south] = applyForecastCorrections([point(10, 180)], ForecastModel.ECMWF, corrections);
+
+    expect(west.wind).toBeCloseTo(12, 5);
+    expect(south.wind).toBeCloseTo(8, 5);
+  });
+
+  it('behåller byfaktorn när medelvinden skalas', () => {
+    const corrections = trainForecastCorrections(pairs(30, 270, 1.2));
+    const [west] = applyForecastCorrections([point(10, 270)], ForecastModel.ECMWF, corrections);
+    expect(west.gust! / west.wind).toBeCloseTo(1.5, 5);
+  });
+
+  it('faller tillbaka på modellnivå för riktningar utan egna par', () => {
+    const corrections = trainForecastCorrections(pairs(30, 270, 1, 1));
+    const [north] = applyForecastCorrections([point(10, 0)], ForecastModel.ECMWF, corrections);
+    expect(north.wind).toBeCloseTo(11, 5);
+  });
+
+  it('lämnar värdena orörda när det finns för få par', () => {
+    const corrections = trainForecastCorrections(pairs(5, 270, 1.5));
+    const [west] = applyForecastCorrections([point(10, 270)], ForecastModel.ECMWF, corrections);
+    expect(west.wind).toBe(10);
+  });
+
+  it('lämnar andra modeller orörda', () => {
+    const corrections = trainForecastCorrections(pairs(30, 270, 1.2));
+    const [icon] = applyForecastCorrections([point(10, 270)], ForecastModel.ICON, corrections);
+    expect(icon.wind).toBe(10);
+  });
+});
+
+describe('trainForecastCorrections (kvantil)', () => {
+  it('mappar prognosens fördelning på observationernas', () => {
+    const corrections = trainForecastCorrections(pairs(40, 270, 1, 2), 'quantile');
+    const [west] = applyForecastCorrections([point(8, 270)], ForecastModel.ECMWF, corrections);
+    expect(west.wind).toBeCloseTo(10, 5);
+  });
+});
+
+describe('isCorrectionStale', () => {
+  const trainedAt = new Date(RUN);
+  const corrections = trainForecastCorrections(pairs(30, 270, 1.2), 'linear', trainedAt);
+
+  it('färsk med samma metod', () => {
+    expect(isCorrectionStale(corrections, new Date(RUN + HOUR), 'linear')).toBe(false);
+  });
+
+  it('byte av metod kräver omträning', () => {
+    expect(isCorrectionStale(corrections, new Date(RUN + HOUR), 'quantile')).toBe(true);
+  });
+});
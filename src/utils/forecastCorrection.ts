@@ -0,0 +1,243 @@
+import { ForecastModelId, WindPoint } from '../types/WindData';
+import { spotStorageKey } from '../config/spots';
+import { degreesToSector8, WindSector8 } from './windDirection8';
+import { ForecastPair, getLeadBucket } from './forecastVerification';
+
+/**
+ * Statistisk efterkorrigering (MOS) av modellvind vid Kallsjön.
+ * Terrängen kanaliserar vinden olika beroende på riktning, så varje modell
+ * får en egen korrigering per 8-sektor (prognosens riktning) och ledtidsblock.
+ *
+ * Sitter mellan adaptrarna och consensus i useForecastModels. Tränas från
+ * samma prognos/observationspar som verifieringen.
+ */
+
+export type ForecastCorrectionMethod = 'linear' | 'quantile';
+export type ForecastCorrectionMode = 'raw' | 'corrected';
+
+export const FORECAST_CORRECTIONS_STORAGE_KEY = 'kallifornia.forecastCorrections.v1';
+export const FORECAST_CORRECTION_MODE_STORAGE_KEY = 'kallifornia.forecastCorrectionMode.v1';
+export const FORECAST_CORRECTION_METHOD_STORAGE_KEY = 'kallifornia.forecastCorrectionMethod.v1';
+
+/** Standardmetod — linjär är robust med få par; kvantil kräver fler */
+export const DEFAULT_CORRECTION_METHOD: ForecastCorrectionMethod = 'linear';
+
+/** Minst så många par per nyckel innan korrigeringen används */
+const MIN_PAIRS = 24;
+/** Linjär lutning hålls inom rimliga gränser så glesa data inte ger extremer */
+const SLOPE_RANGE: [number, number] = [0.5, 1.5];
+const QUANTILE_STEPS = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type CorrectionEntry =
+  | { kind: 'linear'; n: number; intercept: number; slope: number }
+  | { kind: 'quantile'; n: number; forecastQ: number[]; observedQ: number[] };
+
+export interface ForecastCorrections {
+  method: ForecastCorrectionMethod;
+  trainedAt: string;
+  pairCount: number;
+  /** Nyckel: `model|sektor|ledtid`, `model|sektor|*` eller `model|*|*` */
+  entries: Record<string, CorrectionEntry>;
+}
+
+const keyFor = (model: string, sector: WindSector8 | '*', lead: string) => `${model}|${sector}|${lead}`;
+
+function fitLinear(pairs: ForecastPair[]): CorrectionEntry {
+  const n = pairs.length;
+  const meanX = pairs.reduce((s, p) => s + p.forecastWind, 0) / n;
+  const meanY = pairs.reduce((s, p) => s + p.observedWind, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  pairs.forEach(p => {
+    sxx += (p.forecastWind - meanX) ** 2;
+    sxy += (p.forecastWind - meanX) * (p.observedWind - meanY);
+  });
+
+  const rawSlope = sxx > 0 ? sxy / sxx : 1;
+  const slope = Math.min(SLOPE_RANGE[1], Math.max(SLOPE_RANGE[0], rawSlope));
+  return { kind: 'linear', n, intercept: meanY - slope * meanX, slope };
+}
+
+function quantiles(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  return Array.from({ length: QUANTILE_STEPS + 1 }, (_, i) => {
+    const pos = (i / QUANTILE_STEPS) * (sorted.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+  });
+}
+
+function fitQuantile(pairs: ForecastPair[]): CorrectionEntry {
+  return {
+    kind: 'quantile',
+    n: pairs.length,
+    forecastQ: quantiles(pairs.map(p => p.forecastWind)),
+    observedQ: quantiles(pairs.map(p => p.observedWind)),
+  };
+}
+
+function applyEntry(entry: CorrectionEntry, wind: number): number {
+  if (entry.kind === 'linear') {
+    return Math.max(0, entry.intercept + entry.slope * wind);
+  }
+
+  // Kvantilmappning: prognosens plats i sin fördelning → samma plats i observationernas.
+  // Utanför tränat spann förskjuts värdet med ändpunktens skillnad.
+  const { forecastQ: fq, observedQ: oq } = entry;
+  const last = fq.length - 1;
+  if (wind <= fq[0]) return Math.max(0, wind + (oq[0] - fq[0]));
+  if (wind >= fq[last]) return Math.max(0, wind + (oq[last] - fq[last]));
+
+  for (let i = 1; i <= last; i++) {
+    if (wind <= fq[i]) {
+      const span = fq[i] - fq[i - 1];
+      const t = span > 0 ? (wind - fq[i - 1]) / span : 0;
+      return oq[i - 1] + (oq[i] - oq[i - 1]) * t;
+    }
+  }
+  return wind;
+}
+
+/**
+ * Tränar korrigeringar från verifieringspar. Nycklar med för få par hoppas
+ * över; vid användning faller vi tillbaka sektor → modell → ingen korrigering.
+ */
+export function trainForecastCorrections(
+  pairs: ForecastPair[],
+  method: ForecastCorrectionMethod = DEFAULT_CORRECTION_METHOD,
+  trainedAt: Date = new Date()
+): ForecastCorrections {
+  const groups = new Map<string, ForecastPair[]>();
+  const add = (key: string, pair: ForecastPair) => {
+    const list = groups.get(key);
+    if (list) list.push(pair);
+    else groups.set(key, [pair]);
+  };
+
+  pairs.forEach(pair => {
+    const lead = getLeadBucket(pair.leadHours);
+    add(keyFor(pair.model, '*', '*'), pair);
+    if (pair.forecastDir == null) return;
+    const sector = degreesToSector8(pair.forecastDir);
+    add(keyFor(pair.model, sector, '*'), pair);
+    if (lead) add(keyFor(pair.model, sector, lead.id), pair);
+  });
+
+  const fit = method === 'quantile' ? fitQuantile : fitLinear;
+  const entries: Record<string, CorrectionEntry> = {};
+  groups.forEach((group, key) => {
+    if (group.length >= MIN_PAIRS) entries[key] = fit(group);
+  });
+
+  return { method, trainedAt: trainedAt.toISOString(), pairCount: pairs.length, entries };
+}
+
+function findEntry(
+  corrections: ForecastCorrections,
+  model: string,
+  dir: number | null,
+  leadHours: number
+): CorrectionEntry | null {
+  const lead = getLeadBucket(leadHours);
+  if (dir != null) {
+    const sector = degreesToSector8(dir);
+    if (lead && corrections.entries[keyFor(model, sector, lead.id)]) {
+      return corrections.entries[keyFor(model, sector, lead.id)];
+    }
+    if (corrections.entries[keyFor(model, sector, '*')]) {
+      return corrections.entries[keyFor(model, sector, '*')];
+    }
+  }
+  return corrections.entries[keyFor(model, '*', '*')] ?? null;
+}
+
+/**
+ * Korrigerar en modells punkter. Byvinden skalas med samma faktor som
+ * medelvinden så byfaktorn behålls. `fetchedAt` används som körningstid
+ * när källan saknar runTimestamp.
+ */
+export function applyForecastCorrections(
+  points: WindPoint[],
+  model: ForecastModelId,
+  corrections: ForecastCorrections,
+  fetchedAt: Date = new Date()
+): WindPoint[] {
+  return points.map(point => {
+    const runTime = point.runTimestamp ? Date.parse(point.runTimestamp) : fetchedAt.getTime();
+    const leadHours = Math.max(0, (Date.parse(point.time) - runTime) / HOUR_MS);
+    const entry = findEntry(corrections, model, point.dir, leadHours);
+    if (!entry) return point;
+
+    const wind = applyEntry(entry, point.wind);
+    const gust = point.gust == null
+      ? null
+      : point.wind > 0.5
+        ? Math.max(wind, point.gust * (wind / point.wind))
+        : point.gust + (wind - point.wind);
+
+    return { ...point, wind, gust };
+  });
+}
+
+export function loadForecastCorrections(spotId?: string): ForecastCorrections | null {
+  try {
+    const raw = localStorage.getItem(spotStorageKey(FORECAST_CORRECTIONS_STORAGE_KEY, spotId));
+    return raw ? (JSON.parse(raw) as ForecastCorrections) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveForecastCorrections(corrections: ForecastCorrections, spotId?: string): void {
+  try {
+    localStorage.setItem(spotStorageKey(FORECAST_CORRECTIONS_STORAGE_KEY, spotId), JSON.stringify(corrections));
+  } catch (e) {
+    console.warn('Forecast corrections not saved', e);
+  }
+}
+
+/** Omträning behövs om korrigeringen saknas, är äldre än ett dygn eller tränats med en annan metod */
+export function isCorrectionStale(
+  corrections: ForecastCorrections | null,
+  now: Date = new Date(),
+  method: ForecastCorrectionMethod = DEFAULT_CORRECTION_METHOD
+): boolean {
+  if (!corrections || corrections.method !== method) return true;
+  return now.getTime() - Date.parse(corrections.trainedAt) > 24 * HOUR_MS;
+}
+
+export function loadCorrectionMode(): ForecastCorrectionMode {
+  try {
+    return localStorage.getItem(FORECAST_CORRECTION_MODE_STORAGE_KEY) === 'corrected' ? 'corrected' : 'raw';
+  } catch {
+    return 'raw';
+  }
+}
+
+export function saveCorrectionMode(mode: ForecastCorrectionMode): void {
+  try {
+    localStorage.setItem(FORECAST_CORRECTION_MODE_STORAGE_KEY, mode);
+  } catch {
+    // Privat läge — valet gäller bara sessionen
+  }
+}
+
+export function loadCorrectionMethod(): ForecastCorrectionMethod {
+  try {
+    return localStorage.getItem(FORECAST_CORRECTION_METHOD_STORAGE_KEY) === 'quantile' ? 'quantile' : DEFAULT_CORRECTION_METHOD;
+  } catch {
+    return DEFAULT_CORRECTION_METHOD;
+  }
+}
+
+export function saveCorrectionMethod(method: ForecastCorrectionMethod): void {
+  try {
+    localStorage.setItem(FORECAST_CORRECTION_METHOD_STORAGE_KEY, method);
+  } catch {
+    // Privat läge — valet gäller bara sessionen
+  }
+}
@@ -0,0 +1,193 @@
+import LZString from 'lz-string';
+import { WindPoint, ForecastModel, ForecastModelId } from '../types/WindData';
+import { spotStorageKey } from '../config/spots';
+
+/**
+ * Arkiv över hämtade prognoskörningar — grunden för verifiering mot
+ * observerad vind. En körning = modell + runTimestamp.
+ *
+ * Lagras komprimerat i localStorage. Bara de första 72 timmarna sparas,
+ * senaste dygnen sparas varje distinkt körning, äldre tunnas ut till en
+ * per modell och 6-timmarsblock. Ett arkiv per spot (`spotStorageKey`).
+ */
+
+export const FORECAST_RUNS_STORAGE_KEY = 'kallifornia.forecastRuns.v1';
+
+const HOUR_MS = 60 * 60 * 1000;
+export const MAX_ARCHIVED_LEAD_HOURS = 72;
+const RETENTION_DAYS = 10;
+const DENSE_RETENTION_HOURS = 48;
+const THINNED_BUCKET_HOURS = 6;
+/** Så många gemensamma timmar krävs för att två serier ska räknas som samma körning */
+const MIN_SAME_RUN_OVERLAP = 6;
+
+/** Punkt i kompakt form: [timme från körningens start, vind, by, riktning] */
+type CompactPoint = [number, number, number | null, number | null];
+
+interface StoredRun {
+  model: ForecastModelId;
+  /** Körningens tidpunkt (ms) — runTimestamp eller hämtningstimmen om källan saknar den */
+  run: number;
+  fetchedAt: number;
+  points: CompactPoint[];
+}
+
+export interface ArchivedRun {
+  model: ForecastModelId;
+  runTime: Date;
+  fetchedAt: Date;
+  points: WindPoint[];
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function readStoredRuns(spotId?: string): StoredRun[] {
+  try {
+    const raw = localStorage.getItem(spotStorageKey(FORECAST_RUNS_STORAGE_KEY, spotId));
+    if (!raw) return [];
+    const json = LZString.decompressFromUTF16(raw);
+    return json ? (JSON.parse(json) as StoredRun[]) : [];
+  } catch (e) {
+    console.warn('Forecast run archive unreadable, starting over', e);
+    return [];
+  }
+}
+
+function writeStoredRuns(runs: StoredRun[], spotId?: string): void {
+  try {
+    localStorage.setItem(spotStorageKey(FORECAST_RUNS_STORAGE_KEY, spotId), LZString.compressToUTF16(JSON.stringify(runs)));
+  } catch (e) {
+    console.warn('Forecast run archive not saved', e);
+  }
+}
+
+/** Körningens tidpunkt: källans runTimestamp, annars hämtningstimmen (Open-Meteo) */
+function resolveRunTime(points: WindPoint[], fetchedAt: Date): number {
+  const stamp = points.find(p => p.runTimestamp)?.runTimestamp;
+  const parsed = stamp ? Date.parse(stamp) : NaN;
+  if (Number.isFinite(parsed)) return parsed;
+  return Math.floor(fetchedAt.getTime() / HOUR_MS) * HOUR_MS;
+}
+
+function toStoredRun(model: ForecastModelId, points: WindPoint[], fetchedAt: Date): StoredRun | null {
+  const run = resolveRunTime(points, fetchedAt);
+  const horizonEnd = run + MAX_ARCHIVED_LEAD_HOURS * HOUR_MS;
+
+  const compact: CompactPoint[] = [];
+  for (const p of points) {
+    const t = Date.parse(p.time);
+    if (t < run || t > horizonEnd) continue;
+    compact.push([
+      Math.round((t - run) / HOUR_MS),
+      round1(p.wind),
+      p.gust != null ? round1(p.gust) : null,
+      p.dir != null ? Math.round(p.dir) : null,
+    ]);
+  }
+
+  return compact.length > 0 ? { model, run, fetchedAt: fetchedAt.getTime(), points: compact } : null;
+}
+
+/**
+ * Samma värden vid samma giltighetstid = samma körning. Jämförs på absolut
+ * tid: utan runTimestamp startar varje hämtning på sin egen timme, så samma
+ * Open-Meteo-körning hämtad en timme senare är förskjuten ett steg.
+ */
+export function isSameRun(a: Pick<StoredRun, 'run' | 'points'>, b: Pick<StoredRun, 'run' | 'points'>): boolean {
+  const byTime = new Map(a.points.map(p => [a.run + p[0] * HOUR_MS, p]));
+  let overlap = 0;
+  for (const p of b.points) {
+    const other = byTime.get(b.run + p[0] * HOUR_MS);
+    if (!other) continue;
+    if (other[1] !== p[1] || other[2] !== p[2] || other[3] !== p[3]) return false;
+    overlap++;
+  }
+  return overlap >= Math.min(MIN_SAME_RUN_OVERLAP, a.points.length, b.points.length);
+}
+
+/**
+ * Gallring: allt äldre än 10 dygn bort; äldre än 48 h behålls en körning
+ * (den senaste) per modell och 6-timmarsblock. Ren funktion — testbar.
+ */
+export function pruneStoredRuns<T extends { model: string; run: number }>(runs: T[], now: Date = new Date()): T[] {
+  const oldest = now.getTime() - RETENTION_DAYS * 24 * HOUR_MS;
+  const denseFrom = now.getTime() - DENSE_RETENTION_HOURS * HOUR_MS;
+
+  const kept: T[] = [];
+  const thinned = new Map<string, T>();
+
+  runs.forEach(run => {
+    if (run.run < oldest) return;
+    if (run.run >= denseFrom) {
+      kept.push(run);
+      return;
+    }
+    const bucket = Math.floor(run.run / (THINNED_BUCKET_HOURS * HOUR_MS));
+    const key = `${run.model}_${bucket}`;
+    const existing = thinned.get(key);
+    if (!existing || run.run > existing.run) thinned.set(key, run);
+  });
+
+  return [...thinned.values(), ...kept].sort((a, b) => a.run - b.run);
+}
+
+/** Körning som just sparades — hela horisonten, för körningshistoriken */
+export interface NewForecastRun {
+  model: ForecastModelId;
+  runTime: Date;
+  points: WindPoint[];
+}
+
+/**
+ * Sparar en hämtningsomgång. Körningar som redan finns (samma modell +
+ * tidpunkt, eller identiska värden som modellens senaste) hoppas över.
+ * Returnerar de körningar som var nya.
+ */
+export function archiveForecastRuns(
+  runs: Array<{ model: ForecastModelId; points: WindPoint[] }>,
+  fetchedAt: Date = new Date(),
+  spotId?: string
+): NewForecastRun[] {
+  if (runs.length === 0) return [];
+
+  const stored = readStoredRuns(spotId);
+  const added: NewForecastRun[] = [];
+
+  runs.forEach(({ model, points }) => {
+    if (model === ForecastModel.CONSENSUS || points.length === 0) return;
+
+    const candidate = toStoredRun(model, points, fetchedAt);
+    if (!candidate) return;
+
+    const sameModel = stored.filter(r => r.model === model);
+    if (sameModel.some(r => r.run === candidate.run)) return;
+
+    const latest = sameModel.reduce<StoredRun | null>((a, b) => (!a || b.run > a.run ? b : a), null);
+    if (latest && isSameRun(latest, candidate)) return;
+
+    stored.push(candidate);
+    added.push({ model, runTime: new Date(candidate.run), points });
+  });
+
+  if (added.length > 0) {
+    writeStoredRuns(pruneStoredRuns(stored, fetchedAt), spotId);
+  }
+  return added;
+}
+
+/** Alla arkiverade körningar, äldst först */
+export function loadArchivedRuns(spotId?: string): ArchivedRun[] {
+  return readStoredRuns(spotId).map(run => ({
+    model: run.model,
+    runTime: new Date(run.run),
+    fetchedAt: new Date(run.fetchedAt),
+    points: run.points.map(([offset, wind, gust, dir]) => ({
+      time: new Date(run.run + offset * HOUR_MS).toISOString(),
+      wind,
+      gust,
+      dir,
+      source: run.model,
+      runTimestamp: new Date(run.run).toISOString(),
+    })),
+  }));
+}
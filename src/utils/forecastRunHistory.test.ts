@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { RunDaySummary, RunHistoryEntry, runsForDay } from './forecastRunHistory';
+
+const HOUR = 60 * 60 * 1000;
+const RUN = Date.parse('2026-09-01T00:00:00Z');
+const DAY = '2026-09-02';
+
+function summary(peakWind: number): RunDaySummary {
+  return {
+    peakWind,
+    peakGust: peakWind + 3,
+    peakTime: RUN + 36 * HOUR,
+    windowStart: null,
+    windowEnd: null,
+    surfableHours: 0,
+    dir: 270,
+    levelIndex: 1,
+  };
+}
+
+function entry(hoursAfter: number, peakWind: number, runTimeEstimated: boolean): RunHistoryEntry {
+  return {
+    model: 'ecmwf',
+    runTime: RUN + hoursAfter * HOUR,
+    runTimeEstimated,
+    fetchedAt: RUN + hoursAfter * HOUR,
+    days: { [DAY]: summary(peakWind) },
+  };
+}
+
+describe('runsForDay', () => {
+  it('samma körning hämtad flera timmar utan runTimestamp blir en körning', () => {
+    const runs = runsForDay([entry(2, 8, true), entry(0, 8, true), entry(1, 8, true)], DAY);
+    expect(runs).toHaveLength(1);
+    expect(runs[0].runTime.getTime()).toBe(RUN);
+  });
+
+  it('ändrad sammanfattning = ny körning', () => {
+    expect(runsForDay([entry(0, 8, true), entry(6, 9, true)], DAY)).toHaveLength(2);
+  });
+
+  it('känd körningstid visas även när inget ändrats', () => {
+    expect(runsForDay([entry(0, 8, false), entry(6, 8, false)], DAY)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,195 @@
+import LZString from 'lz-string';
+import { format, parseISO, subDays } from 'date-fns';
+import { ForecastModelId, WindPoint } from '../types/WindData';
+import { DEFAULT_WIND_SCALE, getEffectiveLevelIndex, WindScale } from '../config/windScale';
+import { spotStorageKey } from '../config/spots';
+import { circularMean } from './timeUtils';
+import { SURFABLE_LEVEL_INDEX } from './dailyStatsAggregation';
+
+/**
+ * Körningshistorik: hur varje ny körning såg på en viss dag. Sparar bara en
+ * sammanfattning per körning och dag (topp, surffönster, riktning) — hela
+ * serierna ligger i forecastRunArchive (72 h) — så att hela 7-dygnshorisonten
+ * ryms. Lokalt i localStorage och delat i Firestore (`forecastRuns`).
+ */
+
+export const FORECAST_RUN_HISTORY_STORAGE_KEY = 'kallifornia.forecastRunHistory.v1';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface RunDaySummary {
+  /** Högsta medelvind under dagen (m/s) */
+  peakWind: number;
+  peakGust: number | null;
+  /** Timme för toppen (ms) */
+  peakTime: number;
+  /** Första och sista surfbara timme (ms, sista exklusiv); null = ingen surfbar timme */
+  windowStart: number | null;
+  windowEnd: number | null;
+  surfableHours: number;
+  /** Riktning kring toppen (cirkulärt medel ±1 h) */
+  dir: number | null;
+  levelIndex: number;
+}
+
+export interface RunHistoryEntry {
+  model: ForecastModelId;
+  /** Körningens tidpunkt (ms) — samma som i forecastRunArchive */
+  runTime: number;
+  /** Källan saknar runTimestamp (Open-Meteo) — runTime är hämtningstimmen */
+  runTimeEstimated?: boolean;
+  fetchedAt: number;
+  /** yyyy-MM-dd (lokal tid) → sammanfattning */
+  days: Record<string, RunDaySummary>;
+  /** Saknas för körningar från före spots — de gäller Kallsjön */
+  spotId?: string;
+}
+
+/** En körnings syn på en dag — det som historikvyn visar */
+export interface RunForDay {
+  model: ForecastModelId;
+  runTime: Date;
+  fetchedAt: Date;
+  summary: RunDaySummary;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Sammanfattar en körnings timmar för en dag; null om körningen inte täcker dagen */
+export function summarizeRunForDay(
+  points: WindPoint[],
+  dateKey: string,
+  scale: WindScale = DEFAULT_WIND_SCALE
+): RunDaySummary | null {
+  const dayPoints = points
+    .filter(p => format(parseISO(p.time), 'yyyy-MM-dd') === dateKey)
+    .sort((a, b) => a.time.localeCompare(b.time));
+  if (dayPoints.length === 0) return null;
+
+  const peak = dayPoints.reduce((best, p) => (p.wind > best.wind ? p : best));
+  const peakTime = Date.parse(peak.time);
+
+  const surfable = dayPoints.filter(p => getEffectiveLevelIndex(p.wind, p.gust ?? p.wind, scale, p.dir) >= SURFABLE_LEVEL_INDEX);
+  const gusts = dayPoints.map(p => p.gust).filter((g): g is number => g != null);
+
+  const dirs = dayPoints
+    .filter(p => Math.abs(Date.parse(p.time) - peakTime) <= HOUR_MS && p.dir != null)
+    .map(p => p.dir as number);
+  const dir = circularMean(dirs);
+
+  return {
+    peakWind: round1(peak.wind),
+    peakGust: gusts.length > 0 ? round1(Math.max(...gusts)) : null,
+    peakTime,
+    windowStart: surfable.length > 0 ? Date.parse(surfable[0].time) : null,
+    windowEnd: surfable.length > 0 ? Date.parse(surfable[surfable.length - 1].time) + HOUR_MS : null,
+    surfableHours: surfable.length,
+    dir: dir != null ? Math.round(dir) : null,
+    levelIndex: Math.max(...dayPoints.map(p => getEffectiveLevelIndex(p.wind, p.gust ?? p.wind, scale, p.dir))),
+  };
+}
+
+/** Sammanfattning för varje dag körningen täcker */
+export function summarizeRun(
+  model: ForecastModelId,
+  runTime: Date,
+  points: WindPoint[],
+  fetchedAt: Date = new Date(),
+  scale: WindScale = DEFAULT_WIND_SCALE
+): RunHistoryEntry {
+  const dateKeys = Array.from(new Set(points.map(p => format(parseISO(p.time), 'yyyy-MM-dd'))));
+  const days: Record<string, RunDaySummary> = {};
+  dateKeys.forEach(dateKey => {
+    const summary = summarizeRunForDay(points, dateKey, scale);
+    if (summary) days[dateKey] = summary;
+  });
+  return {
+    model,
+    runTime: runTime.getTime(),
+    runTimeEstimated: !points.some(p => p.runTimestamp),
+    fetchedAt: fetchedAt.getTime(),
+    days,
+  };
+}
+
+function sameSummary(a: RunDaySummary, b: RunDaySummary): boolean {
+  return (Object.keys(a) as Array<keyof RunDaySummary>).every(key => a[key] === b[key]);
+}
+
+function readHistory(spotId?: string): RunHistoryEntry[] {
+  try {
+    const raw = localStorage.getItem(spotStorageKey(FORECAST_RUN_HISTORY_STORAGE_KEY, spotId));
+    if (!raw) return [];
+    const json = LZString.decompressFromUTF16(raw);
+    return json ? (JSON.parse(json) as RunHistoryEntry[]) : [];
+  } catch (e) {
+    console.warn('Forecast run history unreadable, starting over', e);
+    return [];
+  }
+}
+
+function writeHistory(entries: RunHistoryEntry[], spotId?: string): void {
+  try {
+    localStorage.setItem(spotStorageKey(FORECAST_RUN_HISTORY_STORAGE_KEY, spotId), LZString.compressToUTF16(JSON.stringify(entries)));
+  } catch (e) {
+    console.warn('Forecast run history not saved', e);
+  }
+}
+
+/** Dagar före igår behövs inte längre; körningar utan dagar kvar tas bort */
+export function pruneRunHistory(entries: RunHistoryEntry[], now: Date = new Date()): RunHistoryEntry[] {
+  const oldestKey = format(subDays(now, 1), 'yyyy-MM-dd');
+  return entries
+    .map(entry => ({
+      ...entry,
+      days: Object.fromEntries(Object.entries(entry.days).filter(([key]) => key >= oldestKey)),
+    }))
+    .filter(entry => Object.keys(entry.days).length > 0);
+}
+
+/** Lägger till nya körningar lokalt (samma modell + tidpunkt ersätts inte) */
+export function saveRunHistory(newEntries: RunHistoryEntry[], now: Date = new Date(), spotId?: string): void {
+  if (newEntries.length === 0) return;
+  const entries = readHistory(spotId);
+  const known = new Set(entries.map(e => `${e.model}|${e.runTime}`));
+  newEntries.forEach(entry => {
+    if (!known.has(`${entry.model}|${entry.runTime}`)) entries.push(entry);
+  });
+  writeHistory(pruneRunHistory(entries, now), spotId);
+}
+
+export function loadRunHistory(spotId?: string): RunHistoryEntry[] {
+  return readHistory(spotId);
+}
+
+/**
+ * Alla körningars syn på en dag, äldst först. Dubbletter (samma modell och
+ * körning från flera källor) slås ihop — första förekomsten vinner. Utan
+ * känd körningstid är "körningen" bara hämtningstimmen: en sådan som ser
+ * likadan ut som modellens förra räknas som samma körning (samma
+ * Open-Meteo-körning hämtad en annan timme eller på en annan enhet).
+ */
+export function runsForDay(entries: RunHistoryEntry[], dateKey: string): RunForDay[] {
+  const seen = new Set<string>();
+  const latestByModel = new Map<ForecastModelId, RunDaySummary>();
+  const runs: RunForDay[] = [];
+  entries
+    .filter(entry => entry.days[dateKey])
+    .sort((a, b) => a.runTime - b.runTime)
+    .forEach(entry => {
+      const summary = entry.days[dateKey];
+      const key = `${entry.model}|${entry.runTime}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      const previous = latestByModel.get(entry.model);
+      if (entry.runTimeEstimated && previous && sameSummary(previous, summary)) return;
+      latestByModel.set(entry.model, summary);
+      runs.push({
+        model: entry.model,
+        runTime: new Date(entry.runTime),
+        fetchedAt: new Date(entry.fetchedAt),
+        summary,
+      });
+    });
+  return runs;
+}
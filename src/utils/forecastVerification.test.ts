@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { ForecastModel, WindData } from '../types/WindData';
+import type { ArchivedRun } from './forecastRunArchive';
+import { isSameRun, pruneStoredRuns } from './forecastRunArchive';
+import {
+  aggregateObservationsHourly,
+  buildForecastPairs,
+  computeVerification,
+  rankModels,
+} from './forecastVerification';
+
+const HOUR = 60 * 60 * 1000;
+const RUN = Date.parse('2026-09-01T00:00:00Z');
+
+/** 12 femminutersvärden centrerade på timmen */
+function observedHour(hourIso: string, avg: number, gust = avg + 3): WindData[] {
+  const center = Date.parse(hourIso);
+  return Array.from({ length: 12 }, (_, i) => ({
+    time: new Date(center - 30 * 60 * 1000 + i * 5 * 60 * 1000),
+    windSpeed: avg,
+    windGust: gust,
+    windDirection: 270,
+    isForecast: false,
+  }));
+}
+
+function run(model: ForecastModel, winds: number[]): ArchivedRun {
+  return {
+    model,
+    runTime: new Date(RUN),
+    fetchedAt: new Date(RUN),
+    points: winds.map((wind, i) => ({
+      time: new Date(RUN + (i + 1) * HOUR).toISOString(),
+      wind,
+      gust: wind + 3,
+      dir: 270,
+      source: model,
+    })),
+  };
+}
+
+describe('buildForecastPairs + computeVerification', () => {
+  const observed = aggregateObservationsHourly([
+    ...observedHour('2026-09-01T01:00:00Z', 11),
+    ...observedHour('2026-09-01T02:00:00Z', 8),
+    ...observedHour('2026-09-01T03:00:00Z', 12),
+  ]);
+
+  it('räknar bias och MAE mot timmedel', () => {
+    const pairs = buildForecastPairs([run(ForecastModel.ECMWF, [12, 9, 11])], observed);
+    const [ecmwf] = computeVerification(pairs);
+
+    expect(pairs).toHaveLength(3);
+    expect(ecmwf.overall.bias).toBeCloseTo(1 / 3, 5);
+    expect(ecmwf.overall.mae).toBeCloseTo(1, 5);
+    expect(ecmwf.byLead['0-6'].count).toBe(3);
+  });
+
+  it('träff = andel observerat surfbara timmar som prognosen fångade', () => {
+    const pairs = buildForecastPairs([run(ForecastModel.GFS, [11, 8, 7])], observed);
+    const [gfs] = computeVerification(pairs);
+
+    expect(gfs.overall.surfableObserved).toBe(2);
+    expect(gfs.overall.hitRate).toBeCloseTo(0.5, 5);
+  });
+
+  it('timmar med för få observationer räknas inte', () => {
+    const sparse = aggregateObservationsHourly(observedHour('2026-09-01T01:00:00Z', 11).slice(0, 3));
+    expect(sparse).toHaveLength(0);
+  });
+
+  it('rankar lägst MAE först', () => {
+    const pairs = buildForecastPairs(
+      [run(ForecastModel.ECMWF, [12, 9, 11]), run(ForecastModel.ICON, [11, 8, 12])],
+      observed
+    );
+    const ranked = rankModels(computeVerification(pairs));
+    expect(ranked.map(r => r.model)).toEqual([ForecastModel.ICON, ForecastModel.ECMWF]);
+  });
+});
+
+describe('pruneStoredRuns', () => {
+  const now = new Date('2026-09-10T12:00:00Z');
+  const at = (hoursAgo: number, model = 'ecmwf') => ({ model, run: now.getTime() - hoursAgo * HOUR });
+
+  it('behåller alla körningar senaste 48 h', () => {
+    expect(pruneStoredRuns([at(1), at(2), at(3)], now)).toHaveLength(3);
+  });
+
+  it('tunnar ut äldre till en per modell och 6-timmarsblock', () => {
+    const kept = pruneStoredRuns([at(100), at(101), at(99, 'icon')], now);
+    expect(kept).toHaveLength(2);
+    expect(kept.find(r => r.model === 'ecmwf')!.run).toBe(at(100).run);
+  });
+
+  it('släpper körningar äldre än 10 dygn', () => {
+    expect(pruneStoredRuns([at(11 * 24)], now)).toHaveLength(0);
+  });
+});
+
+describe('isSameRun', () => {
+  const series = (run: number, winds: number[]) => ({
+    run,
+    points: winds.map((w, i): [number, number, number, number] => [i, w, w + 3, 270]),
+  });
+  const winds = [5, 6, 7, 8, 9, 10, 11, 12];
+
+  it('samma körning hämtad en timme senare är förskjuten ett steg', () => {
+    expect(isSameRun(series(RUN, winds), series(RUN + HOUR, winds.slice(1)))).toBe(true);
+  });
+
+  it('samma index men olika giltighetstid räknas inte som samma körning', () => {
+    expect(isSameRun(series(RUN, winds), series(RUN + HOUR, winds))).toBe(false);
+  });
+
+  it('ändrade värden = ny körning', () => {
+    expect(isSameRun(series(RUN, winds), series(RUN + HOUR, [6, 7, 7.5, 9, 10, 11, 12]))).toBe(false);
+  });
+});
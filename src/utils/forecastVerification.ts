@@ -0,0 +1,210 @@
+import { ForecastModelId, WindData } from '../types/WindData';
+import { DEFAULT_WIND_SCALE, getEffectiveLevelIndex, WindScale } from '../config/windScale';
+import { SURFABLE_LEVEL_INDEX } from './dailyStatsAggregation';
+import { circularMean } from './timeUtils';
+import type { ArchivedRun } from './forecastRunArchive';
+
+/**
+ * Prognosverifiering: arkiverade körningar mot observerad vind vid spotets station.
+ * Prognosvärdet för timme t jämförs med observationernas medel inom ±30 min.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Minst så många 5-minutersvärden för att timmen ska räknas som observerad */
+const MIN_SAMPLES_PER_HOUR = 6;
+
+export interface LeadBucket {
+  id: string;
+  label: string;
+  fromHours: number;
+  toHours: number;
+}
+
+export const LEAD_BUCKETS: LeadBucket[] = [
+  { id: '0-6', label: '0–6 h', fromHours: 0, toHours: 6 },
+  { id: '6-24', label: '6–24 h', fromHours: 6, toHours: 24 },
+  { id: '24-48', label: '24–48 h', fromHours: 24, toHours: 48 },
+  { id: '48-72', label: '48–72 h', fromHours: 48, toHours: 72 },
+];
+
+export function getLeadBucket(leadHours: number): LeadBucket | null {
+  return LEAD_BUCKETS.find(b => leadHours >= b.fromHours && leadHours < b.toHours) ?? null;
+}
+
+export interface ObservedHour {
+  /** Timmens mittpunkt (ms) — samma som prognosens heltimme */
+  time: number;
+  avg: number;
+  gust: number;
+  dir: number | null;
+}
+
+export interface ForecastPair {
+  model: ForecastModelId;
+  runTime: number;
+  validTime: number;
+  leadHours: number;
+  forecastWind: number;
+  forecastGust: number | null;
+  forecastDir: number | null;
+  observedWind: number;
+  observedGust: number;
+  observedDir: number | null;
+}
+
+export interface VerificationScore {
+  count: number;
+  /** Medelfel prognos − observation (m/s); positivt = modellen överskattar */
+  bias: number;
+  /** Medelabsolutfel (m/s) */
+  mae: number;
+  /** Andel observerat surfbara timmar som modellen också pekade ut (POD), null utan sådana timmar */
+  hitRate: number | null;
+  /** Andel prognostiserat surfbara timmar som inte blev surfbara (FAR), null utan sådana prognoser */
+  falseAlarmRatio: number | null;
+  surfableObserved: number;
+}
+
+export interface ModelVerification {
+  model: ForecastModelId;
+  overall: VerificationScore;
+  byLead: Record<string, VerificationScore>;
+}
+
+/** Observationer → timvärden centrerade på heltimme (±30 min) */
+export function aggregateObservationsHourly(data: WindData[]): ObservedHour[] {
+  const buckets = new Map<number, WindData[]>();
+
+  data.forEach(d => {
+    const hour = Math.round(d.time.getTime() / HOUR_MS) * HOUR_MS;
+    const list = buckets.get(hour);
+    if (list) list.push(d);
+    else buckets.set(hour, [d]);
+  });
+
+  const hours: ObservedHour[] = [];
+  buckets.forEach((samples, time) => {
+    if (samples.length < MIN_SAMPLES_PER_HOUR) return;
+    const dirs = samples.map(s => s.windDirection).filter(d => d > 0);
+    hours.push({
+      time,
+      avg: samples.reduce((sum, s) => sum + s.windSpeed, 0) / samples.length,
+      gust: Math.max(...samples.map(s => s.windGust)),
+      dir: circularMean(dirs),
+    });
+  });
+
+  return hours.sort((a, b) => a.time - b.time);
+}
+
+/** Matchar varje prognostimme (inom 72 h) mot observerad timme */
+export function buildForecastPairs(runs: ArchivedRun[], observed: ObservedHour[]): ForecastPair[] {
+  const byTime = new Map(observed.map(o => [o.time, o]));
+  const pairs: ForecastPair[] = [];
+
+  runs.forEach(run => {
+    const runTime = run.runTime.getTime();
+    run.points.forEach(p => {
+      const validTime = Date.parse(p.time);
+      const obs = byTime.get(validTime);
+      if (!obs) return;
+
+      const leadHours = (validTime - runTime) / HOUR_MS;
+      if (leadHours < 0) return;
+
+      pairs.push({
+        model: run.model,
+        runTime,
+        validTime,
+        leadHours,
+        forecastWind: p.wind,
+        forecastGust: p.gust,
+        forecastDir: p.dir,
+        observedWind: obs.avg,
+        observedGust: obs.gust,
+        observedDir: obs.dir,
+      });
+    });
+  });
+
+  return pairs;
+}
+
+function scorePairs(pairs: ForecastPair[], scale: WindScale): VerificationScore {
+  let errorSum = 0;
+  let absSum = 0;
+  let hits = 0;
+  let misses = 0;
+  let falseAlarms = 0;
+
+  pairs.forEach(p => {
+    const error = p.forecastWind - p.observedWind;
+    errorSum += error;
+    absSum += Math.abs(error);
+
+    const forecastSurfable =
+      getEffectiveLevelIndex(p.forecastWind, p.forecastGust ?? p.forecastWind, scale, p.forecastDir) >= SURFABLE_LEVEL_INDEX;
+    const observedSurfable = getEffectiveLevelIndex(p.observedWind, p.observedGust, scale, p.observedDir) >= SURFABLE_LEVEL_INDEX;
+
+    if (observedSurfable && forecastSurfable) hits++;
+    else if (observedSurfable) misses++;
+    else if (forecastSurfable) falseAlarms++;
+  });
+
+  const count = pairs.length;
+  return {
+    count,
+    bias: count > 0 ? errorSum / count : 0,
+    mae: count > 0 ? absSum / count : 0,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+    falseAlarmRatio: hits + falseAlarms > 0 ? falseAlarms / (hits + falseAlarms) : null,
+    surfableObserved: hits + misses,
+  };
+}
+
+/** Bias, MAE och träffsäkerhet per modell, totalt och per ledtidsblock */
+export function computeVerification(
+  pairs: ForecastPair[],
+  scale: WindScale = DEFAULT_WIND_SCALE
+): ModelVerification[] {
+  const byModel = new Map<ForecastModelId, ForecastPair[]>();
+  pairs.forEach(p => {
+    const list = byModel.get(p.model);
+    if (list) list.push(p);
+    else byModel.set(p.model, [p]);
+  });
+
+  return Array.from(byModel.entries()).map(([model, modelPairs]) => ({
+    model,
+    overall: scorePairs(modelPairs, scale),
+    byLead: Object.fromEntries(
+      LEAD_BUCKETS.map(bucket => [
+        bucket.id,
+        scorePairs(modelPairs.filter(p => getLeadBucket(p.leadHours)?.id === bucket.id), scale),
+      ])
+    ),
+  }));
+}
+
+/** Minsta antal matchade timmar för att en modell ska rankas */
+export const MIN_RANKED_PAIRS = 12;
+
+/**
+ * Rankning: lägst MAE först. Modeller med för få matchade timmar hamnar
+ * sist (visas men rankas inte).
+ */
+export function rankModels(
+  verification: ModelVerification[],
+  leadBucketId: string | null = null
+): Array<ModelVerification & { score: VerificationScore; ranked: boolean }> {
+  return verification
+    .map(v => {
+      const score = leadBucketId ? v.byLead[leadBucketId] : v.overall;
+      return { ...v, score, ranked: score.count >= MIN_RANKED_PAIRS };
+    })
+    .filter(v => v.score.count > 0)
+    .sort((a, b) => {
+      if (a.ranked !== b.ranked) return a.ranked ? -1 : 1;
+      return a.score.mae - b.score.mae;
+    });
+}
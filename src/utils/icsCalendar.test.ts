@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPOT } from '../config/spots';
+import { DEFAULT_WIND_SCALE } from '../config/windScale';
+import type { WindSlot } from './bestWindPerDay';
+import { buildIcsCalendar, findSurfWindowEvents } from './icsCalendar';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-06-15T06:00:00');
+
+/** Timvis prognos från NOW; wind(i) ger medelvind för timme i */
+function forecast(hours: number, wind: (i: number) => number): WindSlot[] {
+  return Array.from({ length: hours }, (_, i) => {
+    const time = new Date(NOW.getTime() + i * HOUR);
+    const hour = time.getHours();
+    return { time, avg: wind(i), gust: wind(i) + 3, dir: 150, isDaylight: hour >= 4 && hour < 22 };
+  });
+}
+
+describe('findSurfWindowEvents', () => {
+  it('ger ett fönster per surfbar dag runt dagens bästa timme', () => {
+    // Idag 10–13 (topp 12 kl 11), imorgon 15–17
+    const slots = forecast(48, i => (i === 5 ? 12 : i >= 4 && i < 7 ? 10.5 : i >= 33 && i < 35 ? 11 : 5));
+    const events = findSurfWindowEvents(slots, DEFAULT_SPOT, DEFAULT_WIND_SCALE, NOW);
+    expect(events.map(e => e.uid)).toEqual(['2026-06-15-kallsjon@kallsjon.web.app', '2026-06-16-kallsjon@kallsjon.web.app']);
+    expect(events[0].start).toEqual(new Date('2026-06-15T10:00:00'));
+    expect(events[0].end).toEqual(new Date('2026-06-15T13:00:00'));
+    expect(events[0].description).toContain('bäst kl 11: 12 m/s medel, by 15 m/s från SO');
+  });
+
+  it('behåller UID när fönstret flyttar inom dagen', () => {
+    const first = findSurfWindowEvents(forecast(24, i => (i >= 8 && i < 10 ? 11 : 5)), DEFAULT_SPOT, DEFAULT_WIND_SCALE, NOW);
+    const moved = findSurfWindowEvents(forecast(24, i => (i >= 10 && i < 13 ? 11 : 5)), DEFAULT_SPOT, DEFAULT_WIND_SCALE, NOW);
+    expect(moved[0].uid).toBe(first[0].uid);
+    expect(moved[0].start).not.toEqual(first[0].start);
+  });
+});
+
+describe('buildIcsCalendar', () => {
+  it('escapar text, viker långa rader och använder CRLF', () => {
+    const ics = buildIcsCalendar([{
+      uid: 'a@b',
+      start: new Date('2026-06-15T08:00:00Z'),
+      end: new Date('2026-06-15T11:00:00Z'),
+      summary: 'Surf; bra, riktigt',
+      description: `Rad ett\n${'å'.repeat(60)}`,
+    }], 'Surf Kallsjön', NOW);
+
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('DTSTART:20260615T080000Z');
+    expect(lines).toContain('SUMMARY:Surf\\; bra\\, riktigt');
+    lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    // Vikningen tas bort av läsaren: CRLF + blanksteg
+    expect(ics.replace(/\r\n /g, '')).toContain(`DESCRIPTION:Rad ett\\n${'å'.repeat(60)}`);
+  });
+});
@@ -0,0 +1,150 @@
+import { format, startOfHour } from 'date-fns';
+import type { SpotConfig } from '../config/spots';
+import type { WindScale } from '../config/windScale';
+import { getBestSlotPerDay, WindSlot } from './bestWindPerDay';
+import { SURFABLE_LEVEL_INDEX } from './dailyStatsAggregation';
+import { findChances } from './surfChance';
+import { degreesToSector8 } from './windDirection8';
+
+/**
+ * Surffönster som iCalendar (RFC 5545) — en händelse per dag med surfbart
+ * i dagsljus. Dagens bästa timme (getBestSlotPerDay) väljer fönstret;
+ * fönstret är det sammanhängande surfläget runt den (findChances, samma
+ * som Nästa surfchans).
+ *
+ * UID:t är dag + spot, så en ny prognos uppdaterar händelsen i stället
+ * för att lägga till en ny. Dagar som inte längre är surfbara försvinner
+ * ur flödet vid nästa uppdatering.
+ */
+
+const APP_URL = 'https://kallsjon.web.app';
+const UID_DOMAIN = 'kallsjon.web.app';
+const FORECAST_DAYS = 7;
+/** RFC 5545: rader längre än 75 oktetter viks */
+const MAX_LINE_OCTETS = 75;
+
+export interface SurfWindowEvent {
+  uid: string;
+  start: Date;
+  /** Exklusivt */
+  end: Date;
+  summary: string;
+  description: string;
+}
+
+/** Sökväg i Storage för spotets prenumerationsflöde (scripts/exportSurfCalendar.ts) */
+export function calendarStoragePath(spotId: string): string {
+  return `calendar/${spotId}.ics`;
+}
+
+/**
+ * Ett fönster per dag där dagsljusets bästa timme når minLevelIndex.
+ * Slots ska vara timvisa, sorterade och ha isDaylight satt.
+ */
+export function findSurfWindowEvents(
+  slots: WindSlot[],
+  spot: SpotConfig,
+  scale: WindScale,
+  now: Date,
+  minLevelIndex: number = SURFABLE_LEVEL_INDEX
+): SurfWindowEvent[] {
+  const future = slots.filter(s => s.time >= startOfHour(now) && s.isDaylight);
+  const chances = findChances(future, scale, minLevelIndex);
+
+  return getBestSlotPerDay(future, FORECAST_DAYS, scale)
+    .filter(day => day.levelIndex >= minLevelIndex)
+    .flatMap(day => {
+      const peak = day.slot;
+      const chance = chances.find(c => c.bucket.time <= peak.time && peak.time < c.endTime);
+      if (!chance) return [];
+
+      const level = scale.levels[day.levelIndex];
+      const direction = peak.dir != null ? ` från ${degreesToSector8(peak.dir)}` : '';
+      const description = [
+        `${level.label} — bäst kl ${format(peak.time, 'HH')}: ${Math.round(peak.avg)} m/s medel, by ${Math.round(peak.gust)} m/s${direction}.`,
+        `Fönstret: ${Math.round(chance.maxAvg)} m/s medel, by ${Math.round(chance.maxGust)} m/s som mest.`,
+        day.gustDriven ? 'Byvinden lyfter dagen.' : '',
+        `Consensus-prognos uppdaterad ${format(now, 'yyyy-MM-dd HH:mm')}.`,
+        APP_URL,
+      ].filter(Boolean).join('\n');
+
+      return [{
+        uid: `${day.dateKey}-${spot.id}@${UID_DOMAIN}`,
+        start: chance.bucket.time,
+        end: chance.endTime,
+        summary: `Surf ${spot.name}: ${level.label.toLowerCase()} ${Math.round(peak.avg)} (${Math.round(peak.gust)}) m/s`,
+        description,
+      }];
+    });
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Text enligt RFC 5545 3.3.11 */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Viker en rad vid 75 oktetter utan att dela ett UTF-8-tecken */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Fortsättningsrader börjar med ett blanksteg som räknas in
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** Hela kalendern. SEQUENCE följer skapandetiden så att importerade kopior uppdateras. */
+export function buildIcsCalendar(events: SurfWindowEvent[], calendarName: string, now: Date): string {
+  const stamp = formatUtc(now);
+  const sequence = Math.floor(now.getTime() / 60000);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Kallifornia//Surffönster//SV',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-WR-TIMEZONE:Europe/Stockholm',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DTEND:${formatUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      `URL:${APP_URL}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import LZString from 'lz-string';
+import { parseLegacyCacheItem, selectEvictions } from './idbStore';
+
+const NOW = new Date('2026-06-15T12:00:00Z').getTime();
+const HOUR = 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+describe('parseLegacyCacheItem', () => {
+  it('gör om en komprimerad observationsmånad till rader med datum', () => {
+    const raw = LZString.compressToUTF16(JSON.stringify({
+      data: [
+        { time: '2026-05-01T10:00:00.000Z', windSpeed: 8, windDirection: 150, windGust: 11, isForecast: false },
+        { time: '2026-05-01T10:05:00.000Z', windSpeed: 9, windDirection: 160, windGust: 12, isForecast: false },
+      ],
+      timestamp: NOW - HOUR,
+      month: '2026-05',
+      minForce: 0,
+      permanent: true,
+    }));
+
+    const item = parseLegacyCacheItem('obs:2026-05', raw, NOW)!;
+    expect(item.entry).toMatchObject({ key: 'obs:2026-05', kind: 'obs', expiresAt: null, value: null });
+    expect(item.scope).toBe('obs:wind');
+    expect(item.rows).toHaveLength(2);
+    expect(item.rows![0].time).toBe(new Date('2026-05-01T10:00:00Z').getTime());
+    expect((item.rows![0].value as { time: Date }).time).toBeInstanceOf(Date);
+  });
+
+  it('behåller samling och minForce och markerar ej permanenta som utgångna', () => {
+    const raw = JSON.stringify({ data: [], timestamp: NOW - HOUR, month: '2026-06', minForce: 9, permanent: false });
+    const item = parseLegacyCacheItem('stats:wind_storsjon:2026-06-minForce9', raw, NOW)!;
+    expect(item.scope).toBe('obs:wind_storsjon:minForce9');
+    expect(item.entry.expiresAt).toBe(NOW - HOUR);
+    // Periodtaggarna är per samling — att rensa en månad rör inte andra spots
+    expect(item.entry.tags).toEqual(['obs', 'obs:wind_storsjon', 'obs:wind_storsjon:2026', 'obs:wind_storsjon:2026-06']);
+  });
+
+  it('flyttar prognoser med ETag och hoppar över trasiga poster', () => {
+    const raw = JSON.stringify({ value: [{ time: '2026-06-15T13:00:00Z', wind: 7 }], timestamp: NOW, etag: '"abc"' });
+    const item = parseLegacyCacheItem('forecast_cache_smhi_63.5_13.1_x', raw, NOW)!;
+    expect(item.entry).toMatchObject({ kind: 'forecast', etag: '"abc"', expiresAt: NOW + 15 * 60 * 1000 });
+    expect(item.entry.value).toHaveLength(1);
+
+    expect(parseLegacyCacheItem('obs:2026-05', 'inte json', NOW)).toBeNull();
+    expect(parseLegacyCacheItem('obs:okänd', JSON.stringify({ data: [] }), NOW)).toBeNull();
+  });
+});
+
+describe('selectEvictions', () => {
+  const entry = (key: string, kind: 'obs' | 'forecast', expiresAt: number | null, accessedAt: number, size: number) =>
+    ({ key, kind, expiresAt, accessedAt, size });
+
+  it('rensar poster som varit utgångna längre än karenstiden för sitt slag', () => {
+    const keys = selectEvictions([
+      entry('forecast-gammal', 'forecast', NOW - 7 * HOUR, NOW, 10),
+      entry('forecast-ny', 'forecast', NOW - HOUR, NOW, 10),
+      entry('obs-utgången', 'obs', NOW - 7 * HOUR, NOW, 10),
+      entry('obs-permanent', 'obs', null, 0, 10),
+    ], NOW);
+    expect(keys).toEqual(['forecast-gammal']);
+  });
+
+  it('tar äldst använda först när cachen är för stor', () => {
+    const keys = selectEvictions([
+      entry('a', 'obs', null, NOW - 3 * HOUR, 30 * MB),
+      entry('b', 'obs', null, NOW - HOUR, 30 * MB),
+      entry('c', 'obs', null, NOW - 2 * HOUR, 30 * MB),
+    ], NOW, 70 * MB);
+    expect(keys).toEqual(['a']);
+  });
+});
@@ -0,0 +1,495 @@
+import LZString from 'lz-string';
+
+/**
+ * Lokal datacache i IndexedDB för observationer, dygnsstatistik, prognoser
+ * och mediametadata. Ersätter localStorage, där 5 MB räckte till några
+ * månader 5-minutersdata.
+ *
+ * - `entries`: en post per cachenyckel med TTL (`expiresAt`, null = permanent),
+ *   senaste åtkomst (LRU), ungefärlig storlek och taggar för invalidering.
+ *   Små värden (prognoser) ligger direkt i posten.
+ * - `rows`: tidsindexerade rader som hör till en post. Index på scope + tid
+ *   ger intervallfrågor över flera poster, t.ex. observationer över en
+ *   månadsgräns.
+ *
+ * Utgångna poster ligger kvar som reserv offline och rensas först efter
+ * en karenstid per slag, eller när cachen går över MAX_CACHE_BYTES (äldst
+ * använda först). Vid första öppningen flyttas de gamla localStorage-nycklarna
+ * (`obs:`, `stats:`, `forecast_cache_`) hit.
+ *
+ * Hookarna använder cachen via utils/queryCache (persisters), inte direkt.
+ */
+
+export type CacheKind = 'obs' | 'dailyStats' | 'forecast' | 'media';
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  kind: CacheKind;
+  /** null för poster vars data ligger i rows */
+  value: T | null;
+  storedAt: number;
+  /** null = permanent */
+  expiresAt: number | null;
+  accessedAt: number;
+  /** Ungefärlig storlek i byte (JSON) inklusive rader */
+  size: number;
+  etag?: string;
+  /** Invalideringstaggar (utils/queryCache) — deleteByTag */
+  tags?: string[];
+}
+
+export interface CacheRowInput<T = unknown> {
+  id: string;
+  time: number;
+  value: T;
+}
+
+interface CacheRow<T = unknown> extends CacheRowInput<T> {
+  entryKey: string;
+  scope: string;
+}
+
+export interface PutOptions {
+  /** Utelämnad eller Infinity = permanent */
+  ttlMs?: number;
+  etag?: string;
+  tags?: string[];
+}
+
+export interface CacheUsage {
+  entries: number;
+  bytes: number;
+  byKind: Record<CacheKind, { entries: number; bytes: number }>;
+}
+
+const DB_NAME = 'kallifornia-cache';
+const DB_VERSION = 2;
+const ENTRIES = 'entries';
+const ROWS = 'rows';
+
+const MB = 1024 * 1024;
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/** Tak för hela cachen innan LRU-rensning */
+export const MAX_CACHE_BYTES = 50 * MB;
+
+/** Hur länge en utgången post får ligga kvar som offlinereserv */
+const STALE_GRACE_MS: Record<CacheKind, number> = {
+  obs: 30 * DAY,
+  dailyStats: 30 * DAY,
+  media: 30 * DAY,
+  // Prognoser blir inaktuella fort — reserven behövs bara några timmar
+  forecast: 6 * HOUR,
+};
+
+/** Rensning högst så här ofta (körs efter skrivningar) */
+const EVICT_INTERVAL_MS = 60 * 1000;
+
+const LEGACY_PREFIXES = ['obs:', 'stats:', 'forecast_cache_'];
+/** Prognosernas gamla TTL i cacheStorage (FETCH_CONFIG.CACHE_DURATION_MS) */
+const LEGACY_FORECAST_TTL_MS = 15 * 60 * 1000;
+
+export function isFresh(entry: Pick<CacheEntry, 'expiresAt'>, now: number = Date.now()): boolean {
+  return entry.expiresAt === null || entry.expiresAt > now;
+}
+
+function estimateSize(value: unknown): number {
+  try {
+    return (JSON.stringify(value) ?? '').length;
+  } catch {
+    return 0;
+  }
+}
+
+function expiresAt(now: number, ttlMs: number | undefined): number | null {
+  return ttlMs === undefined || ttlMs === Infinity ? null : now + ttlMs;
+}
+
+// --- Migrering från localStorage ---------------------------------------------
+
+export interface LegacyMigration {
+  entry: CacheEntry;
+  scope?: string;
+  rows?: CacheRowInput[];
+}
+
+/** Scope för observationsrader: samling + ev. minForce-filter */
+export function observationScope(collection: string, minForce: number = 0): string {
+  return minForce > 0 ? `obs:${collection}:minForce${minForce}` : `obs:${collection}`;
+}
+
+function parseLegacyJson(raw: string): Record<string, unknown> | null {
+  try {
+    const text = raw.trim().startsWith('{') ? raw : LZString.decompressFromUTF16(raw);
+    const parsed = text ? JSON.parse(text) : null;
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tolkar en gammal localStorage-post (useWindCache eller cacheStorage).
+ * Observationsmånader blir rader; ej permanenta markeras utgångna så att de
+ * hämtas om men finns kvar offline. null = okänd eller trasig post.
+ */
+export function parseLegacyCacheItem(key: string, raw: string, now: number = Date.now()): LegacyMigration | null {
+  const parsed = parseLegacyJson(raw);
+  if (!parsed) return null;
+
+  if (key.startsWith('forecast_cache_')) {
+    if (!Array.isArray(parsed.value)) return null;
+    const storedAt = typeof parsed.timestamp === 'number' ? parsed.timestamp : now;
+    return {
+      entry: {
+        key,
+        kind: 'forecast',
+        value: parsed.value,
+        storedAt,
+        expiresAt: storedAt + LEGACY_FORECAST_TTL_MS,
+        accessedAt: storedAt,
+        size: raw.length,
+        ...(typeof parsed.etag === 'string' ? { etag: parsed.etag } : {}),
+      },
+    };
+  }
+
+  // obs:[samling:]yyyy-MM och stats:[samling:]yyyy-MM-minForceN
+  const match = /^(obs|stats):(?:(.+):)?(\d{4}-\d{2})(?:-minForce(\d+))?$/.exec(key);
+  if (!match || !Array.isArray(parsed.data)) return null;
+  const [, , collection = 'wind', month, minForce = '0'] = match;
+  const storedAt = typeof parsed.timestamp === 'number' ? parsed.timestamp : now;
+
+  const rows = (parsed.data as Array<Record<string, unknown>>).flatMap(point => {
+    const time = new Date(point.time as string).getTime();
+    if (!Number.isFinite(time)) return [];
+    return [{ id: String(time), time, value: { ...point, time: new Date(time) } }];
+  });
+
+  return {
+    entry: {
+      key,
+      kind: 'obs',
+      value: null,
+      storedAt,
+      expiresAt: parsed.permanent === true ? null : storedAt,
+      accessedAt: storedAt,
+      size: raw.length,
+      tags: ['obs', `obs:${collection}`, `obs:${collection}:${month.slice(0, 4)}`, `obs:${collection}:${month}`],
+    },
+    scope: observationScope(collection, Number(minForce)),
+    rows,
+  };
+}
+
+function legacyLocalStorageKeys(): string[] {
+  try {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && LEGACY_PREFIXES.some(prefix => key.startsWith(prefix))) keys.push(key);
+    }
+    return keys;
+  } catch {
+    return [];
+  }
+}
+
+/** Körs i uppgraderingstransaktionen; nycklarna tas bort först när den lyckats */
+function migrateLocalStorage(tx: IDBTransaction): void {
+  const keys = legacyLocalStorageKeys();
+  if (keys.length === 0) return;
+
+  const entries = tx.objectStore(ENTRIES);
+  const rows = tx.objectStore(ROWS);
+  let migrated = 0;
+
+  for (const key of keys) {
+    const raw = localStorage.getItem(key);
+    const item = raw ? parseLegacyCacheItem(key, raw) : null;
+    if (!item) continue;
+    entries.put(item.entry);
+    item.rows?.forEach(row => rows.put({ ...row, entryKey: key, scope: item.scope }));
+    migrated++;
+  }
+
+  tx.addEventListener('complete', () => {
+    keys.forEach(key => {
+      try { localStorage.removeItem(key); } catch { /* ignore */ }
+    });
+    console.log(`Migrated ${migrated}/${keys.length} cache entries from localStorage to IndexedDB`);
+  });
+}
+
+// --- Databas -----------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openCacheDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB saknas'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const entries = db.createObjectStore(ENTRIES, { keyPath: 'key' });
+        entries.createIndex('byKind', 'kind');
+        entries.createIndex('byAccessed', 'accessedAt');
+        const rows = db.createObjectStore(ROWS, { keyPath: ['entryKey', 'id'] });
+        rows.createIndex('byEntry', 'entryKey');
+        rows.createIndex('byScopeTime', ['scope', 'time']);
+        migrateLocalStorage(request.transaction!);
+      }
+      if (event.oldVersion < 2) {
+        request.transaction!.objectStore(ENTRIES).createIndex('byTag', 'tags', { multiEntry: true });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // En annan flik uppgraderar — släpp så att den inte blockeras
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function deleteRowsOf(rows: IDBObjectStore, key: string): void {
+  rows.delete(IDBKeyRange.bound([key], [key, []]));
+}
+
+// --- Läsning och skrivning ---------------------------------------------------
+
+/** Posten oavsett ålder (se isFresh); uppdaterar senaste åtkomst */
+export async function getEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+  const db = await openCacheDb();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const entry = (await requestResult(store.get(key))) as CacheEntry<T> | undefined;
+  if (entry) {
+    entry.accessedAt = Date.now();
+    store.put(entry);
+  }
+  await transactionDone(tx);
+  return entry ?? null;
+}
+
+export async function putEntry<T>(key: string, kind: CacheKind, value: T, options: PutOptions = {}): Promise<void> {
+  const db = await openCacheDb();
+  const now = Date.now();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const entry: CacheEntry<T> = {
+    key,
+    kind,
+    value,
+    storedAt: now,
+    expiresAt: expiresAt(now, options.ttlMs),
+    accessedAt: now,
+    size: estimateSize(value),
+    ...(options.etag ? { etag: options.etag } : {}),
+    ...(options.tags ? { tags: options.tags } : {}),
+  };
+  tx.objectStore(ENTRIES).put(entry);
+  await transactionDone(tx);
+  scheduleEviction();
+}
+
+/** Ersätter postens rader. `scope` grupperar rader för queryRange. */
+export async function putRows<T>(
+  key: string,
+  kind: CacheKind,
+  scope: string,
+  rows: CacheRowInput<T>[],
+  options: PutOptions = {}
+): Promise<void> {
+  const db = await openCacheDb();
+  const now = Date.now();
+  const tx = db.transaction([ENTRIES, ROWS], 'readwrite');
+  const rowStore = tx.objectStore(ROWS);
+  deleteRowsOf(rowStore, key);
+  rows.forEach(row => rowStore.put({ ...row, entryKey: key, scope }));
+  tx.objectStore(ENTRIES).put({
+    key,
+    kind,
+    value: null,
+    storedAt: now,
+    expiresAt: expiresAt(now, options.ttlMs),
+    accessedAt: now,
+    size: estimateSize(rows),
+    ...(options.etag ? { etag: options.etag } : {}),
+    ...(options.tags ? { tags: options.tags } : {}),
+  } satisfies CacheEntry);
+  await transactionDone(tx);
+  scheduleEviction();
+}
+
+/** Postens rader i tidsordning */
+export async function getRows<T>(key: string): Promise<CacheRowInput<T>[]> {
+  const db = await openCacheDb();
+  const rows = await requestResult(
+    db.transaction(ROWS).objectStore(ROWS).index('byEntry').getAll(key)
+  ) as CacheRow<T>[];
+  return rows
+    .map(({ id, time, value }) => ({ id, time, value }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/** Rader i [from, to] över alla poster med samma scope; dubbletter (samma id) en gång */
+export async function queryRange<T>(scope: string, from: number, to: number): Promise<T[]> {
+  const db = await openCacheDb();
+  const rows = await requestResult(
+    db.transaction(ROWS).objectStore(ROWS).index('byScopeTime').getAll(IDBKeyRange.bound([scope, from], [scope, to]))
+  ) as CacheRow<T>[];
+  const byId = new Map<string, CacheRow<T>>();
+  rows.forEach(row => byId.set(row.id, row));
+  return [...byId.values()].sort((a, b) => a.time - b.time).map(row => row.value);
+}
+
+export async function deleteEntry(key: string): Promise<void> {
+  const db = await openCacheDb();
+  const tx = db.transaction([ENTRIES, ROWS], 'readwrite');
+  tx.objectStore(ENTRIES).delete(key);
+  deleteRowsOf(tx.objectStore(ROWS), key);
+  await transactionDone(tx);
+}
+
+/** Tar bort poster (och rader) vars nyckel börjar med prefix; returnerar antal */
+export async function deleteByPrefix(prefix: string): Promise<number> {
+  const db = await openCacheDb();
+  const keys = await requestResult(
+    db.transaction(ENTRIES).objectStore(ENTRIES).getAllKeys(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+  ) as string[];
+  await deleteKeys(db, keys);
+  return keys.length;
+}
+
+/** Tar bort poster (och rader) med taggen; returnerar antal */
+export async function deleteByTag(tag: string): Promise<number> {
+  const db = await openCacheDb();
+  const keys = await requestResult(
+    db.transaction(ENTRIES).objectStore(ENTRIES).index('byTag').getAllKeys(tag)
+  ) as string[];
+  await deleteKeys(db, keys);
+  return keys.length;
+}
+
+/** Tömmer ett slag, eller hela cachen */
+export async function clearCache(kind?: CacheKind): Promise<void> {
+  const db = await openCacheDb();
+  if (!kind) {
+    const tx = db.transaction([ENTRIES, ROWS], 'readwrite');
+    tx.objectStore(ENTRIES).clear();
+    tx.objectStore(ROWS).clear();
+    await transactionDone(tx);
+    return;
+  }
+  const keys = await requestResult(
+    db.transaction(ENTRIES).objectStore(ENTRIES).index('byKind').getAllKeys(kind)
+  ) as string[];
+  await deleteKeys(db, keys);
+}
+
+async function deleteKeys(db: IDBDatabase, keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  const tx = db.transaction([ENTRIES, ROWS], 'readwrite');
+  const entries = tx.objectStore(ENTRIES);
+  const rows = tx.objectStore(ROWS);
+  keys.forEach(key => {
+    entries.delete(key);
+    deleteRowsOf(rows, key);
+  });
+  await transactionDone(tx);
+}
+
+export async function getCacheUsage(): Promise<CacheUsage> {
+  const db = await openCacheDb();
+  const entries = await requestResult(db.transaction(ENTRIES).objectStore(ENTRIES).getAll()) as CacheEntry[];
+  const byKind: CacheUsage['byKind'] = {
+    obs: { entries: 0, bytes: 0 },
+    dailyStats: { entries: 0, bytes: 0 },
+    forecast: { entries: 0, bytes: 0 },
+    media: { entries: 0, bytes: 0 },
+  };
+  entries.forEach(entry => {
+    byKind[entry.kind].entries++;
+    byKind[entry.kind].bytes += entry.size;
+  });
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    byKind,
+  };
+}
+
+// --- Rensning ----------------------------------------------------------------
+
+/**
+ * Vilka poster som ska bort: utgångna längre än karenstiden, sedan äldst
+ * använda tills resten ryms i maxBytes.
+ */
+export function selectEvictions(
+  entries: Array<Pick<CacheEntry, 'key' | 'kind' | 'expiresAt' | 'accessedAt' | 'size'>>,
+  now: number,
+  maxBytes: number = MAX_CACHE_BYTES
+): string[] {
+  const expired = new Set(
+    entries
+      .filter(entry => entry.expiresAt !== null && now - entry.expiresAt > STALE_GRACE_MS[entry.kind])
+      .map(entry => entry.key)
+  );
+
+  const remaining = entries.filter(entry => !expired.has(entry.key)).sort((a, b) => a.accessedAt - b.accessedAt);
+  let bytes = remaining.reduce((sum, entry) => sum + entry.size, 0);
+  const evicted = [...expired];
+  for (const entry of remaining) {
+    if (bytes <= maxBytes) break;
+    evicted.push(entry.key);
+    bytes -= entry.size;
+  }
+  return evicted;
+}
+
+export async function evictCache(now: number = Date.now()): Promise<number> {
+  const db = await openCacheDb();
+  const entries = await requestResult(db.transaction(ENTRIES).objectStore(ENTRIES).getAll()) as CacheEntry[];
+  const keys = selectEvictions(entries, now);
+  await deleteKeys(db, keys);
+  return keys.length;
+}
+
+let lastEviction = 0;
+
+function scheduleEviction(): void {
+  const now = Date.now();
+  if (now - lastEviction < EVICT_INTERVAL_MS) return;
+  lastEviction = now;
+  setTimeout(() => {
+    evictCache().catch(error => console.warn('Cache eviction failed:', error));
+  }, 0);
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { isRetryableUploadError } from './mediaUploadQueue';
+
+describe('isRetryableUploadError', () => {
+  it('köar vid nätfel och när tjänsten inte svarar', () => {
+    expect(isRetryableUploadError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableUploadError({ code: 'storage/retry-limit-exceeded' })).toBe(true);
+    expect(isRetryableUploadError({ code: 'auth/network-request-failed' })).toBe(true);
+    expect(isRetryableUploadError({ code: 'unavailable' })).toBe(true);
+  });
+
+  it('köar inte behörighetsfel eller okända fel utan kod', () => {
+    expect(isRetryableUploadError({ code: 'storage/unauthorized' })).toBe(false);
+    expect(isRetryableUploadError({ code: 'storage/unauthenticated' })).toBe(false);
+    expect(isRetryableUploadError(new Error('något'))).toBe(false);
+    expect(isRetryableUploadError(null)).toBe(false);
+  });
+});
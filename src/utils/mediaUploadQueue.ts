@@ -0,0 +1,92 @@
+/**
+ * Kö för uppladdningar utan täckning (IndexedDB — filen sparas som Blob,
+ * för stor för localStorage). MediaUpload lägger till, useMediaUploadQueue
+ * tömmer när nätet är tillbaka.
+ */
+
+const DB_NAME = 'kallifornia-media-queue';
+const DB_VERSION = 1;
+const STORE = 'uploads';
+/** Fönsterhändelse när kön ändrats, så att räknare kan uppdateras */
+export const MEDIA_QUEUE_CHANGED_EVENT = 'kallifornia:media-queue';
+
+export interface MediaUploadInput {
+  file: Blob;
+  fileName: string;
+  date: string; // YYYY-MM-DD
+  spotId: string;
+  capturedAt: string; // HH:mm
+  windData: { avg: number; gust: number; direction: number } | null;
+  description: string;
+  uploaderName: string;
+}
+
+export interface QueuedMediaUpload extends MediaUploadInput {
+  id: string;
+  queuedAt: number;
+}
+
+function openQueue(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openQueue();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function notifyChanged(): void {
+  window.dispatchEvent(new Event(MEDIA_QUEUE_CHANGED_EVENT));
+}
+
+export async function enqueueMediaUpload(input: MediaUploadInput): Promise<QueuedMediaUpload> {
+  const item: QueuedMediaUpload = { ...input, id: crypto.randomUUID(), queuedAt: Date.now() };
+  await withStore('readwrite', store => store.put(item));
+  notifyChanged();
+  return item;
+}
+
+/** Äldst först */
+export async function listQueuedUploads(): Promise<QueuedMediaUpload[]> {
+  const items = await withStore<QueuedMediaUpload[]>('readonly', store => store.getAll());
+  return items.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function removeQueuedUpload(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  notifyChanged();
+}
+
+/**
+ * Fel som går över av sig själv (nät, timeout, tjänsten nere) — då ska
+ * uppladdningen ligga kvar i kön. Behörighetsfel och liknande gör det inte.
+ */
+export function isRetryableUploadError(error: unknown): boolean {
+  if (error instanceof TypeError) return true; // fetch: "Failed to fetch"
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code !== 'string') return false;
+  return [
+    'storage/retry-limit-exceeded',
+    'storage/unknown',
+    'auth/network-request-failed',
+    'unavailable',
+    'deadline-exceeded',
+  ].includes(code);
+}
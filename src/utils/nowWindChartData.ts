@@ -41,6 +41,8 @@ export interface NowWindChartData {
   yMax: number;
   summary: NowWindHourSummary;
   hasForecast: boolean;
+  /** Prognosstaplarna bygger på nowcast (5-min) i stället för timprognosen */
+  usesNowcast: boolean;
 }
 
 function snap5(date: Date): Date {
@@ -217,10 +219,15 @@ function buildBar(
   };
 }
 
+/**
+ * Staplar för senaste timmen + 30 min prognos. Finns nowcast (5-minuterssteg)
+ * som täcker en prognosstapel används den; annars interpoleras timprognosen.
+ */
 export function buildNowWindChartData(
   timeline: TimelinePoint[],
   forecastHourly: ForecastHourPoint[] = [],
-  now: Date = new Date()
+  now: Date = new Date(),
+  nowcast: ForecastHourPoint[] = []
 ): NowWindChartData {
   const nowSnap = snap5(now);
   const nowMs = now.getTime();
@@ -240,6 +247,12 @@ export function buildNowWindChartData(
     ? forecastHourly
     : timelineForecastToHourly(timeline.filter((p) => p.isForecast));
 
+  const nowcastAhead = nowcast
+    .filter((p) => p.time.getTime() > nowSnap.getTime())
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+  const nowcastEndMs = nowcastAhead.length > 0 ? nowcastAhead[nowcastAhead.length - 1].time.getTime() : -Infinity;
+  let usesNowcast = false;
+
   const obsBucketTimes = bucketTimes.filter((b) => !b.isForecast).map((b) => b.time);
   const obsByBucket = assignObsToNearestBuckets(observed, obsBucketTimes);
 
@@ -262,7 +275,9 @@ export function buildNowWindChartData(
       ? { time: nowSnap, avg: lastObs.avg!, gust: lastObs.gust!, dir: lastObs.dir! }
       : null;
 
-    const interpolated = interpolateForecast(forecast, time, bridge, nowSnap);
+    const fromNowcast = time.getTime() <= nowcastEndMs;
+    const interpolated = interpolateForecast(fromNowcast ? nowcastAhead : forecast, time, bridge, nowSnap);
+    if (fromNowcast && interpolated) usesNowcast = true;
     if (!interpolated) {
       bars.push(buildBar(time, null, null, null, true, true));
       continue;
@@ -289,5 +304,5 @@ export function buildNowWindChartData(
 
   const hasForecast = bars.some((b) => b.isForecast && !b.isGap);
 
-  return { bars, nowMs, nuLineLabel, yMax, summary, hasForecast };
+  return { bars, nowMs, nuLineLabel, yMax, summary, hasForecast, usesNowcast };
 }
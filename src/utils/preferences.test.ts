@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREFERENCES, parsePreferences, resolveTheme } from './preferences';
+
+describe('parsePreferences', () => {
+  it('behåller giltiga värden', () => {
+    expect(parsePreferences({ theme: 'dark', defaultTab: 'forecast', windUnit: 'kn' }))
+      .toEqual({ theme: 'dark', defaultTab: 'forecast', windUnit: 'kn' });
+  });
+
+  it('faller tillbaka på standard per fält för okända värden', () => {
+    expect(parsePreferences({ theme: 'neon', defaultTab: 'stats' })).toEqual({ theme: 'system', defaultTab: 'stats', windUnit: 'ms' });
+    expect(parsePreferences({ theme: 'light', defaultTab: 42, windUnit: 'mph' }))
+      .toEqual({ theme: 'light', defaultTab: 'overview', windUnit: 'ms' });
+  });
+
+  it('ger standard för trasig data', () => {
+    expect(parsePreferences(null)).toEqual(DEFAULT_PREFERENCES);
+    expect(parsePreferences('dark')).toEqual(DEFAULT_PREFERENCES);
+  });
+});
+
+describe('resolveTheme', () => {
+  it('följer enheten bara för system', () => {
+    expect(resolveTheme('system', true)).toBe('dark');
+    expect(resolveTheme('system', false)).toBe('light');
+    expect(resolveTheme('light', true)).toBe('light');
+    expect(resolveTheme('dark', false)).toBe('dark');
+  });
+});
@@ -0,0 +1,93 @@
+import { DEFAULT_WIND_UNIT, WIND_UNIT_OPTIONS, WindUnit } from './windUnits';
+
+/**
+ * Användarens inställningar (Inställningar-arket): tema, startflik och vindenhet.
+ * Vindskalan har egen lagring (utils/windProfiles). Sparas i localStorage;
+ * okända eller trasiga värden faller tillbaka på standard var för sig.
+ */
+
+export const PREFERENCES_STORAGE_KEY = 'kallifornia.preferences.v1';
+
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+/** Flikarna i bottennaven */
+export type AppTab = 'overview' | 'history' | 'forecast' | 'stats' | 'media';
+
+export interface Preferences {
+  theme: ThemePreference;
+  /** Fliken appen öppnar i */
+  defaultTab: AppTab;
+  /** Visningsenhet för vind — data och skalor är alltid m/s */
+  windUnit: WindUnit;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  theme: 'system',
+  defaultTab: 'overview',
+  windUnit: DEFAULT_WIND_UNIT,
+};
+
+export const THEME_OPTIONS: Array<{ id: ThemePreference; label: string }> = [
+  { id: 'system', label: 'Som enheten' },
+  { id: 'light', label: 'Ljust' },
+  { id: 'dark', label: 'Mörkt' },
+];
+
+export const TAB_OPTIONS: Array<{ id: AppTab; label: string }> = [
+  { id: 'overview', label: 'Läget' },
+  { id: 'history', label: 'Detaljer' },
+  { id: 'forecast', label: 'Prognos' },
+  { id: 'stats', label: 'Stats' },
+  { id: 'media', label: 'Media' },
+];
+
+/** Samma som <meta name="theme-color"> i index.html respektive mörka paletten */
+const THEME_COLORS = { light: '#fbfbf9', dark: '#121212' } as const;
+
+function isOneOf<T extends string>(value: unknown, options: Array<{ id: T }>): value is T {
+  return options.some(option => option.id === value);
+}
+
+export function parsePreferences(raw: unknown): Preferences {
+  if (!raw || typeof raw !== 'object') return DEFAULT_PREFERENCES;
+  const value = raw as Record<string, unknown>;
+  return {
+    theme: isOneOf(value.theme, THEME_OPTIONS) ? value.theme : DEFAULT_PREFERENCES.theme,
+    defaultTab: isOneOf(value.defaultTab, TAB_OPTIONS) ? value.defaultTab : DEFAULT_PREFERENCES.defaultTab,
+    windUnit: isOneOf(value.windUnit, WIND_UNIT_OPTIONS) ? value.windUnit : DEFAULT_PREFERENCES.windUnit,
+  };
+}
+
+export function loadPreferences(): Preferences {
+  try {
+    const raw = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    return raw ? parsePreferences(JSON.parse(raw)) : DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+export function savePreferences(preferences: Preferences): void {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Privat läge — inställningarna gäller bara sessionen
+  }
+}
+
+export function resolveTheme(theme: ThemePreference, systemPrefersDark: boolean): 'light' | 'dark' {
+  if (theme === 'system') return systemPrefersDark ? 'dark' : 'light';
+  return theme;
+}
+
+export function systemPrefersDark(): boolean {
+  return typeof window !== 'undefined' && window.matchMedia?.('(prefers-color-scheme: dark)').matches === true;
+}
+
+/** Sätter data-theme på <html> (paletten i index.css) och webbläsarens temafärg */
+export function applyTheme(theme: ThemePreference): void {
+  if (typeof document === 'undefined') return;
+  const resolved = resolveTheme(theme, systemPrefersDark());
+  document.documentElement.dataset.theme = resolved;
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', THEME_COLORS[resolved]);
+}
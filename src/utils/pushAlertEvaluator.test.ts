@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPOT } from '../config/spots';
+import type { AlertSample } from './alertRules';
+import { evaluatePushRules, type PushEvaluationInput } from './pushAlertEvaluator';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-06-15T06:00:00');
+
+/** Timvis prognos från NOW; wind(i) ger medelvind för timme i */
+function forecast(hours: number, wind: (i: number) => number): AlertSample[] {
+  return Array.from({ length: hours }, (_, i) => {
+    const time = new Date(NOW.getTime() + i * HOUR);
+    const hour = time.getHours();
+    return { time, avg: wind(i), gust: wind(i) + 3, dir: 200, isDaylight: hour >= 4 && hour < 22 };
+  });
+}
+
+function input(consensus: AlertSample[], station: PushEvaluationInput['station'] = null): PushEvaluationInput {
+  return { spot: DEFAULT_SPOT, consensus, station, observed: [], now: NOW };
+}
+
+describe('evaluatePushRules', () => {
+  it('larmar för ett surfbart fönster på minst 2 h i dagsljus', () => {
+    const alerts = evaluatePushRules(['surfable2hDaylight48h'], input(forecast(48, i => (i >= 30 && i < 33 ? 11 : 5))));
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].title).toBe('Kallsjön: surfbart imorgon');
+    expect(alerts[0].dedupeKey).toBe('kallsjon.surfable2hDaylight48h.2026-06-16');
+  });
+
+  it('ger samma dedupe-nyckel när fönstret flyttar en timme', () => {
+    const first = evaluatePushRules(['surfable2hDaylight48h'], input(forecast(48, i => (i >= 30 && i < 33 ? 11 : 5))));
+    const shifted = evaluatePushRules(['surfable2hDaylight48h'], input(forecast(48, i => (i >= 31 && i < 34 ? 11 : 5))));
+    expect(shifted[0].dedupeKey).toBe(first[0].dedupeKey);
+  });
+
+  it('räknar inte nattimmar och kräver hela längden', () => {
+    // 23–01 på natten, och en ensam timme på dagen
+    const alerts = evaluatePushRules(
+      ['surfable2hDaylight48h'],
+      input(forecast(48, i => ((i >= 17 && i < 20) || i === 30 ? 11 : 5)))
+    );
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('larmar för stationen bara när värdet är färskt', () => {
+    const fresh = { avg: 12.4, gust: 16, dir: 200, time: new Date(NOW.getTime() - 10 * 60 * 1000) };
+    const stale = { ...fresh, time: new Date(NOW.getTime() - 2 * HOUR) };
+    expect(evaluatePushRules(['stationAbove12'], input([], fresh))[0].title).toBe('Kallsjön: 12,4 m/s just nu');
+    expect(evaluatePushRules(['stationAbove12'], input([], stale))).toHaveLength(0);
+  });
+});
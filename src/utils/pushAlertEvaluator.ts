@@ -0,0 +1,150 @@
+import { addDays, format, isSameDay } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import type { SpotConfig } from '../config/spots';
+import {
+  ForecastWindowRule,
+  PUSH_ALERT_RULES,
+  STATION_NOW_MAX_AGE_MS,
+  StationNowRule,
+} from '../config/pushAlerts';
+import { AlertRule, AlertSample, evaluateAlertRule, formatAlertMatch } from './alertRules';
+import { getBestSlotPerDay } from './bestWindPerDay';
+import { chanceHours, findChances } from './surfChance';
+import { degreesToSector8 } from './windDirection8';
+
+/**
+ * Utvärderar push-regler för ett spot. Ren logik — skriptet hämtar
+ * prognos och stationsvärde, skickar och sparar leveranser.
+ *
+ * Dedupe: varje larm har en nyckel per spot, regel och dag. Samma fönster
+ * flyttar sig ofta en timme mellan prognoskörningar; nyckeln gör att det
+ * ändå bara annonseras en gång.
+ */
+
+export interface PushAlert {
+  ruleId: string;
+  spotId: string;
+  dedupeKey: string;
+  title: string;
+  body: string;
+  /** Öppnas vid klick på notisen */
+  url: string;
+}
+
+export interface StationReading {
+  avg: number;
+  gust: number;
+  dir: number | null;
+  time: Date;
+}
+
+export interface PushEvaluationInput {
+  spot: SpotConfig;
+  /** Timvis consensus med dagsljus, sorterad (samplesFromWindPoints) */
+  consensus: AlertSample[];
+  /** Stationens senaste värde; null = inget värde */
+  station: StationReading | null;
+  /** Stationens senaste timmar, för egna regler mot observationer */
+  observed: AlertSample[];
+  now: Date;
+}
+
+function dedupeKey(spotId: string, ruleId: string, day: Date): string {
+  return `${spotId}.${ruleId}.${format(day, 'yyyy-MM-dd')}`;
+}
+
+function dayLabel(day: Date, now: Date): string {
+  if (isSameDay(day, now)) return 'idag';
+  if (isSameDay(day, addDays(now, 1))) return 'imorgon';
+  return `på ${format(day, 'EEEE', { locale: sv })}`;
+}
+
+export function evaluateForecastWindow(rule: ForecastWindowRule, input: PushEvaluationInput): PushAlert | null {
+  const { spot, consensus, now } = input;
+  const scale = spot.windScale;
+  const minLevelIndex = scale.levels.findIndex(l => l.id === rule.minLevelId);
+  if (minLevelIndex < 0) return null;
+
+  const horizon = now.getTime() + rule.withinHours * 60 * 60 * 1000;
+  const slots = consensus.filter(s =>
+    s.time >= now && s.time.getTime() < horizon && (!rule.daylightOnly || s.isDaylight)
+  );
+  const chance = findChances(slots, scale, minLevelIndex).find(c => chanceHours(c) >= rule.minHours);
+  if (!chance) return null;
+
+  const start = chance.bucket.time;
+  const [dayBest] = getBestSlotPerDay(slots.filter(s => isSameDay(s.time, start)), 1, scale);
+  const level = scale.levels[dayBest?.levelIndex ?? minLevelIndex];
+  const peak = dayBest
+    ? ` · bäst kl ${format(dayBest.slot.time, 'HH')}${dayBest.slot.dir != null ? ` från ${degreesToSector8(dayBest.slot.dir)}` : ''}`
+    : '';
+
+  return {
+    ruleId: rule.id,
+    spotId: spot.id,
+    dedupeKey: dedupeKey(spot.id, rule.id, start),
+    title: `${spot.name}: ${level.label.toLowerCase()} ${dayLabel(start, now)}`,
+    body: `Kl ${format(start, 'HH')}–${format(chance.endTime, 'HH')} · ${Math.round(chance.maxAvg)} (${Math.round(chance.maxGust)}) m/s${peak}`,
+    url: '/',
+  };
+}
+
+export function evaluateStationNow(rule: StationNowRule, input: PushEvaluationInput): PushAlert | null {
+  const { spot, station, now } = input;
+  if (!station || now.getTime() - station.time.getTime() > STATION_NOW_MAX_AGE_MS) return null;
+  if (station.avg <= rule.minAvgMs) return null;
+
+  const dir = station.dir != null ? ` från ${degreesToSector8(station.dir)}` : '';
+  return {
+    ruleId: rule.id,
+    spotId: spot.id,
+    dedupeKey: dedupeKey(spot.id, rule.id, station.time),
+    title: `${spot.name}: ${station.avg.toFixed(1).replace('.', ',')} m/s just nu`,
+    body: `By ${Math.round(station.gust)} m/s${dir} · ${spot.station.name} kl ${format(station.time, 'HH:mm')}`,
+    url: '/',
+  };
+}
+
+/** Egen regel (utils/alertRules.ts) — samma dedupe per spot, regel och dag */
+export function evaluateCustomRule(rule: AlertRule, input: PushEvaluationInput): PushAlert | null {
+  const { spot, now } = input;
+  const samples = rule.source === 'forecast' ? input.consensus : input.observed;
+  const match = evaluateAlertRule(rule, samples, spot.windScale, now);
+  if (!match) return null;
+
+  const wind = `${Math.round(match.maxAvg)} (${Math.round(match.maxGust)}) m/s`;
+  const day = dayLabel(match.start, now).replace(/^på /, '');
+  return {
+    ruleId: rule.id,
+    spotId: spot.id,
+    dedupeKey: dedupeKey(spot.id, rule.id, match.start),
+    title: `${spot.name}: ${rule.name}`,
+    body: rule.source === 'forecast'
+      ? `${day[0].toUpperCase()}${day.slice(1)} ${formatAlertMatch(match, rule.source)} · ${wind}`
+      : `Pågått sedan ${format(match.start, 'HH:mm')} · ${wind}`,
+    url: '/',
+  };
+}
+
+/**
+ * Larm för de regler prenumerationen valt. Fasta regler först, sedan egna
+ * (customRules från prenumerationen); okända regel-id hoppas över.
+ */
+export function evaluatePushRules(
+  ruleIds: readonly string[],
+  input: PushEvaluationInput,
+  customRules: readonly AlertRule[] = []
+): PushAlert[] {
+  const fixed = PUSH_ALERT_RULES
+    .filter(rule => ruleIds.includes(rule.id))
+    .map(rule => (rule.kind === 'forecastWindow' ? evaluateForecastWindow(rule, input) : evaluateStationNow(rule, input)));
+  const custom = customRules
+    .filter(rule => ruleIds.includes(rule.id))
+    .map(rule => evaluateCustomRule(rule, input));
+  return [...fixed, ...custom].filter((alert): alert is PushAlert => alert !== null);
+}
+
+/** Dokument-id i alertDeliveries: en leverans per prenumeration och dedupe-nyckel */
+export function alertDeliveryId(subscriptionId: string, alert: PushAlert): string {
+  return `${subscriptionId}_${alert.dedupeKey}`;
+}
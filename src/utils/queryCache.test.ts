@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchQuery, getQueryState, invalidateQueries, QueryDefinition, resetQueryCache } from './queryCache';
+
+function counter(values: number[] = [1, 2, 3]) {
+  const fetcher = vi.fn(async () => {
+    const value = values[fetcher.mock.calls.length - 1];
+    if (value === undefined) throw new Error('nätfel');
+    return value;
+  });
+  return fetcher;
+}
+
+const definition = (fetcher: QueryDefinition<number>['fetcher'], overrides: Partial<QueryDefinition<number>> = {}) =>
+  ({ key: 'test', fetcher, staleTime: 60 * 1000, tags: ['obs', 'obs:2026-06'], ...overrides });
+
+beforeEach(() => {
+  resetQueryCache();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('fetchQuery', () => {
+  it('slår ihop samtidiga hämtningar och svarar ur minnet medan data är färsk', async () => {
+    const fetcher = counter();
+    const [a, b] = await Promise.all([fetchQuery(definition(fetcher)), fetchQuery(definition(fetcher))]);
+    expect([a, b]).toEqual([1, 1]);
+    expect(await fetchQuery(definition(fetcher))).toBe(1);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('hämtar om inaktuell data och behåller den gamla när hämtningen fallerar', async () => {
+    const fetcher = counter([1]);
+    await fetchQuery(definition(fetcher, { staleTime: 0 }));
+
+    expect(await fetchQuery(definition(fetcher, { staleTime: 0 }))).toBe(1);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(getQueryState('test')?.error?.message).toBe('nätfel');
+  });
+
+  it('kastar när ingen data finns att falla tillbaka på', async () => {
+    await expect(fetchQuery(definition(counter([])))).rejects.toThrow('nätfel');
+  });
+
+  it('skickar med förra svaret till hämtningen', async () => {
+    const fetcher = vi.fn(async ({ previous }: { previous: number | undefined }) => (previous ?? 0) + 1);
+    await fetchQuery(definition(fetcher, { staleTime: 0 }));
+    expect(await fetchQuery(definition(fetcher, { staleTime: 0 }))).toBe(2);
+  });
+});
+
+describe('invalidateQueries', () => {
+  it('hämtar om frågor med taggen trots färsk data, andra lämnas', async () => {
+    const fetcher = counter();
+    const other = counter([10, 20]);
+    await fetchQuery(definition(fetcher));
+    await fetchQuery(definition(other, { key: 'annan', tags: ['forecast'] }));
+
+    await invalidateQueries({ tags: ['obs:2026-06'] });
+
+    expect(await fetchQuery(definition(fetcher))).toBe(2);
+    expect(await fetchQuery(definition(other, { key: 'annan', tags: ['forecast'] }))).toBe(10);
+  });
+
+  it('purge släpper datan så att en fallerande hämtning inte har något att visa', async () => {
+    const fetcher = counter([1]);
+    await fetchQuery(definition(fetcher));
+
+    await invalidateQueries({ keys: ['test'], purge: true });
+
+    expect(getQueryState('test')?.data).toBeUndefined();
+    await expect(fetchQuery(definition(fetcher))).rejects.toThrow('nätfel');
+  });
+});
@@ -0,0 +1,272 @@
+import { format } from 'date-fns';
+import {
+  CacheKind,
+  CacheRowInput,
+  deleteByTag,
+  deleteEntry,
+  getEntry,
+  getRows,
+  putEntry,
+  putRows,
+} from './idbStore';
+
+/**
+ * Gemensam query-cache för datalagret (observationer, dygnsstatistik,
+ * prognoser, media). Ersätter useWindData:s minnescache, useWindCache och
+ * cacheStorage.
+ *
+ * - **En nyckel per fråga.** Hookar som frågar efter samma nyckel delar
+ *   data, och samtidiga hämtningar slås ihop till en (`inflight`).
+ * - **Stale-while-revalidate.** Data äldre än `staleTime` visas direkt men
+ *   hämtas om i bakgrunden. Misslyckas hämtningen behålls gammal data
+ *   (felet finns i `error`).
+ * - **Lokal kopia.** Med `persister` läses IndexedDB (utils/idbStore) när
+ *   minnet saknar nyckeln och skrivs efter varje hämtning — även utgången
+ *   kopia används hellre än inget när nätet är borta.
+ * - **Taggar.** `invalidateQueries` markerar frågor med en tagg som
+ *   inaktuella (hämtas om nästa gång de används; monterade hookar direkt).
+ *   `purge` tar också bort data i minnet och den lokala kopian.
+ */
+
+export interface QueryState<T = unknown> {
+  /** undefined = aldrig hämtad (eller rensad) */
+  data: T | undefined;
+  /** När data hämtades (ms); 0 = ingen data */
+  updatedAt: number;
+  /** Senaste hämtningens fel — data kan ändå finnas (gammal) */
+  error: Error | null;
+  isFetching: boolean;
+  /** Sekvensnummer när datan började hämtas */
+  fetchedSeq: number;
+  /** Sekvensnummer vid senaste invalidering; data hämtad före räknas som inaktuell */
+  invalidatedSeq: number;
+}
+
+export interface QueryPersister<T> {
+  read(key: string): Promise<{ data: T; updatedAt: number } | null>;
+  write(key: string, data: T, options: { ttlMs: number; tags: string[] }): Promise<void>;
+}
+
+export interface QueryDefinition<T> {
+  key: string;
+  /** previous = senast kända data (t.ex. för ETag) */
+  fetcher: (context: { previous: T | undefined }) => Promise<T>;
+  /** Hur länge data räknas som färsk; Infinity = hämtas bara om efter invalidering */
+  staleTime: number;
+  tags?: string[];
+  persister?: QueryPersister<T>;
+}
+
+/** Frågor utan lyssnare släpps ur minnet efter så här lång tid */
+const GC_TIME_MS = 5 * 60 * 1000;
+
+const EMPTY_STATE: QueryState = {
+  data: undefined,
+  updatedAt: 0,
+  error: null,
+  isFetching: false,
+  fetchedSeq: 0,
+  invalidatedSeq: 0,
+};
+
+const states = new Map<string, QueryState>();
+const tagsByKey = new Map<string, string[]>();
+const inflight = new Map<string, Promise<unknown>>();
+const listeners = new Map<string, Set<() => void>>();
+const gcTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/** Ordnar hämtningar och invalideringar (samma millisekund räcker inte) */
+let seq = 0;
+
+/** Sessionsflagga (felsökning): hoppa över färsk data och lokal kopia */
+let bypass = false;
+
+function setState(key: string, patch: Partial<QueryState>): QueryState {
+  const next = { ...(states.get(key) ?? EMPTY_STATE), ...patch };
+  states.set(key, next);
+  listeners.get(key)?.forEach(listener => listener());
+  return next;
+}
+
+export function isQueryFresh(state: QueryState, staleTime: number, now: number = Date.now()): boolean {
+  return state.data !== undefined
+    && state.fetchedSeq > state.invalidatedSeq
+    && now - state.updatedAt < staleTime;
+}
+
+/** Taggar för en period: `<prefix>:yyyy` och `<prefix>:yyyy-MM` */
+export function periodTags(prefix: string, date: Date): string[] {
+  return [`${prefix}:${format(date, 'yyyy')}`, `${prefix}:${format(date, 'yyyy-MM')}`];
+}
+
+export function getQueryState<T>(key: string): QueryState<T> | undefined {
+  return states.get(key) as QueryState<T> | undefined;
+}
+
+export function getQueryData<T>(key: string): T | undefined {
+  return getQueryState<T>(key)?.data;
+}
+
+/** Lokal ändring (t.ex. borttagen post) — påverkar inte när frågan hämtas om */
+export function setQueryData<T>(key: string, updater: (previous: T | undefined) => T): void {
+  setState(key, { data: updater(getQueryData<T>(key)) });
+}
+
+/**
+ * Data för frågan: färsk från minnet, annars pågående hämtning, annars
+ * lokal kopia (om färsk), annars nätet. Kastar bara när ingen data alls finns.
+ */
+export function fetchQuery<T>(query: QueryDefinition<T>): Promise<T> {
+  const { key } = query;
+  tagsByKey.set(key, query.tags ?? []);
+
+  const state = getQueryState<T>(key);
+  if (!bypass && state && isQueryFresh(state, query.staleTime)) {
+    return Promise.resolve(state.data as T);
+  }
+
+  const running = inflight.get(key);
+  if (running) return running as Promise<T>;
+
+  const promise = runQuery(query).finally(() => inflight.delete(key));
+  inflight.set(key, promise);
+  return promise;
+}
+
+async function runQuery<T>(query: QueryDefinition<T>): Promise<T> {
+  const { key, persister, staleTime } = query;
+  let state = setState(key, { isFetching: true }) as QueryState<T>;
+
+  if (!bypass && persister && state.data === undefined) {
+    const persisted = await persister.read(key).catch(() => null);
+    if (persisted) {
+      state = setState(key, { data: persisted.data, updatedAt: persisted.updatedAt, fetchedSeq: ++seq }) as QueryState<T>;
+      if (isQueryFresh(state, staleTime)) {
+        setState(key, { isFetching: false });
+        return persisted.data;
+      }
+    }
+  }
+
+  // Start- inte sluttid: en invalidering under hämtningen gör svaret inaktuellt
+  const startedAt = Date.now();
+  const fetchedSeq = ++seq;
+  try {
+    const data = await query.fetcher({ previous: state.data });
+    setState(key, { data, updatedAt: startedAt, fetchedSeq, error: null, isFetching: false });
+    persister?.write(key, data, { ttlMs: staleTime, tags: query.tags ?? [] })
+      .catch(error => console.warn(`Could not persist ${key}:`, error));
+    return data;
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    const current = setState(key, { error, isFetching: false }) as QueryState<T>;
+    if (current.data === undefined) throw error;
+    console.warn(`Fetch failed for ${key}, using cached data`, error);
+    return current.data;
+  }
+}
+
+/**
+ * Markerar frågor (per tagg eller nyckel) som inaktuella. purge tar även bort
+ * data i minnet och lokala kopior — också för frågor som inte laddats i sessionen.
+ */
+export async function invalidateQueries({
+  tags = [],
+  keys = [],
+  purge = false,
+}: {
+  tags?: string[];
+  keys?: string[];
+  purge?: boolean;
+}): Promise<void> {
+  const invalidatedSeq = ++seq;
+  const matched = [...states.keys()].filter(key =>
+    keys.includes(key) || (tagsByKey.get(key) ?? []).some(tag => tags.includes(tag))
+  );
+
+  if (purge) {
+    matched.forEach(key => states.set(key, { ...EMPTY_STATE, invalidatedSeq }));
+    await Promise.all([
+      ...tags.map(tag => deleteByTag(tag)),
+      ...keys.map(key => deleteEntry(key)),
+    ]).catch(error => console.warn('Could not purge local cache:', error));
+  }
+
+  matched.forEach(key => setState(key, { invalidatedSeq }));
+}
+
+/** Lyssna på ändringar för en nyckel; returnerar avregistrering */
+export function subscribe(key: string, listener: () => void): () => void {
+  const set = listeners.get(key) ?? new Set();
+  set.add(listener);
+  listeners.set(key, set);
+  clearTimeout(gcTimers.get(key));
+  gcTimers.delete(key);
+
+  return () => {
+    set.delete(listener);
+    if (set.size > 0) return;
+    listeners.delete(key);
+    gcTimers.set(key, setTimeout(() => {
+      gcTimers.delete(key);
+      if (listeners.has(key) || inflight.has(key)) return;
+      states.delete(key);
+      tagsByKey.delete(key);
+    }, GC_TIME_MS));
+  };
+}
+
+export function setQueryCacheBypass(value: boolean): void {
+  bypass = value;
+}
+
+export function isQueryCacheBypassed(): boolean {
+  return bypass;
+}
+
+/** Tömmer minnet (tester, utloggning) — lokala kopior ligger kvar */
+export function resetQueryCache(): void {
+  gcTimers.forEach(timer => clearTimeout(timer));
+  [states, tagsByKey, inflight, listeners, gcTimers].forEach(map => map.clear());
+  bypass = false;
+}
+
+// --- Lokala kopior (idbStore) -------------------------------------------------
+
+/** Hela värdet i en post. serialize/deserialize för typer som inte överlever IndexedDB */
+export function entryPersister<T, S = T>(
+  kind: CacheKind,
+  codec?: { serialize: (data: T) => S; deserialize: (stored: S) => T }
+): QueryPersister<T> {
+  return {
+    async read(key) {
+      const entry = await getEntry<S>(key);
+      if (!entry || entry.value === null) return null;
+      const data = codec ? codec.deserialize(entry.value) : entry.value as unknown as T;
+      return { data, updatedAt: entry.storedAt };
+    },
+    write(key, data, options) {
+      return putEntry(key, kind, codec ? codec.serialize(data) : data, options);
+    },
+  };
+}
+
+/** En lista som tidsindexerade rader (scope grupperar rader för queryRange) */
+export function rowsPersister<T, S = T>(
+  kind: CacheKind,
+  scope: string,
+  toRow: (item: T) => CacheRowInput<S>,
+  fromRow: (value: S) => T = value => value as unknown as T
+): QueryPersister<T[]> {
+  return {
+    async read(key) {
+      const entry = await getEntry(key);
+      if (!entry) return null;
+      const rows = await getRows<S>(key);
+      return { data: rows.map(row => fromRow(row.value)), updatedAt: entry.storedAt };
+    },
+    write(key, data, options) {
+      return putRows(key, kind, scope, data.map(toRow), options);
+    },
+  };
+}
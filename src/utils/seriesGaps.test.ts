@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { insertGapBreaks, intervalWeightsMs } from './seriesGaps';
+import { aggregateWindIntervals, type WindInterval } from './dailyStatsAggregation';
+
+const MIN = 60 * 1000;
+const DAY_START = new Date('2026-06-15T00:00:00').getTime();
+
+/** 5-minutersvärden med konstant vind, utom de index som saknas */
+function series(count: number, force: number, missing: (i: number) => boolean = () => false): WindInterval[] {
+  return Array.from({ length: count }, (_, i) => i)
+    .filter(i => !missing(i))
+    .map(i => ({ force, forceMax: force + 2, direction: 200, time: new Date(DAY_START + i * 5 * MIN) }));
+}
+
+describe('insertGapBreaks', () => {
+  it('lägger en brytpunkt mitt i luckan men inte vid sena intervall', () => {
+    const times = [0, 5, 15, 60, 65].map(m => m * MIN);
+    const result = insertGapBreaks(times, t => t, t => -t);
+    expect(result).toEqual([0, 5 * MIN, 15 * MIN, -37.5 * MIN, 60 * MIN, 65 * MIN]);
+  });
+});
+
+describe('intervalWeightsMs', () => {
+  it('räknar bara ett normalt intervall efter en lucka', () => {
+    expect(intervalWeightsMs([0, 5, 10, 60].map(m => m * MIN))).toEqual([5, 5, 5, 5].map(m => m * MIN));
+    expect(intervalWeightsMs([0, 10].map(m => m * MIN))).toEqual([5 * MIN, 10 * MIN]);
+  });
+});
+
+describe('aggregateWindIntervals med luckor', () => {
+  it('ger full täckning för en komplett dag', () => {
+    const result = aggregateWindIntervals(series(288, 11), '2026-06-15');
+    expect(result.coveragePercent).toBe(100);
+    expect(result.insufficientCoverage).toBe(false);
+    expect(result.surfableMinutes).toBe(24 * 60);
+  });
+
+  it('markerar en halv dag som ofullständig och räknar inte luckan som surftid', () => {
+    const result = aggregateWindIntervals(series(288, 11, i => i >= 144), '2026-06-15');
+    expect(result.coveragePercent).toBe(50);
+    expect(result.insufficientCoverage).toBe(true);
+    expect(result.surfableMinutes).toBe(12 * 60);
+  });
+
+  it('räknar täckning bara fram till until för pågående dag', () => {
+    const until = new Date(DAY_START + 12 * 60 * MIN);
+    const result = aggregateWindIntervals(series(144, 11), '2026-06-15', { until });
+    expect(result.coveragePercent).toBe(100);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Luckor i stationens 5-minutersserie. Stationen missar ibland rapporter;
+ * grafer ska bryta linjen där data saknas och aggregering ska väga varje
+ * mätning med den tid den faktiskt täcker.
+ */
+
+export const OBSERVATION_INTERVAL_MS = 5 * 60 * 1000;
+/** Längre avstånd mellan två mätningar = lucka */
+export const OBSERVATION_GAP_MS = 15 * 60 * 1000;
+
+export function isObservationGap(prevMs: number, nextMs: number, maxGapMs: number = OBSERVATION_GAP_MS): boolean {
+  return nextMs - prevMs > maxGapMs;
+}
+
+/**
+ * Lägger in en brytpunkt mitt i varje lucka. Recharts bryter Line/Area vid
+ * null (connectNulls=false), så brytpunkten ska ha null i värdefälten.
+ * `shouldBreak` avgör vilka par som räknas (t.ex. bara observation–observation).
+ */
+export function insertGapBreaks<T>(
+  points: T[],
+  timeOf: (point: T) => number,
+  makeBreak: (timeMs: number, before: T) => T,
+  shouldBreak: (before: T, after: T) => boolean = () => true,
+  maxGapMs: number = OBSERVATION_GAP_MS
+): T[] {
+  const result: T[] = [];
+  points.forEach((point, i) => {
+    const prev = points[i - 1];
+    if (prev && shouldBreak(prev, point) && isObservationGap(timeOf(prev), timeOf(point), maxGapMs)) {
+      result.push(makeBreak((timeOf(prev) + timeOf(point)) / 2, prev));
+    }
+    result.push(point);
+  });
+  return result;
+}
+
+/**
+ * Hur lång tid (ms) varje mätning representerar: tiden sedan föregående
+ * mätning, dock högst lucktröskeln — efter en lucka räknas bara ett normalt
+ * intervall. Första mätningen räknas som ett normalt intervall.
+ * Indata ska vara sorterad.
+ */
+export function intervalWeightsMs(timesMs: number[]): number[] {
+  return timesMs.map((time, i) => {
+    if (i === 0) return OBSERVATION_INTERVAL_MS;
+    const delta = time - timesMs[i - 1];
+    if (delta <= 0) return 0;
+    return isObservationGap(timesMs[i - 1], time) ? OBSERVATION_INTERVAL_MS : delta;
+  });
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessStationHealth,
+  computeIntervalCompliance,
+  findStationGaps,
+  uptimeByDay,
+  uptimeByMonth,
+} from './stationHealth';
+
+const STEP = 5 * 60 * 1000;
+const DAY_START = new Date('2026-10-18T00:00:00');
+
+/** Rapporter var 5:e minut från start, utom de index som saknas */
+function reports(count: number, missing: (i: number) => boolean = () => false): Date[] {
+  return Array.from({ length: count }, (_, i) => i)
+    .filter(i => !missing(i))
+    .map(i => new Date(DAY_START.getTime() + i * STEP));
+}
+
+describe('computeIntervalCompliance', () => {
+  it('ger full upptid för en komplett dag', () => {
+    const end = new Date(DAY_START.getTime() + 24 * 60 * 60 * 1000);
+    const result = computeIntervalCompliance(reports(288), DAY_START, end);
+    expect(result.uptime).toBe(1);
+    expect(result.onTimeShare).toBe(1);
+    expect(result.medianIntervalMs).toBe(STEP);
+  });
+});
+
+describe('findStationGaps', () => {
+  it('hittar luckor och en pågående tystnad, senaste först', () => {
+    const times = reports(48, i => i >= 10 && i < 16);
+    const now = new Date(DAY_START.getTime() + 60 * STEP);
+    const gaps = findStationGaps(times, now);
+
+    expect(gaps).toHaveLength(2);
+    expect(gaps[0].to).toBeNull();
+    expect(gaps[1].durationMs).toBe(7 * STEP);
+  });
+
+  it('räknar inte ett sent intervall som lucka', () => {
+    expect(findStationGaps(reports(12, i => i === 5), new Date(DAY_START.getTime() + 12 * STEP))).toEqual([]);
+  });
+});
+
+describe('uptimeByDay / uptimeByMonth', () => {
+  it('räknar idag bara fram till nu', () => {
+    const now = new Date(DAY_START.getTime() + 12 * 60 * 60 * 1000);
+    const [today] = uptimeByDay(reports(144), DAY_START, now);
+    expect(today.expected).toBe(144);
+    expect(today.uptime).toBe(1);
+  });
+
+  it('räknar saknade dagar som noll', () => {
+    const [month] = uptimeByMonth(
+      [{ date: '2026-09-01', dataPointsCount: 288 }, { date: '2026-09-02', dataPointsCount: 144 }],
+      new Date('2026-10-19T12:00:00')
+    );
+    expect(month.expected).toBe(30 * 288);
+    expect(month.uptime).toBeCloseTo(432 / (30 * 288));
+  });
+});
+
+describe('assessStationHealth', () => {
+  const fullDays = Array.from({ length: 7 }, (_, i) => ({ dateKey: `d${i}`, received: 288, expected: 288, uptime: 1 }));
+
+  it('är ok när allt rapporteras', () => {
+    expect(assessStationHealth(fullDays, [])).toEqual({ verdict: 'ok', reasons: [] });
+  });
+
+  it('vill ha platsbesök när stationen tystnat eller mätaren frusit', () => {
+    const silent = [{ from: new Date(), to: null, durationMs: 3 * 60 * 60 * 1000 }];
+    expect(assessStationHealth(fullDays, silent).verdict).toBe('visit');
+    expect(assessStationHealth(fullDays, [], 8).verdict).toBe('visit');
+    expect(assessStationHealth(fullDays, [], 2).verdict).toBe('watch');
+  });
+});
@@ -0,0 +1,202 @@
+import { eachDayOfInterval, endOfDay, format, getDaysInMonth, parseISO, startOfDay } from 'date-fns';
+import { OBSERVATION_GAP_MS, OBSERVATION_INTERVAL_MS } from './seriesGaps';
+
+/**
+ * Stationshälsa för Vassnäs: rapporterar stationen var 5:e minut som den
+ * ska, var finns luckorna och behövs ett platsbesök? Ren logik — data
+ * kommer från `wind` (senaste 30 dagarna) och `dailyStats` (längre trender).
+ */
+
+export const REPORT_INTERVAL_MS = OBSERVATION_INTERVAL_MS;
+export const EXPECTED_PER_DAY = (24 * 60 * 60 * 1000) / REPORT_INTERVAL_MS;
+
+export const STATION_HEALTH_CONFIG = {
+  /** Intervall upp till så här långt räknas som i tid (jitter i loggern) */
+  ON_TIME_MS: 5.5 * 60 * 1000,
+  /** Längre uppehåll än så är en lucka */
+  GAP_MIN_MS: OBSERVATION_GAP_MS,
+  /** Tyst så här länge just nu = något är fel */
+  SILENT_VISIT_MS: 60 * 60 * 1000,
+  /** Upptid senaste 7 dygnen under detta = håll koll / åk dit */
+  UPTIME_WATCH: 0.9,
+  UPTIME_VISIT: 0.7,
+} as const;
+
+export interface IntervalCompliance {
+  /** Förväntade rapporter i perioden */
+  expected: number;
+  received: number;
+  /** received / expected, högst 1 */
+  uptime: number;
+  /** Andel intervall mellan två rapporter som kom i tid */
+  onTimeShare: number;
+  /** Median mellan två rapporter (ms); null vid < 2 rapporter */
+  medianIntervalMs: number | null;
+}
+
+export interface StationGap {
+  from: Date;
+  /** null = luckan pågår (ingen rapport sedan `from`) */
+  to: Date | null;
+  durationMs: number;
+}
+
+export interface DayUptime {
+  dateKey: string;
+  received: number;
+  expected: number;
+  uptime: number;
+}
+
+export interface MonthUptime {
+  /** yyyy-MM */
+  monthKey: string;
+  received: number;
+  expected: number;
+  uptime: number;
+}
+
+export type StationVerdict = 'ok' | 'watch' | 'visit';
+
+export interface StationHealthVerdict {
+  verdict: StationVerdict;
+  reasons: string[];
+}
+
+const sortedTimes = (times: Date[]) => times.map(t => t.getTime()).sort((a, b) => a - b);
+
+/** Förväntat antal rapporter mellan start och end */
+function expectedReports(startMs: number, endMs: number): number {
+  return Math.max(0, Math.floor((endMs - startMs) / REPORT_INTERVAL_MS));
+}
+
+export function computeIntervalCompliance(times: Date[], start: Date, end: Date): IntervalCompliance {
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+  const inRange = sortedTimes(times).filter(t => t >= startMs && t < endMs);
+  const expected = expectedReports(startMs, endMs);
+
+  const intervals: number[] = [];
+  for (let i = 1; i < inRange.length; i++) intervals.push(inRange[i] - inRange[i - 1]);
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const onTime = intervals.filter(ms => ms <= STATION_HEALTH_CONFIG.ON_TIME_MS).length;
+
+  return {
+    expected,
+    received: inRange.length,
+    uptime: expected > 0 ? Math.min(1, inRange.length / expected) : 0,
+    onTimeShare: intervals.length > 0 ? onTime / intervals.length : 0,
+    medianIntervalMs: sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : null,
+  };
+}
+
+/**
+ * Luckor längre än GAP_MIN_MS, senaste först. En pågående lucka (tyst sedan
+ * senaste rapporten) kommer med `to: null` om den är längre än gränsen.
+ */
+export function findStationGaps(times: Date[], now: Date = new Date()): StationGap[] {
+  const sorted = sortedTimes(times);
+  const gaps: StationGap[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const durationMs = sorted[i] - sorted[i - 1];
+    if (durationMs > STATION_HEALTH_CONFIG.GAP_MIN_MS) {
+      gaps.push({ from: new Date(sorted[i - 1]), to: new Date(sorted[i]), durationMs });
+    }
+  }
+
+  const last = sorted[sorted.length - 1];
+  if (last != null && now.getTime() - last > STATION_HEALTH_CONFIG.GAP_MIN_MS) {
+    gaps.push({ from: new Date(last), to: null, durationMs: now.getTime() - last });
+  }
+
+  return gaps.reverse();
+}
+
+/** Upptid per dag; idag räknas bara fram till nu */
+export function uptimeByDay(times: Date[], start: Date, now: Date = new Date()): DayUptime[] {
+  const counts = new Map<string, number>();
+  times.forEach(t => {
+    const key = format(t, 'yyyy-MM-dd');
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  return eachDayOfInterval({ start: startOfDay(start), end: now }).map(day => {
+    const dateKey = format(day, 'yyyy-MM-dd');
+    const dayEnd = Math.min(endOfDay(day).getTime() + 1, now.getTime());
+    const expected = expectedReports(day.getTime(), dayEnd);
+    const received = counts.get(dateKey) ?? 0;
+    return { dateKey, received, expected, uptime: expected > 0 ? Math.min(1, received / expected) : 0 };
+  });
+}
+
+/**
+ * Upptid per månad ur dailyStats-dokumentens dataPointsCount. Dagar utan
+ * dokument räknas som 0 rapporter; innevarande månad bara fram till idag.
+ */
+export function uptimeByMonth(
+  days: Array<{ date: string; dataPointsCount: number }>,
+  now: Date = new Date()
+): MonthUptime[] {
+  const received = new Map<string, number>();
+  days.forEach(day => {
+    const monthKey = day.date.slice(0, 7);
+    received.set(monthKey, (received.get(monthKey) ?? 0) + (day.dataPointsCount || 0));
+  });
+
+  const currentMonthKey = format(now, 'yyyy-MM');
+  return Array.from(received.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([monthKey, count]) => {
+      const daysInMonth = monthKey === currentMonthKey
+        ? now.getDate()
+        : getDaysInMonth(parseISO(`${monthKey}-01`));
+      const expected = daysInMonth * EXPECTED_PER_DAY;
+      return { monthKey, received: count, expected, uptime: Math.min(1, count / expected) };
+    });
+}
+
+/** Sammanvägd bedömning: behövs ett besök vid masten? */
+export function assessStationHealth(
+  recentDays: DayUptime[],
+  gaps: StationGap[],
+  frozenHours: number = 0
+): StationHealthVerdict {
+  const reasons: string[] = [];
+  let verdict: StationVerdict = 'ok';
+  const raise = (level: StationVerdict, reason: string) => {
+    reasons.push(reason);
+    if (level === 'visit' || verdict === 'ok') verdict = level;
+  };
+
+  const ongoing = gaps.find(g => g.to === null);
+  if (ongoing && ongoing.durationMs >= STATION_HEALTH_CONFIG.SILENT_VISIT_MS) {
+    raise('visit', `Ingen rapport på ${Math.round(ongoing.durationMs / 3_600_000)} h`);
+  }
+
+  const lastWeek = recentDays.slice(-7);
+  const expected = lastWeek.reduce((sum, d) => sum + d.expected, 0);
+  const received = lastWeek.reduce((sum, d) => sum + d.received, 0);
+  const weekUptime = expected > 0 ? received / expected : 0;
+  if (weekUptime < STATION_HEALTH_CONFIG.UPTIME_VISIT) {
+    raise('visit', `Upptid senaste veckan ${Math.round(weekUptime * 100)} %`);
+  } else if (weekUptime < STATION_HEALTH_CONFIG.UPTIME_WATCH) {
+    raise('watch', `Upptid senaste veckan ${Math.round(weekUptime * 100)} %`);
+  }
+
+  if (frozenHours >= 6) {
+    raise('visit', `Fastfrusen vindmätare ${Math.round(frozenHours)} h senaste veckan`);
+  } else if (frozenHours >= 1) {
+    raise('watch', `Fastfrusen vindmätare ${Math.round(frozenHours)} h senaste veckan`);
+  }
+
+  return { verdict, reasons };
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ${minutes % 60 > 0 ? `${minutes % 60} min` : ''}`.trim();
+  return `${Math.round(hours / 24)} dygn`;
+}
@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import type { DailyStats } from '../hooks/useDailyStats';
-import { WIND_SCALE_LEVELS } from '../config/windScale';
-import { applyStatsFilters, DEFAULT_STATS_FILTERS } from './statsFilters';
+import { DEFAULT_WIND_SCALE, WIND_SCALE_LEVELS } from '../config/windScale';
+import { applyStatsFilters, DEFAULT_STATS_FILTERS, getMinLevelPresets } from './statsFilters';
 import { degreesToSector8 } from './windDirection8';
 
 const SURFABLE = WIND_SCALE_LEVELS.findIndex((l) => l.id === 'surfable');
@@ -66,3 +66,30 @@ describe('applyStatsFilters (Paket 3)', () => {
     expect(applyStatsFilters([d2024, d2025], { ...DEFAULT_STATS_FILTERS, year: 'all' }).days).toHaveLength(2);
   });
 });
+
+describe('applyStatsFilters med egen skala', () => {
+  const foil = {
+    ...DEFAULT_WIND_SCALE,
+    levels: DEFAULT_WIND_SCALE.levels.map((l) => (l.id === 'surfable' ? { ...l, minAvgMs: 7 } : l)),
+  };
+
+  it('räknar nivån från dygnets max bland alla dagar', () => {
+    const calm = day({ date: '2024-07-03', maxForce: 7.5, maxGust: 9, isSurfableDay: false, peakLevelIndex: 0 });
+    const result = applyStatsFilters([calm], DEFAULT_STATS_FILTERS, undefined, foil);
+    expect(result.days).toHaveLength(1);
+    expect(result.total).toBe(1);
+  });
+
+  it('dagsljusfiltret gäller inte — lagrade dagsljusminuter bygger på spotets skala', () => {
+    const night = day({ date: '2024-07-10', surfableMinutesDaylight: 0, peakLevelIndexDaylight: 0 });
+    expect(applyStatsFilters([night], DEFAULT_STATS_FILTERS, undefined, foil).days).toHaveLength(1);
+  });
+});
+
+describe('getMinLevelPresets', () => {
+  it('visar trösklarna i vald enhet', () => {
+    expect(getMinLevelPresets(undefined, 'ms')[0].label).toBe('Surfbart ≥ 10');
+    expect(getMinLevelPresets(undefined, 'kn')[0].label).toBe('Surfbart ≥ 19');
+    expect(getMinLevelPresets(undefined, 'kmh')[0].label).toBe('Surfbart ≥ 36');
+  });
+});
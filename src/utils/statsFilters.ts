@@ -1,7 +1,10 @@
 import type { DailyStats } from '../hooks/useDailyStats';
-import { WIND_SCALE_LEVELS } from '../config/windScale';
+import { DEFAULT_WIND_SCALE, getEffectiveLevelIndex, WindScale } from '../config/windScale';
 import { filterSurfableDays } from './surfableDays';
+import { SURFABLE_LEVEL_INDEX } from './dailyStatsAggregation';
+import type { IceSeason } from '../config/iceConfig';
 import { degreesToSector8, type WindSector8 } from './windDirection8';
+import { DEFAULT_WIND_UNIT, formatWindThreshold, type WindUnit } from './windUnits';
 
 export type StatsYearFilter = number | 'all';
 export type StatsSortMode = 'maxForce' | 'maxGust' | 'surfableMinutes';
@@ -12,15 +15,33 @@ export interface StatsFilters {
   minLevelIndex: number;
   directions: WindSector8[];
   year: StatsYearFilter;
+  /** Utesluter dagar där stationen täckt under MIN_COVERAGE_PERCENT av dygnet */
+  excludeLowCoverage: boolean;
 }
 
 export const STATS_FILTERS_STORAGE_KEY = 'kallifornia.stats.filters.v1';
 
-export const MIN_LEVEL_PRESETS = [
-  { id: 'surfable', label: 'Surfbart ≥ 10', index: WIND_SCALE_LEVELS.findIndex((l) => l.id === 'surfable') },
-  { id: 'good', label: 'Bra ≥ 12', index: WIND_SCALE_LEVELS.findIndex((l) => l.id === 'good') },
-  { id: 'great', label: 'Riktigt bra ≥ 15', index: WIND_SCALE_LEVELS.findIndex((l) => l.id === 'great') },
-] as const;
+export interface MinLevelPreset {
+  id: string;
+  label: string;
+  index: number;
+}
+
+const MIN_LEVEL_PRESET_IDS = ['surfable', 'good', 'great'] as const;
+
+/** Miniminivåer med skalans etiketter och trösklar i vald enhet, t.ex. "Surfbart ≥ 10" */
+export function getMinLevelPresets(
+  scale: WindScale = DEFAULT_WIND_SCALE,
+  unit: WindUnit = DEFAULT_WIND_UNIT
+): MinLevelPreset[] {
+  return MIN_LEVEL_PRESET_IDS.map((id) => {
+    const index = scale.levels.findIndex((l) => l.id === id);
+    const level = scale.levels[index];
+    return { id, label: `${level.label} ≥ ${formatWindThreshold(level.minAvgMs, unit)}`, index };
+  });
+}
+
+export const MIN_LEVEL_PRESETS: readonly MinLevelPreset[] = getMinLevelPresets();
 
 export const DEFAULT_STATS_FILTERS: StatsFilters = {
   excludeIce: true,
@@ -28,6 +49,7 @@ export const DEFAULT_STATS_FILTERS: StatsFilters = {
   minLevelIndex: MIN_LEVEL_PRESETS[0].index,
   directions: [],
   year: 'all',
+  excludeLowCoverage: false,
 };
 
 export interface StatsFilterResult {
@@ -39,15 +61,23 @@ function passesDaylight(day: DailyStats): boolean {
   return (day.surfableMinutesDaylight ?? 0) > 0;
 }
 
-function getPeakLevelIndex(day: DailyStats, daylightOnly: boolean): number {
+/**
+ * Med en personlig skala räknas nivån om från dagens max (medel, by och
+ * riktningen vid max) — lagrad nivå bygger på spotets skala. Dagsljustoppen
+ * finns inte lagrad som vind, så då gäller dygnets max (se isDaylightFilterActive).
+ */
+function getPeakLevelIndex(day: DailyStats, daylightOnly: boolean, rerate?: WindScale): number {
+  if (rerate) {
+    return getEffectiveLevelIndex(day.maxForce, day.maxGust, rerate, day.maxForceDirection);
+  }
   if (daylightOnly && day.peakLevelIndexDaylight !== undefined) {
     return day.peakLevelIndexDaylight;
   }
   return day.peakLevelIndex ?? 0;
 }
 
-function passesMinLevel(day: DailyStats, minLevelIndex: number, daylightOnly: boolean): boolean {
-  return getPeakLevelIndex(day, daylightOnly) >= minLevelIndex;
+function passesMinLevel(day: DailyStats, minLevelIndex: number, daylightOnly: boolean, rerate?: WindScale): boolean {
+  return getPeakLevelIndex(day, daylightOnly, rerate) >= minLevelIndex;
 }
 
 function passesDirection(day: DailyStats, directions: WindSector8[]): boolean {
@@ -55,28 +85,56 @@ function passesDirection(day: DailyStats, directions: WindSector8[]): boolean {
   return directions.includes(degreesToSector8(day.maxForceDirection));
 }
 
+/** Dagar aggregerade före luckhanteringen saknar fältet och räknas som fullständiga */
+function passesCoverage(day: DailyStats, excludeLowCoverage: boolean): boolean {
+  return !excludeLowCoverage || day.insufficientCoverage !== true;
+}
+
 function passesYear(day: DailyStats, year: StatsYearFilter): boolean {
   if (year === 'all') return true;
   return day.year === year;
 }
 
-export function applyStatsFilters(days: DailyStats[], filters: StatsFilters): StatsFilterResult {
-  const total = days.length;
-  let filtered = [...days];
+/**
+ * Dagsljusfiltret bygger på lagrade surfminuter i dagsljus, räknade med
+ * spotets skala — med en personlig skala kan det inte räknas om och gäller inte.
+ */
+export function isDaylightFilterActive(filters: StatsFilters, rerate?: WindScale): boolean {
+  return filters.daylightOnly && !rerate;
+}
+
+/**
+ * season = spotets isperiod (default Kallsjön). rerate = aktiv personlig
+ * profil; utan den gäller dagarnas lagrade nivåer. Med rerate ska days vara
+ * alla dagar (inte bara surfbara enligt spotet) — surfbara räknas här.
+ */
+export function applyStatsFilters(
+  days: DailyStats[],
+  filters: StatsFilters,
+  season?: IceSeason,
+  rerate?: WindScale
+): StatsFilterResult {
+  const surfable = rerate
+    ? days.filter((day) => getPeakLevelIndex(day, false, rerate) >= SURFABLE_LEVEL_INDEX)
+    : days;
+  const total = surfable.length;
+  const daylightOnly = isDaylightFilterActive(filters, rerate);
+  let filtered = [...surfable];
 
   if (filters.excludeIce) {
-    filtered = filterSurfableDays(filtered);
+    filtered = filterSurfableDays(filtered, season);
   }
 
-  if (filters.daylightOnly) {
+  if (daylightOnly) {
     filtered = filtered.filter(passesDaylight);
   }
 
   filtered = filtered.filter(
     (day) =>
-      passesMinLevel(day, filters.minLevelIndex, filters.daylightOnly) &&
+      passesMinLevel(day, filters.minLevelIndex, daylightOnly, rerate) &&
       passesDirection(day, filters.directions) &&
-      passesYear(day, filters.year)
+      passesYear(day, filters.year) &&
+      passesCoverage(day, filters.excludeLowCoverage)
   );
 
   return { days: filtered, total };
@@ -88,6 +146,7 @@ export function countActiveSheetFilters(filters: StatsFilters): number {
   if (filters.year !== 'all') count++;
   if (!filters.excludeIce) count++;
   if (!filters.daylightOnly) count++;
+  if (filters.excludeLowCoverage) count++;
   const defaultMin = DEFAULT_STATS_FILTERS.minLevelIndex;
   if (filters.minLevelIndex !== defaultMin) count++;
   return count;
@@ -99,10 +158,10 @@ export function formatSurfableHours(minutes: number | undefined): string {
   return `${hours.toFixed(1).replace('.', ',')} h`;
 }
 
-export function describeEmptyFilters(filters: StatsFilters): string {
+export function describeEmptyFilters(filters: StatsFilters, scale?: WindScale, unit?: WindUnit): string {
   const parts: string[] = [];
   if (filters.directions.length > 0) parts.push(filters.directions.join(', '));
-  const preset = MIN_LEVEL_PRESETS.find((p) => p.index === filters.minLevelIndex);
+  const preset = getMinLevelPresets(scale, unit).find((p) => p.index === filters.minLevelIndex);
   if (preset && preset.index !== DEFAULT_STATS_FILTERS.minLevelIndex) {
     parts.push(preset.label);
   }
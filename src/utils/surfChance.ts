@@ -0,0 +1,74 @@
+import { getEffectiveLevelIndex, WIND_SCALE_LEVELS, WindScale } from '../config/windScale';
+import type { WindSlot } from './bestWindPerDay';
+
+/**
+ * Surffönster i en prognos: sammanhängande timmar på minst en viss nivå.
+ * Delas av *Nästa surfchans* och push-utvärderingen (scripts/evaluatePushAlerts.ts).
+ */
+
+export const INTERESTING_LEVEL_INDEX = WIND_SCALE_LEVELS.findIndex(l => l.id === 'interesting');
+
+/** Ett fönster slutar senast så här långt efter första timmen */
+const MAX_WINDOW_MS = 12 * 60 * 60 * 1000;
+const SLOT_MS = 60 * 60 * 1000;
+/** Längre avstånd mellan två slots (t.ex. natten bortfiltrerad) bryter fönstret */
+const MAX_SLOT_GAP_MS = 1.5 * SLOT_MS;
+
+export interface Chance<T extends WindSlot = WindSlot> {
+  /** Första slot i fönstret */
+  bucket: T;
+  maxAvg: number;
+  maxGust: number;
+  /** Slut på det sammanhängande fönstret (exklusivt) */
+  endTime: Date;
+}
+
+/** Alla fönster ≥ minLevelIndex (riktningen räknas), i tidsordning. Slots ska vara timvisa och sorterade. */
+export function findChances<T extends WindSlot>(
+  slots: T[],
+  scale: WindScale,
+  minLevelIndex: number = INTERESTING_LEVEL_INDEX
+): Chance<T>[] {
+  const reaches = (slot: T) => getEffectiveLevelIndex(slot.avg, slot.gust, scale, slot.dir) >= minLevelIndex;
+  const chances: Chance<T>[] = [];
+
+  let i = 0;
+  while (i < slots.length) {
+    const first = slots[i];
+    if (!reaches(first)) {
+      i++;
+      continue;
+    }
+
+    let maxAvg = first.avg;
+    let maxGust = first.gust;
+    let last = first;
+    for (i = i + 1; i < slots.length; i++) {
+      const slot = slots[i];
+      if (!reaches(slot)) break;
+      if (slot.time.getTime() - last.time.getTime() > MAX_SLOT_GAP_MS) break;
+      if (slot.time.getTime() - first.time.getTime() > MAX_WINDOW_MS) break;
+      maxAvg = Math.max(maxAvg, slot.avg);
+      maxGust = Math.max(maxGust, slot.gust);
+      last = slot;
+    }
+
+    chances.push({ bucket: first, maxAvg, maxGust, endTime: new Date(last.time.getTime() + SLOT_MS) });
+  }
+
+  return chances;
+}
+
+/** Första prognoslucka ≥ Intressant (riktningen räknas) + max inom det sammanhängande fönstret */
+export function findChance<T extends WindSlot>(
+  future: T[],
+  scale: WindScale,
+  minLevelIndex: number = INTERESTING_LEVEL_INDEX
+): Chance<T> | null {
+  return findChances(future, scale, minLevelIndex)[0] ?? null;
+}
+
+/** Fönstrets längd i timmar */
+export function chanceHours(chance: Chance): number {
+  return (chance.endTime.getTime() - chance.bucket.time.getTime()) / SLOT_MS;
+}
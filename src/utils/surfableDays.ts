@@ -1,44 +1,27 @@
 import { parseISO } from 'date-fns';
-import {
-  DEFAULT_ICE_CONFIG,
-  DEFAULT_ICE_END_DAY,
-  DEFAULT_ICE_END_MONTH,
-  DEFAULT_ICE_START_DAY,
-  DEFAULT_ICE_START_MONTH,
-  type IceConfig,
-} from '../config/iceConfig';
+import { DEFAULT_ICE_SEASON, type IceConfig, type IceSeason } from '../config/iceConfig';
 
-export type { IceConfig };
-export { DEFAULT_ICE_CONFIG } from '../config/iceConfig';
+export type { IceConfig, IceSeason };
+export { DEFAULT_ICE_CONFIG, DEFAULT_ICE_SEASON } from '../config/iceConfig';
 
-export function isIcePeriod(date: Date | string, iceConfig: IceConfig = DEFAULT_ICE_CONFIG): boolean {
+export function isIcePeriod(date: Date | string, season: IceSeason = DEFAULT_ICE_SEASON): boolean {
   const dateObj = typeof date === 'string' ? parseISO(date) : date;
-  const year = dateObj.getFullYear();
-  const yearConfig = iceConfig[year];
-
-  if (yearConfig) {
-    const iceStart = parseISO(yearConfig.start);
-    const iceEnd = parseISO(yearConfig.end);
-    return dateObj >= iceStart && dateObj <= iceEnd;
-  }
-
-  const iceStart = new Date(year, DEFAULT_ICE_START_MONTH, DEFAULT_ICE_START_DAY);
-  const iceEnd = new Date(year, DEFAULT_ICE_END_MONTH, DEFAULT_ICE_END_DAY);
-  return dateObj >= iceStart && dateObj <= iceEnd;
+  const { start, end } = getIcePeriodForYear(dateObj.getFullYear(), season);
+  return dateObj >= start && dateObj <= end;
 }
 
 export function filterSurfableDays<T extends { date: string } | string>(
   items: T[],
-  iceConfig?: IceConfig
+  season?: IceSeason
 ): T[] {
   return items.filter((item) => {
     const date = typeof item === 'string' ? item : item.date;
-    return !isIcePeriod(date, iceConfig);
+    return !isIcePeriod(date, season);
   });
 }
 
-export function getIcePeriodForYear(year: number, iceConfig: IceConfig = DEFAULT_ICE_CONFIG) {
-  const yearConfig = iceConfig[year];
+export function getIcePeriodForYear(year: number, season: IceSeason = DEFAULT_ICE_SEASON) {
+  const yearConfig = season.years[year];
 
   if (yearConfig) {
     return {
@@ -48,7 +31,7 @@ export function getIcePeriodForYear(year: number, iceConfig: IceConfig = DEFAULT
   }
 
   return {
-    start: new Date(year, DEFAULT_ICE_START_MONTH, DEFAULT_ICE_START_DAY),
-    end: new Date(year, DEFAULT_ICE_END_MONTH, DEFAULT_ICE_END_DAY),
+    start: new Date(year, season.startMonth, season.startDay),
+    end: new Date(year, season.endMonth, season.endDay),
   };
 }
@@ -88,20 +88,6 @@ export function resampleToHourly(points: WindPoint[]): WindPoint[] {
   return resampled.sort((a, b) => a.time.localeCompare(b.time));
 }
 
-/**
- * Genererar cache-nyckel för prognosdata
- */
-export function getCacheKey(
-  model: string,
-  lat: number,
-  lon: number,
-  runTimestamp: string | undefined,
-  bucket15m: number
-): string {
-  const runIso = runTimestamp || 'unknown';
-  return `${model}_${lat}_${lon}_${runIso}_${bucket15m}`;
-}
-
 /**
  * Avrundar till närmaste 0.5 m/s
  */
@@ -136,10 +122,3 @@ export function validateWindPoint(point: WindPoint): boolean {
   return true;
 }
 
-/**
- * Beräknar 15-minuters bucket för cache
- */
-export function get15MinBucket(date: Date = new Date()): number {
-  return Math.floor(date.getTime() / (15 * 60 * 1000));
-}
-
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeEffectiveFetchKm,
+  estimateFetchLimitedWaves,
+  estimateWavesAtBreak,
+} from './waveEstimate';
+
+// Kvadratisk "sjö" ca 10 × 10 km kring origo (0,09° lat ≈ 10 km, 0,2° lon ≈ 10 km vid 63,6°N)
+const ORIGIN = { lat: 63.6, lon: 13.0 };
+const SQUARE = [
+  { lat: 63.645, lon: 12.9 },
+  { lat: 63.645, lon: 13.1 },
+  { lat: 63.555, lon: 13.1 },
+  { lat: 63.555, lon: 12.9 },
+];
+
+describe('computeEffectiveFetchKm', () => {
+  it('mäter uppvind till stranden mitt i en kvadratisk sjö', () => {
+    const north = computeEffectiveFetchKm(SQUARE, ORIGIN, 0);
+    expect(north).toBeGreaterThan(4.9);
+    expect(north).toBeLessThan(5.3);
+  });
+
+  it('ger noll när brytet ligger på land', () => {
+    expect(computeEffectiveFetchKm(SQUARE, { lat: 63.7, lon: 13.0 }, 180)).toBe(0);
+  });
+});
+
+describe('estimateFetchLimitedWaves', () => {
+  it('ger rimliga sjövågor för 12 m/s över 20 km', () => {
+    const { heightM, periodS } = estimateFetchLimitedWaves(12, 20);
+    expect(heightM).toBeCloseTo(1.09, 1);
+    expect(periodS).toBeCloseTo(4.2, 1);
+  });
+
+  it('växer med stryklängden men planar ut vid fullt utvecklad sjö', () => {
+    const short = estimateFetchLimitedWaves(10, 2).heightM;
+    const long = estimateFetchLimitedWaves(10, 20).heightM;
+    const ocean = estimateFetchLimitedWaves(10, 10_000).heightM;
+    const beyond = estimateFetchLimitedWaves(10, 100_000).heightM;
+    expect(long).toBeGreaterThan(short);
+    expect(beyond).toBeCloseTo(ocean, 6);
+  });
+
+  it('ger inga vågor utan vind', () => {
+    expect(estimateFetchLimitedWaves(0, 20)).toEqual({ heightM: 0, periodS: 0 });
+  });
+});
+
+describe('estimateWavesAtBreak', () => {
+  it('har längre stryklängd från sydost (längs sjön) än från väst', () => {
+    const southEast = estimateWavesAtBreak(10, 135)!;
+    const west = estimateWavesAtBreak(10, 270)!;
+    expect(southEast.fetchKm).toBeGreaterThan(west.fetchKm);
+    expect(southEast.heightM).toBeGreaterThan(west.heightM);
+  });
+
+  it('returnerar null utan riktning', () => {
+    expect(estimateWavesAtBreak(10, null)).toBeNull();
+  });
+});
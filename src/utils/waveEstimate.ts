@@ -0,0 +1,144 @@
+import { KALLSJON_LAKE, LakeGeometry, LatLon } from '../config/lakeGeometry';
+
+/**
+ * Våguppskattning från vind: stryklängd (fetch) mot strandlinjen +
+ * fetchbegränsad vågtillväxt enligt Shore Protection Manual (SPM 1984).
+ * Antar djupt vatten och att vinden hunnit blåsa tillräckligt länge
+ * (ingen varaktighetsbegränsning) — ger övre gränsen för läget.
+ */
+
+const G = 9.81;
+const KM_PER_DEG_LAT = 111.195;
+
+/** SPM 1984: medel av radialer inom ±12° i 3°-steg */
+const FETCH_SPREAD_DEG = 12;
+const FETCH_STEP_DEG = 3;
+
+export interface WaveEstimate {
+  /** Signifikant våghöjd Hm0 (m) */
+  heightM: number;
+  /** Toppperiod (s) */
+  periodS: number;
+  /** Effektiv stryklängd (km) */
+  fetchKm: number;
+}
+
+interface Point2 {
+  x: number;
+  y: number;
+}
+
+/** Lokal plan projektion kring origo (km öster/norr) — räcker på sjöskala */
+function project(p: LatLon, origin: LatLon): Point2 {
+  const kmPerDegLon = KM_PER_DEG_LAT * Math.cos((origin.lat * Math.PI) / 180);
+  return {
+    x: (p.lon - origin.lon) * kmPerDegLon,
+    y: (p.lat - origin.lat) * KM_PER_DEG_LAT,
+  };
+}
+
+function isInside(polygon: Point2[], p: Point2): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Avstånd (km) från origo längs bäring till närmaste strandkant, 0 om origo ligger på land */
+function rayDistance(polygon: Point2[], bearingDeg: number): number {
+  if (!isInside(polygon, { x: 0, y: 0 })) return 0;
+
+  const rad = (bearingDeg * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = Math.cos(rad);
+  let nearest = Infinity;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[j];
+    const ex = polygon[i].x - a.x;
+    const ey = polygon[i].y - a.y;
+    const denom = dx * ey - dy * ex;
+    if (Math.abs(denom) < 1e-12) continue; // parallell kant
+
+    const t = (a.x * ey - a.y * ex) / denom;
+    const s = (a.x * dy - a.y * dx) / denom;
+    if (t > 0 && s >= 0 && s <= 1) nearest = Math.min(nearest, t);
+  }
+
+  return Number.isFinite(nearest) ? nearest : 0;
+}
+
+/**
+ * Stryklängd (km) för vind från `windFromDeg`: strålen går uppvind från
+ * brytet till stranden. Effektiv fetch = medel av radialer ±12° (SPM 1984).
+ */
+export function computeEffectiveFetchKm(
+  outline: readonly LatLon[],
+  origin: LatLon,
+  windFromDeg: number
+): number {
+  const polygon = outline.map(p => project(p, origin));
+  let sum = 0;
+  let count = 0;
+  for (let offset = -FETCH_SPREAD_DEG; offset <= FETCH_SPREAD_DEG; offset += FETCH_STEP_DEG) {
+    sum += rayDistance(polygon, (windFromDeg + offset + 360) % 360);
+    count++;
+  }
+  return sum / count;
+}
+
+/**
+ * Fetchbegränsad vågtillväxt (SPM 1984, djupt vatten).
+ * Vind justeras till "wind stress factor" UA = 0,71·U^1,23 och
+ * begränsas uppåt av fullt utvecklad sjö.
+ */
+export function estimateFetchLimitedWaves(
+  windMs: number,
+  fetchKm: number
+): { heightM: number; periodS: number } {
+  if (windMs <= 0 || fetchKm <= 0) return { heightM: 0, periodS: 0 };
+
+  const ua = 0.71 * Math.pow(windMs, 1.23);
+  const dimensionlessFetch = (G * fetchKm * 1000) / (ua * ua);
+
+  const hm0 = Math.min(1.6e-3 * Math.sqrt(dimensionlessFetch), 2.433e-1) * (ua * ua) / G;
+  const tp = Math.min(2.857e-1 * Math.cbrt(dimensionlessFetch), 8.134) * ua / G;
+
+  return { heightM: hm0, periodS: tp };
+}
+
+// Stryklängd per hel grad från brytet, per sjö — konturen ändras inte under körning
+const fetchTables = new WeakMap<LakeGeometry, number[]>();
+
+function getBreakFetchKm(lake: LakeGeometry, windFromDeg: number): number {
+  let table = fetchTables.get(lake);
+  if (!table) {
+    table = Array.from({ length: 360 }, (_, deg) =>
+      computeEffectiveFetchKm(lake.outline, lake.breakPoint, deg)
+    );
+    fetchTables.set(lake, table);
+  }
+  return table[((Math.round(windFromDeg) % 360) + 360) % 360];
+}
+
+/** Uppskattade vågor vid brytet för given medelvind och riktning */
+export function estimateWavesAtBreak(
+  windMs: number,
+  windFromDeg: number | null,
+  lake: LakeGeometry = KALLSJON_LAKE
+): WaveEstimate | null {
+  if (windFromDeg == null || !Number.isFinite(windFromDeg)) return null;
+
+  const fetchKm = getBreakFetchKm(lake, windFromDeg);
+  return { ...estimateFetchLimitedWaves(windMs, fetchKm), fetchKm };
+}
+
+/** "0,8 m" — en decimal räcker, uppskattningen är grov */
+export function formatWaveHeight(heightM: number): string {
+  return `${heightM.toFixed(1).replace('.', ',')} m`;
+}
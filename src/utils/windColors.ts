@@ -3,32 +3,41 @@
  * src/config/windScale.ts — ändra skalan där, inte här.
  */
 import {
+  DEFAULT_WIND_SCALE,
   WIND_SCALE_LEVELS,
+  WindScale,
   WindScaleLevelConfig,
   getLevelIndexFromAvg,
   getEffectiveLevelIndex,
 } from '../config/windScale';
+import { DEFAULT_WIND_UNIT, formatWindThreshold, WindUnit } from './windUnits';
 
 export { WIND_SCALE_LEVELS, getLevelIndexFromAvg, getEffectiveLevelIndex };
 export type { WindScaleLevelConfig };
 
 /** Bakgrundsfärg (hex) för en medelvind — t.ex. kalenderceller, prognosceller, staplar */
-export function getWindColor(avgMs: number): string {
-  return WIND_SCALE_LEVELS[getLevelIndexFromAvg(avgMs)].colors.bg;
+export function getWindColor(avgMs: number, scale: WindScale = DEFAULT_WIND_SCALE): string {
+  return scale.levels[getLevelIndexFromAvg(avgMs, scale)].colors.bg;
 }
 
 /** Textfärg med kontrast mot getWindColor-bakgrunden */
-export function getWindTextColor(avgMs: number): string {
-  return WIND_SCALE_LEVELS[getLevelIndexFromAvg(avgMs)].colors.text;
+export function getWindTextColor(avgMs: number, scale: WindScale = DEFAULT_WIND_SCALE): string {
+  return scale.levels[getLevelIndexFromAvg(avgMs, scale)].colors.text;
 }
 
-/** Nivå (label + färger) med by-regeln: by ≥ 15 ger minst Surfbart */
-export function getWindLevel(avgMs: number, gustMs: number): WindScaleLevelConfig {
-  return WIND_SCALE_LEVELS[getEffectiveLevelIndex(avgMs, gustMs)];
+/** Nivå (label + färger) med by-regeln: by ≥ 15 ger minst Surfbart (spotets skala och riktningar) */
+export function getWindLevel(
+  avgMs: number,
+  gustMs: number,
+  scale: WindScale = DEFAULT_WIND_SCALE,
+  dirDeg?: number | null
+): WindScaleLevelConfig {
+  return scale.levels[getEffectiveLevelIndex(avgMs, gustMs, scale, dirDeg)];
 }
 
 /**
  * Accentfärg för vindvärden på ljus bakgrund (hero, grafer, tooltips).
+ * En nivå med egen färg (personlig profil) använder den i stället.
  */
 const LIGHT_BG_ACCENTS: Record<string, string> = {
   calm: '#6b6b6b',
@@ -40,24 +49,31 @@ const LIGHT_BG_ACCENTS: Record<string, string> = {
   rare: '#E60C84',
 };
 
-export function getWindAccentColor(avgMs: number): string {
-  const level = WIND_SCALE_LEVELS[getLevelIndexFromAvg(avgMs)];
+export function getWindAccentColor(avgMs: number, scale: WindScale = DEFAULT_WIND_SCALE): string {
+  const index = getLevelIndexFromAvg(avgMs, scale);
+  const level = scale.levels[index];
+  if (level.colors.bg !== WIND_SCALE_LEVELS[index]?.colors.bg) return level.colors.bg;
   return LIGHT_BG_ACCENTS[level.id] ?? level.colors.bg;
 }
 
 /** CSS-gradient över hela skalan — för legender */
-export function getScaleGradient(): string {
-  const stops = WIND_SCALE_LEVELS.map((l) => l.colors.bg).join(', ');
+export function getScaleGradient(scale: WindScale = DEFAULT_WIND_SCALE): string {
+  const stops = scale.levels.map((l) => l.colors.bg).join(', ');
   return `linear-gradient(to right, ${stops})`;
 }
 
 /** Inline-stilar för nivåbadge (bakgrund, text, kant) */
-export function getLevelBadgeStyle(avgMs: number, gustMs: number): {
+export function getLevelBadgeStyle(
+  avgMs: number,
+  gustMs: number,
+  scale: WindScale = DEFAULT_WIND_SCALE,
+  dirDeg?: number | null
+): {
   backgroundColor: string;
   color: string;
   borderColor: string;
 } {
-  const level = getWindLevel(avgMs, gustMs);
+  const level = getWindLevel(avgMs, gustMs, scale, dirDeg);
   return {
     backgroundColor: level.colors.bg,
     color: level.colors.text,
@@ -65,11 +81,16 @@ export function getLevelBadgeStyle(avgMs: number, gustMs: number): {
   };
 }
 
-/** Legendposter: label + tröskel + färg */
-export function getScaleLegend(): Array<{ label: string; threshold: string; bg: string; text: string }> {
-  return WIND_SCALE_LEVELS.map((l, i) => ({
+/** Legendposter: label + tröskel (i vald enhet) + färg */
+export function getScaleLegend(
+  scale: WindScale = DEFAULT_WIND_SCALE,
+  unit: WindUnit = DEFAULT_WIND_UNIT
+): Array<{ label: string; threshold: string; bg: string; text: string }> {
+  return scale.levels.map((l, i) => ({
     label: l.label,
-    threshold: i === 0 ? `< ${WIND_SCALE_LEVELS[1].minAvgMs}` : `≥ ${l.minAvgMs}`,
+    threshold: i === 0
+      ? `< ${formatWindThreshold(scale.levels[1].minAvgMs, unit)}`
+      : `≥ ${formatWindThreshold(l.minAvgMs, unit)}`,
     bg: l.colors.bg,
     text: l.colors.text,
   }));
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WIND_SCALE, getEffectiveLevelIndex } from '../config/windScale';
+import {
+  createWindProfile,
+  exportWindProfiles,
+  parseWindProfiles,
+  profileToScale,
+  validateWindProfile,
+} from './windProfiles';
+
+/** Foil: surfbart redan från 7 m/s */
+function foilProfile() {
+  const profile = createWindProfile('Foil');
+  const thresholds: Record<string, number> = { watching: 4, interesting: 5.5, surfable: 7, good: 9, great: 12, rare: 16 };
+  profile.levels = profile.levels.map(level => ({ ...level, minAvgMs: thresholds[level.id] ?? level.minAvgMs }));
+  return profile;
+}
+
+describe('profileToScale', () => {
+  it('betygsätter med profilens trösklar men spotets riktningar', () => {
+    const scale = profileToScale(foilProfile(), DEFAULT_WIND_SCALE);
+    expect(scale.avgSurfableMs).toBe(7);
+    expect(scale.levels[getEffectiveLevelIndex(8, 9, scale, 150)].id).toBe('surfable');
+    // Frånlandsvind (O) är fortfarande blockerad
+    expect(scale.levels[getEffectiveLevelIndex(8, 9, scale, 90)].id).toBe('watching');
+  });
+});
+
+describe('validateWindProfile', () => {
+  it('kräver stigande trösklar', () => {
+    const profile = foilProfile();
+    profile.levels[4] = { ...profile.levels[4], minAvgMs: 6 };
+    expect(() => validateWindProfile(profile)).toThrow('måste ha högre tröskel');
+  });
+
+  it('räknar fram textfärg när bara bakgrunden finns', () => {
+    const raw = JSON.parse(JSON.stringify(foilProfile()));
+    raw.levels[3].colors = { bg: '#000000' };
+    const validated = validateWindProfile(raw);
+    expect(validated.levels[3].colors.text).toBe('#ffffff');
+  });
+});
+
+describe('parseWindProfiles', () => {
+  it('läser tillbaka en export', () => {
+    const profile = foilProfile();
+    expect(parseWindProfiles(exportWindProfiles([profile]))).toEqual([validateWindProfile(profile)]);
+  });
+
+  it('avvisar filer som inte är en export', () => {
+    expect(() => parseWindProfiles('{nej')).toThrow('inte giltig JSON');
+    expect(() => parseWindProfiles('{"profiles": []}')).toThrow('ingen export');
+  });
+});
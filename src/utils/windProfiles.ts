@@ -0,0 +1,193 @@
+import {
+  DEFAULT_WIND_SCALE,
+  WIND_SCALE_LEVELS,
+  WindScale,
+  WindScaleLevelConfig,
+} from '../config/windScale';
+
+/**
+ * Personliga vindskalor — en per åkare eller farkost ("Foil" surfar från 7 m/s,
+ * "Shortboard" vill ha 12). En profil ersätter spotets etiketter, trösklar,
+ * färger och by-regel. Riktningsprofilen följer alltid spotet.
+ *
+ * Nivåernas id och ordning är fasta (index betyder samma sak överallt) —
+ * bara innehållet är ditt. Utan aktiv profil gäller spotets skala.
+ */
+
+export const WIND_PROFILES_STORAGE_KEY = 'kallifornia.windProfiles.v1';
+
+/** Formatversion för export/import */
+export const WIND_PROFILES_EXPORT_VERSION = 1;
+
+const MAX_NAME_LENGTH = 40;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export interface WindProfile {
+  id: string;
+  name: string;
+  levels: WindScaleLevelConfig[];
+  gustSurfableMs: number;
+}
+
+export interface WindProfilesState {
+  /** null = spotets egen skala */
+  activeId: string | null;
+  profiles: WindProfile[];
+}
+
+export const EMPTY_WIND_PROFILES: WindProfilesState = { activeId: null, profiles: [] };
+
+function newProfileId(): string {
+  return `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Ny profil som utgår från en befintlig skala (t.ex. spotets) */
+export function createWindProfile(name: string, base: WindScale = DEFAULT_WIND_SCALE): WindProfile {
+  return {
+    id: newProfileId(),
+    name: name.trim().slice(0, MAX_NAME_LENGTH),
+    levels: base.levels.map(level => ({ ...level, colors: { ...level.colors } })),
+    gustSurfableMs: base.gustSurfableMs,
+  };
+}
+
+/** Profilen som skala; riktningarna kommer från spotets skala */
+export function profileToScale(profile: WindProfile, base: WindScale): WindScale {
+  const surfable = profile.levels.find(l => l.id === 'surfable');
+  return {
+    levels: profile.levels,
+    avgSurfableMs: surfable?.minAvgMs ?? base.avgSurfableMs,
+    gustSurfableMs: profile.gustSurfableMs,
+    directions: base.directions,
+  };
+}
+
+export function getActiveProfile(state: WindProfilesState): WindProfile | null {
+  return state.profiles.find(p => p.id === state.activeId) ?? null;
+}
+
+/** Svart eller vit text beroende på bakgrundens ljushet */
+export function textColorFor(bg: string): string {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(bg.slice(i, i + 2), 16) / 255);
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return luminance > 0.5 ? '#1c1c1c' : '#ffffff';
+}
+
+/** Ny bakgrundsfärg — text och kant följer med, mörkare variant släpps */
+export function withLevelColor(level: WindScaleLevelConfig, bg: string): WindScaleLevelConfig {
+  return { ...level, colors: { bg, text: textColorFor(bg), border: bg } };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateLevel(value: unknown, index: number, profileName: string): WindScaleLevelConfig {
+  const expected = WIND_SCALE_LEVELS[index];
+  if (!isRecord(value) || value.id !== expected.id) {
+    throw new Error(`${profileName}: nivå ${index + 1} ska vara "${expected.label}"`);
+  }
+  const label = typeof value.label === 'string' ? value.label.trim() : '';
+  if (!label) throw new Error(`${profileName}: nivån "${expected.label}" saknar namn`);
+  if (typeof value.minAvgMs !== 'number' || !Number.isFinite(value.minAvgMs) || value.minAvgMs < 0) {
+    throw new Error(`${profileName}: ogiltig tröskel för "${label}"`);
+  }
+  const colors = isRecord(value.colors) ? value.colors : {};
+  if (typeof colors.bg !== 'string' || !HEX_COLOR.test(colors.bg)) {
+    throw new Error(`${profileName}: ogiltig färg för "${label}"`);
+  }
+  const level = withLevelColor({ id: expected.id, label, minAvgMs: value.minAvgMs, colors: expected.colors }, colors.bg);
+  if (typeof colors.text === 'string' && HEX_COLOR.test(colors.text)) level.colors.text = colors.text;
+  if (typeof colors.bgDeep === 'string' && HEX_COLOR.test(colors.bgDeep)) level.colors.bgDeep = colors.bgDeep;
+  if (typeof colors.border === 'string' && HEX_COLOR.test(colors.border)) level.colors.border = colors.border;
+  return level;
+}
+
+/**
+ * Kontrollerar en profil (sparad eller importerad). Kastar Error med ett
+ * meddelande som kan visas för användaren.
+ */
+export function validateWindProfile(value: unknown): WindProfile {
+  if (!isRecord(value)) throw new Error('Profilen är inte ett objekt');
+  const name = typeof value.name === 'string' ? value.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+  if (!name) throw new Error('Profilen saknar namn');
+  if (!Array.isArray(value.levels) || value.levels.length !== WIND_SCALE_LEVELS.length) {
+    throw new Error(`${name}: skalan ska ha ${WIND_SCALE_LEVELS.length} nivåer`);
+  }
+
+  const levels = value.levels.map((level, i) => validateLevel(level, i, name));
+  if (levels[0].minAvgMs !== 0) throw new Error(`${name}: lägsta nivån ska börja på 0 m/s`);
+  for (let i = 1; i < levels.length; i++) {
+    if (levels[i].minAvgMs <= levels[i - 1].minAvgMs) {
+      throw new Error(`${name}: "${levels[i].label}" måste ha högre tröskel än "${levels[i - 1].label}"`);
+    }
+  }
+
+  const gust = value.gustSurfableMs;
+  if (typeof gust !== 'number' || !Number.isFinite(gust) || gust <= 0) {
+    throw new Error(`${name}: ogiltig by-gräns`);
+  }
+
+  const id = typeof value.id === 'string' && value.id ? value.id : newProfileId();
+  return { id, name, levels, gustSurfableMs: gust };
+}
+
+/** Sparade profiler; ogiltiga hoppas över */
+export function loadWindProfiles(): WindProfilesState {
+  try {
+    const raw = localStorage.getItem(WIND_PROFILES_STORAGE_KEY);
+    if (!raw) return EMPTY_WIND_PROFILES;
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed) || !Array.isArray(parsed.profiles)) return EMPTY_WIND_PROFILES;
+    const profiles = parsed.profiles.flatMap(p => {
+      try {
+        return [validateWindProfile(p)];
+      } catch {
+        return [];
+      }
+    });
+    const activeId = profiles.some(p => p.id === parsed.activeId) ? (parsed.activeId as string) : null;
+    return { activeId, profiles };
+  } catch {
+    return EMPTY_WIND_PROFILES;
+  }
+}
+
+export function saveWindProfiles(state: WindProfilesState): void {
+  try {
+    localStorage.setItem(WIND_PROFILES_STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Full lagring — profilerna gäller sessionen ut
+  }
+}
+
+/** JSON för nedladdning — samma format som parseWindProfiles läser */
+export function exportWindProfiles(profiles: WindProfile[]): string {
+  return JSON.stringify({ version: WIND_PROFILES_EXPORT_VERSION, profiles }, null, 2);
+}
+
+/** Läser en exportfil. Kastar Error med svensk text vid fel format. */
+export function parseWindProfiles(json: string): WindProfile[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Filen är inte giltig JSON');
+  }
+  if (!isRecord(parsed) || parsed.version !== WIND_PROFILES_EXPORT_VERSION || !Array.isArray(parsed.profiles)) {
+    throw new Error('Filen är ingen export av vindprofiler');
+  }
+  if (parsed.profiles.length === 0) throw new Error('Filen innehåller inga profiler');
+  return parsed.profiles.map(validateWindProfile);
+}
+
+/** Lägger till importerade profiler; krockande id får nya så inget skrivs över */
+export function mergeImportedProfiles(state: WindProfilesState, imported: WindProfile[]): WindProfilesState {
+  const ids = new Set(state.profiles.map(p => p.id));
+  const added = imported.map(profile => {
+    const id = ids.has(profile.id) ? newProfileId() : profile.id;
+    ids.add(id);
+    return { ...profile, id };
+  });
+  return { ...state, profiles: [...state.profiles, ...added] };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { runWindQc } from './windQualityControl';
+import { aggregateWindIntervals, type WindInterval } from './dailyStatsAggregation';
+
+const START = new Date('2026-06-15T10:00:00').getTime();
+const STEP = 5 * 60 * 1000;
+
+/** Jämn, levande serie: lite variation i fart och riktning */
+function series(count: number, force = 5): WindInterval[] {
+  return Array.from({ length: count }, (_, i) => ({
+    force: force + (i % 3) * 0.3,
+    forceMax: force + 2 + (i % 2) * 0.4,
+    direction: 200 + (i % 5),
+    time: new Date(START + i * STEP),
+  }));
+}
+
+const flagsOf = (intervals: WindInterval[]) => runWindQc(intervals).periods.map(p => p.flag);
+
+describe('runWindQc', () => {
+  it('flaggar ingenting i en normal serie', () => {
+    expect(runWindQc(series(24)).periods).toEqual([]);
+  });
+
+  it('flaggar en ensam spik men inte en verklig ökning', () => {
+    const spiky = series(12);
+    spiky[5] = { ...spiky[5], force: 14, forceMax: 16 };
+    const { periods } = runWindQc(spiky);
+    expect(periods).toHaveLength(1);
+    expect(periods[0]).toMatchObject({ flag: 'spike', count: 1, from: spiky[5].time });
+
+    const ramp = series(12).map((p, i) => (i >= 5 ? { ...p, force: 14, forceMax: 17 } : p));
+    expect(flagsOf(ramp)).not.toContain('spike');
+  });
+
+  it('flaggar oförändrat medel och by i minst 30 min som fastfrusen', () => {
+    const frozen = series(20).map((p, i) => (i >= 4 && i < 12 ? { ...p, force: 8.2, forceMax: 9.1 } : p));
+    const stuck = runWindQc(frozen).periods.filter(p => p.flag === 'stuck');
+    expect(stuck).toHaveLength(1);
+    expect(stuck[0].count).toBe(8);
+  });
+
+  it('låter stiltje stå still', () => {
+    const calm = series(20).map(p => ({ ...p, force: 0, forceMax: 0 }));
+    expect(flagsOf(calm)).toEqual([]);
+  });
+
+  it('flaggar by under medel, frusen fana och luckor', () => {
+    const data = series(30);
+    data[3] = { ...data[3], forceMax: 2 };
+    data.forEach((p, i) => {
+      if (i >= 10 && i < 24) p.direction = 270;
+    });
+    const withGap = [...data.slice(0, 26), ...data.slice(29)];
+
+    const { periods } = runWindQc(withGap);
+    expect(periods.map(p => p.flag)).toEqual(['gustBelowMean', 'directionFrozen', 'gap']);
+    expect(periods[2].count).toBe(3);
+  });
+});
+
+describe('aggregateWindIntervals med QC', () => {
+  it('gör inte en dag surfbar på en spik när flaggade intervall utesluts', () => {
+    const day = series(24, 4);
+    day[10] = { ...day[10], force: 15, forceMax: 18 };
+
+    const raw = aggregateWindIntervals(day, '2026-06-15');
+    const clean = aggregateWindIntervals(day, '2026-06-15', { excludeFlagged: true });
+
+    expect(raw.isSurfableDay).toBe(true);
+    expect(clean.isSurfableDay).toBe(false);
+    expect(clean.maxForce).toBeLessThan(5);
+    expect(clean.qc).toMatchObject({ flaggedCount: 1, excluded: true });
+    expect(clean.dataPointsCount).toBe(23);
+  });
+
+  it('ger en tom dag när alla värden är flaggade', () => {
+    const frozen = series(12).map(p => ({ ...p, force: 11, forceMax: 13 }));
+    const clean = aggregateWindIntervals(frozen, '2026-06-15', { excludeFlagged: true });
+    expect(clean.isSurfableDay).toBe(false);
+    expect(clean.dataPointsCount).toBe(0);
+    expect(clean.maxForce).toBe(0);
+  });
+});
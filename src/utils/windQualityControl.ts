@@ -0,0 +1,173 @@
+import type { WindInterval } from './dailyStatsAggregation';
+import { OBSERVATION_GAP_MS, OBSERVATION_INTERVAL_MS } from './seriesGaps';
+
+/**
+ * Kvalitetskontroll av Vassnäs-stationens 5-minutersvärden. En enstaka spik
+ * eller en fastfrusen vindmätare kan annars göra en dag "surfbar".
+ *
+ * - spike          — medelvinden hoppar upp/ner mot båda grannarna, eller är orimlig
+ * - stuck          — medel och by exakt oförändrade i minst 30 min (vind > 0)
+ * - gustBelowMean  — byvind lägre än medelvind
+ * - directionFrozen — vindfanan står still i minst 1 h trots vind
+ * - gap            — saknade intervall (perioden gäller tiden utan data)
+ *
+ * spike, stuck och gustBelowMean gör värdet ogiltigt och kan uteslutas ur
+ * aggregeringen. directionFrozen och gap är information — farten är
+ * fortfarande mätt, och en lucka har inget värde att utesluta.
+ */
+
+export type QcFlag = 'spike' | 'stuck' | 'gustBelowMean' | 'directionFrozen' | 'gap';
+
+export const QC_EXCLUDING_FLAGS: readonly QcFlag[] = ['spike', 'stuck', 'gustBelowMean'];
+
+export const QC_FLAG_LABELS: Record<QcFlag, string> = {
+  spike: 'Spik',
+  stuck: 'Fastfrusen vindmätare',
+  gustBelowMean: 'By under medel',
+  directionFrozen: 'Vindfanan står still',
+  gap: 'Lucka i data',
+};
+
+export const QC_CONFIG = {
+  /** Hopp mot båda grannarna (m/s) som räknas som spik */
+  SPIKE_DELTA_MS: 6,
+  /** Medelvind över detta är mätfel i Kallsjön */
+  MAX_PLAUSIBLE_MS: 40,
+  /** Oförändrat medel + by i så många intervall = fastfrusen (6 × 5 min) */
+  STUCK_MIN_RUN: 6,
+  /** Tolerans för avrundning i by < medel */
+  GUST_TOLERANCE_MS: 0.1,
+  /** Oförändrad riktning i så många intervall = frusen fana (12 × 5 min) */
+  DIRECTION_FROZEN_MIN_RUN: 12,
+  /** Under detta får fanan stå still */
+  DIRECTION_MIN_WIND_MS: 2,
+  /** Längre avstånd mellan två värden = lucka */
+  GAP_MIN_MS: OBSERVATION_GAP_MS,
+  INTERVAL_MS: OBSERVATION_INTERVAL_MS,
+} as const;
+
+export interface QcPeriod {
+  flag: QcFlag;
+  /** Första och sista berörda mätning; för gap värdena före och efter luckan */
+  from: Date;
+  to: Date;
+  /** Berörda intervall (gap: saknade intervall) */
+  count: number;
+}
+
+export interface QcResult {
+  /** Flaggor per intervall, i samma ordning som (sorterad) indata */
+  flags: QcFlag[][];
+  periods: QcPeriod[];
+}
+
+export function isExcludingFlag(flag: QcFlag): boolean {
+  return QC_EXCLUDING_FLAGS.includes(flag);
+}
+
+/** Markerar runs av minst minRun intervall där same(a, b) håller */
+function flagRuns(
+  intervals: WindInterval[],
+  flags: QcFlag[][],
+  flag: QcFlag,
+  minRun: number,
+  same: (a: WindInterval, b: WindInterval) => boolean,
+  eligible: (i: WindInterval) => boolean
+): void {
+  let runStart = 0;
+  for (let i = 1; i <= intervals.length; i++) {
+    const continues =
+      i < intervals.length &&
+      eligible(intervals[i]) &&
+      eligible(intervals[runStart]) &&
+      same(intervals[i - 1], intervals[i]) &&
+      intervals[i].time.getTime() - intervals[i - 1].time.getTime() < QC_CONFIG.GAP_MIN_MS;
+    if (continues) continue;
+    if (i - runStart >= minRun) {
+      for (let j = runStart; j < i; j++) flags[j].push(flag);
+    }
+    runStart = i;
+  }
+}
+
+/** Slår ihop intilliggande intervall med samma flagga till perioder */
+function toPeriods(intervals: WindInterval[], flags: QcFlag[][], flag: QcFlag): QcPeriod[] {
+  const periods: QcPeriod[] = [];
+  let current: QcPeriod | null = null;
+  intervals.forEach((interval, i) => {
+    if (!flags[i].includes(flag)) {
+      current = null;
+      return;
+    }
+    if (current) {
+      current.to = interval.time;
+      current.count++;
+    } else {
+      current = { flag, from: interval.time, to: interval.time, count: 1 };
+      periods.push(current);
+    }
+  });
+  return periods;
+}
+
+/** Kör alla kontroller. Indata behöver inte vara sorterad — flags följer sorterad ordning. */
+export function runWindQc(intervals: WindInterval[]): QcResult {
+  const sorted = [...intervals].sort((a, b) => a.time.getTime() - b.time.getTime());
+  const flags: QcFlag[][] = sorted.map(() => []);
+
+  sorted.forEach((interval, i) => {
+    const force = interval.force || 0;
+    const gust = interval.forceMax ?? force;
+
+    if (force > QC_CONFIG.MAX_PLAUSIBLE_MS) {
+      flags[i].push('spike');
+    } else if (i > 0 && i < sorted.length - 1) {
+      const up = force - (sorted[i - 1].force || 0);
+      const down = force - (sorted[i + 1].force || 0);
+      if (Math.sign(up) === Math.sign(down) && Math.min(Math.abs(up), Math.abs(down)) > QC_CONFIG.SPIKE_DELTA_MS) {
+        flags[i].push('spike');
+      }
+    }
+
+    if (gust < force - QC_CONFIG.GUST_TOLERANCE_MS) {
+      flags[i].push('gustBelowMean');
+    }
+  });
+
+  flagRuns(
+    sorted,
+    flags,
+    'stuck',
+    QC_CONFIG.STUCK_MIN_RUN,
+    (a, b) => a.force === b.force && a.forceMax === b.forceMax,
+    i => (i.force || 0) > 0
+  );
+
+  flagRuns(
+    sorted,
+    flags,
+    'directionFrozen',
+    QC_CONFIG.DIRECTION_FROZEN_MIN_RUN,
+    (a, b) => a.direction === b.direction,
+    i => (i.force || 0) >= QC_CONFIG.DIRECTION_MIN_WIND_MS
+  );
+
+  const periods: QcPeriod[] = [
+    ...toPeriods(sorted, flags, 'spike'),
+    ...toPeriods(sorted, flags, 'stuck'),
+    ...toPeriods(sorted, flags, 'gustBelowMean'),
+    ...toPeriods(sorted, flags, 'directionFrozen'),
+  ];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1].time;
+    const to = sorted[i].time;
+    const diff = to.getTime() - from.getTime();
+    if (diff > QC_CONFIG.GAP_MIN_MS) {
+      periods.push({ flag: 'gap', from, to, count: Math.round(diff / QC_CONFIG.INTERVAL_MS) - 1 });
+    }
+  }
+
+  periods.sort((a, b) => a.from.getTime() - b.from.getTime());
+  return { flags, periods };
+}
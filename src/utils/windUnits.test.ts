@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { convertWind, formatWind, formatWindThreshold, formatWindWithUnit, windAxisTicks, windToMs } from './windUnits';
+
+describe('formatWind', () => {
+  it('räknar om och skriver med decimalkomma', () => {
+    expect(formatWind(8.24, 'ms')).toBe('8,2');
+    expect(formatWind(10, 'kn')).toBe('19');
+    expect(formatWind(10, 'kmh')).toBe('36');
+    expect(formatWind(10, 'kn', 1)).toBe('19,4');
+    expect(formatWindWithUnit(5, 'kmh')).toBe('18 km/h');
+  });
+
+  it('Beaufort följer WMO-tabellens gränser och slutar på 12', () => {
+    expect(formatWind(0.2, 'bft')).toBe('0');
+    expect(formatWind(3.3, 'bft')).toBe('2');
+    expect(formatWind(3.5, 'bft')).toBe('3');
+    expect(formatWind(10.7, 'bft')).toBe('5');
+    expect(formatWind(10.9, 'bft')).toBe('6');
+    expect(formatWind(40, 'bft')).toBe('12');
+  });
+
+  it('trösklar i m/s visas som de är angivna', () => {
+    expect(formatWindThreshold(10, 'ms')).toBe('10');
+    expect(formatWindThreshold(7.5, 'ms')).toBe('7,5');
+    expect(formatWindThreshold(7.5, 'kn')).toBe('15');
+  });
+});
+
+describe('windToMs', () => {
+  it('är inversen av convertWind', () => {
+    for (const unit of ['ms', 'kn', 'kmh', 'bft'] as const) {
+      expect(windToMs(convertWind(12.3, unit), unit)).toBeCloseTo(12.3);
+    }
+  });
+});
+
+describe('windAxisTicks', () => {
+  it('ger jämna steg i vald enhet och minst 12 m/s topp', () => {
+    expect(windAxisTicks(5, 'ms')).toEqual([0, 3, 6, 9, 12]);
+    expect(windAxisTicks(5, 'kn').map(t => Math.round(convertWind(t, 'kn')))).toEqual([0, 5, 10, 15, 20, 25]);
+    expect(windAxisTicks(14, 'ms')).toEqual([0, 3, 6, 9, 12, 15]);
+  });
+});
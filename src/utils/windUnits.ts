@@ -0,0 +1,93 @@
+/**
+ * Vindenheter för visning. All data, alla skalor och larm är i m/s —
+ * omräkningen sker först när ett värde ska visas (text, grafaxlar).
+ * Beaufort räknas kontinuerligt (v = 0,836 · B^1,5) och avrundas till
+ * hela steg; 0,5-gränserna ger WMO-tabellens intervall.
+ */
+
+export type WindUnit = 'ms' | 'kn' | 'kmh' | 'bft';
+
+export const DEFAULT_WIND_UNIT: WindUnit = 'ms';
+
+export const WIND_UNIT_OPTIONS: Array<{ id: WindUnit; label: string; symbol: string }> = [
+  { id: 'ms', label: 'm/s', symbol: 'm/s' },
+  { id: 'kn', label: 'Knop', symbol: 'kn' },
+  { id: 'kmh', label: 'km/h', symbol: 'km/h' },
+  { id: 'bft', label: 'Beaufort', symbol: 'Bft' },
+];
+
+const MS_PER_KNOT = 1852 / 3600;
+const BEAUFORT_FACTOR = 0.836;
+const BEAUFORT_MAX = 12;
+
+/** Decimaler när inget annat anges — m/s som förut, övriga heltal */
+const DEFAULT_DECIMALS: Record<WindUnit, number> = { ms: 1, kn: 0, kmh: 0, bft: 0 };
+
+/** Axelsteg i vald enhet — grafernas ticks hamnar på jämna värden */
+const AXIS_STEPS = [1, 2, 3, 5, 10, 15, 20, 25, 50];
+const AXIS_MAX_INTERVALS = 5;
+
+export function convertWind(ms: number, unit: WindUnit): number {
+  switch (unit) {
+    case 'kn':
+      return ms / MS_PER_KNOT;
+    case 'kmh':
+      return ms * 3.6;
+    case 'bft':
+      return Math.pow(Math.max(0, ms) / BEAUFORT_FACTOR, 2 / 3);
+    default:
+      return ms;
+  }
+}
+
+/** Tillbaka till m/s (grafaxlarnas ticks) */
+export function windToMs(value: number, unit: WindUnit): number {
+  switch (unit) {
+    case 'kn':
+      return value * MS_PER_KNOT;
+    case 'kmh':
+      return value / 3.6;
+    case 'bft':
+      return BEAUFORT_FACTOR * Math.pow(Math.max(0, value), 1.5);
+    default:
+      return value;
+  }
+}
+
+export function windUnitSymbol(unit: WindUnit): string {
+  return WIND_UNIT_OPTIONS.find(option => option.id === unit)?.symbol ?? 'm/s';
+}
+
+/**
+ * Enhet för skillnader (fel, ändring) och inmatade gränser. Beaufort är
+ * stegvis och inte linjär — där används m/s.
+ */
+export function linearWindUnit(unit: WindUnit): WindUnit {
+  return unit === 'bft' ? 'ms' : unit;
+}
+
+/** Bara talet, med decimalkomma: 8,2 (m/s) · 16 (kn) · 5 (Bft) */
+export function formatWind(ms: number, unit: WindUnit, decimals: number = DEFAULT_DECIMALS[unit]): string {
+  if (unit === 'bft') return String(Math.min(BEAUFORT_MAX, Math.round(convertWind(ms, unit))));
+  return convertWind(ms, unit).toFixed(decimals).replace('.', ',');
+}
+
+export function formatWindWithUnit(ms: number, unit: WindUnit, decimals?: number): string {
+  return `${formatWind(ms, unit, decimals)} ${windUnitSymbol(unit)}`;
+}
+
+/** Skalans trösklar: m/s som de är angivna (10, 7,5), övriga enheter avrundade */
+export function formatWindThreshold(ms: number, unit: WindUnit): string {
+  return unit === 'ms' ? String(ms).replace('.', ',') : formatWind(ms, unit, 0);
+}
+
+/**
+ * Y-axelns ticks (i m/s) på jämna värden i vald enhet, 0 till minst
+ * minTopMs och med 1 m/s luft över datan. Sista ticket är axelns topp.
+ */
+export function windAxisTicks(maxMs: number, unit: WindUnit, minTopMs: number = 12): number[] {
+  const top = convertWind(Math.max(minTopMs, maxMs + 1), unit);
+  const step = AXIS_STEPS.find(s => Math.ceil(top / s) <= AXIS_MAX_INTERVALS) ?? AXIS_STEPS[AXIS_STEPS.length - 1];
+  const intervals = Math.ceil(top / step);
+  return Array.from({ length: intervals + 1 }, (_, i) => windToMs(i * step, unit));
+}
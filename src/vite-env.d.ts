@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+/** Commit-hash vid build (vite.config.ts) */
+declare const __APP_VERSION__: string;
+/** Byggtid, ISO 8601 */
+declare const __BUILD_TIME__: string;
@@ -4,24 +4,25 @@ export default {
     "./src/**/*.{jsx,tsx}",
     "./index.html"
   ],
-  darkMode: 'media',
+  darkMode: ['selector', '[data-theme="dark"]'],
   theme: {
     extend: {
       colors: {
+        // Paletten (ljus/mörk) bor i index.css — kanaler så att /50 m.fl. fungerar
         app: {
-          bg: '#fbfbf9',
-          surface: '#ffffff',
-          'surface-elevated': '#f3f3f1',
-          border: '#e0e0dc',
-          'border-muted': '#ececea',
-          text: '#1c1c1c',
-          muted: '#6b6b6b',
-          subtle: '#9a9a9a',
-          accent: '#0F3D9E',
-          'accent-green': '#00813E',
-          'nav-bg': '#1c1c1c',
-          'nav-muted': '#9a9a9a',
-          'nav-active': '#000000',
+          bg: 'rgb(var(--app-bg) / <alpha-value>)',
+          surface: 'rgb(var(--app-surface) / <alpha-value>)',
+          'surface-elevated': 'rgb(var(--app-surface-elevated) / <alpha-value>)',
+          border: 'rgb(var(--app-border) / <alpha-value>)',
+          'border-muted': 'rgb(var(--app-border-muted) / <alpha-value>)',
+          text: 'rgb(var(--app-text) / <alpha-value>)',
+          muted: 'rgb(var(--app-muted) / <alpha-value>)',
+          subtle: 'rgb(var(--app-subtle) / <alpha-value>)',
+          accent: 'rgb(var(--app-accent) / <alpha-value>)',
+          'accent-green': 'rgb(var(--app-accent-green) / <alpha-value>)',
+          'nav-bg': 'rgb(var(--app-nav-bg) / <alpha-value>)',
+          'nav-muted': 'rgb(var(--app-nav-muted) / <alpha-value>)',
+          'nav-active': 'rgb(var(--app-nav-active) / <alpha-value>)',
         },
         'kallsjon-blue': '#0036a7',
         'kallsjon-gray': '#f3f4f6',
@@ -1,20 +1,76 @@
-import { defineConfig } from 'vite'
+import { execSync } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import { readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createSmhiProxyHandler, resolveSmhiProxyMode } from './scripts/smhiProxy'
+
+/**
+ * Lokal stand-in för SMHI-proxyn (samma handler som HTTP-funktionen i prod).
+ * SMHI_PROXY_MODE=replay kör helt offline mot scripts/fixtures/smhi,
+ * SMHI_PROXY_MODE=record spelar in nya svar.
+ */
+function smhiProxy(): Plugin {
+  return {
+    name: 'smhi-proxy',
+    configureServer(server) {
+      const mode = resolveSmhiProxyMode(process.env.SMHI_PROXY_MODE)
+      const handler = createSmhiProxyHandler({ mode })
+      server.config.logger.info(`SMHI proxy: ${mode}`)
+      server.middlewares.use('/_proxy/smhi', (req, res) => {
+        handler(req, res).catch((error) => {
+          server.config.logger.error(`SMHI proxy failed: ${error}`)
+          res.statusCode = 500
+          res.end()
+        })
+      })
+    },
+  }
+}
+
+/** Filer från public/ som hör till app-skalet; index.html och assets kommer från bundlen */
+const PRECACHE_PUBLIC = ['/manifest.json?v=2', '/logo.png', '/favicon-32.png?v=2', '/apple-touch-icon.png?v=2']
+
+/**
+ * Skriver in app-skalets filer i dist/sw.js (platshållaren `PRECACHE_MANIFEST = null`).
+ * Nya hashade filnamn = ny sw.js, så webbläsaren installerar om och byter cache.
+ */
+function swPrecache(): Plugin {
+  return {
+    name: 'sw-precache',
+    apply: 'build',
+    async writeBundle(options, bundle) {
+      const swPath = join(options.dir ?? 'dist', 'sw.js')
+      const urls = Object.keys(bundle)
+        .filter((file) => !file.endsWith('.map'))
+        .map((file) => `/${file}`)
+        .sort()
+      const all = [...PRECACHE_PUBLIC, ...urls]
+      const version = createHash('sha256').update(all.join('\n')).digest('hex').slice(0, 12)
+      const source = await readFile(swPath, 'utf8')
+      await writeFile(swPath, source.replace('PRECACHE_MANIFEST = null', `PRECACHE_MANIFEST = ${JSON.stringify({ version, urls: all })}`))
+    },
+  }
+}
+
+/** Kort commit-hash för Inställningar → Om appen; 'dev' utan git (t.ex. i en tarball) */
+function appVersion(): string {
+  try {
+    return execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim()
+  } catch {
+    return 'dev'
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), smhiProxy(), swPrecache()],
+  define: {
+    __APP_VERSION__: JSON.stringify(appVersion()),
+    __BUILD_TIME__: JSON.stringify(new Date().toISOString()),
+  },
   server: {
-    proxy: {
-      // Avoid SMHI CORS issues in local dev by proxying via Vite.
-      // Usage: fetch('/_proxy/smhi/...') from the app.
-      '/_proxy/smhi': {
-        target: 'https://opendata-download-metfcst.smhi.se',
-        changeOrigin: true,
-        secure: true,
-        rewrite: (path) => path.replace(/^\/_proxy\/smhi/, ''),
-      },
-    },
     watch: {
       ignored: ['**/node_modules/**', '**/public/**']
     }